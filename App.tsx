@@ -1,64 +1,223 @@
 
 import React, { useReducer, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from "@google/genai";
-import * as pdfjsLib from 'pdfjs-dist/build/pdf.min.mjs';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import { InterviewState, TranscriptEntry } from './types';
-import { generateInterviewSummary, generateWelcomeAudio } from './services/geminiService';
-import { decode, decodeAudioData, createBlob, calculateRMS } from './utils/audio';
-import { PlayIcon, StopIcon, RobotIcon, UserIcon, UploadIcon, MicIcon, SpeakerIcon } from './components/IconComponents';
+import { LiveServerMessage } from "@google/genai";
+import { AnswerCritique, CoachingHints, FeedbackEmphasis, InterviewMaterials, InterviewSession, InterviewState, InterviewSummary, InterviewTemplate, PlanProgress, PracticeAttempt, QuestionPlan, TranscriptEntry, TurnTakingMode, AnswerMode, InterviewerPersona, Panelist, SummaryVersion } from './types';
+import { LiveInterviewSession } from './services/interviewBackend';
+import { relayBackend } from './services/relayBackend';
+import { decode, decodeAudioData, createPcmBlob, DEFAULT_VAD_CALIBRATION, VadCalibration } from './utils/audio';
+import { CaptureChunk, MicrophoneCapture } from './utils/micCapture';
+import { openMicrophone, setOutputDevice, useAudioDevices } from './utils/audioDevices';
+import { PlayIcon, StopIcon, PauseIcon, RobotIcon, UserIcon, HistoryIcon, TemplateIcon } from './components/IconComponents';
 import { getApiErrorMessage } from './utils/error';
+import { retryWithBackoff } from './utils/retry';
+import { formatDateTime, formatDuration } from './utils/format';
+import { locales, MessageKey, setUiLanguage, useI18n } from './utils/i18n';
+import { languageOptions } from './utils/languages';
+import { DEFAULT_PERSONA } from './utils/persona';
+import { findPanelist, normalizePanel, PASS_TO_PANELIST, personaForPanelist, validateHandover } from './utils/panel';
+import { clampDurationMinutes, MAX_DURATION_MINUTES, MIN_DURATION_MINUTES } from './utils/templates';
+import { QuestionAnswerPair } from './utils/critique';
+import { getSummaryVersions, PartialInterviewSummary } from './utils/summary';
+import { applyPlanToolCall, emptyPlanProgress, formatQuestionPlanText, parseQuestionPlan, validatePlanToolCall } from './utils/questionPlan';
+import { InterviewRecorder } from './utils/recorder';
+import { getRecording, saveRecording, saveSession } from './services/historyStore';
+import { StreamingSummaryReport, SummaryReport } from './components/SummaryReport';
+import { FeedbackControls } from './components/FeedbackControls';
+import { DeliveryDashboard } from './components/DeliveryDashboard';
+import { HistoryView } from './components/HistoryView';
+import { AnswerReview } from './components/AnswerReview';
+import { PracticeReview } from './components/PracticeReview';
+import { ExportMenu } from './components/ExportMenu';
+import { DocumentInput } from './components/DocumentInput';
+import { FocusAreasInput } from './components/FocusAreasInput';
+import { TemplateLibrary } from './components/TemplateLibrary';
+import { QuestionPlanInput } from './components/QuestionPlanInput';
+import { QuestionPlanRail, SkippedQuestions } from './components/QuestionPlanProgress';
+import { InterviewCountdown } from './components/InterviewCountdown';
+import { VoiceSettings } from './components/VoiceSettings';
+import { AudioControls } from './components/AudioControls';
+import { PreflightCheck } from './components/PreflightCheck';
+import { PersonaSettings } from './components/PersonaSettings';
+import { PanelSettings } from './components/PanelSettings';
+import { CoachingPanel } from './components/CoachingPanel';
+import { TurnControls } from './components/TurnControls';
+import { TypedAnswerInput } from './components/TypedAnswerInput';
+import { buildWrapUpInstruction } from './services/prompts';
 
-const languageOptions = [
-    { value: 'English', label: 'English' },
-    { value: 'Spanish', label: 'Español' },
-    { value: 'French', label: 'Français' },
-    { value: 'German', label: 'Deutsch' },
-    { value: 'Japanese', label: '日本語' },
-    { value: 'Mandarin Chinese', label: '普通话' },
-    { value: 'Hindi', label: 'हिन्दी' },
-    { value: 'Portuguese', label: 'Português' },
-];
+const interviewBackend = relayBackend;
 
-const SILENCE_THRESHOLD = 0.01; // Sensitivity for silence detection.
-const SILENCE_DURATION_MS = 1500; // 1.5 seconds of silence to trigger end of turn.
+const SPEAKING_HOLD_MS = 300; // Keeps the speaking indicator steady through short gaps between words.
+const MAX_WRAP_UP_LEAD_MS = 2 * 60 * 1000; // Ask the interviewer to wrap up at most 2 minutes before the end.
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_BASE_DELAY_MS = 1000; // Doubles with each attempt.
+const SUMMARY_ATTEMPTS = 3;
+const SUMMARY_RETRY_BASE_DELAY_MS = 2000; // Doubles with each attempt.
+const PRACTICE_DURATION_MINUTES = 5;
+
+// Transient failures are retried, so a brief outage does not cost the user their feedback.
+const generateSummaryWithRetry = (...args: Parameters<typeof interviewBackend.generateInterviewSummary>) =>
+    retryWithBackoff(() => interviewBackend.generateInterviewSummary(...args), {
+        attempts: SUMMARY_ATTEMPTS,
+        baseDelayMs: SUMMARY_RETRY_BASE_DELAY_MS,
+        signal: args[4].signal, // Cancelling the summary also ends any wait for a retry
+        onRetry: (attempt, err) => console.warn(`Summary attempt ${attempt} failed, retrying:`, err),
+    });
+
+// Adds a newly generated version of the feedback to a session and selects it.
+const withSummaryVersion = (session: InterviewSession, version: SummaryVersion): InterviewSession => ({
+    ...session,
+    summary: version.summary,
+    summaryVersions: [...getSummaryVersions(session), version],
+    summaryVersionId: version.id,
+});
+
+// How long before the end of a time-boxed interview the wrap-up cue is sent. Short interviews get a proportionally shorter wrap-up.
+const getWrapUpLeadMs = (durationMs: number) => Math.min(MAX_WRAP_UP_LEAD_MS, durationMs * 0.2);
+
+// Where a speaker's turn begins and ends in the recording, in milliseconds.
+interface TurnTiming {
+    startMs: number;
+    endMs: number;
+}
+
+const extendTurnTiming = (timing: TurnTiming | null, startMs: number, endMs: number): TurnTiming =>
+    timing ? { startMs: timing.startMs, endMs: Math.max(timing.endMs, endMs) } : { startMs, endMs };
+
+// A practice round re-answering one question from a finished interview.
+interface PracticeState {
+    question: string;
+    originalAnswer: string;
+    attempts: PracticeAttempt[];
+    returnTo: InterviewSession; // The finished interview to go back to afterwards
+    returnToRecording: Blob | null;
+}
 
 interface AppState {
     script: string;
+    resume: string;
+    jobDescription: string;
+    focusAreas: string[];
+    durationMinutes: number;
+    questionPlanText: string;
+    questionPlan: QuestionPlan | null; // Parsed from questionPlanText when the interview starts
+    planProgress: PlanProgress;
     interviewState: InterviewState;
     transcript: TranscriptEntry[];
     currentInterviewerText: string;
     currentUserText: string;
-    summary: string | null;
+    summary: InterviewSummary | null; // The selected version
+    summaryVersions: SummaryVersion[]; // Every version generated so far, oldest first
+    summaryVersionId: string | null;
+    summaryError: string | null; // Why the summary could not be generated; the transcript is kept either way
+    isGeneratingSummary: boolean;
+    streamingSummary: PartialInterviewSummary | null; // What has arrived of the version being generated
+    critiques: AnswerCritique[] | null; // Generated on demand from the FINISHED screen
     error: string | null;
     language: string;
+    persona: InterviewerPersona;
+    panel: Panelist[]; // Empty for a one-on-one interview
+    activePanelist: string | null; // The panelist currently speaking in a panel interview
+    coachingEnabled: boolean; // Live hints beside the interview, off by default
     micGain: number;
     speakerVolume: number;
+    inputDeviceId: string | null; // Null for the system default microphone
+    outputDeviceId: string | null; // Null for the system default speakers
+    deviceNotice: MessageKey | null; // Explains a device that went away during the interview
+    vadCalibration: VadCalibration | null;
+    endOfTurnPatienceMs: number; // Silence after speech that ends the candidate's turn
+    isUserSpeaking: boolean;
+    turnTakingMode: TurnTakingMode;
+    isAnswering: boolean; // Whether the mic is open in the manual turn-taking modes
+    answerMode: AnswerMode;
+    isTypingAnswers: boolean; // Typed answers are in use in the current interview, chosen or as a fallback
+    typedDraft: string; // The typed answer not yet sent, for coaching hints
+    micFallbackReason: MessageKey | null; // Explains why typed answers were switched on
+    isPaused: boolean;
+    pausedAt: number | null; // Epoch milliseconds
+    pausedTotalMs: number; // Time spent paused so far, which does not count against the time box
+    reconnectAttempt: number; // Non-zero while the live session is being re-established
+    practice: PracticeState | null;
+    sessionId: string | null;
+    startedAt: number | null;
+    endedAt: number | null;
+    recording: Blob | null;
 }
 
 type AppAction =
     | { type: 'SET_STATE'; payload: Partial<AppState> }
-    | { type: 'START_CONNECTING'; payload: { script: string; language: string } }
-    | { type: 'CONNECTION_ESTABLISHED' }
+    | { type: 'START_CONNECTING'; payload: InterviewMaterials & { language: string; durationMinutes: number; sessionId: string; panel: Panelist[]; activePanelist: string | null } }
+    | { type: 'CONNECTION_ESTABLISHED'; payload: { startedAt: number } }
     | { type: 'UPDATE_TRANSCRIPTIONS'; payload: { user: string; interviewer: string } }
-    | { type: 'FINALIZE_TURN'; payload: { user: string; interviewer: string } }
-    | { type: 'START_SUMMARIZING' }
-    | { type: 'FINISH_INTERVIEW'; payload: string }
+    | { type: 'ADD_TYPED_ANSWER'; payload: { text: string; startMs?: number; endMs?: number } }
+    | { type: 'PLAN_TOOL_CALL'; payload: { name?: string; args?: Record<string, unknown> } }
+    | { type: 'FINALIZE_TURN'; payload: { user: string; interviewer: string; panelist?: string; userTiming?: TurnTiming; interviewerTiming?: TurnTiming } }
+    | { type: 'PAUSE'; payload: { pausedAt: number } }
+    | { type: 'RESUME'; payload: { resumedAt: number } }
+    | { type: 'START_PRACTICE'; payload: Omit<PracticeState, 'attempts'> }
+    | { type: 'ADD_PRACTICE_ATTEMPT'; payload: PracticeAttempt }
+    | { type: 'START_SUMMARIZING'; payload: { endedAt: number; transcript: TranscriptEntry[] } }
+    | { type: 'GENERATE_SUMMARY' }
+    | { type: 'SUMMARY_PROGRESS'; payload: { sessionId: string | null; partial: PartialInterviewSummary } }
+    | { type: 'FINISH_INTERVIEW'; payload: { sessionId: string | null; version: SummaryVersion } }
+    | { type: 'SUMMARY_FAILED'; payload: { sessionId: string | null; error: string } }
+    | { type: 'SELECT_SUMMARY_VERSION'; payload: string }
     | { type: 'SET_ERROR'; payload: string }
+    | { type: 'SHOW_HISTORY' }
+    | { type: 'SHOW_TEMPLATES' }
+    | { type: 'APPLY_TEMPLATE'; payload: InterviewTemplate }
+    | { type: 'OPEN_SESSION'; payload: InterviewSession }
+    | { type: 'DUPLICATE_SESSION'; payload: InterviewMaterials & { language: string; durationMinutes: number; persona?: InterviewerPersona; panel?: Panelist[] } }
     | { type: 'RESET' };
 
 const initialState: AppState = {
     script: "Conduct a 15-minute interview for a senior product manager role. Focus on strategy, execution, and leadership. Start by introducing yourself.",
+    resume: '',
+    jobDescription: '',
+    focusAreas: [],
+    durationMinutes: 15,
+    questionPlanText: '',
+    questionPlan: null,
+    planProgress: emptyPlanProgress,
     interviewState: InterviewState.IDLE,
     transcript: [],
     currentInterviewerText: '',
     currentUserText: '',
     summary: null,
+    summaryVersions: [],
+    summaryVersionId: null,
+    summaryError: null,
+    isGeneratingSummary: false,
+    streamingSummary: null,
+    critiques: null,
     error: null,
     language: 'English',
+    persona: DEFAULT_PERSONA,
+    panel: [],
+    activePanelist: null,
+    coachingEnabled: false,
     micGain: 1,
     speakerVolume: 1,
+    inputDeviceId: null,
+    outputDeviceId: null,
+    deviceNotice: null,
+    vadCalibration: null,
+    endOfTurnPatienceMs: 1500,
+    isUserSpeaking: false,
+    turnTakingMode: 'auto',
+    isAnswering: false,
+    answerMode: 'voice',
+    isTypingAnswers: false,
+    typedDraft: '',
+    micFallbackReason: null,
+    isPaused: false,
+    pausedAt: null,
+    pausedTotalMs: 0,
+    reconnectAttempt: 0,
+    practice: null,
+    sessionId: null,
+    startedAt: null,
+    endedAt: null,
+    recording: null,
 };
 
 function appReducer(state: AppState, action: AppAction): AppState {
@@ -69,139 +228,278 @@ function appReducer(state: AppState, action: AppAction): AppState {
             return {
                 ...state,
                 script: action.payload.script,
+                resume: action.payload.resume,
+                jobDescription: action.payload.jobDescription,
+                focusAreas: action.payload.focusAreas,
+                questionPlan: action.payload.questionPlan,
+                planProgress: emptyPlanProgress,
                 language: action.payload.language,
+                durationMinutes: action.payload.durationMinutes,
+                panel: action.payload.panel,
+                activePanelist: action.payload.activePanelist,
+                sessionId: action.payload.sessionId,
+                startedAt: null,
+                endedAt: null,
+                recording: null,
                 interviewState: InterviewState.CONNECTING,
                 error: null,
                 transcript: [],
                 currentInterviewerText: '',
                 currentUserText: '',
                 summary: null,
+                summaryVersions: [],
+                summaryVersionId: null,
+                summaryError: null,
+                isGeneratingSummary: false,
+                streamingSummary: null,
+                critiques: null,
+                isUserSpeaking: false,
+                isAnswering: false,
+                isTypingAnswers: false,
+                typedDraft: '',
+                micFallbackReason: null,
+                deviceNotice: null,
+                isPaused: false,
+                pausedAt: null,
+                pausedTotalMs: 0,
+                reconnectAttempt: 0,
             };
         case 'CONNECTION_ESTABLISHED':
-            return { ...state, interviewState: InterviewState.IN_CONVERSATION };
+            return { ...state, interviewState: InterviewState.IN_CONVERSATION, startedAt: action.payload.startedAt };
         case 'UPDATE_TRANSCRIPTIONS':
             return {
                 ...state,
                 currentUserText: action.payload.user,
                 currentInterviewerText: action.payload.interviewer,
             };
+        case 'ADD_TYPED_ANSWER':
+            return { ...state, transcript: [...state.transcript, { speaker: 'You', typed: true, ...action.payload }] };
+        case 'PLAN_TOOL_CALL':
+            if (!state.questionPlan) return state;
+            return { ...state, planProgress: applyPlanToolCall(state.questionPlan, state.planProgress, action.payload.name, action.payload.args) };
         case 'FINALIZE_TURN':
             const newTranscript = [...state.transcript];
-            if (action.payload.user) newTranscript.push({ speaker: 'You', text: action.payload.user });
-            if (action.payload.interviewer) newTranscript.push({ speaker: 'Interviewer', text: action.payload.interviewer });
+            if (action.payload.user) newTranscript.push({ speaker: 'You', text: action.payload.user, ...action.payload.userTiming });
+            if (action.payload.interviewer) newTranscript.push({ speaker: 'Interviewer', text: action.payload.interviewer, ...(action.payload.panelist ? { panelist: action.payload.panelist } : {}), ...action.payload.interviewerTiming });
             return {
                 ...state,
                 transcript: newTranscript,
                 currentUserText: '',
                 currentInterviewerText: '',
             };
+        case 'PAUSE':
+            return { ...state, isPaused: true, pausedAt: action.payload.pausedAt, isAnswering: false, isUserSpeaking: false };
+        case 'RESUME':
+            return { ...state, isPaused: false, pausedAt: null, pausedTotalMs: state.pausedTotalMs + (state.pausedAt ? action.payload.resumedAt - state.pausedAt : 0) };
+        case 'START_PRACTICE':
+            return { ...state, practice: { ...action.payload, attempts: [] } };
+        case 'ADD_PRACTICE_ATTEMPT':
+            if (!state.practice) return state;
+            return {
+                ...state,
+                interviewState: InterviewState.PRACTICE_REVIEW,
+                practice: { ...state.practice, attempts: [...state.practice.attempts, action.payload] },
+            };
         case 'START_SUMMARIZING':
-            return { ...state, interviewState: InterviewState.SUMMARIZING };
+            return { ...state, interviewState: InterviewState.SUMMARIZING, endedAt: action.payload.endedAt, transcript: action.payload.transcript, currentUserText: '', currentInterviewerText: '', isPaused: false, pausedAt: null, reconnectAttempt: 0 };
+        // The summary streams into the FINISHED view, next to any earlier versions.
+        case 'GENERATE_SUMMARY':
+            return { ...state, interviewState: InterviewState.FINISHED, summaryError: null, isGeneratingSummary: true, streamingSummary: null };
+        // Summary results are dropped if the user has moved on to another interview in the meantime.
+        case 'SUMMARY_PROGRESS':
+            if (action.payload.sessionId !== state.sessionId || !state.isGeneratingSummary) return state;
+            return { ...state, streamingSummary: action.payload.partial };
         case 'FINISH_INTERVIEW':
-            return { ...state, interviewState: InterviewState.FINISHED, summary: action.payload };
+            if (action.payload.sessionId !== state.sessionId) return state;
+            return {
+                ...state,
+                interviewState: InterviewState.FINISHED,
+                summary: action.payload.version.summary,
+                summaryVersions: [...state.summaryVersions, action.payload.version],
+                summaryVersionId: action.payload.version.id,
+                summaryError: null,
+                isGeneratingSummary: false,
+                streamingSummary: null,
+            };
+        // A failed regeneration leaves the earlier versions in place.
+        case 'SUMMARY_FAILED':
+            if (action.payload.sessionId !== state.sessionId) return state;
+            return {
+                ...state,
+                interviewState: state.summary ? InterviewState.FINISHED : InterviewState.SUMMARY_FAILED,
+                summaryError: action.payload.error,
+                isGeneratingSummary: false,
+                streamingSummary: null,
+            };
+        case 'SELECT_SUMMARY_VERSION': {
+            const version = state.summaryVersions.find(v => v.id === action.payload);
+            if (!version) return state;
+            return { ...state, summary: version.summary, summaryVersionId: version.id, summaryError: null };
+        }
         case 'SET_ERROR':
-            return { ...state, interviewState: InterviewState.ERROR, error: action.payload };
+            return { ...state, interviewState: InterviewState.ERROR, error: action.payload, practice: null };
+        case 'SHOW_HISTORY':
+            return { ...state, interviewState: InterviewState.HISTORY, error: null };
+        case 'SHOW_TEMPLATES':
+            return { ...state, interviewState: InterviewState.TEMPLATES, error: null };
+        case 'APPLY_TEMPLATE':
+            return {
+                ...state,
+                interviewState: InterviewState.IDLE,
+                script: action.payload.script,
+                language: action.payload.language,
+                durationMinutes: action.payload.durationMinutes,
+                focusAreas: action.payload.focusAreas,
+            };
+        case 'OPEN_SESSION': {
+            const summaryVersions = getSummaryVersions(action.payload);
+            return {
+                ...state,
+                interviewState: InterviewState.FINISHED,
+                error: null,
+                sessionId: action.payload.id,
+                script: action.payload.script,
+                resume: action.payload.resume ?? '',
+                jobDescription: action.payload.jobDescription ?? '',
+                focusAreas: action.payload.focusAreas ?? [],
+                questionPlan: action.payload.questionPlan ?? null,
+                questionPlanText: formatQuestionPlanText(action.payload.questionPlan),
+                planProgress: action.payload.planProgress ?? emptyPlanProgress,
+                durationMinutes: action.payload.plannedDurationMinutes ?? state.durationMinutes,
+                language: action.payload.language,
+                persona: action.payload.persona ?? state.persona,
+                panel: action.payload.panel ?? state.panel,
+                coachingEnabled: action.payload.coachingEnabled ?? false,
+                transcript: action.payload.transcript,
+                summary: action.payload.summary,
+                summaryVersions,
+                summaryVersionId: action.payload.summaryVersionId ?? summaryVersions[summaryVersions.length - 1]?.id ?? null,
+                summaryError: null,
+                isGeneratingSummary: false,
+                streamingSummary: null,
+                critiques: action.payload.critiques ?? null,
+                startedAt: action.payload.startedAt,
+                endedAt: action.payload.endedAt,
+                recording: null,
+                currentInterviewerText: '',
+                currentUserText: '',
+            };
+        }
+        case 'DUPLICATE_SESSION':
+            return {
+                ...initialState,
+                ...action.payload,
+                questionPlanText: formatQuestionPlanText(action.payload.questionPlan),
+                persona: action.payload.persona ?? state.persona,
+                panel: action.payload.panel ?? state.panel,
+                coachingEnabled: state.coachingEnabled,
+                micGain: state.micGain,
+                speakerVolume: state.speakerVolume,
+                inputDeviceId: state.inputDeviceId,
+                outputDeviceId: state.outputDeviceId,
+                vadCalibration: state.vadCalibration,
+                endOfTurnPatienceMs: state.endOfTurnPatienceMs,
+                turnTakingMode: state.turnTakingMode,
+                answerMode: state.answerMode,
+            };
         case 'RESET':
-            return initialState;
+            // Device settings outlive a single interview.
+            return {
+                ...initialState,
+                persona: state.persona,
+                panel: state.panel,
+                coachingEnabled: state.coachingEnabled,
+                micGain: state.micGain,
+                speakerVolume: state.speakerVolume,
+                inputDeviceId: state.inputDeviceId,
+                outputDeviceId: state.outputDeviceId,
+                vadCalibration: state.vadCalibration,
+                endOfTurnPatienceMs: state.endOfTurnPatienceMs,
+                turnTakingMode: state.turnTakingMode,
+                answerMode: state.answerMode,
+            };
         default:
             return state;
     }
 }
 
-const AudioControls = ({ micGain, onMicGainChange, speakerVolume, onSpeakerVolumeChange }: {
-    micGain: number;
-    onMicGainChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-    speakerVolume: number;
-    onSpeakerVolumeChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-}) => (
-    <div className="flex flex-col sm:flex-row gap-6">
-        <div className="flex-1">
-            <label htmlFor="mic-gain" className="flex items-center text-sm font-medium text-gray-300 mb-2">
-                <MicIcon className="h-5 w-5 mr-2" /> Microphone Sensitivity
-            </label>
-            <input
-                id="mic-gain"
-                type="range"
-                min="0"
-                max="2"
-                step="0.1"
-                value={micGain}
-                onChange={onMicGainChange}
-                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
-                aria-label="Microphone Sensitivity"
-            />
-        </div>
-        <div className="flex-1">
-            <label htmlFor="speaker-volume" className="flex items-center text-sm font-medium text-gray-300 mb-2">
-                <SpeakerIcon className="h-5 w-5 mr-2" /> Speaker Volume
-            </label>
-            <input
-                id="speaker-volume"
-                type="range"
-                min="0"
-                max="2"
-                step="0.1"
-                value={speakerVolume}
-                onChange={onSpeakerVolumeChange}
-                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
-                aria-label="Speaker Volume"
-            />
+// Shows whether the microphone currently hears the candidate as speaking.
+const VoiceActivityIndicator = ({ speaking }: { speaking: boolean }) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex items-center gap-2 text-sm" role="status" aria-live="polite">
+            <span className={`h-3 w-3 rounded-full ${speaking ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`} />
+            <span className={speaking ? 'text-green-300' : 'text-gray-400'}>{speaking ? t('audio.hearingYou') : t('audio.silent')}</span>
         </div>
-    </div>
-);
-
+    );
+};
 
 const App: React.FC = () => {
     const [state, dispatch] = useReducer(appReducer, initialState);
-    const { script, interviewState, transcript, currentInterviewerText, currentUserText, summary, error, language, micGain, speakerVolume } = state;
+    const { t, locale: uiLocale } = useI18n();
+    const audioDevices = useAudioDevices();
+    const { refresh: refreshAudioDevices } = audioDevices;
+    const { script, resume, jobDescription, focusAreas, durationMinutes, questionPlanText, questionPlan, planProgress, interviewState, transcript, currentInterviewerText, currentUserText, summary, summaryVersions, summaryVersionId, summaryError, isGeneratingSummary, streamingSummary, critiques, error, language, persona, panel, activePanelist, coachingEnabled, micGain, speakerVolume, inputDeviceId, outputDeviceId, deviceNotice, vadCalibration, endOfTurnPatienceMs, isUserSpeaking, turnTakingMode, isAnswering, answerMode, isTypingAnswers, micFallbackReason, typedDraft, isPaused, pausedAt, pausedTotalMs, reconnectAttempt, practice, sessionId, startedAt, endedAt, recording } = state;
 
-    const sessionPromise = useRef<Promise<any> | null>(null);
+    const sessionPromise = useRef<Promise<LiveInterviewSession> | null>(null);
     const inputAudioContext = useRef<AudioContext | null>(null);
     const outputAudioContext = useRef<AudioContext | null>(null);
-    const scriptProcessorNode = useRef<ScriptProcessorNode | null>(null);
+    const micCapture = useRef<MicrophoneCapture | null>(null);
     const mediaStreamSource = useRef<MediaStreamAudioSourceNode | null>(null);
     const inputGainNode = useRef<GainNode | null>(null);
+    const micAnalyser = useRef<AnalyserNode | null>(null);
     const outputGainNode = useRef<GainNode | null>(null);
     const userMediaStream = useRef<MediaStream | null>(null);
-    const fileInputRef = useRef<HTMLInputElement>(null);
+    const recorder = useRef<InterviewRecorder | null>(null);
+    const recordingMicSource = useRef<MediaStreamAudioSourceNode | null>(null);
+    const summaryAbortController = useRef<AbortController | null>(null);
     const transcriptEndRef = useRef<HTMLDivElement>(null);
+    const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const reconnectAttemptRef = useRef(0);
+    const transcriptRef = useRef<TranscriptEntry[]>([]);
+    const handleStopConversationRef = useRef<() => void>(() => {});
+    const handleMicrophoneLostRef = useRef<() => void>(() => {});
 
-    // Fix: Use ReturnType<typeof setTimeout> for the timer reference to ensure browser compatibility.
-    const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const hasSpokenInTurnRef = useRef(false);
+    const wrapUpSentRef = useRef(false);
     const isSilentRef = useRef(false);
+    const isUserSpeakingRef = useRef(false);
+    const isAnsweringRef = useRef(false);
 
     const currentInterviewerTextRef = useRef('');
     const currentUserTextRef = useRef('');
+    const interviewerTurnTimingRef = useRef<TurnTiming | null>(null);
+    const userTurnTimingRef = useRef<TurnTiming | null>(null);
+    const activePanelistRef = useRef<Panelist | null>(null);
     
     const audioSources = useRef<Set<AudioBufferSourceNode>>(new Set());
     const nextStartTime = useRef(0);
 
-    useEffect(() => {
-        try {
-            pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs';
-        } catch (e) {
-            console.error("Failed to set PDF.js worker source.", e);
-        }
-    }, []);
-
     useEffect(() => {
         transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [transcript, currentInterviewerText, currentUserText]);
 
+    // Live session callbacks outlive the render they were created in, so they read the transcript through a ref.
+    useEffect(() => {
+        transcriptRef.current = transcript;
+    }, [transcript]);
+
     const cleanupAudio = useCallback(() => {
-        if (silenceTimerRef.current) {
-            clearTimeout(silenceTimerRef.current);
-            silenceTimerRef.current = null;
+        if (reconnectTimerRef.current) {
+            clearTimeout(reconnectTimerRef.current);
+            reconnectTimerRef.current = null;
         }
         if (sessionPromise.current) {
             sessionPromise.current.then(session => session.close()).catch(console.error);
             sessionPromise.current = null;
         }
-        scriptProcessorNode.current?.disconnect();
+        micCapture.current?.disconnect();
         mediaStreamSource.current?.disconnect();
         inputGainNode.current?.disconnect();
+        micAnalyser.current?.disconnect();
         outputGainNode.current?.disconnect();
+        recordingMicSource.current?.disconnect();
+        recorder.current?.stop().catch(console.error);
         userMediaStream.current?.getTracks().forEach(track => track.stop());
         inputAudioContext.current?.close().catch(console.error);
         outputAudioContext.current?.close().catch(console.error);
@@ -210,230 +508,571 @@ const App: React.FC = () => {
         audioSources.current.clear();
         nextStartTime.current = 0;
         
-        scriptProcessorNode.current = null;
+        micCapture.current = null;
         mediaStreamSource.current = null;
         inputGainNode.current = null;
+        micAnalyser.current = null;
         outputGainNode.current = null;
+        recordingMicSource.current = null;
+        recorder.current = null;
         userMediaStream.current = null;
         inputAudioContext.current = null;
         outputAudioContext.current = null;
     }, []);
 
-    const handleStopConversation = useCallback(async () => {
-        cleanupAudio();
-        dispatch({ type: 'START_SUMMARIZING' });
+    // Moves a running interview to another microphone, keeping the gain, voice detection and recording in place.
+    const switchMicrophone = useCallback(async (deviceId: string | null) => {
+        if (!userMediaStream.current) return;
+        let stream: MediaStream;
+        try {
+            stream = await openMicrophone(deviceId);
+        } catch (err) {
+            console.error('Failed to switch microphone:', err);
+            dispatch({ type: 'SET_STATE', payload: { deviceNotice: 'devices.micUnavailable' } });
+            return;
+        }
+        // The interview may have ended while the microphone was opening.
+        if (!userMediaStream.current || !inputAudioContext.current || !outputAudioContext.current) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        userMediaStream.current.getTracks().forEach(track => track.stop());
+        userMediaStream.current = stream;
+        stream.getAudioTracks()[0]?.addEventListener('ended', () => handleMicrophoneLostRef.current());
+        // Before the session opens the microphone is only wired into the recording.
+        if (mediaStreamSource.current && inputGainNode.current) {
+            mediaStreamSource.current.disconnect();
+            mediaStreamSource.current = inputAudioContext.current.createMediaStreamSource(stream);
+            mediaStreamSource.current.connect(inputGainNode.current);
+        }
+        if (recordingMicSource.current && recorder.current) {
+            recordingMicSource.current.disconnect();
+            recordingMicSource.current = outputAudioContext.current.createMediaStreamSource(stream);
+            recordingMicSource.current.connect(recorder.current.input);
+        }
+    }, []);
+
+    // An unplugged microphone ends its track; the interview carries on with the default one.
+    useEffect(() => {
+        handleMicrophoneLostRef.current = () => {
+            dispatch({ type: 'SET_STATE', payload: { inputDeviceId: null, deviceNotice: 'devices.micDisconnected' } });
+            switchMicrophone(null);
+        };
+    }, [switchMicrophone]);
+
+    // Forgets devices that have been unplugged. Speakers in use fall back to the default output.
+    useEffect(() => {
+        if (outputDeviceId && audioDevices.outputs.length && !audioDevices.outputs.some(device => device.deviceId === outputDeviceId)) {
+            const inUse = outputAudioContext.current !== null;
+            dispatch({ type: 'SET_STATE', payload: { outputDeviceId: null, ...(inUse ? { deviceNotice: 'devices.speakersDisconnected' as const } : {}) } });
+            if (outputAudioContext.current) setOutputDevice(outputAudioContext.current, null);
+        }
+        if (inputDeviceId && audioDevices.inputs.length && !audioDevices.inputs.some(device => device.deviceId === inputDeviceId)) {
+            dispatch({ type: 'SET_STATE', payload: { inputDeviceId: null } });
+        }
+    }, [audioDevices, inputDeviceId, outputDeviceId]);
+
+    const handleInputDeviceChange = (deviceId: string | null) => {
+        dispatch({ type: 'SET_STATE', payload: { inputDeviceId: deviceId, deviceNotice: null } });
+        switchMicrophone(deviceId);
+    };
+
+    const handleOutputDeviceChange = (deviceId: string | null) => {
+        dispatch({ type: 'SET_STATE', payload: { outputDeviceId: deviceId, deviceNotice: null } });
+        if (outputAudioContext.current) setOutputDevice(outputAudioContext.current, deviceId);
+    };
+
+    // Opens the mic for an answer in the manual turn-taking modes.
+    const startAnswer = useCallback(() => {
+        if (isAnsweringRef.current || !sessionPromise.current) return;
+        isAnsweringRef.current = true;
+        dispatch({ type: 'SET_STATE', payload: { isAnswering: true } });
+        sessionPromise.current.then(session => session.sendRealtimeInput({ activityStart: {} }));
+    }, []);
+
+    // Closes the mic and tells the session the answer is over.
+    const finishAnswer = useCallback(() => {
+        if (!isAnsweringRef.current || !sessionPromise.current) return;
+        isAnsweringRef.current = false;
+        dispatch({ type: 'SET_STATE', payload: { isAnswering: false } });
+        sessionPromise.current.then(session => session.sendRealtimeInput({ activityEnd: {} }));
+    }, []);
+
+    // The turn still being transcribed, as transcript entries.
+    const pendingTurnEntries = (): TranscriptEntry[] => [
+        ...(currentUserTextRef.current.trim() ? [{ speaker: 'You' as const, text: currentUserTextRef.current.trim(), ...userTurnTimingRef.current }] : []),
+        ...(currentInterviewerTextRef.current.trim() ? [{
+            speaker: 'Interviewer' as const,
+            text: currentInterviewerTextRef.current.trim(),
+            ...(activePanelistRef.current ? { panelist: activePanelistRef.current.name } : {}),
+            ...interviewerTurnTimingRef.current,
+        }] : []),
+    ];
+
+    // Moves the turn still being transcribed into the transcript.
+    const flushCurrentTurn = useCallback(() => {
+        dispatch({ type: 'FINALIZE_TURN', payload: {
+            user: currentUserTextRef.current.trim(),
+            interviewer: currentInterviewerTextRef.current.trim(),
+            panelist: activePanelistRef.current?.name,
+            userTiming: userTurnTimingRef.current ?? undefined,
+            interviewerTiming: interviewerTurnTimingRef.current ?? undefined,
+        }});
+        currentUserTextRef.current = '';
+        currentInterviewerTextRef.current = '';
+        userTurnTimingRef.current = null;
+        interviewerTurnTimingRef.current = null;
+    }, []);
+
+    // Streams a new version of the feedback into the FINISHED view. Resolves to null if it failed or was cancelled.
+    const generateSummaryVersion = useCallback(async (summaryTranscript: TranscriptEntry[], summaryLanguage: string, emphasis: FeedbackEmphasis): Promise<SummaryVersion | null> => {
+        const controller = new AbortController();
+        summaryAbortController.current = controller;
+        dispatch({ type: 'GENERATE_SUMMARY' });
         try {
-            const finalTranscript: TranscriptEntry[] = [
-                ...transcript,
-                ...(currentUserTextRef.current.trim() ? [{ speaker: 'You', text: currentUserTextRef.current.trim() }] : []),
-                ...(currentInterviewerTextRef.current.trim() ? [{ speaker: 'Interviewer', text: currentInterviewerTextRef.current.trim() }] : []),
-            ];
-            const result = await generateInterviewSummary(finalTranscript, language);
-            dispatch({ type: 'FINISH_INTERVIEW', payload: result });
+            const result = await generateSummaryWithRetry(summaryTranscript, summaryLanguage, { script, resume, jobDescription, focusAreas, questionPlan }, { panel, coachingEnabled }, {
+                emphasis,
+                signal: controller.signal,
+                onProgress: partial => dispatch({ type: 'SUMMARY_PROGRESS', payload: { sessionId, partial } }),
+            });
+            const version: SummaryVersion = { id: crypto.randomUUID(), summary: result, language: summaryLanguage, emphasis, createdAt: Date.now() };
+            dispatch({ type: 'FINISH_INTERVIEW', payload: { sessionId, version } });
+            return version;
         } catch (err: unknown) {
-            const message = err instanceof Error ? err.message : 'Failed to generate summary.';
-            dispatch({ type: 'SET_ERROR', payload: message });
+            if (controller.signal.aborted) {
+                dispatch({ type: 'SUMMARY_FAILED', payload: { sessionId, error: t('app.feedbackCancelled') } });
+            } else {
+                console.error('Failed to generate interview summary:', err);
+                dispatch({ type: 'SUMMARY_FAILED', payload: { sessionId, error: getApiErrorMessage(err, 'summary') } });
+            }
+            return null;
+        } finally {
+            if (summaryAbortController.current === controller) summaryAbortController.current = null;
         }
-    }, [cleanupAudio, transcript, language]);
+    }, [script, resume, jobDescription, focusAreas, questionPlan, panel, coachingEnabled, sessionId, t]);
 
-    const handleStartConversation = useCallback(async () => {
-        if (script.trim() === '') {
-            dispatch({ type: 'SET_ERROR', payload: "Please provide an interview topic or script." });
+    // Generation still running for an interview the user has left is of no use to anyone.
+    useEffect(() => () => summaryAbortController.current?.abort(), [sessionId]);
+
+    const handleStopConversation = useCallback(async () => {
+        const recordingPromise = recorder.current?.stop() ?? Promise.resolve(null);
+        cleanupAudio();
+        const stoppedAt = Date.now();
+        const finalTranscript: TranscriptEntry[] = [...transcript, ...pendingTurnEntries()];
+        dispatch({ type: 'START_SUMMARIZING', payload: { endedAt: stoppedAt, transcript: finalTranscript } });
+
+        // Practice rounds are compared with earlier attempts instead of being summarized and saved.
+        if (practice) {
+            const answer = finalTranscript.filter(entry => entry.speaker === 'You').map(entry => entry.text).join(' ');
+            let comparison: string | null = null;
+            try {
+                comparison = await interviewBackend.comparePracticeAttempts(practice.question, [practice.originalAnswer, ...practice.attempts.map(attempt => attempt.answer), answer], language);
+            } catch (err) {
+                console.error('Failed to compare practice attempts:', err);
+            }
+            dispatch({ type: 'ADD_PRACTICE_ATTEMPT', payload: { transcript: finalTranscript, answer, comparison } });
+            return;
+        }
+
+        const session: InterviewSession = {
+            id: sessionId ?? crypto.randomUUID(),
+            script,
+            resume,
+            jobDescription,
+            focusAreas,
+            questionPlan,
+            planProgress,
+            plannedDurationMinutes: durationMinutes,
+            language,
+            persona,
+            panel,
+            coachingEnabled,
+            transcript: finalTranscript,
+            summary: null,
+            startedAt: startedAt ?? stoppedAt,
+            endedAt: stoppedAt,
+            durationMs: stoppedAt - (startedAt ?? stoppedAt),
+        };
+        // Save the transcript right away so it survives a failed summary.
+        saveSession(session).catch(err => console.error('Failed to save interview:', err));
+        recordingPromise.then(blob => {
+            if (!blob) return;
+            dispatch({ type: 'SET_STATE', payload: { recording: blob } });
+            saveRecording(session.id, blob).catch(err => console.error('Failed to save interview recording:', err));
+        }).catch(err => console.error('Failed to finish recording:', err));
+        const version = await generateSummaryVersion(finalTranscript, language, 'balanced');
+        if (version) {
+            saveSession(withSummaryVersion(session, version)).catch(err => console.error('Failed to save interview summary:', err));
+        }
+    }, [cleanupAudio, transcript, practice, language, persona, panel, coachingEnabled, script, resume, jobDescription, focusAreas, questionPlan, planProgress, durationMinutes, sessionId, startedAt, generateSummaryVersion]);
+
+    useEffect(() => {
+        handleStopConversationRef.current = handleStopConversation;
+    }, [handleStopConversation]);
+
+    // Voice interviews start with a check that the microphone and speakers work.
+    const handleBeginInterview = () => {
+        if (!script.trim() && !resume.trim() && !jobDescription.trim()) {
+            dispatch({ type: 'SET_ERROR', payload: t('error.missingMaterials') });
+            return;
+        }
+        if (answerMode === 'typed') {
+            handleStartConversation();
+            return;
+        }
+        dispatch({ type: 'SET_STATE', payload: { interviewState: InterviewState.PREFLIGHT, error: null } });
+    };
+
+    // With a practice question, runs a short round that asks only that question.
+    const handleStartConversation = useCallback(async (practiceQuestion?: string) => {
+        if (!script.trim() && !resume.trim() && !jobDescription.trim()) {
+            dispatch({ type: 'SET_ERROR', payload: t('error.missingMaterials') });
             return;
         }
         
-        dispatch({ type: 'START_CONNECTING', payload: { script, language } });
+        const questionPlan = practiceQuestion ? null : parseQuestionPlan(questionPlanText);
+        const plannedMinutes = practiceQuestion ? PRACTICE_DURATION_MINUTES : clampDurationMinutes(durationMinutes);
+        // Practice rounds are always one-on-one.
+        const sessionPanel = practiceQuestion ? [] : normalizePanel(panel);
+        activePanelistRef.current = sessionPanel[0] ?? null;
+        dispatch({ type: 'START_CONNECTING', payload: { script, resume, jobDescription, focusAreas, questionPlan, language, durationMinutes: plannedMinutes, sessionId: crypto.randomUUID(), panel: sessionPanel, activePanelist: activePanelistRef.current?.name ?? null } });
+        wrapUpSentRef.current = false;
+        reconnectAttemptRef.current = 0;
+        isUserSpeakingRef.current = false;
+        isAnsweringRef.current = false;
         currentInterviewerTextRef.current = '';
         currentUserTextRef.current = '';
+        interviewerTurnTimingRef.current = null;
+        userTurnTimingRef.current = null;
 
         try {
-            if (!process.env.API_KEY) throw new Error("API key not configured.");
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            
             outputAudioContext.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             outputGainNode.current = outputAudioContext.current.createGain();
             outputGainNode.current.gain.value = speakerVolume;
             outputGainNode.current.connect(outputAudioContext.current.destination);
+            await setOutputDevice(outputAudioContext.current, outputDeviceId);
             nextStartTime.current = 0;
 
-            generateWelcomeAudio(language).then(async (welcomeAudioBase64) => {
-                if (welcomeAudioBase64 && outputAudioContext.current && outputGainNode.current) {
-                    try {
-                        const audioBuffer = await decodeAudioData(decode(welcomeAudioBase64), outputAudioContext.current, 24000, 1);
-                        const source = outputAudioContext.current.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(outputGainNode.current);
-                        source.start();
-                    } catch (audioError) {
-                        console.error("Failed to play welcome audio:", audioError);
+            if (!practiceQuestion) {
+                const welcomePersona = activePanelistRef.current ? personaForPanelist(persona, activePanelistRef.current) : persona;
+                interviewBackend.generateWelcomeAudio(language, welcomePersona).then(async (welcomeAudioBase64) => {
+                    if (welcomeAudioBase64 && outputAudioContext.current && outputGainNode.current) {
+                        try {
+                            const audioBuffer = await decodeAudioData(decode(welcomeAudioBase64), outputAudioContext.current, 24000, 1);
+                            const source = outputAudioContext.current.createBufferSource();
+                            source.buffer = audioBuffer;
+                            source.connect(outputGainNode.current);
+                            source.start();
+                        } catch (audioError) {
+                            console.error("Failed to play welcome audio:", audioError);
+                        }
                     }
+                });
+            }
+
+            let isTypingAnswers = answerMode === 'typed';
+            if (!isTypingAnswers) {
+                try {
+                    userMediaStream.current = await openMicrophone(inputDeviceId);
+                    userMediaStream.current.getAudioTracks()[0]?.addEventListener('ended', () => handleMicrophoneLostRef.current());
+                    refreshAudioDevices();
+                } catch (micError) {
+                    // Without a usable microphone the candidate can still take the interview by typing.
+                    if (!(micError instanceof Error) || (micError.name !== 'NotAllowedError' && micError.name !== 'NotFoundError')) throw micError;
+                    console.warn('Microphone unavailable, switching to typed answers:', micError);
+                    isTypingAnswers = true;
+                    dispatch({ type: 'SET_STATE', payload: { micFallbackReason: micError.name === 'NotAllowedError' ? 'app.micDeniedFallback' : 'app.micNotFoundFallback' } });
+                }
+            }
+            dispatch({ type: 'SET_STATE', payload: { isTypingAnswers } });
+
+            const handleCaptureChunk = (chunk: CaptureChunk) => {
+                const speaking = chunk.silenceMs < SPEAKING_HOLD_MS;
+                if (speaking !== isUserSpeakingRef.current) {
+                    isUserSpeakingRef.current = speaking;
+                    dispatch({ type: 'SET_STATE', payload: { isUserSpeaking: speaking } });
+                }
+
+                if (chunk.speech) {
+                    isSilentRef.current = false;
+                    if (recorder.current) {
+                        const nowMs = recorder.current.offsetMs();
+                        userTurnTimingRef.current = extendTurnTiming(userTurnTimingRef.current, nowMs, nowMs);
+                    }
+                } else if (turnTakingMode === 'auto' && !isSilentRef.current && hasSpokenInTurnRef.current && chunk.silenceMs >= endOfTurnPatienceMs) {
+                    // Silence timeout reached: stop streaming and tell the session the answer is over
+                    isSilentRef.current = true;
+                    sessionPromise.current?.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
                 }
-            });
 
-            userMediaStream.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-            inputAudioContext.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            inputGainNode.current = inputAudioContext.current.createGain();
-            inputGainNode.current.gain.value = micGain;
+                // In the manual modes the mic is only open while the candidate holds or toggles it.
+                const isStreaming = turnTakingMode === 'auto' ? !isSilentRef.current : isAnsweringRef.current;
+                if (isStreaming) {
+                    const pcmBlob = createPcmBlob(chunk.pcm);
+                    sessionPromise.current?.then((session) => {
+                        session.sendRealtimeInput({ media: pcmBlob });
+                    });
+                }
+            };
+
+            if (userMediaStream.current) {
+                // The capture worklet resamples to 16 kHz, so the context can run at the device's native rate.
+                inputAudioContext.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+                inputGainNode.current = inputAudioContext.current.createGain();
+                inputGainNode.current.gain.value = micGain;
+                micAnalyser.current = inputAudioContext.current.createAnalyser();
+                inputGainNode.current.connect(micAnalyser.current);
+                micCapture.current = await MicrophoneCapture.create(inputAudioContext.current, vadCalibration ?? DEFAULT_VAD_CALIBRATION, handleCaptureChunk);
+            }
+
+            // Mix both sides of the conversation into one recording on the output context.
+            recorder.current = new InterviewRecorder(outputAudioContext.current);
+            outputGainNode.current.connect(recorder.current.input);
+            if (userMediaStream.current) {
+                recordingMicSource.current = outputAudioContext.current.createMediaStreamSource(userMediaStream.current);
+                recordingMicSource.current.connect(recorder.current.input);
+            }
             
-            sessionPromise.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                callbacks: {
-                    onopen: () => {
-                        dispatch({ type: 'CONNECTION_ESTABLISHED' });
-                        const source = inputAudioContext.current!.createMediaStreamSource(userMediaStream.current!);
-                        mediaStreamSource.current = source;
-                        const processor = inputAudioContext.current!.createScriptProcessor(4096, 1, 1);
-                        scriptProcessorNode.current = processor;
-                        
-                        processor.onaudioprocess = (audioProcessingEvent) => {
-                            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                            const rms = calculateRMS(inputData);
-                            if (rms > SILENCE_THRESHOLD) {
-                                // User is speaking
-                                if (silenceTimerRef.current) {
-                                    clearTimeout(silenceTimerRef.current);
-                                    silenceTimerRef.current = null;
-                                }
-                                isSilentRef.current = false;
-                            } else {
-                                // User is silent
-                                if (hasSpokenInTurnRef.current && !silenceTimerRef.current) {
-                                    silenceTimerRef.current = setTimeout(() => {
-                                        // Silence timeout reached, assume end of turn by stopping audio stream
-                                        isSilentRef.current = true;
-                                    }, SILENCE_DURATION_MS);
+            let hasConnected = false;
+
+            // Opens the live session. After a dropped connection or a hand-over between panelists, priorTranscript lets the interviewer pick up where it left off.
+            const connect = (priorTranscript?: TranscriptEntry[], handoverFrom?: string) => {
+                const promise = interviewBackend.connectLiveSession({
+                    script,
+                    resume,
+                    jobDescription,
+                    focusAreas,
+                    questionPlan,
+                    language,
+                    durationMinutes: plannedMinutes,
+                    manualTurnTaking: isTypingAnswers || turnTakingMode !== 'auto',
+                    priorTranscript,
+                    practiceQuestion,
+                    persona,
+                    panel: activePanelistRef.current ? { panelists: sessionPanel, active: activePanelistRef.current, handoverFrom } : undefined,
+                    callbacks: {
+                        onopen: () => {
+                            reconnectAttemptRef.current = 0;
+                            if (hasConnected) {
+                                dispatch({ type: 'SET_STATE', payload: { reconnectAttempt: 0 } });
+                                return;
+                            }
+                            hasConnected = true;
+                            dispatch({ type: 'CONNECTION_ESTABLISHED', payload: { startedAt: Date.now() } });
+                            recorder.current?.start();
+                            if (!userMediaStream.current || !inputAudioContext.current) return;
+                            const source = inputAudioContext.current.createMediaStreamSource(userMediaStream.current);
+                            mediaStreamSource.current = source;
+                            source.connect(inputGainNode.current!);
+                            inputGainNode.current!.connect(micCapture.current!.input);
+                        },
+                        onmessage: async (message: LiveServerMessage) => {
+                            // A session that has been handed over or dropped may still deliver a few messages.
+                            if (sessionPromise.current !== promise) return;
+                            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData.data;
+                            if (base64Audio && outputAudioContext.current && outputGainNode.current) {
+                                nextStartTime.current = Math.max(nextStartTime.current, outputAudioContext.current.currentTime);
+                                const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContext.current, 24000, 1);
+                                const source = outputAudioContext.current.createBufferSource();
+                                source.buffer = audioBuffer;
+                                source.connect(outputGainNode.current);
+                                source.addEventListener('ended', () => audioSources.current.delete(source));
+                                const startTime = nextStartTime.current;
+                                source.start(startTime);
+                                nextStartTime.current += audioBuffer.duration;
+                                audioSources.current.add(source);
+                                if (recorder.current) {
+                                    interviewerTurnTimingRef.current = extendTurnTiming(interviewerTurnTimingRef.current, recorder.current.offsetMs(startTime), recorder.current.offsetMs(nextStartTime.current));
                                 }
                             }
-                            
-                            if (!isSilentRef.current) {
-                                const pcmBlob = createBlob(inputData);
-                                sessionPromise.current?.then((session) => {
-                                    session.sendRealtimeInput({ media: pcmBlob });
+
+                            if (message.toolCall?.functionCalls?.length) {
+                                let nextPanelist: Panelist | undefined;
+                                const functionResponses = message.toolCall.functionCalls.map(call => {
+                                    let callError: string | null;
+                                    if (call.name === PASS_TO_PANELIST) {
+                                        const active = activePanelistRef.current;
+                                        callError = active ? validateHandover(sessionPanel, active, call.args) : 'This is not a panel interview.';
+                                        if (!callError) nextPanelist = findPanelist(sessionPanel, call.args?.name);
+                                    } else {
+                                        callError = questionPlan ? validatePlanToolCall(questionPlan, call.name, call.args) : 'No question plan is active.';
+                                        if (!callError) dispatch({ type: 'PLAN_TOOL_CALL', payload: { name: call.name, args: call.args } });
+                                    }
+                                    return { id: call.id, name: call.name, response: callError ? { error: callError } : { output: 'ok' } };
                                 });
+                                // The outgoing panelist's session is closed, so it needs no response.
+                                if (nextPanelist) {
+                                    handOver(nextPanelist);
+                                    return;
+                                }
+                                sessionPromise.current?.then(session => session.sendToolResponse({ functionResponses }));
                             }
-                        };
-                        source.connect(inputGainNode.current!);
-                        inputGainNode.current!.connect(processor);
-                        processor.connect(inputAudioContext.current!.destination);
-                    },
-                    onmessage: async (message: LiveServerMessage) => {
-                        const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData.data;
-                        if (base64Audio && outputAudioContext.current && outputGainNode.current) {
-                            nextStartTime.current = Math.max(nextStartTime.current, outputAudioContext.current.currentTime);
-                            const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContext.current, 24000, 1);
-                            const source = outputAudioContext.current.createBufferSource();
-                            source.buffer = audioBuffer;
-                            source.connect(outputGainNode.current);
-                            source.addEventListener('ended', () => audioSources.current.delete(source));
-                            source.start(nextStartTime.current);
-                            nextStartTime.current += audioBuffer.duration;
-                            audioSources.current.add(source);
-                        }
 
-                        if (message.serverContent?.interrupted) {
-                           audioSources.current.forEach(source => source.stop());
-                           audioSources.current.clear();
-                           nextStartTime.current = 0;
-                        }
+                            if (message.serverContent?.interrupted) {
+                               audioSources.current.forEach(source => source.stop());
+                               audioSources.current.clear();
+                               nextStartTime.current = 0;
+                               // The interviewer stopped early, so their turn ends now rather than when the queued audio would have.
+                               if (interviewerTurnTimingRef.current && recorder.current) {
+                                   interviewerTurnTimingRef.current = { ...interviewerTurnTimingRef.current, endMs: recorder.current.offsetMs() };
+                               }
+                            }
 
-                        if (message.serverContent?.outputTranscription) {
-                            currentInterviewerTextRef.current += message.serverContent.outputTranscription.text;
-                        }
-                        if (message.serverContent?.inputTranscription) {
-                            currentUserTextRef.current += message.serverContent.inputTranscription.text;
-                            if (message.serverContent.inputTranscription.text.trim()) {
-                                hasSpokenInTurnRef.current = true;
+                            if (message.serverContent?.outputTranscription) {
+                                currentInterviewerTextRef.current += message.serverContent.outputTranscription.text;
                             }
-                        }
-                        dispatch({ type: 'UPDATE_TRANSCRIPTIONS', payload: { user: currentUserTextRef.current, interviewer: currentInterviewerTextRef.current }});
+                            if (message.serverContent?.inputTranscription) {
+                                currentUserTextRef.current += message.serverContent.inputTranscription.text;
+                                if (message.serverContent.inputTranscription.text.trim()) {
+                                    hasSpokenInTurnRef.current = true;
+                                    // Fall back to the transcription's arrival if no speech was picked up by the level meter.
+                                    if (!userTurnTimingRef.current && recorder.current) {
+                                        const nowMs = recorder.current.offsetMs();
+                                        userTurnTimingRef.current = { startMs: nowMs, endMs: nowMs };
+                                    }
+                                }
+                            }
+                            dispatch({ type: 'UPDATE_TRANSCRIPTIONS', payload: { user: currentUserTextRef.current, interviewer: currentInterviewerTextRef.current }});
                         
-                        if (message.serverContent?.turnComplete) {
-                            dispatch({ type: 'FINALIZE_TURN', payload: { user: currentUserTextRef.current.trim(), interviewer: currentInterviewerTextRef.current.trim() }});
-                            currentUserTextRef.current = '';
-                            currentInterviewerTextRef.current = '';
-
-                             // Reset silence detection state for the next turn
-                            hasSpokenInTurnRef.current = false;
-                            isSilentRef.current = false; // Allow audio streaming to resume
-                            if (silenceTimerRef.current) {
-                                clearTimeout(silenceTimerRef.current);
-                                silenceTimerRef.current = null;
+                            if (message.serverContent?.turnComplete) {
+                                flushCurrentTurn();
+
+                                 // Reset silence detection state for the next turn
+                                hasSpokenInTurnRef.current = false;
+                                isSilentRef.current = false; // Allow audio streaming to resume
+                                if (turnTakingMode === 'tap-to-finish' && !isTypingAnswers) startAnswer();
                             }
-                        }
+                        },
+                        onerror: (e: ErrorEvent) => {
+                            console.error('Live session error:', e);
+                            handleConnectionLost(promise, e);
+                        },
+                        onclose: () => handleConnectionLost(promise),
                     },
-                    onerror: (e: ErrorEvent) => {
-                        console.error('Live session error:', e);
-                        dispatch({ type: 'SET_ERROR', payload: getApiErrorMessage(e, 'start') });
-                        cleanupAudio();
-                    },
-                    onclose: () => {},
-                },
-                config: {
-                    systemInstruction: `You are a professional interviewer. Your voice should be clear and engaging. Conduct an interview in ${language} based on these instructions: "${script}". Do not mention that you are an AI. Begin the interview directly without any introduction or welcome message.`,
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-                    },
-                },
-            });
+                });
+                sessionPromise.current = promise;
+                promise.catch(err => handleConnectionLost(promise, err));
+            };
+
+            // Called for errors and closes alike. Sessions closed on purpose are no longer current and are ignored.
+            const handleConnectionLost = (promise: Promise<LiveInterviewSession>, cause?: unknown) => {
+                if (sessionPromise.current !== promise) return;
+                sessionPromise.current = null;
+                if (!hasConnected) {
+                    dispatch({ type: 'SET_ERROR', payload: getApiErrorMessage(cause, 'start') });
+                    cleanupAudio();
+                    return;
+                }
+                if (reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+                    console.error('Could not restore the live session, ending the interview.');
+                    handleStopConversationRef.current();
+                    return;
+                }
+
+                // Keep everything said so far and drop the interviewer's queued audio, which will be asked again.
+                const priorTranscript = [...transcriptRef.current, ...pendingTurnEntries()];
+                flushCurrentTurn();
+                audioSources.current.forEach(source => source.stop());
+                audioSources.current.clear();
+                nextStartTime.current = 0;
+                hasSpokenInTurnRef.current = false;
+                isSilentRef.current = false;
+                isAnsweringRef.current = false;
+
+                const attempt = ++reconnectAttemptRef.current;
+                dispatch({ type: 'SET_STATE', payload: { reconnectAttempt: attempt, isAnswering: false } });
+                reconnectTimerRef.current = setTimeout(() => {
+                    reconnectTimerRef.current = null;
+                    connect(priorTranscript);
+                }, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+            };
+
+            // Passes the interview to another panelist, whose own session takes over in their voice.
+            // Audio already queued from the outgoing panelist keeps playing.
+            const handOver = (next: Panelist) => {
+                const outgoing = sessionPromise.current;
+                const previous = activePanelistRef.current;
+                const priorTranscript = [...transcriptRef.current, ...pendingTurnEntries()];
+                flushCurrentTurn();
+                sessionPromise.current = null; // So its close is not mistaken for a dropped connection
+                outgoing?.then(session => session.close()).catch(console.error);
+                hasSpokenInTurnRef.current = false;
+                isSilentRef.current = false;
+                isAnsweringRef.current = false;
+                activePanelistRef.current = next;
+                dispatch({ type: 'SET_STATE', payload: { activePanelist: next.name, isAnswering: false } });
+                connect(priorTranscript, previous?.name);
+            };
+
+            connect();
 
         } catch (err: unknown) {
             console.error("Failed to start conversation:", err);
-            let errorMessage: string;
-
-            if (err instanceof Error) {
-                if (err.message === "API key not configured.") {
-                    errorMessage = "The API key is not configured. This is a setup issue and requires developer attention.";
-                } else if (err.name === 'NotAllowedError') {
-                    errorMessage = "Microphone access was denied. Please enable microphone permissions for this site in your browser settings and try again.";
-                } else if (err.name === 'NotFoundError') {
-                    errorMessage = "No microphone was found on your device. Please connect a microphone and try again.";
-                } else if (err.name === 'NotReadableError') {
-                    errorMessage = "There was a hardware error with your microphone, or it might be in use by another application. Please check your microphone and try again.";
-                } else {
-                    errorMessage = getApiErrorMessage(err, 'start');
-                }
-            } else {
-                errorMessage = getApiErrorMessage(err, 'start');
-            }
-            
-            dispatch({ type: 'SET_ERROR', payload: errorMessage });
+            dispatch({ type: 'SET_ERROR', payload: getApiErrorMessage(err, 'start') });
             cleanupAudio();
         }
-    }, [script, cleanupAudio, language, micGain, speakerVolume]);
+    }, [script, resume, jobDescription, focusAreas, durationMinutes, questionPlanText, cleanupAudio, flushCurrentTurn, language, persona, panel, micGain, speakerVolume, inputDeviceId, outputDeviceId, refreshAudioDevices, vadCalibration, endOfTurnPatienceMs, turnTakingMode, answerMode, startAnswer]);
+
+    // Sends a typed answer as a text turn. The interviewer still answers by voice.
+    const handleSendTypedAnswer = useCallback((text: string) => {
+        if (!sessionPromise.current) return;
+        // Close out whatever the interviewer has said so far so the answer lands after it in the transcript.
+        if (currentInterviewerTextRef.current.trim() || currentUserTextRef.current.trim()) {
+            flushCurrentTurn();
+        }
+        const nowMs = recorder.current?.offsetMs();
+        dispatch({ type: 'ADD_TYPED_ANSWER', payload: { text, startMs: nowMs, endMs: nowMs } });
+        sessionPromise.current.then(session => session.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text }] }],
+            turnComplete: true,
+        })).catch(err => console.error('Failed to send typed answer:', err));
+    }, [flushCurrentTurn]);
+
+    const handleTypedDraftChange = useCallback((typedDraft: string) => {
+        dispatch({ type: 'SET_STATE', payload: { typedDraft } });
+    }, []);
+
+    // Pausing suspends capture and playback. The live session stays open, and queued interviewer audio plays on resume.
+    const handlePauseToggle = useCallback(() => {
+        if (isPaused) {
+            inputAudioContext.current?.resume().catch(console.error);
+            outputAudioContext.current?.resume().catch(console.error);
+            dispatch({ type: 'RESUME', payload: { resumedAt: Date.now() } });
+            return;
+        }
+        finishAnswer();
+        isUserSpeakingRef.current = false;
+        inputAudioContext.current?.suspend().catch(console.error);
+        outputAudioContext.current?.suspend().catch(console.error);
+        dispatch({ type: 'PAUSE', payload: { pausedAt: Date.now() } });
+    }, [isPaused, finishAnswer]);
 
     const handleReset = () => {
         cleanupAudio();
         dispatch({ type: 'RESET' });
     };
 
-    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
+    const handleOpenSession = (session: InterviewSession) => {
+        dispatch({ type: 'OPEN_SESSION', payload: session });
+        getRecording(session.id)
+            .then(blob => blob && dispatch({ type: 'SET_STATE', payload: { recording: blob } }))
+            .catch(err => console.error('Failed to load interview recording:', err));
+    };
 
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-            try {
-                const arrayBuffer = e.target?.result as ArrayBuffer;
-                const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-                let fullText = '';
-                for (let i = 1; i <= pdf.numPages; i++) {
-                    const page = await pdf.getPage(i);
-                    const textContent = await page.getTextContent();
-                    const pageText = textContent.items.map(item => ('str' in item) ? item.str : '').join(' ');
-                    fullText += pageText + '\n';
-                }
-                dispatch({ type: 'SET_STATE', payload: { script: fullText.trim() } });
-            } catch (pdfError) {
-                console.error('Error parsing PDF:', pdfError);
-                dispatch({ type: 'SET_ERROR', payload: 'Failed to parse the PDF file. Please ensure it is a valid PDF.' });
-            }
-        };
-        reader.readAsArrayBuffer(file);
+    const handleDuplicateSession = (session: InterviewSession) => {
+        dispatch({ type: 'DUPLICATE_SESSION', payload: {
+            script: session.script,
+            resume: session.resume ?? '',
+            jobDescription: session.jobDescription ?? '',
+            focusAreas: session.focusAreas ?? [],
+            questionPlan: session.questionPlan ?? null,
+            language: session.language,
+            durationMinutes: session.plannedDurationMinutes ?? initialState.durationMinutes,
+            persona: session.persona,
+            panel: session.panel,
+        }});
     };
-    
+
     const handleMicGainChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const newGain = parseFloat(e.target.value);
         dispatch({ type: 'SET_STATE', payload: { micGain: newGain } });
@@ -456,17 +1095,162 @@ const App: React.FC = () => {
       };
     }, [cleanupAudio]);
 
+    // Space bar shortcut for the manual turn-taking modes: hold to talk, or tap to start and finish an answer.
+    useEffect(() => {
+        if (interviewState !== InterviewState.IN_CONVERSATION || turnTakingMode === 'auto' || isTypingAnswers || isPaused) return;
+        const isTyping = (target: EventTarget | null) =>
+            target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.code !== 'Space' || isTyping(event.target)) return;
+            event.preventDefault(); // Keeps Space from also clicking a focused button
+            if (event.repeat) return;
+            if (turnTakingMode === 'push-to-talk' || !isAnsweringRef.current) {
+                startAnswer();
+            } else {
+                finishAnswer();
+            }
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (event.code !== 'Space' || isTyping(event.target)) return;
+            event.preventDefault();
+            if (turnTakingMode === 'push-to-talk') finishAnswer();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, [interviewState, turnTakingMode, isTypingAnswers, isPaused, startAnswer, finishAnswer]);
+
+    // Enforces the time box: cue the interviewer to wrap up near the end, then finish automatically. Time spent paused is not counted.
+    useEffect(() => {
+        if (interviewState !== InterviewState.IN_CONVERSATION || !startedAt || isPaused) return;
+        const durationMs = durationMinutes * 60 * 1000;
+        const remainingMs = startedAt + pausedTotalMs + durationMs - Date.now();
+        const wrapUpLeadMs = getWrapUpLeadMs(durationMs);
+
+        const wrapUpTimer = wrapUpSentRef.current ? null : setTimeout(() => {
+            wrapUpSentRef.current = true;
+            const remainingMinutes = Math.max(1, Math.round(wrapUpLeadMs / 60000));
+            sessionPromise.current?.then(session => session.sendClientContent({
+                turns: [{ role: 'user', parts: [{ text: buildWrapUpInstruction(language, remainingMinutes) }] }],
+                turnComplete: false,
+            })).catch(err => console.error('Failed to send wrap-up instruction:', err));
+        }, Math.max(0, remainingMs - wrapUpLeadMs));
+        const finishTimer = setTimeout(() => handleStopConversation(), Math.max(0, remainingMs));
+
+        return () => {
+            if (wrapUpTimer) clearTimeout(wrapUpTimer);
+            clearTimeout(finishTimer);
+        };
+    }, [interviewState, startedAt, isPaused, pausedTotalMs, durationMinutes, language, handleStopConversation]);
+
+    // The finished (or reopened) interview as it is stored in the history.
+    const buildFinishedSession = (): InterviewSession => ({
+        id: sessionId ?? '',
+        script,
+        resume,
+        jobDescription,
+        focusAreas,
+        questionPlan,
+        planProgress,
+        plannedDurationMinutes: durationMinutes,
+        language,
+        persona,
+        panel,
+        coachingEnabled,
+        transcript,
+        summary,
+        summaryVersions,
+        summaryVersionId: summaryVersionId ?? undefined,
+        critiques: critiques ?? undefined,
+        startedAt: startedAt ?? 0,
+        endedAt: endedAt ?? startedAt ?? 0,
+        durationMs: startedAt && endedAt ? endedAt - startedAt : 0,
+    });
+
+    // Coaching runs beside the live session and never feeds into it.
+    const handleRequestCoachingHints = useCallback((question: string, answer: string): Promise<CoachingHints> =>
+        interviewBackend.generateCoachingHints(question, answer, language, { script, resume, jobDescription, focusAreas, questionPlan }),
+    [language, script, resume, jobDescription, focusAreas, questionPlan]);
+
+    const handleGenerateCritiques = async () => {
+        const result = await interviewBackend.generateAnswerCritiques(transcript, language, { script, resume, jobDescription, focusAreas, questionPlan });
+        dispatch({ type: 'SET_STATE', payload: { critiques: result } });
+        if (sessionId) {
+            saveSession({ ...buildFinishedSession(), critiques: result }).catch(err => console.error('Failed to save answer critiques:', err));
+        }
+    };
+
+    // The transcript was saved when the interview ended, so only the new version of the summary needs saving.
+    // Also retries a summary that failed or was cancelled.
+    const handleGenerateSummary = async (summaryLanguage: string, emphasis: FeedbackEmphasis) => {
+        const session = buildFinishedSession();
+        const version = await generateSummaryVersion(transcript, summaryLanguage, emphasis);
+        if (version && sessionId) {
+            saveSession(withSummaryVersion(session, version)).catch(err => console.error('Failed to save interview summary:', err));
+        }
+    };
+
+    const handleSelectSummaryVersion = (versionId: string) => {
+        const version = summaryVersions.find(v => v.id === versionId);
+        if (!version) return;
+        dispatch({ type: 'SELECT_SUMMARY_VERSION', payload: versionId });
+        if (sessionId) {
+            saveSession({ ...buildFinishedSession(), summary: version.summary, summaryVersionId: version.id }).catch(err => console.error('Failed to save interview:', err));
+        }
+    };
+
+    const handleStartPractice = (pair: QuestionAnswerPair) => {
+        dispatch({ type: 'START_PRACTICE', payload: { question: pair.question, originalAnswer: pair.answer, returnTo: buildFinishedSession(), returnToRecording: recording } });
+        handleStartConversation(pair.question);
+    };
+
+    const handleEndPractice = () => {
+        if (!practice) return;
+        dispatch({ type: 'OPEN_SESSION', payload: practice.returnTo });
+        dispatch({ type: 'SET_STATE', payload: { recording: practice.returnToRecording, practice: null } });
+    };
+
     const renderContent = () => {
         switch (interviewState) {
             case InterviewState.IDLE:
             case InterviewState.ERROR:
                 return (
                     <div className="w-full max-w-2xl mx-auto">
-                        <h1 className="text-4xl font-bold text-center mb-2">AI Interview Simulator</h1>
-                        <p className="text-center text-gray-400 mb-8">Enter a topic or paste a script. The AI will conduct a live audio interview based on your input.</p>
+                        <div className="flex justify-end items-center gap-4 mb-2">
+                            <select
+                                value={uiLocale.code}
+                                onChange={(e) => setUiLanguage(e.target.value)}
+                                className="bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-300 py-1 px-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                aria-label={t('app.uiLanguage')}
+                                title={t('app.uiLanguage')}
+                            >
+                                {locales.map(locale => (
+                                    <option key={locale.code} value={locale.code}>{locale.name}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => dispatch({ type: 'SHOW_TEMPLATES' })}
+                                className="text-gray-300 hover:text-white flex items-center text-sm font-medium transition-colors"
+                            >
+                                <TemplateIcon className="h-5 w-5 me-1" /> {t('app.templates')}
+                            </button>
+                            <button
+                                onClick={() => dispatch({ type: 'SHOW_HISTORY' })}
+                                className="text-gray-300 hover:text-white flex items-center text-sm font-medium transition-colors"
+                            >
+                                <HistoryIcon className="h-5 w-5 me-1" /> {t('app.history')}
+                            </button>
+                        </div>
+                        <h1 className="text-4xl font-bold text-center mb-2">{t('app.title')}</h1>
+                        <p className="text-center text-gray-400 mb-8">{t('app.intro')}</p>
                         
                         <div className="mb-4">
-                            <label htmlFor="language-select" className="block text-sm font-medium text-gray-300 mb-2">Interview Language</label>
+                            <label htmlFor="language-select" className="block text-sm font-medium text-gray-300 mb-2">{t('app.interviewLanguage')}</label>
                             <select
                                 id="language-select"
                                 value={language}
@@ -478,128 +1262,403 @@ const App: React.FC = () => {
                                 ))}
                             </select>
                         </div>
+                        <div className="mb-4">
+                            <label htmlFor="answer-mode-select" className="block text-sm font-medium text-gray-300 mb-2">{t('app.answerBy')}</label>
+                            <select
+                                id="answer-mode-select"
+                                value={answerMode}
+                                onChange={(e) => dispatch({ type: 'SET_STATE', payload: { answerMode: e.target.value as AnswerMode } })}
+                                className="w-full p-3 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all"
+                            >
+                                <option value="voice">{t('app.answerBySpeaking')}</option>
+                                <option value="typed">{t('app.answerByTyping')}</option>
+                            </select>
+                        </div>
+                        <div className="mb-4">
+                            <label className="flex items-center gap-2 text-sm font-medium text-gray-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={coachingEnabled}
+                                    onChange={(e) => dispatch({ type: 'SET_STATE', payload: { coachingEnabled: e.target.checked } })}
+                                    className="accent-purple-500"
+                                />
+                                {t('app.coachingToggle')}
+                                <span className="text-gray-400 font-normal">{t('app.coachingToggleHelp')}</span>
+                            </label>
+                        </div>
 
-                        <textarea
-                            className="w-full h-48 p-4 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all"
-                            value={script}
-                            onChange={(e) => dispatch({ type: 'SET_STATE', payload: { script: e.target.value } })}
-                            placeholder="e.g., Conduct an interview for a junior software engineer."
-                        />
+                        <div className="space-y-4">
+                            <DocumentInput
+                                id="script-input"
+                                label={t('app.instructionsLabel')}
+                                value={script}
+                                onChange={(value) => dispatch({ type: 'SET_STATE', payload: { script: value } })}
+                                onError={(message) => dispatch({ type: 'SET_ERROR', payload: message })}
+                                placeholder={t('app.instructionsPlaceholder')}
+                            />
+                            <div className="flex flex-col sm:flex-row gap-4">
+                                <div className="sm:w-40">
+                                    <label htmlFor="duration-input" className="block text-sm font-medium text-gray-300 mb-2">{t('common.durationLabel')}</label>
+                                    <input
+                                        id="duration-input"
+                                        type="number"
+                                        min={MIN_DURATION_MINUTES}
+                                        max={MAX_DURATION_MINUTES}
+                                        value={durationMinutes}
+                                        onChange={(e) => dispatch({ type: 'SET_STATE', payload: { durationMinutes: parseInt(e.target.value, 10) || 0 } })}
+                                        onBlur={() => dispatch({ type: 'SET_STATE', payload: { durationMinutes: clampDurationMinutes(durationMinutes) } })}
+                                        className="w-full p-3 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all"
+                                    />
+                                </div>
+                                <div className="flex-1">
+                                    <label htmlFor="focus-areas-input" className="block text-sm font-medium text-gray-300 mb-2">{t('common.focusAreasLabel')}</label>
+                                    <FocusAreasInput
+                                        id="focus-areas-input"
+                                        value={focusAreas}
+                                        onChange={(value) => dispatch({ type: 'SET_STATE', payload: { focusAreas: value } })}
+                                    />
+                                </div>
+                            </div>
+                            <QuestionPlanInput
+                                id="question-plan-input"
+                                value={questionPlanText}
+                                onChange={(value) => dispatch({ type: 'SET_STATE', payload: { questionPlanText: value } })}
+                            />
+                            <DocumentInput
+                                id="resume-input"
+                                label={t('app.resumeLabel')}
+                                value={resume}
+                                onChange={(value) => dispatch({ type: 'SET_STATE', payload: { resume: value } })}
+                                onError={(message) => dispatch({ type: 'SET_ERROR', payload: message })}
+                                placeholder={t('app.resumePlaceholder')}
+                            />
+                            <DocumentInput
+                                id="job-description-input"
+                                label={t('app.jobDescriptionLabel')}
+                                value={jobDescription}
+                                onChange={(value) => dispatch({ type: 'SET_STATE', payload: { jobDescription: value } })}
+                                onError={(message) => dispatch({ type: 'SET_ERROR', payload: message })}
+                                placeholder={t('app.jobDescriptionPlaceholder')}
+                            />
+                        </div>
                          <div className="my-6">
                             <AudioControls
+                                devices={audioDevices}
+                                inputDeviceId={inputDeviceId}
+                                onInputDeviceChange={handleInputDeviceChange}
+                                outputDeviceId={outputDeviceId}
+                                onOutputDeviceChange={handleOutputDeviceChange}
                                 micGain={micGain}
                                 onMicGainChange={handleMicGainChange}
                                 speakerVolume={speakerVolume}
                                 onSpeakerVolumeChange={handleSpeakerVolumeChange}
                             />
                         </div>
+                        <div className="mb-6">
+                            <PersonaSettings
+                                persona={persona}
+                                onChange={(value) => dispatch({ type: 'SET_STATE', payload: { persona: value } })}
+                                onPreview={(voice) => interviewBackend.generateWelcomeAudio(language, { ...persona, voice })}
+                                isPanel={panel.length > 0}
+                            />
+                        </div>
+                        <div className="mb-6">
+                            <PanelSettings
+                                panel={panel}
+                                onChange={(value) => dispatch({ type: 'SET_STATE', payload: { panel: value } })}
+                            />
+                        </div>
+                        {answerMode === 'voice' && (
+                            <div className="mb-6">
+                                <VoiceSettings
+                                    calibration={vadCalibration}
+                                    onCalibrated={(calibration) => dispatch({ type: 'SET_STATE', payload: { vadCalibration: calibration } })}
+                                    patienceMs={endOfTurnPatienceMs}
+                                    onPatienceChange={(patienceMs) => dispatch({ type: 'SET_STATE', payload: { endOfTurnPatienceMs: patienceMs } })}
+                                    turnTakingMode={turnTakingMode}
+                                    onTurnTakingModeChange={(mode) => dispatch({ type: 'SET_STATE', payload: { turnTakingMode: mode } })}
+                                    micGain={micGain}
+                                    inputDeviceId={inputDeviceId}
+                                    onError={(message) => dispatch({ type: 'SET_ERROR', payload: message })}
+                                />
+                            </div>
+                        )}
                         {error && <p className="text-red-400 text-center">{error}</p>}
                         <div className="flex flex-col sm:flex-row gap-4 mt-6">
                             <button
-                                onClick={() => fileInputRef.current?.click()}
-                                className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-colors"
-                            >
-                                <UploadIcon className="h-6 w-6 mr-2" />
-                                Upload PDF
-                            </button>
-                             <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".pdf" className="hidden" />
-                            <button
-                                onClick={handleStartConversation}
+                                onClick={handleBeginInterview}
                                 className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-transform transform hover:scale-105"
                             >
-                                <PlayIcon className="h-6 w-6 mr-2" />
-                                Start Interview
+                                <PlayIcon className="h-6 w-6 me-2" />
+                                {t('app.startInterview')}
                             </button>
                         </div>
                     </div>
                 );
+            case InterviewState.PREFLIGHT:
+                return (
+                    <PreflightCheck
+                        devices={audioDevices}
+                        inputDeviceId={inputDeviceId}
+                        onInputDeviceChange={handleInputDeviceChange}
+                        outputDeviceId={outputDeviceId}
+                        onOutputDeviceChange={handleOutputDeviceChange}
+                        micGain={micGain}
+                        onMicGainChange={handleMicGainChange}
+                        speakerVolume={speakerVolume}
+                        onSpeakerVolumeChange={handleSpeakerVolumeChange}
+                        onStart={() => handleStartConversation()}
+                        onBack={() => dispatch({ type: 'SET_STATE', payload: { interviewState: InterviewState.IDLE } })}
+                    />
+                );
             case InterviewState.CONNECTING:
             case InterviewState.SUMMARIZING:
                  return (
                     <div className="flex flex-col items-center justify-center text-center">
                         <RobotIcon className="h-24 w-24 text-purple-400 animate-pulse" />
-                        <h1 className="text-3xl font-bold mt-4">{interviewState === 'CONNECTING' ? 'Connecting...' : 'Generating Feedback...'}</h1>
-                        <p className="text-gray-400 mt-2">{interviewState === 'CONNECTING' ? 'Preparing the interview session.' : 'Our AI is analyzing your conversation.'}</p>
+                        <h1 className="text-3xl font-bold mt-4">{interviewState === 'CONNECTING' ? t('app.connecting') : practice ? t('app.comparingAttempts') : t('app.generatingFeedback')}</h1>
+                        <p className="text-gray-400 mt-2">{interviewState === 'CONNECTING' ? t('app.connectingDetail') : practice ? t('app.comparingAttemptsDetail') : t('app.generatingFeedbackDetail')}</p>
                     </div>
                 );
             case InterviewState.FINISHED:
+            case InterviewState.SUMMARY_FAILED: {
+                const exportFileName = `interview-${new Date(startedAt ?? Date.now()).toISOString().slice(0, 10)}`;
+                const finishedSession = buildFinishedSession();
                  return (
                     <div className="w-full max-w-4xl mx-auto">
-                        <h1 className="text-4xl font-bold text-center mb-6">Interview Complete</h1>
+                        <h1 className="text-4xl font-bold text-center mb-2">{t('app.interviewComplete')}</h1>
+                        <p className="text-center text-gray-400 mb-6">
+                            {startedAt && endedAt ? `${formatDateTime(startedAt)} · ${formatDuration(endedAt - startedAt)} · ${language}` : language}
+                            {coachingEnabled && ` · ${t('app.coachingOn')}`}
+                        </p>
                         <div className="bg-gray-800 p-6 rounded-lg shadow-lg mb-8">
-                             <h2 className="text-2xl font-bold text-purple-400 mb-4">Performance Summary</h2>
-                             <div className="text-gray-300 whitespace-pre-wrap space-y-2 prose prose-invert prose-p:my-2 prose-headings:my-4">
-                                {summary ? <ReactMarkdown remarkPlugins={[remarkGfm]}>{summary}</ReactMarkdown> : "No summary available."}
-                             </div>
+                             <h2 className="text-2xl font-bold text-purple-400 mb-4">{t('app.performanceSummary')}</h2>
+                             {(summaryVersions.length > 0 || isGeneratingSummary) && (
+                                 <FeedbackControls
+                                     key={sessionId ?? ''}
+                                     versions={summaryVersions}
+                                     selectedVersionId={summaryVersionId}
+                                     defaultLanguage={language}
+                                     isGenerating={isGeneratingSummary}
+                                     error={summary ? summaryError : null}
+                                     onSelect={handleSelectSummaryVersion}
+                                     onRegenerate={handleGenerateSummary}
+                                     onCancel={() => summaryAbortController.current?.abort()}
+                                 />
+                             )}
+                             {isGeneratingSummary ? <StreamingSummaryReport summary={streamingSummary} /> : summary ? <SummaryReport summary={summary} /> : (
+                                 <div>
+                                     {summaryError ? (
+                                         <>
+                                             <p className="text-red-400">{summaryError}</p>
+                                             <p className="text-gray-400 text-sm mt-1">{t('app.transcriptKept')}</p>
+                                         </>
+                                     ) : (
+                                         <p className="text-gray-300">{t('app.noSummary')}</p>
+                                     )}
+                                     <button
+                                         onClick={() => handleGenerateSummary(language, 'balanced')}
+                                         className="mt-4 bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+                                     >
+                                         {t('app.retryFeedback')}
+                                     </button>
+                                 </div>
+                             )}
+                             {questionPlan && (
+                                 <div className="mt-6">
+                                     <SkippedQuestions plan={questionPlan} progress={planProgress} />
+                                 </div>
+                             )}
                         </div>
-                         <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-4 max-h-[40vh] overflow-y-auto">
-                            <h2 className="text-2xl font-bold text-purple-400 mb-4">Full Transcript</h2>
-                            {transcript.map((entry, i) => (
-                                <div key={i} className={`flex items-start gap-3 ${entry.speaker === 'You' ? 'justify-end' : ''}`}>
-                                    {entry.speaker === 'Interviewer' && <RobotIcon className="h-8 w-8 p-1.5 bg-gray-700 text-purple-400 rounded-full flex-shrink-0" />}
-                                    <p className={`p-3 rounded-lg max-w-xl ${entry.speaker === 'You' ? 'bg-cyan-800 text-white' : 'bg-gray-700 text-gray-200'}`}>{entry.text}</p>
-                                    {entry.speaker === 'You' && <UserIcon className="h-8 w-8 p-1.5 bg-gray-700 text-cyan-400 rounded-full flex-shrink-0" />}
-                                </div>
-                            ))}
+                        <div className="bg-gray-800 p-6 rounded-lg shadow-lg mb-8">
+                            <h2 className="text-2xl font-bold text-purple-400 mb-4">{t('app.delivery')}</h2>
+                            <DeliveryDashboard transcript={transcript} language={language} />
+                        </div>
+                        <div className="mb-4">
+                            <ExportMenu session={finishedSession} fileName={exportFileName} />
                         </div>
+                        <AnswerReview
+                            transcript={transcript}
+                            recording={recording}
+                            fileName={exportFileName}
+                            critiques={critiques}
+                            onGenerateCritiques={handleGenerateCritiques}
+                            onPractice={handleStartPractice}
+                        />
                         <button
                             onClick={handleReset}
                             className="w-full mt-8 bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-transform transform hover:scale-105"
                         >
-                            Start New Interview
+                            {t('app.startNewInterview')}
+                        </button>
+                        <button
+                            onClick={() => dispatch({ type: 'SHOW_HISTORY' })}
+                            className="w-full mt-4 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-colors"
+                        >
+                            <HistoryIcon className="h-6 w-6 me-2" />
+                            {t('history.title')}
                         </button>
                     </div>
                 );
+            }
+            case InterviewState.PRACTICE_REVIEW:
+                return practice && (
+                    <PracticeReview
+                        question={practice.question}
+                        originalAnswer={practice.originalAnswer}
+                        attempts={practice.attempts}
+                        onTryAgain={() => handleStartConversation(practice.question)}
+                        onBack={handleEndPractice}
+                    />
+                );
+            case InterviewState.TEMPLATES:
+                return (
+                    <TemplateLibrary
+                        onUse={(template) => dispatch({ type: 'APPLY_TEMPLATE', payload: template })}
+                        onBack={() => dispatch({ type: 'SET_STATE', payload: { interviewState: InterviewState.IDLE } })}
+                    />
+                );
+            case InterviewState.HISTORY:
+                return (
+                    <HistoryView
+                        onOpen={handleOpenSession}
+                        onDuplicate={handleDuplicateSession}
+                        onBack={() => dispatch({ type: 'SET_STATE', payload: { interviewState: InterviewState.IDLE } })}
+                    />
+                );
             case InterviewState.IN_CONVERSATION:
                 return (
-                     <div className="w-full max-w-3xl mx-auto flex flex-col h-[80vh]">
-                        <div className="flex-grow overflow-y-auto p-4 space-y-4">
-                            {transcript.length === 0 && !currentInterviewerText && !currentUserText && (
-                                <div className="flex flex-col items-center justify-center text-center text-gray-400 h-full">
-                                    <RobotIcon className="h-16 w-16 mb-4 text-purple-400 animate-pulse" />
-                                    <p className="text-lg">The interviewer will begin shortly...</p>
+                    <div className={`w-full mx-auto flex flex-col lg:flex-row gap-6 h-[80vh] ${questionPlan && coachingEnabled ? 'max-w-7xl' : questionPlan || coachingEnabled ? 'max-w-6xl' : 'max-w-3xl'}`}>
+                        {questionPlan && (
+                            <aside className="lg:w-72 flex-shrink-0 min-h-0">
+                                <QuestionPlanRail plan={questionPlan} progress={planProgress} />
+                            </aside>
+                        )}
+                        <div className="flex-1 min-w-0 min-h-0 flex flex-col">
+                            {practice && (
+                                <div className="flex-shrink-0 pb-2">
+                                    <p className="text-sm font-semibold uppercase tracking-wide text-purple-400">{t('practice.title')}</p>
+                                    <p className="text-gray-300" dir="auto">{practice.question}</p>
                                 </div>
                             )}
-                            {transcript.map((entry, i) => (
-                                <div key={i} className={`flex items-start gap-3 ${entry.speaker === 'You' ? 'justify-end' : 'justify-start'}`}>
-                                    {entry.speaker === 'Interviewer' && <RobotIcon className="h-8 w-8 p-1.5 bg-gray-700 text-purple-400 rounded-full flex-shrink-0 mt-1" />}
-                                    <div className={`p-3 rounded-lg max-w-xl ${entry.speaker === 'You' ? 'bg-cyan-800 text-white' : 'bg-gray-700 text-gray-200'}`}>{entry.text}</div>
-                                    {entry.speaker === 'You' && <UserIcon className="h-8 w-8 p-1.5 bg-gray-700 text-cyan-400 rounded-full flex-shrink-0 mt-1" />}
-                                </div>
-                            ))}
-                            {currentInterviewerText && (
-                                <div className="flex items-start gap-3 justify-start">
-                                    <RobotIcon className="h-8 w-8 p-1.5 bg-gray-700 text-purple-400 rounded-full flex-shrink-0 mt-1 animate-pulse" />
-                                    <div className="p-3 rounded-lg max-w-xl bg-gray-700 text-gray-200">{currentInterviewerText}</div>
+                            <div className="flex-shrink-0 pb-2 flex items-center justify-between">
+                                {isTypingAnswers ? <span className="text-sm text-gray-400">{t('app.typedAnswers')}</span> : <VoiceActivityIndicator speaking={isUserSpeaking} />}
+                                {startedAt && (
+                                    <InterviewCountdown
+                                        startedAt={startedAt + pausedTotalMs}
+                                        durationMs={durationMinutes * 60 * 1000}
+                                        wrapUpLeadMs={getWrapUpLeadMs(durationMinutes * 60 * 1000)}
+                                        pausedAt={pausedAt}
+                                    />
+                                )}
+                            </div>
+                            <div className="flex-grow overflow-y-auto p-4 space-y-4">
+                                {transcript.length === 0 && !currentInterviewerText && !currentUserText && (
+                                    <div className="flex flex-col items-center justify-center text-center text-gray-400 h-full">
+                                        <RobotIcon className="h-16 w-16 mb-4 text-purple-400 animate-pulse" />
+                                        <p className="text-lg">{t('app.interviewerWillBegin')}</p>
+                                    </div>
+                                )}
+                                {transcript.map((entry, i) => (
+                                    <div key={i} className={`flex items-start gap-3 ${entry.speaker === 'You' ? 'justify-end' : 'justify-start'}`}>
+                                        {entry.speaker === 'Interviewer' && <RobotIcon className="h-8 w-8 p-1.5 bg-gray-700 text-purple-400 rounded-full flex-shrink-0 mt-1" />}
+                                        <div dir="auto" className={`p-3 rounded-lg max-w-xl ${entry.speaker === 'You' ? 'bg-cyan-800 text-white' : 'bg-gray-700 text-gray-200'}`}>
+                                            {entry.panelist && <span className="block text-xs font-semibold text-purple-300 mb-1">{entry.panelist}</span>}
+                                            {entry.text}
+                                            {entry.typed && <span className="block text-xs text-cyan-300 mt-1">{t('common.typed')}</span>}
+                                        </div>
+                                        {entry.speaker === 'You' && <UserIcon className="h-8 w-8 p-1.5 bg-gray-700 text-cyan-400 rounded-full flex-shrink-0 mt-1" />}
+                                    </div>
+                                ))}
+                                {currentInterviewerText && (
+                                    <div className="flex items-start gap-3 justify-start">
+                                        <RobotIcon className="h-8 w-8 p-1.5 bg-gray-700 text-purple-400 rounded-full flex-shrink-0 mt-1 animate-pulse" />
+                                        <div dir="auto" className="p-3 rounded-lg max-w-xl bg-gray-700 text-gray-200">
+                                            {activePanelist && <span className="block text-xs font-semibold text-purple-300 mb-1">{activePanelist}</span>}
+                                            {currentInterviewerText}
+                                        </div>
+                                    </div>
+                                )}
+                                {currentUserText && (
+                                    <div className="flex items-start gap-3 justify-end">
+                                        <div dir="auto" className="p-3 rounded-lg max-w-xl bg-cyan-800 text-white">{currentUserText}</div>
+                                        <UserIcon className="h-8 w-8 p-1.5 bg-gray-700 text-cyan-400 rounded-full flex-shrink-0 mt-1 animate-pulse" />
+                                    </div>
+                                )}
+                                <div ref={transcriptEndRef} />
+                            </div>
+                            <div className="flex-shrink-0 pt-6">
+                                {reconnectAttempt > 0 && (
+                                    <p className="text-sm text-yellow-300 text-center mb-2 animate-pulse" role="status">
+                                        {t('app.reconnecting', { attempt: reconnectAttempt, max: MAX_RECONNECT_ATTEMPTS })}
+                                    </p>
+                                )}
+                                {micFallbackReason && (
+                                    <p className="text-sm text-yellow-300 text-center mb-2">{t(micFallbackReason)}</p>
+                                )}
+                                {deviceNotice && (
+                                    <p className="text-sm text-yellow-300 text-center mb-2" role="status">{t(deviceNotice)}</p>
+                                )}
+                                {isPaused && (
+                                    <p className="text-center text-gray-300 mb-6" role="status">{t('app.paused')}</p>
+                                )}
+                                {isTypingAnswers && !isPaused && (
+                                    <div className="mb-6">
+                                        <TypedAnswerInput onSend={handleSendTypedAnswer} onDraftChange={handleTypedDraftChange} />
+                                    </div>
+                                )}
+                                {!isTypingAnswers && !isPaused && turnTakingMode !== 'auto' && (
+                                    <div className="mb-6">
+                                        <TurnControls
+                                            mode={turnTakingMode}
+                                            isAnswering={isAnswering}
+                                            onStartAnswer={startAnswer}
+                                            onFinishAnswer={finishAnswer}
+                                        />
+                                    </div>
+                                )}
+                                <div className="max-w-md mx-auto">
+                                    <AudioControls
+                                        devices={audioDevices}
+                                        inputDeviceId={inputDeviceId}
+                                        onInputDeviceChange={handleInputDeviceChange}
+                                        outputDeviceId={outputDeviceId}
+                                        onOutputDeviceChange={handleOutputDeviceChange}
+                                        micGain={micGain}
+                                        onMicGainChange={handleMicGainChange}
+                                        speakerVolume={speakerVolume}
+                                        onSpeakerVolumeChange={handleSpeakerVolumeChange}
+                                        micAnalyser={isTypingAnswers ? null : micAnalyser.current}
+                                    />
                                 </div>
-                            )}
-                            {currentUserText && (
-                                <div className="flex items-start gap-3 justify-end">
-                                    <div className="p-3 rounded-lg max-w-xl bg-cyan-800 text-white">{currentUserText}</div>
-                                    <UserIcon className="h-8 w-8 p-1.5 bg-gray-700 text-cyan-400 rounded-full flex-shrink-0 mt-1 animate-pulse" />
+                               <div className="flex justify-center gap-4 mt-6">
+                                    <button
+                                        onClick={handlePauseToggle}
+                                        className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-8 rounded-lg flex items-center justify-center text-lg transition-colors"
+                                    >
+                                        {isPaused ? <PlayIcon className="h-6 w-6 me-2" /> : <PauseIcon className="h-6 w-6 me-2" />}
+                                        {isPaused ? t('app.resume') : t('app.pause')}
+                                    </button>
+                                    <button
+                                        onClick={handleStopConversation}
+                                        className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg flex items-center justify-center text-lg transition-transform transform hover:scale-105"
+                                    >
+                                        <StopIcon className="h-6 w-6 me-2" />
+                                        {practice ? t('app.endPractice') : t('app.endInterview')}
+                                    </button>
                                 </div>
-                            )}
-                            <div ref={transcriptEndRef} />
+                            </div>
                         </div>
-                        <div className="flex-shrink-0 pt-6">
-                            <div className="max-w-md mx-auto">
-                                <AudioControls
-                                    micGain={micGain}
-                                    onMicGainChange={handleMicGainChange}
-                                    speakerVolume={speakerVolume}
-                                    onSpeakerVolumeChange={handleSpeakerVolumeChange}
+                        {coachingEnabled && (
+                            <div className="lg:w-72 flex-shrink-0 min-h-0">
+                                <CoachingPanel
+                                    question={[...transcript].reverse().find(entry => entry.speaker === 'Interviewer')?.text ?? ''}
+                                    answer={isTypingAnswers ? typedDraft : currentUserText}
+                                    isPaused={isPaused}
+                                    onRequestHints={handleRequestCoachingHints}
                                 />
                             </div>
-                           <div className="flex justify-center mt-6">
-                                <button
-                                    onClick={handleStopConversation}
-                                    className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg flex items-center justify-center text-lg transition-transform transform hover:scale-105"
-                                >
-                                    <StopIcon className="h-6 w-6 mr-2" />
-                                    End Interview
-                                </button>
-                            </div>
-                        </div>
+                        )}
                     </div>
                 );
         }
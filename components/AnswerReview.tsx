@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { AnswerCritique, TranscriptEntry } from '../types';
+import { findPairForEntry, pairQuestionsAndAnswers, QuestionAnswerPair, STAR_PARTS } from '../utils/critique';
+import { useI18n } from '../utils/i18n';
+import { MAX_SCORE } from '../utils/summary';
+import { CheckIcon, PlayIcon } from './IconComponents';
+import { TranscriptPlayback } from './TranscriptPlayback';
+
+interface AnswerReviewProps {
+    transcript: TranscriptEntry[];
+    recording: Blob | null;
+    fileName: string;
+    critiques: AnswerCritique[] | null; // Null until they have been generated
+    onGenerateCritiques: () => Promise<void>;
+    onPractice: (pair: QuestionAnswerPair) => void;
+}
+
+const CritiquePanel = ({ pair, critique }: { pair: QuestionAnswerPair; critique: AnswerCritique | undefined }) => {
+    const { t } = useI18n();
+    return (
+        <div className="space-y-4">
+            {!critique ? (
+                <p className="text-gray-400">{t('answers.noCritique')}</p>
+            ) : (
+                <>
+                    <div className="flex items-center gap-3">
+                        <span className="text-2xl font-bold text-white">{critique.score} / {MAX_SCORE}</span>
+                        <span className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{t(`questionKind.${critique.kind}`)}</span>
+                    </div>
+                    {critique.star && (
+                        <ul className="flex flex-wrap gap-2" aria-label={t('answers.starLabel')}>
+                            {STAR_PARTS.map(part => (
+                                <li key={part} className={`flex items-center gap-1 text-sm px-2 py-1 rounded-lg ${critique.star![part] ? 'bg-green-900 text-green-200' : 'bg-gray-900 text-gray-500 line-through'}`}>
+                                    {critique.star![part] && <CheckIcon className="h-4 w-4" />}
+                                    {t(`star.${part}`)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="text-gray-300 prose prose-invert prose-p:my-2 max-w-none">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{critique.critique}</ReactMarkdown>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="bg-gray-900 p-4 rounded-lg">
+                            <h3 className="text-sm font-semibold text-gray-400 mb-2">{t('answers.yourAnswer')}</h3>
+                            <p className="text-gray-300 whitespace-pre-wrap" dir="auto">{pair.answer}</p>
+                        </div>
+                        <div className="bg-gray-900 p-4 rounded-lg border border-purple-700">
+                            <h3 className="text-sm font-semibold text-purple-300 mb-2">{t('answers.strongerAnswer')}</h3>
+                            <p className="text-gray-200 whitespace-pre-wrap" dir="auto">{critique.improvedAnswer}</p>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+// The transcript with per-answer feedback: clicking a question or answer opens its critique.
+// Critiques are generated only when asked for, so scrubbing through the recording costs nothing.
+export const AnswerReview = ({ transcript, recording, fileName, critiques, onGenerateCritiques, onPractice }: AnswerReviewProps) => {
+    const pairs = useMemo(() => pairQuestionsAndAnswers(transcript), [transcript]);
+    const [selected, setSelected] = useState<QuestionAnswerPair | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const panelRef = useRef<HTMLDivElement>(null);
+    const { t } = useI18n();
+
+    useEffect(() => {
+        if (selected) panelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [selected]);
+
+    const generate = async () => {
+        setIsGenerating(true);
+        setError(null);
+        try {
+            await onGenerateCritiques();
+        } catch (err) {
+            console.error('Failed to generate answer critiques:', err);
+            setError(err instanceof Error ? err.message : t('answers.generateFailed'));
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleSelectEntry = (index: number) => {
+        // Unanswered questions have no critique but can still be practised.
+        const entry = transcript[index];
+        const pair = findPairForEntry(pairs, index)
+            ?? (entry.speaker === 'Interviewer' ? { questionIndex: index, answerIndices: [], question: entry.text, answer: '' } : undefined);
+        if (!pair) return;
+        setSelected(pair);
+    };
+
+    return (
+        <div className="space-y-4">
+            <TranscriptPlayback
+                transcript={transcript}
+                recording={recording}
+                fileName={fileName}
+                selectedIndices={selected ? [selected.questionIndex, ...selected.answerIndices] : []}
+                onSelectEntry={handleSelectEntry}
+            />
+            <div ref={panelRef} className="bg-gray-800 p-6 rounded-lg shadow-lg">
+                <h2 className="text-2xl font-bold text-purple-400 mb-4">{t('answers.title')}</h2>
+                {error && (
+                    <div className="mb-4 flex items-center gap-4">
+                        <p className="text-red-400 flex-1">{error}</p>
+                        <button onClick={generate} className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded-lg">{t('common.tryAgain')}</button>
+                    </div>
+                )}
+                {!critiques && !error && pairs.length > 0 && (
+                    isGenerating ? (
+                        <p className="mb-4 text-gray-400 animate-pulse">{t('answers.reviewing')}</p>
+                    ) : (
+                        <div className="mb-4 flex flex-wrap items-center gap-4">
+                            <p className="text-gray-400 flex-1">{t('answers.generateHint')}</p>
+                            <button onClick={generate} className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-4 rounded-lg">{t('answers.generate')}</button>
+                        </div>
+                    )
+                )}
+                {!selected ? (
+                    <p className="text-gray-400">
+                        {pairs.length ? t('answers.selectHint') : t('answers.noAnswers')}
+                    </p>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex items-start justify-between gap-4">
+                            <p className="font-semibold text-gray-100">{selected.question}</p>
+                            <div className="flex gap-2 flex-shrink-0">
+                                <button
+                                    onClick={() => onPractice(selected)}
+                                    className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-1 px-3 rounded-lg flex items-center text-sm"
+                                >
+                                    <PlayIcon className="h-4 w-4 me-1" /> {t('answers.practice')}
+                                </button>
+                                <button onClick={() => setSelected(null)} className="text-sm text-gray-400 hover:text-white">{t('common.close')}</button>
+                            </div>
+                        </div>
+                        {critiques && <CritiquePanel pair={selected} critique={critiques.find(c => c.questionIndex === selected.questionIndex)} />}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { calculateRMS } from '../utils/audio';
+import { AudioDevices, supportsOutputSelection } from '../utils/audioDevices';
+import { useI18n } from '../utils/i18n';
+import { MicIcon, SpeakerIcon } from './IconComponents';
+
+const METER_FLOOR_DB = -60; // Quieter than this shows as an empty meter
+
+const selectClassName = "w-full p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all";
+
+// The live input level, read from an analyser on the microphone after its gain.
+const MicLevelMeter = ({ analyser }: { analyser: AnalyserNode }) => {
+    const [level, setLevel] = useState(0);
+    const { t } = useI18n();
+
+    useEffect(() => {
+        const samples = new Float32Array(analyser.fftSize);
+        let frame = 0;
+        const update = () => {
+            analyser.getFloatTimeDomainData(samples);
+            const db = 20 * Math.log10(Math.max(calculateRMS(samples), 1e-6));
+            setLevel(Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB)));
+            frame = requestAnimationFrame(update);
+        };
+        update();
+        return () => cancelAnimationFrame(frame);
+    }, [analyser]);
+
+    return (
+        <div
+            className="w-full h-2 bg-gray-700 rounded-full mt-2 overflow-hidden"
+            role="meter"
+            aria-label={t('devices.micLevel')}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(level * 100)}
+        >
+            <div className={`h-2 rounded-full ${level > 0.9 ? 'bg-red-500' : 'bg-green-500'}`} style={{ width: `${level * 100}%` }} />
+        </div>
+    );
+};
+
+interface AudioControlsProps {
+    devices: AudioDevices;
+    inputDeviceId: string | null; // Null for the system default
+    onInputDeviceChange: (deviceId: string | null) => void;
+    outputDeviceId: string | null;
+    onOutputDeviceChange: (deviceId: string | null) => void;
+    micGain: number;
+    onMicGainChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    speakerVolume: number;
+    onSpeakerVolumeChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    micAnalyser?: AnalyserNode | null; // Set while the microphone is open, to show its level
+}
+
+// Microphone and speaker selection, sensitivity and volume.
+export const AudioControls = ({ devices, inputDeviceId, onInputDeviceChange, outputDeviceId, onOutputDeviceChange, micGain, onMicGainChange, speakerVolume, onSpeakerVolumeChange, micAnalyser }: AudioControlsProps) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex flex-col sm:flex-row gap-6">
+            <div className="flex-1 space-y-2">
+                <label htmlFor="mic-device" className="flex items-center text-sm font-medium text-gray-300">
+                    <MicIcon className="h-5 w-5 me-2" /> {t('devices.microphone')}
+                </label>
+                <select id="mic-device" className={selectClassName} value={inputDeviceId ?? ''} onChange={(e) => onInputDeviceChange(e.target.value || null)}>
+                    <option value="">{t('devices.systemDefault')}</option>
+                    {devices.inputs.map((device, i) => (
+                        <option key={device.deviceId} value={device.deviceId}>{device.label || t('devices.unnamedInput', { number: i + 1 })}</option>
+                    ))}
+                </select>
+                <label htmlFor="mic-gain" className="block text-sm text-gray-400">{t('audio.micSensitivity')}</label>
+                <input
+                    id="mic-gain"
+                    type="range"
+                    min="0"
+                    max="2"
+                    step="0.1"
+                    value={micGain}
+                    onChange={onMicGainChange}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                    aria-label={t('audio.micSensitivity')}
+                />
+                {micAnalyser && <MicLevelMeter analyser={micAnalyser} />}
+            </div>
+            <div className="flex-1 space-y-2">
+                <label htmlFor="speaker-device" className="flex items-center text-sm font-medium text-gray-300">
+                    <SpeakerIcon className="h-5 w-5 me-2" /> {t('devices.speakers')}
+                </label>
+                {supportsOutputSelection() ? (
+                    <select id="speaker-device" className={selectClassName} value={outputDeviceId ?? ''} onChange={(e) => onOutputDeviceChange(e.target.value || null)}>
+                        <option value="">{t('devices.systemDefault')}</option>
+                        {devices.outputs.map((device, i) => (
+                            <option key={device.deviceId} value={device.deviceId}>{device.label || t('devices.unnamedOutput', { number: i + 1 })}</option>
+                        ))}
+                    </select>
+                ) : (
+                    <p className="text-sm text-gray-400 py-2">{t('devices.outputUnsupported')}</p>
+                )}
+                <label htmlFor="speaker-volume" className="block text-sm text-gray-400">{t('audio.speakerVolume')}</label>
+                <input
+                    id="speaker-volume"
+                    type="range"
+                    min="0"
+                    max="2"
+                    step="0.1"
+                    value={speakerVolume}
+                    onChange={onSpeakerVolumeChange}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                    aria-label={t('audio.speakerVolume')}
+                />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CoachingHints } from '../types';
+import { COACHING_DEBOUNCE_MS, emptyCoachingHints, LONG_ANSWER_MS } from '../utils/coaching';
+import { useI18n } from '../utils/i18n';
+
+interface CoachingPanelProps {
+    question: string; // The interviewer's latest question
+    answer: string; // The candidate's answer so far, as it streams in
+    isPaused: boolean;
+    onRequestHints: (question: string, answer: string) => Promise<CoachingHints>;
+}
+
+// Side panel of live hints while the candidate answers. Only the candidate sees it.
+// On small screens it sits below the interview and can be collapsed.
+export const CoachingPanel = ({ question, answer, isPaused, onRequestHints }: CoachingPanelProps) => {
+    const [hints, setHints] = useState<CoachingHints>(emptyCoachingHints);
+    const [isRunningLong, setIsRunningLong] = useState(false);
+    const [isExpanded, setIsExpanded] = useState(false); // Below the lg breakpoint the hints fold away under the interview
+    const latestRef = useRef({ question, answer });
+    const lastRequestedRef = useRef<string | null>(null);
+    const inFlightRef = useRef(false);
+    const { t } = useI18n();
+
+    useEffect(() => {
+        latestRef.current = { question, answer };
+    }, [question, answer]);
+
+    // A new question makes the old hints irrelevant.
+    useEffect(() => {
+        setHints(emptyCoachingHints);
+    }, [question]);
+
+    // Asks for hints at most once per interval, and only when the text has changed since the last request.
+    useEffect(() => {
+        if (isPaused) return;
+        const timer = setInterval(() => {
+            const requested = latestRef.current;
+            const key = `${requested.question}\n${requested.answer}`;
+            if (!requested.question.trim() || inFlightRef.current || key === lastRequestedRef.current) return;
+            lastRequestedRef.current = key;
+            inFlightRef.current = true;
+            onRequestHints(requested.question, requested.answer)
+                .then(result => {
+                    if (latestRef.current.question === requested.question) setHints(result);
+                })
+                .catch(err => console.error('Failed to get coaching hints:', err))
+                .finally(() => { inFlightRef.current = false; });
+        }, COACHING_DEBOUNCE_MS);
+        return () => clearInterval(timer);
+    }, [isPaused, onRequestHints]);
+
+    // Warns once the answer has gone on for longer than an interviewer would like.
+    const hasAnswer = answer.trim() !== '';
+    useEffect(() => {
+        setIsRunningLong(false);
+        if (!hasAnswer || isPaused) return;
+        const timer = setTimeout(() => setIsRunningLong(true), LONG_ANSWER_MS);
+        return () => clearTimeout(timer);
+    }, [hasAnswer, isPaused]);
+
+    return (
+        <aside aria-label={t('coaching.label')} className="bg-gray-800 p-4 rounded-lg overflow-y-auto max-h-[40vh] lg:max-h-full lg:h-full" aria-live="polite">
+            <div className="flex items-center justify-between gap-2 lg:mb-3">
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-purple-400">{t('coaching.title')}</h2>
+                <button
+                    type="button"
+                    onClick={() => setIsExpanded(expanded => !expanded)}
+                    aria-expanded={isExpanded}
+                    aria-controls="coaching-hints"
+                    className="lg:hidden text-sm text-gray-300 hover:text-white"
+                >
+                    {isExpanded ? t('coaching.hideHints') : t('coaching.showHints')}
+                </button>
+            </div>
+            <div id="coaching-hints" className={`${isExpanded ? 'block mt-3' : 'hidden'} lg:block lg:mt-0`}>
+            <div className="space-y-3">
+                {isRunningLong && (
+                    <p className="text-sm bg-yellow-900 text-yellow-100 p-2 rounded-lg">{t('coaching.runningLong')}</p>
+                )}
+                {hints.offTopic && (
+                    <p className="text-sm bg-orange-900 text-orange-100 p-2 rounded-lg">{t('coaching.offTopic', { question })}</p>
+                )}
+                {hints.talkingPoints.length > 0 ? (
+                    <ul className="list-disc list-inside space-y-1 text-sm text-gray-300" dir="auto">
+                        {hints.talkingPoints.map((point, i) => <li key={i}>{point}</li>)}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500">{question.trim() ? t('coaching.waitingForHints') : t('coaching.waitingForQuestion')}</p>
+                )}
+            </div>
+            <p className="text-xs text-gray-500 mt-4">{t('coaching.privacy')}</p>
+            </div>
+        </aside>
+    );
+};
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { TranscriptEntry } from '../types';
+import { computeDeliveryMetrics } from '../utils/delivery';
+import { formatDuration } from '../utils/format';
+import { useI18n } from '../utils/i18n';
+
+interface DeliveryDashboardProps {
+    transcript: TranscriptEntry[];
+    language: string;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const StatTile = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+    <div className="bg-gray-900 p-4 rounded-lg">
+        <p className="text-sm text-gray-400">{label}</p>
+        <p className="text-2xl font-bold text-white">{value}</p>
+        {detail && <p className="text-xs text-gray-400 mt-1">{detail}</p>}
+    </div>
+);
+
+// How the candidate spoke, as opposed to what they said.
+export const DeliveryDashboard = ({ transcript, language }: DeliveryDashboardProps) => {
+    const metrics = useMemo(() => computeDeliveryMetrics(transcript, language), [transcript, language]);
+    const { t } = useI18n();
+    const maxLatencyMs = Math.max(1, ...metrics.answerLatencies.map(answer => answer.latencyMs));
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatTile
+                    label={t('delivery.pace')}
+                    value={metrics.pace !== null ? String(metrics.pace) : '–'}
+                    detail={metrics.paceUnit === 'words' ? t('delivery.wordsPerMinute') : t('delivery.charactersPerMinute')}
+                />
+                <StatTile
+                    label={t('delivery.fillerWords')}
+                    value={String(metrics.fillerWordTotal)}
+                    detail={metrics.fillerWords.slice(0, 3).map(filler => `“${filler.word}” ×${filler.count}`).join(', ') || undefined}
+                />
+                <StatTile
+                    label={t('delivery.averageResponseTime')}
+                    value={metrics.averageLatencyMs !== null ? formatSeconds(metrics.averageLatencyMs) : '–'}
+                    detail={t('delivery.silenceBeforeAnswering')}
+                />
+                <StatTile
+                    label={t('delivery.longestAnswer')}
+                    value={metrics.longestMonologue ? formatDuration(metrics.longestMonologue.durationMs) : '–'}
+                />
+            </div>
+            {metrics.candidateTalkShare !== null && (
+                <div className="bg-gray-900 p-4 rounded-lg">
+                    <div className="flex justify-between text-sm mb-2">
+                        <span className="text-cyan-300">{t('delivery.candidateShare', { percent: Math.round(metrics.candidateTalkShare * 100), duration: formatDuration(metrics.candidateTalkMs) })}</span>
+                        <span className="text-purple-300">{t('delivery.interviewerShare', { percent: Math.round((1 - metrics.candidateTalkShare) * 100), duration: formatDuration(metrics.interviewerTalkMs) })}</span>
+                    </div>
+                    <div className="w-full h-3 bg-purple-600 rounded-full overflow-hidden" role="img" aria-label={t('delivery.talkTimeLabel')}>
+                        <div className="h-3 bg-cyan-500" style={{ width: `${metrics.candidateTalkShare * 100}%` }} />
+                    </div>
+                </div>
+            )}
+            {metrics.answerLatencies.length > 0 && (
+                <details className="bg-gray-900 p-4 rounded-lg">
+                    <summary className="cursor-pointer font-semibold text-gray-100">{t('delivery.silenceBeforeEachAnswer')}</summary>
+                    <ul className="space-y-2 mt-4">
+                        {metrics.answerLatencies.map((answer, i) => (
+                            <li key={i} className="text-sm">
+                                <div className="flex justify-between gap-4 text-gray-300">
+                                    <span className="truncate" dir="auto">{answer.question}</span>
+                                    <span className="flex-shrink-0 font-mono">{formatSeconds(answer.latencyMs)}</span>
+                                </div>
+                                <div className="w-full h-1.5 bg-gray-700 rounded-full mt-1">
+                                    <div className="h-1.5 bg-purple-500 rounded-full" style={{ width: `${(answer.latencyMs / maxLatencyMs) * 100}%` }} />
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+            {metrics.longestMonologue && (
+                <blockquote className="text-sm italic text-gray-400 border-s-2 border-cyan-700 ps-3">
+                    {t('delivery.longestAnswerQuote', { text: metrics.longestMonologue.text })}
+                </blockquote>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React, { useRef, useState } from 'react';
+import { extractDocumentText, SUPPORTED_DOCUMENT_TYPES } from '../utils/documentParser';
+import { useI18n } from '../utils/i18n';
+import { UploadIcon } from './IconComponents';
+
+interface DocumentInputProps {
+    id: string;
+    label: string;
+    value: string;
+    placeholder: string;
+    onChange: (value: string) => void;
+    onError: (message: string) => void;
+    rows?: number;
+}
+
+// A text area that can also be filled from an uploaded PDF, DOCX, TXT or Markdown file.
+export const DocumentInput = ({ id, label, value, placeholder, onChange, onError, rows = 6 }: DocumentInputProps) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [isParsing, setIsParsing] = useState(false);
+    const { t } = useI18n();
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow re-uploading the same file
+        if (!file) return;
+
+        setIsParsing(true);
+        try {
+            onChange(await extractDocumentText(file));
+            setFileName(file.name);
+        } catch (err) {
+            console.error(`Error parsing ${file.name}:`, err);
+            onError(err instanceof Error && err.message.startsWith('Unsupported file type')
+                ? t('document.unsupportedType', { extension: file.name.split('.').pop()?.toLowerCase() ?? '' })
+                : t('document.readFailed', { fileName: file.name }));
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <label htmlFor={id} className="text-sm font-medium text-gray-300">{label}</label>
+                <div className="flex items-center gap-2">
+                    {fileName && <span className="text-xs text-gray-400 truncate max-w-[12rem]" title={fileName}>{fileName}</span>}
+                    <button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isParsing}
+                        className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-sm py-1 px-3 rounded-lg flex items-center transition-colors"
+                    >
+                        <UploadIcon className="h-4 w-4 me-1" />
+                        {isParsing ? t('document.reading') : t('document.upload')}
+                    </button>
+                    <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={SUPPORTED_DOCUMENT_TYPES} className="hidden" />
+                </div>
+            </div>
+            <textarea
+                id={id}
+                rows={rows}
+                className="w-full p-4 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all"
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    if (!e.target.value) setFileName(null);
+                }}
+                placeholder={placeholder}
+                dir="auto"
+            />
+        </div>
+    );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { InterviewSession } from '../types';
+import { downloadText } from '../utils/download';
+import { useI18n } from '../utils/i18n';
+import { buildMarkdownReport, buildSrt, buildTranscriptJson, buildWebVtt } from '../utils/export';
+
+const PRINT_STYLES = `
+    body { font-family: 'Inter', sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+    h1, h2 { color: #5b21b6; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+    blockquote { border-left: 3px solid #0e7490; margin: 0.5rem 0; padding-left: 0.75rem; color: #374151; font-style: italic; }
+`;
+
+// Opens the Markdown report as a styled page and hands it to the browser's print dialog, where it can be saved as PDF.
+const printReport = (markdown: string, title: string) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        console.error('Could not open the print window. It may have been blocked by the browser.');
+        return;
+    }
+    const body = renderToStaticMarkup(<ReactMarkdown remarkPlugins={[remarkGfm]}>{markdown}</ReactMarkdown>);
+    printWindow.document.write(`<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${title}</title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+};
+
+export const ExportMenu = ({ session, fileName }: { session: InterviewSession; fileName: string }) => {
+    const { t } = useI18n();
+    const exports = [
+        { label: 'Markdown', onClick: () => downloadText(buildMarkdownReport(session, t), `${fileName}.md`, 'text/markdown') },
+        { label: 'PDF', onClick: () => printReport(buildMarkdownReport(session, t), fileName) },
+        { label: 'JSON', onClick: () => downloadText(buildTranscriptJson(session), `${fileName}.json`, 'application/json') },
+        { label: 'WebVTT', onClick: () => downloadText(buildWebVtt(session.transcript), `${fileName}.vtt`, 'text/vtt') },
+        { label: 'SRT', onClick: () => downloadText(buildSrt(session.transcript), `${fileName}.srt`, 'application/x-subrip') },
+    ];
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-300 me-2">{t('export.label')}</span>
+            {exports.map(({ label, onClick }) => (
+                <button
+                    key={label}
+                    onClick={onClick}
+                    className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded-lg transition-colors"
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { FeedbackEmphasis, SummaryVersion } from '../types';
+import { useI18n } from '../utils/i18n';
+import { languageOptions } from '../utils/languages';
+import { emphasisOptions } from '../utils/summary';
+
+const selectClassName = "p-2 bg-gray-900 border-2 border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50";
+
+interface FeedbackControlsProps {
+    versions: SummaryVersion[];
+    selectedVersionId: string | null;
+    defaultLanguage: string; // The interview's language
+    isGenerating: boolean;
+    error: string | null; // Why the last regeneration failed or stopped
+    onSelect: (versionId: string) => void;
+    onRegenerate: (language: string, emphasis: FeedbackEmphasis) => void;
+    onCancel: () => void;
+}
+
+// Switches between generated versions of the feedback and asks for another one,
+// in a different language or with a different emphasis.
+export const FeedbackControls = ({ versions, selectedVersionId, defaultLanguage, isGenerating, error, onSelect, onRegenerate, onCancel }: FeedbackControlsProps) => {
+    const [language, setLanguage] = useState(defaultLanguage);
+    const [emphasis, setEmphasis] = useState<FeedbackEmphasis>('balanced');
+    const { t } = useI18n();
+
+    const languageLabel = (value: string) => languageOptions.find(option => option.value === value)?.label ?? value;
+    const emphasisLabel = (value: FeedbackEmphasis) => t(emphasisOptions.find(option => option.value === value)!.labelKey);
+
+    return (
+        <div className="bg-gray-900 p-4 rounded-lg mb-6 space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+                {versions.length > 0 && (
+                    <>
+                        <label htmlFor="feedback-version" className="text-sm font-medium text-gray-300">{t('feedback.version')}</label>
+                        <select
+                            id="feedback-version"
+                            className={`${selectClassName} flex-1 min-w-0`}
+                            value={selectedVersionId ?? ''}
+                            onChange={(e) => onSelect(e.target.value)}
+                            disabled={isGenerating}
+                        >
+                            {versions.map((version, i) => (
+                                <option key={version.id} value={version.id}>
+                                    {t('feedback.versionLabel', { number: i + 1, language: languageLabel(version.language), emphasis: emphasisLabel(version.emphasis) })}
+                                </option>
+                            ))}
+                        </select>
+                    </>
+                )}
+                {isGenerating && (
+                    <>
+                        <span className="flex-1 text-sm text-gray-400 animate-pulse">{t('app.generatingFeedback')}</span>
+                        <button
+                            onClick={onCancel}
+                            className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                    </>
+                )}
+            </div>
+            {!isGenerating && versions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3">
+                    <label htmlFor="feedback-language" className="text-sm font-medium text-gray-300">{t('feedback.regenerateIn')}</label>
+                    <select id="feedback-language" className={selectClassName} value={language} onChange={(e) => setLanguage(e.target.value)}>
+                        {languageOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                    <label htmlFor="feedback-emphasis" className="text-sm font-medium text-gray-300">{t('feedback.emphasis')}</label>
+                    <select id="feedback-emphasis" className={selectClassName} value={emphasis} onChange={(e) => setEmphasis(e.target.value as FeedbackEmphasis)}>
+                        {emphasisOptions.map(option => <option key={option.value} value={option.value}>{t(option.labelKey)}</option>)}
+                    </select>
+                    <button
+                        onClick={() => onRegenerate(language, emphasis)}
+                        className="bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors"
+                    >
+                        {t('feedback.regenerate')}
+                    </button>
+                </div>
+            )}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../utils/i18n';
+import { parseFocusAreas } from '../utils/templates';
+
+interface FocusAreasInputProps {
+    id: string;
+    value: string[];
+    onChange: (focusAreas: string[]) => void;
+}
+
+// A comma-separated text input for focus areas. Keeps the raw text locally so
+// separators can be typed, and only reports the parsed list upwards.
+export const FocusAreasInput = ({ id, value, onChange }: FocusAreasInputProps) => {
+    const [text, setText] = useState(value.join(', '));
+    const { t } = useI18n();
+
+    useEffect(() => {
+        // Pick up changes made from outside, e.g. when a template is applied.
+        if (parseFocusAreas(text).join('\n') !== value.join('\n')) {
+            setText(value.join(', '));
+        }
+    }, [value]);
+
+    return (
+        <input
+            id={id}
+            className="w-full p-3 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all"
+            value={text}
+            onChange={(e) => {
+                setText(e.target.value);
+                onChange(parseFocusAreas(e.target.value));
+            }}
+            placeholder={t('focusAreas.placeholder')}
+        />
+    );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { InterviewSession } from '../types';
+import { deleteSession, listSessions } from '../services/historyStore';
+import { formatDateTime, formatDuration } from '../utils/format';
+import { useI18n } from '../utils/i18n';
+import { MAX_SCORE } from '../utils/summary';
+import { CopyIcon, PlayIcon, TrashIcon } from './IconComponents';
+
+interface HistoryViewProps {
+    onOpen: (session: InterviewSession) => void;
+    onDuplicate: (session: InterviewSession) => void;
+    onBack: () => void;
+}
+
+export const HistoryView = ({ onOpen, onDuplicate, onBack }: HistoryViewProps) => {
+    const [sessions, setSessions] = useState<InterviewSession[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const { t } = useI18n();
+
+    useEffect(() => {
+        listSessions()
+            .then(setSessions)
+            .catch(err => {
+                console.error('Failed to load interview history:', err);
+                setError(t('history.loadFailed'));
+                setSessions([]);
+            });
+    }, []);
+
+    const handleDelete = async (session: InterviewSession) => {
+        if (!window.confirm(t('history.confirmDelete', { date: formatDateTime(session.startedAt) }))) return;
+        try {
+            await deleteSession(session.id);
+            setSessions(prev => prev?.filter(s => s.id !== session.id) ?? null);
+        } catch (err) {
+            console.error('Failed to delete interview:', err);
+            setError(t('history.deleteFailed'));
+        }
+    };
+
+    return (
+        <div className="w-full max-w-3xl mx-auto">
+            <h1 className="text-4xl font-bold text-center mb-6">{t('history.title')}</h1>
+            {error && <p className="text-red-400 text-center mb-4">{error}</p>}
+            {sessions === null && <p className="text-center text-gray-400">{t('common.loading')}</p>}
+            {sessions?.length === 0 && !error && <p className="text-center text-gray-400">{t('history.empty')}</p>}
+            <ul className="space-y-4">
+                {sessions?.map(session => (
+                    <li key={session.id} className="bg-gray-800 p-4 rounded-lg shadow-lg">
+                        <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold text-gray-100">{formatDateTime(session.startedAt)}</p>
+                                <p className="text-sm text-gray-400">
+                                    {session.language} · {formatDuration(session.durationMs)} · {t('history.turns', { count: session.transcript.length })}
+                                    {session.summary && ` · ${session.summary.overallScore === null ? t('summary.notScored') : `${session.summary.overallScore} / ${MAX_SCORE}`} · ${t(`recommendation.${session.summary.recommendation}`)}`}
+                                </p>
+                                <p className="text-sm text-gray-300 mt-2 truncate" title={session.script}>{session.script}</p>
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                                <button
+                                    onClick={() => onOpen(session)}
+                                    className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-3 rounded-lg flex items-center"
+                                    aria-label={t('history.openLabel')}
+                                >
+                                    <PlayIcon className="h-5 w-5 me-1" /> {t('history.open')}
+                                </button>
+                                <button
+                                    onClick={() => onDuplicate(session)}
+                                    className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-3 rounded-lg"
+                                    title={t('history.duplicateTitle')}
+                                    aria-label={t('history.duplicateLabel')}
+                                >
+                                    <CopyIcon className="h-5 w-5" />
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(session)}
+                                    className="bg-gray-700 hover:bg-red-700 text-white py-2 px-3 rounded-lg"
+                                    title={t('history.delete')}
+                                    aria-label={t('history.delete')}
+                                >
+                                    <TrashIcon className="h-5 w-5" />
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            <button
+                onClick={onBack}
+                className="w-full mt-8 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-colors"
+            >
+                {t('common.back')}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { formatDuration } from '../utils/format';
+import { useI18n } from '../utils/i18n';
+
+interface InterviewCountdownProps {
+    startedAt: number; // Epoch milliseconds
+    durationMs: number;
+    wrapUpLeadMs: number; // Remaining time at which the interviewer starts wrapping up
+    pausedAt?: number | null; // Freezes the countdown while the interview is paused
+}
+
+// Time left in a time-boxed interview, highlighted once the wrap-up phase begins.
+export const InterviewCountdown = ({ startedAt, durationMs, wrapUpLeadMs, pausedAt }: InterviewCountdownProps) => {
+    const [now, setNow] = useState(Date.now());
+    const { t } = useI18n();
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const remainingMs = Math.max(0, startedAt + durationMs - (pausedAt ?? now));
+    const isWrappingUp = remainingMs <= wrapUpLeadMs;
+    return (
+        <div className="flex flex-col items-center" role="timer" aria-label={t('countdown.label')}>
+            <span className={`text-3xl font-mono font-bold ${remainingMs <= 30000 ? 'text-red-400' : isWrappingUp ? 'text-yellow-400' : 'text-gray-100'}`}>
+                {formatDuration(remainingMs)}
+            </span>
+            <span className="text-xs text-gray-400">{pausedAt ? t('countdown.paused') : isWrappingUp ? t('countdown.wrappingUp') : t('countdown.remaining')}</span>
+        </div>
+    );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Panelist } from '../types';
+import { useI18n } from '../utils/i18n';
+import { DEFAULT_PANEL, EXTRA_PANELIST, MAX_PANEL_SIZE, MIN_PANEL_SIZE } from '../utils/panel';
+import { PREBUILT_VOICES } from '../utils/persona';
+import { TrashIcon } from './IconComponents';
+
+const inputClassName = "w-full p-2 bg-gray-900 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all";
+
+interface PanelSettingsProps {
+    panel: Panelist[]; // Empty for a one-on-one interview
+    onChange: (panel: Panelist[]) => void;
+}
+
+// Switches between a single interviewer and a panel of named interviewers, each with their own role, voice and focus.
+export const PanelSettings = ({ panel, onChange }: PanelSettingsProps) => {
+    const { t } = useI18n();
+    const isPanel = panel.length > 0;
+
+    const updatePanelist = (index: number, changes: Partial<Panelist>) =>
+        onChange(panel.map((panelist, i) => (i === index ? { ...panelist, ...changes } : panelist)));
+
+    return (
+        <div className="bg-gray-800 border-2 border-gray-700 rounded-lg p-3 space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-300 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={isPanel}
+                    onChange={(e) => onChange(e.target.checked ? DEFAULT_PANEL : [])}
+                    className="accent-purple-500"
+                />
+                {t('panel.toggle')}
+                <span className="text-gray-400 font-normal">{t('panel.toggleHelp', { min: MIN_PANEL_SIZE, max: MAX_PANEL_SIZE })}</span>
+            </label>
+            {isPanel && (
+                <>
+                    {panel.map((panelist, i) => (
+                        <div key={i} className="bg-gray-900 rounded-lg p-3 space-y-2">
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <input
+                                    className={inputClassName}
+                                    value={panelist.name}
+                                    onChange={(e) => updatePanelist(i, { name: e.target.value })}
+                                    placeholder={t('panel.namePlaceholder')}
+                                    aria-label={t('panel.nameLabel', { number: i + 1 })}
+                                />
+                                <input
+                                    className={inputClassName}
+                                    value={panelist.role}
+                                    onChange={(e) => updatePanelist(i, { role: e.target.value })}
+                                    placeholder={t('panel.rolePlaceholder')}
+                                    aria-label={t('panel.roleLabel', { number: i + 1 })}
+                                />
+                                <select
+                                    className={`${inputClassName} sm:w-48`}
+                                    value={panelist.voice}
+                                    onChange={(e) => updatePanelist(i, { voice: e.target.value })}
+                                    aria-label={t('panel.voiceLabel', { number: i + 1 })}
+                                >
+                                    {PREBUILT_VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.name} ({t(voice.styleKey)})</option>)}
+                                </select>
+                                {panel.length > MIN_PANEL_SIZE && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onChange(panel.filter((_, j) => j !== i))}
+                                        className="text-gray-400 hover:text-red-400 p-2 self-center"
+                                        title={t('panel.remove')}
+                                        aria-label={t('panel.removeLabel', { number: i + 1 })}
+                                    >
+                                        <TrashIcon className="h-5 w-5" />
+                                    </button>
+                                )}
+                            </div>
+                            <input
+                                className={inputClassName}
+                                value={panelist.focus}
+                                onChange={(e) => updatePanelist(i, { focus: e.target.value })}
+                                placeholder={t('panel.focusPlaceholder')}
+                                aria-label={t('panel.focusLabel', { number: i + 1 })}
+                            />
+                        </div>
+                    ))}
+                    {panel.length < MAX_PANEL_SIZE && (
+                        <button
+                            type="button"
+                            onClick={() => onChange([...panel, EXTRA_PANELIST])}
+                            className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded-lg text-sm transition-colors"
+                        >
+                            {t('panel.add')}
+                        </button>
+                    )}
+                    {new Set(panel.map(p => p.voice)).size < panel.length && (
+                        <p className="text-sm text-yellow-300">{t('panel.sharedVoices')}</p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
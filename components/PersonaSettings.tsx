@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DifficultyLevel, InterviewerPersona, InterviewTone } from '../types';
+import { decode, decodeAudioData } from '../utils/audio';
+import { useI18n } from '../utils/i18n';
+import { difficultyOptions, PREBUILT_VOICES, toneOptions } from '../utils/persona';
+import { SpeakerIcon } from './IconComponents';
+
+const inputClassName = "w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all";
+
+interface PersonaSettingsProps {
+    persona: InterviewerPersona;
+    onChange: (persona: InterviewerPersona) => void;
+    onPreview: (voice: string) => Promise<string>; // Resolves to base64 24 kHz PCM, or '' if unavailable
+    isPanel?: boolean; // Panelists have their own names and voices, so only the shared settings are shown
+}
+
+// Chooses who the interviewer is: voice, tone, difficulty, name and company.
+export const PersonaSettings = ({ persona, onChange, onPreview, isPanel = false }: PersonaSettingsProps) => {
+    const [previewing, setPreviewing] = useState<string | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const previewContextRef = useRef<AudioContext | null>(null);
+    const { t } = useI18n();
+
+    useEffect(() => () => {
+        previewContextRef.current?.close().catch(console.error);
+    }, []);
+
+    const update = (changes: Partial<InterviewerPersona>) => onChange({ ...persona, ...changes });
+
+    const handlePreview = async (voice: string) => {
+        previewContextRef.current?.close().catch(console.error);
+        previewContextRef.current = null;
+        setPreviewing(voice);
+        setPreviewError(null);
+        try {
+            const audio = await onPreview(voice);
+            if (!audio) {
+                setPreviewError(t('persona.previewUnavailable'));
+                return;
+            }
+            const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+            previewContextRef.current = ctx;
+            const source = ctx.createBufferSource();
+            source.buffer = await decodeAudioData(decode(audio), ctx, 24000, 1);
+            source.connect(ctx.destination);
+            source.start();
+        } catch (err) {
+            console.error('Failed to preview voice:', err);
+            setPreviewError(t('persona.previewUnavailable'));
+        } finally {
+            setPreviewing(null);
+        }
+    };
+
+    return (
+        <details className="bg-gray-800 border-2 border-gray-700 rounded-lg">
+            <summary className="cursor-pointer p-3 text-sm font-medium text-gray-300">
+                {isPanel ? t('persona.panelStyle') : t('persona.interviewer')}
+                <span className="ms-2 text-gray-400">
+                    · {isPanel ? persona.company.trim() || t('persona.sharedByPanel') : persona.name.trim() || persona.voice}, {t(toneOptions.find(o => o.value === persona.tone)!.labelKey).toLocaleLowerCase()}, {t(difficultyOptions.find(o => o.value === persona.difficulty)!.labelKey).toLocaleLowerCase()}
+                </span>
+            </summary>
+            <div className="px-3 pb-3 space-y-4">
+                <div className="flex flex-col sm:flex-row gap-4">
+                    {!isPanel && (
+                        <div className="flex-1">
+                            <label htmlFor="persona-name" className="block text-sm font-medium text-gray-300 mb-2">{t('persona.name')}</label>
+                            <input id="persona-name" className={inputClassName} value={persona.name} onChange={(e) => update({ name: e.target.value })} placeholder={t('persona.namePlaceholder')} />
+                        </div>
+                    )}
+                    <div className="flex-1">
+                        <label htmlFor="persona-company" className="block text-sm font-medium text-gray-300 mb-2">{t('persona.company')}</label>
+                        <input id="persona-company" className={inputClassName} value={persona.company} onChange={(e) => update({ company: e.target.value })} placeholder={t('persona.companyPlaceholder')} />
+                    </div>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-4">
+                    <div className="flex-1">
+                        <label htmlFor="persona-tone" className="block text-sm font-medium text-gray-300 mb-2">{t('persona.tone')}</label>
+                        <select id="persona-tone" className={inputClassName} value={persona.tone} onChange={(e) => update({ tone: e.target.value as InterviewTone })}>
+                            {toneOptions.map(option => <option key={option.value} value={option.value}>{t(option.labelKey)}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex-1">
+                        <label htmlFor="persona-difficulty" className="block text-sm font-medium text-gray-300 mb-2">{t('persona.difficulty')}</label>
+                        <select id="persona-difficulty" className={inputClassName} value={persona.difficulty} onChange={(e) => update({ difficulty: e.target.value as DifficultyLevel })}>
+                            {difficultyOptions.map(option => <option key={option.value} value={option.value}>{t(option.labelKey)}</option>)}
+                        </select>
+                    </div>
+                </div>
+                {!isPanel && (
+                    <fieldset>
+                        <legend className="block text-sm font-medium text-gray-300 mb-2">{t('persona.voice')}</legend>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                            {PREBUILT_VOICES.map(voice => (
+                                <div
+                                    key={voice.name}
+                                    className={`flex items-center justify-between gap-1 p-2 rounded-lg border-2 ${persona.voice === voice.name ? 'border-purple-500 bg-gray-900' : 'border-gray-700'}`}
+                                >
+                                    <label className="flex-1 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name="persona-voice"
+                                            value={voice.name}
+                                            checked={persona.voice === voice.name}
+                                            onChange={() => update({ voice: voice.name })}
+                                            className="sr-only"
+                                        />
+                                        <span className="block text-sm text-white">{voice.name}</span>
+                                        <span className="block text-xs text-gray-400">{t(voice.styleKey)}</span>
+                                    </label>
+                                    <button
+                                        type="button"
+                                        onClick={() => handlePreview(voice.name)}
+                                        disabled={previewing !== null}
+                                        className="text-gray-400 hover:text-white disabled:opacity-50 p-1"
+                                        title={t('persona.preview', { voice: voice.name })}
+                                        aria-label={t('persona.preview', { voice: voice.name })}
+                                    >
+                                        <SpeakerIcon className={`h-5 w-5 ${previewing === voice.name ? 'animate-pulse text-purple-400' : ''}`} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        {previewError && <p className="text-sm text-orange-300 mt-2">{previewError}</p>}
+                    </fieldset>
+                )}
+            </div>
+        </details>
+    );
+};
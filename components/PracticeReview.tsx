@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { PracticeAttempt } from '../types';
+import { useI18n } from '../utils/i18n';
+import { PlayIcon } from './IconComponents';
+
+interface PracticeReviewProps {
+    question: string;
+    originalAnswer: string;
+    attempts: PracticeAttempt[];
+    onTryAgain: () => void;
+    onBack: () => void;
+}
+
+const AnswerColumn = ({ title, answer, highlighted }: { title: string; answer: string; highlighted?: boolean }) => {
+    const { t } = useI18n();
+    return (
+        <div className={`bg-gray-900 p-4 rounded-lg ${highlighted ? 'border border-purple-700' : ''}`}>
+            <h3 className={`text-sm font-semibold mb-2 ${highlighted ? 'text-purple-300' : 'text-gray-400'}`}>{title}</h3>
+            <p className="text-gray-300 whitespace-pre-wrap" dir="auto">{answer || t('practice.noAnswer')}</p>
+        </div>
+    );
+};
+
+// Shows a practice question's original answer next to the practice attempts, with feedback on what changed.
+export const PracticeReview = ({ question, originalAnswer, attempts, onTryAgain, onBack }: PracticeReviewProps) => {
+    const [comparedIndex, setComparedIndex] = useState(attempts.length - 1);
+    const compared = attempts[Math.min(comparedIndex, attempts.length - 1)];
+    const { t } = useI18n();
+
+    return (
+        <div className="w-full max-w-5xl mx-auto">
+            <h1 className="text-4xl font-bold text-center mb-2">{t('practice.title')}</h1>
+            <p className="text-center text-gray-300 mb-6">{question}</p>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-lg mb-8">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <AnswerColumn title={t('practice.originalAnswer')} answer={originalAnswer} />
+                    {compared && <AnswerColumn title={t('practice.attempt', { number: attempts.indexOf(compared) + 1 })} answer={compared.answer} highlighted />}
+                </div>
+                {attempts.length > 1 && (
+                    <div className="flex flex-wrap gap-2 mt-4" role="tablist" aria-label={t('practice.attemptsLabel')}>
+                        {attempts.map((_, i) => (
+                            <button
+                                key={i}
+                                role="tab"
+                                aria-selected={attempts[i] === compared}
+                                onClick={() => setComparedIndex(i)}
+                                className={`py-1 px-3 rounded-lg text-sm ${attempts[i] === compared ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                            >
+                                {t('practice.attempt', { number: i + 1 })}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            {compared && (
+                <div className="bg-gray-800 p-6 rounded-lg shadow-lg mb-8">
+                    <h2 className="text-2xl font-bold text-purple-400 mb-4">{t('practice.whatChanged')}</h2>
+                    {compared.comparison ? (
+                        <div className="text-gray-300 prose prose-invert prose-p:my-2 prose-headings:my-4 max-w-none">
+                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{compared.comparison}</ReactMarkdown>
+                        </div>
+                    ) : (
+                        <p className="text-gray-400">{t('practice.comparisonFailed')}</p>
+                    )}
+                </div>
+            )}
+            <div className="flex flex-col sm:flex-row gap-4">
+                <button
+                    onClick={onBack}
+                    className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-colors"
+                >
+                    {t('practice.backToResults')}
+                </button>
+                <button
+                    onClick={onTryAgain}
+                    className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-transform transform hover:scale-105"
+                >
+                    <PlayIcon className="h-6 w-6 me-2" />
+                    {t('common.tryAgain')}
+                </button>
+            </div>
+        </div>
+    );
+};
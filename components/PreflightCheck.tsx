@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioDevices, openMicrophone, setOutputDevice } from '../utils/audioDevices';
+import { getApiErrorMessage } from '../utils/error';
+import { useI18n } from '../utils/i18n';
+import { InterviewRecorder } from '../utils/recorder';
+import { AudioControls } from './AudioControls';
+import { MicIcon, PlayIcon } from './IconComponents';
+
+const TEST_RECORDING_MS = 4000;
+
+type TestPhase = 'idle' | 'recording' | 'playing' | 'done';
+
+// The microphone as the check hears it, through the same gain the interview will use.
+interface CheckAudio {
+    ctx: AudioContext;
+    stream: MediaStream;
+    micGain: GainNode;
+    playbackGain: GainNode;
+    analyser: AnalyserNode;
+}
+
+interface PreflightCheckProps {
+    devices: AudioDevices;
+    inputDeviceId: string | null;
+    onInputDeviceChange: (deviceId: string | null) => void;
+    outputDeviceId: string | null;
+    onOutputDeviceChange: (deviceId: string | null) => void;
+    micGain: number;
+    onMicGainChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    speakerVolume: number;
+    onSpeakerVolumeChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    onStart: () => void;
+    onBack: () => void;
+}
+
+// Runs before a voice interview connects: shows the microphone level and records
+// a few seconds to play back through the chosen speakers.
+export const PreflightCheck = ({ devices, inputDeviceId, onInputDeviceChange, outputDeviceId, onOutputDeviceChange, micGain, onMicGainChange, speakerVolume, onSpeakerVolumeChange, onStart, onBack }: PreflightCheckProps) => {
+    const [audio, setAudio] = useState<CheckAudio | null>(null);
+    const [phase, setPhase] = useState<TestPhase>('idle');
+    const [error, setError] = useState<string | null>(null);
+    const [micGeneration, setMicGeneration] = useState(0); // Bumped to reopen a microphone that went away
+    const audioRef = useRef<CheckAudio | null>(null);
+    const { t } = useI18n();
+    const { refresh: refreshDevices } = devices;
+
+    // Reopens the microphone whenever another one is picked or the current one is unplugged.
+    useEffect(() => {
+        let cancelled = false;
+        let opened: CheckAudio | null = null;
+        const handleEnded = () => setMicGeneration(generation => generation + 1);
+        setError(null);
+        (async () => {
+            try {
+                const stream = await openMicrophone(inputDeviceId);
+                if (cancelled) {
+                    stream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+                const micGainNode = ctx.createGain();
+                const playbackGain = ctx.createGain();
+                const analyser = ctx.createAnalyser();
+                analyser.fftSize = 2048;
+                ctx.createMediaStreamSource(stream).connect(micGainNode).connect(analyser);
+                playbackGain.connect(ctx.destination);
+                stream.getAudioTracks()[0]?.addEventListener('ended', handleEnded);
+                opened = { ctx, stream, micGain: micGainNode, playbackGain, analyser };
+                audioRef.current = opened;
+                setAudio(opened);
+                refreshDevices();
+            } catch (err) {
+                console.error('Failed to open microphone for the audio check:', err);
+                if (!cancelled) setError(getApiErrorMessage(err, 'start'));
+            }
+        })();
+        return () => {
+            cancelled = true;
+            if (!opened) return;
+            opened.stream.getAudioTracks()[0]?.removeEventListener('ended', handleEnded);
+            opened.stream.getTracks().forEach(track => track.stop());
+            opened.ctx.close().catch(console.error);
+            audioRef.current = null;
+            setAudio(null);
+            setPhase('idle');
+        };
+    }, [inputDeviceId, micGeneration, refreshDevices]);
+
+    useEffect(() => {
+        if (audio) setOutputDevice(audio.ctx, outputDeviceId);
+    }, [audio, outputDeviceId]);
+
+    useEffect(() => {
+        audio?.micGain.gain.setValueAtTime(micGain, audio.ctx.currentTime);
+        audio?.playbackGain.gain.setValueAtTime(speakerVolume, audio.ctx.currentTime);
+    }, [audio, micGain, speakerVolume]);
+
+    const handleTest = async () => {
+        if (!audio) return;
+        setPhase('recording');
+        try {
+            const recorder = new InterviewRecorder(audio.ctx);
+            audio.micGain.connect(recorder.input);
+            recorder.start();
+            await new Promise(resolve => setTimeout(resolve, TEST_RECORDING_MS));
+            const blob = await recorder.stop();
+            audio.micGain.disconnect(recorder.input);
+            // The microphone may have been switched or unplugged while recording.
+            if (audioRef.current !== audio) return;
+            if (!blob) throw new Error('The test recording is empty');
+
+            setPhase('playing');
+            const source = audio.ctx.createBufferSource();
+            source.buffer = await audio.ctx.decodeAudioData(await blob.arrayBuffer());
+            source.connect(audio.playbackGain);
+            source.onended = () => setPhase(current => (current === 'playing' ? 'done' : current));
+            source.start();
+        } catch (err) {
+            console.error('Audio check failed:', err);
+            setError(t('preflight.testFailed'));
+            setPhase('idle');
+        }
+    };
+
+    return (
+        <div className="w-full max-w-2xl mx-auto">
+            <h1 className="text-4xl font-bold text-center mb-2">{t('preflight.title')}</h1>
+            <p className="text-center text-gray-400 mb-8">{t('preflight.intro')}</p>
+            <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-6">
+                <AudioControls
+                    devices={devices}
+                    inputDeviceId={inputDeviceId}
+                    onInputDeviceChange={onInputDeviceChange}
+                    outputDeviceId={outputDeviceId}
+                    onOutputDeviceChange={onOutputDeviceChange}
+                    micGain={micGain}
+                    onMicGainChange={onMicGainChange}
+                    speakerVolume={speakerVolume}
+                    onSpeakerVolumeChange={onSpeakerVolumeChange}
+                    micAnalyser={audio?.analyser}
+                />
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <button
+                        type="button"
+                        onClick={handleTest}
+                        disabled={!audio || phase === 'recording' || phase === 'playing'}
+                        className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded-lg flex items-center justify-center transition-colors"
+                    >
+                        <MicIcon className="h-5 w-5 me-2" />
+                        {t('preflight.test', { seconds: TEST_RECORDING_MS / 1000 })}
+                    </button>
+                    <p className="flex-1 text-sm text-gray-400" role="status">
+                        {phase === 'recording' && <span className="text-yellow-300 animate-pulse">{t('preflight.recording')}</span>}
+                        {phase === 'playing' && <span className="text-yellow-300">{t('preflight.playing')}</span>}
+                        {phase === 'done' && t('preflight.heardYourself')}
+                    </p>
+                </div>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-4 mt-6">
+                <button
+                    onClick={onBack}
+                    className="sm:w-40 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-colors"
+                >
+                    {t('common.back')}
+                </button>
+                <button
+                    onClick={onStart}
+                    className="flex-1 bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-transform transform hover:scale-105"
+                >
+                    <PlayIcon className="h-6 w-6 me-2" />
+                    {t('app.startInterview')}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { useI18n } from '../utils/i18n';
+import { getPlanDurationMinutes, getPlanQuestionCount, parseQuestionPlan, QUESTION_PLAN_PLACEHOLDER } from '../utils/questionPlan';
+
+interface QuestionPlanInputProps {
+    id: string;
+    value: string;
+    onChange: (value: string) => void;
+}
+
+// An optional, collapsible editor for a structured question plan.
+export const QuestionPlanInput = ({ id, value, onChange }: QuestionPlanInputProps) => {
+    const { t } = useI18n();
+    const plan = parseQuestionPlan(value);
+    return (
+        <details open={value.trim() !== ''} className="bg-gray-800 border-2 border-gray-700 rounded-lg">
+            <summary className="cursor-pointer p-3 text-sm font-medium text-gray-300">
+                {t('plan.inputTitle')}
+                {plan && (
+                    <span className="ms-2 text-gray-400">
+                        · {t('plan.inputSummary', { sections: plan.sections.length, questions: getPlanQuestionCount(plan), minutes: getPlanDurationMinutes(plan) })}
+                    </span>
+                )}
+            </summary>
+            <div className="px-3 pb-3">
+                <p className="text-xs text-gray-400 mb-2">
+                    {t('plan.inputHelp')}
+                </p>
+                <textarea
+                    id={id}
+                    rows={6}
+                    className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={QUESTION_PLAN_PLACEHOLDER}
+                    aria-label={t('plan.title')}
+                />
+            </div>
+        </details>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { PlanProgress, QuestionPlan } from '../types';
+import { useI18n } from '../utils/i18n';
+import { getPlanQuestionCount, getSkippedQuestions } from '../utils/questionPlan';
+import { CheckIcon } from './IconComponents';
+
+interface QuestionPlanProps {
+    plan: QuestionPlan;
+    progress: PlanProgress;
+}
+
+// Shows which sections and questions of the plan the interviewer has covered during the interview.
+// On small screens it sits above the interview as a one-line summary that expands into the full plan.
+export const QuestionPlanRail = ({ plan, progress }: QuestionPlanProps) => {
+    const { t } = useI18n();
+    const [isExpanded, setIsExpanded] = useState(false);
+    const currentIndex = plan.sections.findIndex(section => section.id === progress.currentSectionId);
+    const currentSection = plan.sections[currentIndex];
+    return (
+        <nav aria-label={t('plan.progressLabel')} className="bg-gray-800 p-4 rounded-lg overflow-y-auto max-h-[40vh] lg:max-h-full lg:h-full">
+            <div className="flex items-center justify-between gap-2 lg:mb-3">
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-purple-400">{t('plan.title')}</h2>
+                <button
+                    type="button"
+                    onClick={() => setIsExpanded(expanded => !expanded)}
+                    aria-expanded={isExpanded}
+                    aria-controls="question-plan-sections"
+                    className="lg:hidden text-sm text-gray-300 hover:text-white"
+                >
+                    {isExpanded ? t('plan.hidePlan') : t('plan.showPlan')}
+                </button>
+            </div>
+            <p className="lg:hidden text-sm text-gray-300 mt-1">
+                {currentSection && <span className="font-semibold text-white">{currentSection.title} · </span>}
+                {t('plan.compactProgress', { asked: progress.askedQuestionIds.length, total: getPlanQuestionCount(plan) })}
+            </p>
+            <ol id="question-plan-sections" className={`${isExpanded ? 'block mt-3' : 'hidden'} lg:block lg:mt-0 space-y-4`}>
+                {plan.sections.map((section, i) => {
+                    const isCurrent = i === currentIndex;
+                    const isPast = currentIndex > -1 && i < currentIndex;
+                    return (
+                        <li key={section.id} className={`border-s-4 ps-3 ${isCurrent ? 'border-purple-500' : isPast ? 'border-gray-500' : 'border-gray-700'}`}>
+                            <p className={`font-semibold ${isCurrent ? 'text-white' : 'text-gray-400'}`}>{section.title}</p>
+                            <p className="text-xs text-gray-500 mb-1">{t('common.minutes', { minutes: section.timeBudgetMinutes })}</p>
+                            <ul className="space-y-1">
+                                {section.questions.map(question => {
+                                    const asked = progress.askedQuestionIds.includes(question.id);
+                                    return (
+                                        <li key={question.id} className={`flex items-start gap-2 text-sm ${asked ? 'text-gray-300' : 'text-gray-500'}`}>
+                                            <CheckIcon className={`h-4 w-4 flex-shrink-0 mt-0.5 ${asked ? 'text-green-400' : 'text-gray-700'}`} />
+                                            <span>{question.text}</span>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </li>
+                    );
+                })}
+            </ol>
+        </nav>
+    );
+};
+
+// Lists the planned questions that never came up, for the post-interview summary.
+export const SkippedQuestions = ({ plan, progress }: QuestionPlanProps) => {
+    const { t } = useI18n();
+    const skipped = getSkippedQuestions(plan, progress);
+    return (
+        <div>
+            <h3 className="text-lg font-semibold text-gray-100 mb-2">{t('plan.skipped')}</h3>
+            {skipped.length === 0 ? (
+                <p className="text-sm text-gray-300">{t('plan.allAsked')}</p>
+            ) : (
+                <ul className="list-disc list-inside space-y-1 text-sm text-gray-300">
+                    {skipped.map(({ section, question }, i) => (
+                        <li key={i}><span className="text-gray-400">{section}:</span> {question}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
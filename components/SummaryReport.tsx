@@ -0,0 +1,197 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CompetencyScore, HiringRecommendation, InterviewSummary, PanelistFeedback } from '../types';
+import { MessageKey, useI18n } from '../utils/i18n';
+import { MAX_SCORE, PartialInterviewSummary } from '../utils/summary';
+
+const recommendationStyles: Record<HiringRecommendation, string> = {
+    STRONG_HIRE: 'bg-green-600 text-white',
+    HIRE: 'bg-green-800 text-green-100',
+    LEAN_HIRE: 'bg-yellow-700 text-yellow-100',
+    LEAN_NO_HIRE: 'bg-orange-800 text-orange-100',
+    NO_HIRE: 'bg-red-800 text-red-100',
+};
+
+// Display names for SUMMARY_COMPETENCIES.
+const competencyLabelKeys: Record<string, MessageKey> = {
+    'Communication': 'competency.communication',
+    'Problem Solving': 'competency.problemSolving',
+    'Role Fit': 'competency.roleFit',
+    'Leadership': 'competency.leadership',
+    'Self-Awareness': 'competency.selfAwareness',
+};
+
+const formatScore = (score: number) => `${Number.isInteger(score) ? score : score.toFixed(1)} / ${MAX_SCORE}`;
+
+const CompetencyRadarChart = ({ competencies }: { competencies: CompetencyScore[] }) => {
+    const { t } = useI18n();
+    const size = 280;
+    const center = size / 2;
+    const radius = 90;
+    const angleFor = (i: number) => (Math.PI * 2 * i) / competencies.length - Math.PI / 2;
+    const pointAt = (i: number, value: number) => {
+        const r = (value / MAX_SCORE) * radius;
+        return { x: center + r * Math.cos(angleFor(i)), y: center + r * Math.sin(angleFor(i)) };
+    };
+    const polygonPoints = (valueAt: (i: number) => number) =>
+        competencies.map((_, i) => pointAt(i, valueAt(i))).map(({ x, y }) => `${x},${y}`).join(' ');
+
+    return (
+        <svg viewBox={`-40 0 ${size + 80} ${size}`} className="w-full max-w-xs mx-auto" role="img" aria-label={t('summary.chartLabel')}>
+            {Array.from({ length: MAX_SCORE }, (_, level) => (
+                <polygon
+                    key={level}
+                    points={polygonPoints(() => level + 1)}
+                    className="fill-none stroke-gray-700"
+                />
+            ))}
+            {competencies.map((_, i) => {
+                const { x, y } = pointAt(i, MAX_SCORE);
+                return <line key={i} x1={center} y1={center} x2={x} y2={y} className="stroke-gray-700" />;
+            })}
+            <polygon
+                points={polygonPoints(i => competencies[i].score ?? 0)}
+                className="fill-purple-500/40 stroke-purple-400"
+                strokeWidth={2}
+            />
+            {competencies.map((c, i) => {
+                const { x, y } = pointAt(i, MAX_SCORE * (radius + 22) / radius);
+                return (
+                    <text key={c.competency} x={x} y={y} textAnchor="middle" dominantBaseline="middle" className="fill-gray-300 text-[10px]">
+                        {competencyLabelKeys[c.competency] ? t(competencyLabelKeys[c.competency]) : c.competency}
+                    </text>
+                );
+            })}
+        </svg>
+    );
+};
+
+const ScoreCard = ({ competency }: { competency: CompetencyScore }) => {
+    const { t } = useI18n();
+    return (
+        <div className="bg-gray-900 p-4 rounded-lg">
+            <div className="flex items-baseline justify-between mb-2">
+                <h3 className="font-semibold text-gray-100">{competencyLabelKeys[competency.competency] ? t(competencyLabelKeys[competency.competency]) : competency.competency}</h3>
+                {competency.score === null
+                    ? <span className="text-gray-400 text-sm">{t('summary.notScored')}</span>
+                    : <span className="text-purple-300 font-bold">{formatScore(competency.score)}</span>}
+            </div>
+            <div className="w-full h-2 bg-gray-700 rounded-full mb-3">
+                <div className="h-2 bg-purple-500 rounded-full" style={{ width: `${((competency.score ?? 0) / MAX_SCORE) * 100}%` }} />
+            </div>
+            {competency.rationale && <p className="text-sm text-gray-300 mb-2">{competency.rationale}</p>}
+            {competency.evidence.map((quote, i) => (
+                <blockquote key={i} className="text-sm italic text-gray-400 border-s-2 border-cyan-700 ps-3 mt-2">
+                    “{quote}”
+                </blockquote>
+            ))}
+        </div>
+    );
+};
+
+const PanelistCard = ({ feedback }: { feedback: PanelistFeedback }) => {
+    const { t } = useI18n();
+    return (
+        <div className="bg-gray-900 p-4 rounded-lg">
+            <div className="flex items-center justify-between gap-2 mb-2">
+                <h3 className="font-semibold text-gray-100">{feedback.panelist}</h3>
+                <span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${recommendationStyles[feedback.recommendation]}`}>
+                    {t(`recommendation.${feedback.recommendation}`)}
+                </span>
+            </div>
+            <div className="text-sm text-gray-300 prose prose-invert prose-p:my-2 max-w-none">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>{feedback.viewpoint}</ReactMarkdown>
+            </div>
+        </div>
+    );
+};
+
+export const SummaryReport = ({ summary }: { summary: InterviewSummary }) => {
+    const { t } = useI18n();
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="text-center sm:text-start">
+                    <p className="text-sm text-gray-400">{t('summary.overallScore')}</p>
+                    {summary.overallScore === null
+                        ? <p className="text-2xl font-bold text-gray-400">{t('summary.notScored')}</p>
+                        : <p className="text-4xl font-bold text-white">{formatScore(summary.overallScore)}</p>}
+                </div>
+                <div className="flex-1 sm:text-end">
+                    <span className={`inline-block px-4 py-1 rounded-full font-semibold ${recommendationStyles[summary.recommendation]}`}>
+                        {t(`recommendation.${summary.recommendation}`)}
+                    </span>
+                    {summary.recommendationRationale && <p className="text-sm text-gray-300 mt-2">{summary.recommendationRationale}</p>}
+                </div>
+            </div>
+            <CompetencyRadarChart competencies={summary.competencies} />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {summary.competencies.map(competency => <ScoreCard key={competency.competency} competency={competency} />)}
+            </div>
+            {!!summary.panelistFeedback?.length && (
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-100 mb-3">{t('summary.panelFeedback')}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {summary.panelistFeedback.map(feedback => <PanelistCard key={feedback.panelist} feedback={feedback} />)}
+                    </div>
+                </div>
+            )}
+            {summary.narrative && (
+                <details className="bg-gray-900 p-4 rounded-lg">
+                    <summary className="cursor-pointer font-semibold text-gray-100">{t('summary.detailedFeedback')}</summary>
+                    <div className="text-gray-300 whitespace-pre-wrap space-y-2 prose prose-invert prose-p:my-2 prose-headings:my-4 mt-4">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{summary.narrative}</ReactMarkdown>
+                    </div>
+                </details>
+            )}
+        </div>
+    );
+};
+
+// The summary as it streams in: each part appears once the model has written it.
+export const StreamingSummaryReport = ({ summary }: { summary: PartialInterviewSummary | null }) => {
+    const { t } = useI18n();
+    if (!summary?.competencies.length) {
+        return <p className="text-gray-400 animate-pulse">{t('app.generatingFeedbackDetail')}</p>;
+    }
+    return (
+        <div className="space-y-6" aria-busy="true">
+            {summary.overallScore !== undefined && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                    <div className="text-center sm:text-start">
+                        <p className="text-sm text-gray-400">{t('summary.overallScore')}</p>
+                        <p className="text-4xl font-bold text-white">{formatScore(summary.overallScore)}</p>
+                    </div>
+                    <div className="flex-1 sm:text-end">
+                        {summary.recommendation && (
+                            <span className={`inline-block px-4 py-1 rounded-full font-semibold ${recommendationStyles[summary.recommendation]}`}>
+                                {t(`recommendation.${summary.recommendation}`)}
+                            </span>
+                        )}
+                        {summary.recommendationRationale && <p className="text-sm text-gray-300 mt-2">{summary.recommendationRationale}</p>}
+                    </div>
+                </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {summary.competencies.map(competency => <ScoreCard key={competency.competency} competency={competency} />)}
+            </div>
+            {summary.narrative && (
+                <div className="bg-gray-900 p-4 rounded-lg">
+                    <h3 className="font-semibold text-gray-100">{t('summary.detailedFeedback')}</h3>
+                    <div className="text-gray-300 whitespace-pre-wrap space-y-2 prose prose-invert prose-p:my-2 prose-headings:my-4 mt-4">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{summary.narrative}</ReactMarkdown>
+                    </div>
+                </div>
+            )}
+            {summary.panelistFeedback.length > 0 && (
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-100 mb-3">{t('summary.panelFeedback')}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {summary.panelistFeedback.map(feedback => <PanelistCard key={feedback.panelist} feedback={feedback} />)}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InterviewTemplate } from '../types';
+import { deleteTemplate, listTemplates, saveTemplate } from '../services/templateStore';
+import { downloadText } from '../utils/download';
+import { useI18n } from '../utils/i18n';
+import { languageOptions } from '../utils/languages';
+import {
+    BUILT_IN_TEMPLATES,
+    clampDurationMinutes,
+    createTemplateId,
+    MAX_DURATION_MINUTES,
+    MIN_DURATION_MINUTES,
+    parseFocusAreas,
+    parseTemplatesJson,
+    serializeTemplates,
+} from '../utils/templates';
+import { CopyIcon, DownloadIcon, EditIcon, PlayIcon, TrashIcon, UploadIcon } from './IconComponents';
+
+const inputClassName = "w-full p-3 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all";
+
+const toFileName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+
+const TemplateEditor = ({ template, onSave, onCancel }: {
+    template: InterviewTemplate;
+    onSave: (template: InterviewTemplate) => void;
+    onCancel: () => void;
+}) => {
+    const [draft, setDraft] = useState(template);
+    const [focusAreasText, setFocusAreasText] = useState(template.focusAreas.join(', '));
+    const { t } = useI18n();
+    const canSave = draft.name.trim() !== '' && draft.script.trim() !== '';
+
+    const update = (changes: Partial<InterviewTemplate>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+            <div>
+                <label htmlFor="template-name" className="block text-sm font-medium text-gray-300 mb-2">{t('templates.name')}</label>
+                <input id="template-name" className={inputClassName} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div>
+                <label htmlFor="template-description" className="block text-sm font-medium text-gray-300 mb-2">{t('templates.description')}</label>
+                <input id="template-description" className={inputClassName} value={draft.description} onChange={(e) => update({ description: e.target.value })} />
+            </div>
+            <div>
+                <label htmlFor="template-script" className="block text-sm font-medium text-gray-300 mb-2">{t('app.instructionsLabel')}</label>
+                <textarea id="template-script" rows={6} className={inputClassName} value={draft.script} onChange={(e) => update({ script: e.target.value })} />
+            </div>
+            <div className="flex flex-col sm:flex-row gap-4">
+                <div className="flex-1">
+                    <label htmlFor="template-language" className="block text-sm font-medium text-gray-300 mb-2">{t('templates.language')}</label>
+                    <select id="template-language" className={inputClassName} value={draft.language} onChange={(e) => update({ language: e.target.value })}>
+                        {languageOptions.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex-1">
+                    <label htmlFor="template-duration" className="block text-sm font-medium text-gray-300 mb-2">{t('common.durationLabel')}</label>
+                    <input
+                        id="template-duration"
+                        type="number"
+                        min={MIN_DURATION_MINUTES}
+                        max={MAX_DURATION_MINUTES}
+                        className={inputClassName}
+                        value={draft.durationMinutes}
+                        onChange={(e) => update({ durationMinutes: parseInt(e.target.value, 10) || 0 })}
+                    />
+                </div>
+            </div>
+            <div>
+                <label htmlFor="template-focus" className="block text-sm font-medium text-gray-300 mb-2">{t('common.focusAreasLabel')}</label>
+                <input id="template-focus" className={inputClassName} value={focusAreasText} onChange={(e) => setFocusAreasText(e.target.value)} />
+            </div>
+            <div className="flex gap-4">
+                <button
+                    onClick={onCancel}
+                    className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                >
+                    {t('common.cancel')}
+                </button>
+                <button
+                    onClick={() => onSave({
+                        ...draft,
+                        name: draft.name.trim(),
+                        durationMinutes: clampDurationMinutes(draft.durationMinutes),
+                        focusAreas: parseFocusAreas(focusAreasText),
+                        updatedAt: Date.now(),
+                    })}
+                    disabled={!canSave}
+                    className="w-full bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                >
+                    {t('templates.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface TemplateLibraryProps {
+    onUse: (template: InterviewTemplate) => void;
+    onBack: () => void;
+}
+
+export const TemplateLibrary = ({ onUse, onBack }: TemplateLibraryProps) => {
+    const [userTemplates, setUserTemplates] = useState<InterviewTemplate[]>([]);
+    const [editing, setEditing] = useState<InterviewTemplate | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const { t } = useI18n();
+
+    const refresh = () => listTemplates()
+        .then(setUserTemplates)
+        .catch(err => {
+            console.error('Failed to load templates:', err);
+            setError(t('templates.loadFailed'));
+        });
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleSave = async (template: InterviewTemplate) => {
+        try {
+            await saveTemplate(template);
+            setEditing(null);
+            await refresh();
+        } catch (err) {
+            console.error('Failed to save template:', err);
+            setError(t('templates.saveFailed'));
+        }
+    };
+
+    const handleDuplicate = (template: InterviewTemplate) => {
+        setEditing({ ...template, id: createTemplateId(), name: t('templates.copyName', { name: template.name }), builtIn: undefined, updatedAt: Date.now() });
+    };
+
+    const handleDelete = async (template: InterviewTemplate) => {
+        if (!window.confirm(t('templates.confirmDelete', { name: template.name }))) return;
+        try {
+            await deleteTemplate(template.id);
+            await refresh();
+        } catch (err) {
+            console.error('Failed to delete template:', err);
+            setError(t('templates.deleteFailed'));
+        }
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        setNotice(null);
+        try {
+            const imported = parseTemplatesJson(await file.text());
+            await Promise.all(imported.map(saveTemplate));
+            await refresh();
+            setNotice(t('templates.imported', { count: imported.length }));
+        } catch (err) {
+            console.error('Failed to import templates:', err);
+            setError(t('templates.importFailed', { message: err instanceof Error ? err.message : t('common.unknownError') }));
+        }
+    };
+
+    const exportTemplates = (templates: InterviewTemplate[], fileName: string) => {
+        downloadText(serializeTemplates(templates), `${fileName}.json`, 'application/json');
+    };
+
+    if (editing) {
+        return (
+            <div className="w-full max-w-3xl mx-auto">
+                <h1 className="text-4xl font-bold text-center mb-6">{userTemplates.some(template => template.id === editing.id) ? t('templates.edit') : t('templates.new')}</h1>
+                <TemplateEditor template={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+            </div>
+        );
+    }
+
+    const renderTemplate = (template: InterviewTemplate) => (
+        <li key={template.id} className="bg-gray-800 p-4 rounded-lg shadow-lg">
+            <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+                <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-100">{template.name}</p>
+                    <p className="text-sm text-gray-400">{template.language} · {t('common.minutes', { minutes: template.durationMinutes })}</p>
+                    {template.description && <p className="text-sm text-gray-300 mt-1">{template.description}</p>}
+                    {template.focusAreas.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {template.focusAreas.map(area => (
+                                <span key={area} className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{area}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                    <button
+                        onClick={() => onUse(template)}
+                        className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-3 rounded-lg flex items-center"
+                    >
+                        <PlayIcon className="h-5 w-5 me-1" /> {t('templates.use')}
+                    </button>
+                    {!template.builtIn && (
+                        <button onClick={() => setEditing(template)} className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-3 rounded-lg" title={t('templates.editLabel')} aria-label={t('templates.editLabel')}>
+                            <EditIcon className="h-5 w-5" />
+                        </button>
+                    )}
+                    <button onClick={() => handleDuplicate(template)} className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-3 rounded-lg" title={t('templates.duplicateLabel')} aria-label={t('templates.duplicateLabel')}>
+                        <CopyIcon className="h-5 w-5" />
+                    </button>
+                    <button onClick={() => exportTemplates([template], toFileName(template.name))} className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-3 rounded-lg" title={t('templates.exportTitle')} aria-label={t('templates.exportLabel')}>
+                        <DownloadIcon className="h-5 w-5" />
+                    </button>
+                    {!template.builtIn && (
+                        <button onClick={() => handleDelete(template)} className="bg-gray-700 hover:bg-red-700 text-white py-2 px-3 rounded-lg" title={t('templates.deleteLabel')} aria-label={t('templates.deleteLabel')}>
+                            <TrashIcon className="h-5 w-5" />
+                        </button>
+                    )}
+                </div>
+            </div>
+        </li>
+    );
+
+    return (
+        <div className="w-full max-w-3xl mx-auto">
+            <h1 className="text-4xl font-bold text-center mb-6">{t('templates.title')}</h1>
+            {error && <p className="text-red-400 text-center mb-4">{error}</p>}
+            {notice && <p className="text-green-400 text-center mb-4">{notice}</p>}
+            <div className="flex flex-wrap gap-2 justify-end mb-4">
+                <button
+                    onClick={() => setEditing({ id: createTemplateId(), name: '', description: '', script: '', language: 'English', durationMinutes: 30, focusAreas: [], updatedAt: Date.now() })}
+                    className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-3 rounded-lg"
+                >
+                    {t('templates.new')}
+                </button>
+                <button onClick={() => importInputRef.current?.click()} className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-3 rounded-lg flex items-center">
+                    <UploadIcon className="h-5 w-5 me-1" /> {t('templates.import')}
+                </button>
+                <input type="file" ref={importInputRef} onChange={handleImport} accept=".json,application/json" className="hidden" />
+                {userTemplates.length > 0 && (
+                    <button onClick={() => exportTemplates(userTemplates, 'interview-templates')} className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-3 rounded-lg flex items-center">
+                        <DownloadIcon className="h-5 w-5 me-1" /> {t('templates.exportMine')}
+                    </button>
+                )}
+            </div>
+            {userTemplates.length > 0 && (
+                <>
+                    <h2 className="text-2xl font-bold text-purple-400 mb-4">{t('templates.mine')}</h2>
+                    <ul className="space-y-4 mb-8">{userTemplates.map(renderTemplate)}</ul>
+                </>
+            )}
+            <h2 className="text-2xl font-bold text-purple-400 mb-4">{t('templates.presets')}</h2>
+            <ul className="space-y-4">{BUILT_IN_TEMPLATES.map(renderTemplate)}</ul>
+            <button
+                onClick={onBack}
+                className="w-full mt-8 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center text-lg transition-colors"
+            >
+                {t('common.back')}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TranscriptEntry } from '../types';
+import { encodeWav } from '../utils/audio';
+import { downloadBlob } from '../utils/download';
+import { useI18n } from '../utils/i18n';
+import { RobotIcon, UserIcon } from './IconComponents';
+
+interface TranscriptPlaybackProps {
+    transcript: TranscriptEntry[];
+    recording: Blob | null;
+    fileName: string;
+    selectedIndices?: number[]; // Entries highlighted as selected
+    onSelectEntry?: (index: number) => void;
+}
+
+const extensionFor = (mimeType: string) => (mimeType.includes('mp4') ? 'm4a' : 'webm');
+
+const convertToWav = async (recording: Blob): Promise<Blob> => {
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        const audioBuffer = await ctx.decodeAudioData(await recording.arrayBuffer());
+        const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+        return new Blob([encodeWav(channels, audioBuffer.sampleRate)], { type: 'audio/wav' });
+    } finally {
+        ctx.close().catch(console.error);
+    }
+};
+
+export const TranscriptPlayback = ({ transcript, recording, fileName, selectedIndices = [], onSelectEntry }: TranscriptPlaybackProps) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const entryRefs = useRef<(HTMLParagraphElement | null)[]>([]);
+    const [currentMs, setCurrentMs] = useState<number | null>(null);
+    const [isConverting, setIsConverting] = useState(false);
+    const { t } = useI18n();
+    const recordingUrl = useMemo(() => (recording ? URL.createObjectURL(recording) : null), [recording]);
+
+    useEffect(() => () => {
+        if (recordingUrl) URL.revokeObjectURL(recordingUrl);
+    }, [recordingUrl]);
+
+    // The active entry is the last one that started at or before the playback position.
+    const activeIndex = useMemo(() => {
+        if (currentMs === null) return -1;
+        let active = -1;
+        transcript.forEach((entry, i) => {
+            if (entry.startMs !== undefined && entry.startMs <= currentMs) active = i;
+        });
+        return active;
+    }, [transcript, currentMs]);
+
+    useEffect(() => {
+        if (activeIndex >= 0) entryRefs.current[activeIndex]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [activeIndex]);
+
+    const seekTo = (entry: TranscriptEntry) => {
+        if (!audioRef.current || entry.startMs === undefined) return;
+        audioRef.current.currentTime = entry.startMs / 1000;
+        audioRef.current.play().catch(console.error);
+    };
+
+    const handleDownloadWav = async () => {
+        if (!recording) return;
+        setIsConverting(true);
+        try {
+            downloadBlob(await convertToWav(recording), `${fileName}.wav`);
+        } catch (err) {
+            console.error('Failed to convert recording to WAV:', err);
+        } finally {
+            setIsConverting(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+            <h2 className="text-2xl font-bold text-purple-400 mb-4">{t('transcript.title')}</h2>
+            {recording && recordingUrl && (
+                <div className="mb-4 space-y-3">
+                    <audio
+                        ref={audioRef}
+                        src={recordingUrl}
+                        controls
+                        className="w-full"
+                        onTimeUpdate={(e) => setCurrentMs(e.currentTarget.currentTime * 1000)}
+                        onEnded={() => setCurrentMs(null)}
+                    />
+                    <div className="flex gap-2 justify-end text-sm">
+                        <button
+                            onClick={() => downloadBlob(recording, `${fileName}.${extensionFor(recording.type)}`)}
+                            className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded-lg transition-colors"
+                        >
+                            {t('transcript.download', { format: extensionFor(recording.type).toUpperCase() })}
+                        </button>
+                        <button
+                            onClick={handleDownloadWav}
+                            disabled={isConverting}
+                            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-1 px-3 rounded-lg transition-colors"
+                        >
+                            {isConverting ? t('transcript.converting') : t('transcript.downloadWav')}
+                        </button>
+                    </div>
+                </div>
+            )}
+            <div className="space-y-4 max-h-[40vh] overflow-y-auto">
+                {transcript.map((entry, i) => {
+                    const isSeekable = !!recording && entry.startMs !== undefined;
+                    const isClickable = isSeekable || !!onSelectEntry;
+                    const highlight = i === activeIndex ? 'ring-2 ring-purple-400' : selectedIndices.includes(i) ? 'ring-2 ring-cyan-400' : '';
+                    return (
+                        <div key={i} className={`flex items-start gap-3 ${entry.speaker === 'You' ? 'justify-end' : ''}`}>
+                            {entry.speaker === 'Interviewer' && <RobotIcon className="h-8 w-8 p-1.5 bg-gray-700 text-purple-400 rounded-full flex-shrink-0" />}
+                            <p
+                                ref={el => { entryRefs.current[i] = el; }}
+                                dir="auto"
+                                onClick={isClickable ? () => {
+                                    if (isSeekable) seekTo(entry);
+                                    onSelectEntry?.(i);
+                                } : undefined}
+                                className={`p-3 rounded-lg max-w-xl ${entry.speaker === 'You' ? 'bg-cyan-800 text-white' : 'bg-gray-700 text-gray-200'} ${highlight} ${isClickable ? 'cursor-pointer hover:brightness-110' : ''}`}
+                            >
+                                {entry.panelist && <span className="block text-xs font-semibold text-purple-300 mb-1">{entry.panelist}</span>}
+                                {entry.text}
+                                {entry.typed && <span className="block text-xs text-cyan-300 mt-1">{t('common.typed')}</span>}
+                            </p>
+                            {entry.speaker === 'You' && <UserIcon className="h-8 w-8 p-1.5 bg-gray-700 text-cyan-400 rounded-full flex-shrink-0" />}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { TurnTakingMode } from '../types';
+import { MessageKey, useI18n } from '../utils/i18n';
+import { MicIcon } from './IconComponents';
+
+export const turnTakingOptions: { value: TurnTakingMode; labelKey: MessageKey; descriptionKey: MessageKey }[] = [
+    { value: 'auto', labelKey: 'turnTaking.auto', descriptionKey: 'turnTaking.autoDescription' },
+    { value: 'push-to-talk', labelKey: 'turnTaking.push-to-talk', descriptionKey: 'turnTaking.push-to-talkDescription' },
+    { value: 'tap-to-finish', labelKey: 'turnTaking.tap-to-finish', descriptionKey: 'turnTaking.tap-to-finishDescription' },
+];
+
+interface TurnControlsProps {
+    mode: TurnTakingMode;
+    isAnswering: boolean;
+    onStartAnswer: () => void;
+    onFinishAnswer: () => void;
+}
+
+// The on-screen equivalent of the Space bar shortcut in the manual turn-taking modes.
+export const TurnControls = ({ mode, isAnswering, onStartAnswer, onFinishAnswer }: TurnControlsProps) => {
+    const { t } = useI18n();
+    if (mode === 'auto') return null;
+
+    const className = `w-full max-w-md mx-auto py-4 px-6 rounded-lg flex items-center justify-center text-lg font-bold select-none transition-colors ${isAnswering ? 'bg-green-600 hover:bg-green-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'}`;
+
+    if (mode === 'push-to-talk') {
+        return (
+            <button
+                type="button"
+                onPointerDown={onStartAnswer}
+                onPointerUp={onFinishAnswer}
+                onPointerLeave={() => isAnswering && onFinishAnswer()}
+                className={className}
+                aria-pressed={isAnswering}
+            >
+                <MicIcon className="h-6 w-6 me-2" />
+                {isAnswering ? t('turnTaking.listening') : t('turnTaking.holdToTalk')}
+            </button>
+        );
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={isAnswering ? onFinishAnswer : onStartAnswer}
+            className={className}
+            aria-pressed={isAnswering}
+        >
+            <MicIcon className="h-6 w-6 me-2" />
+            {isAnswering ? t('turnTaking.finishAnswer') : t('turnTaking.startAnswer')}
+        </button>
+    );
+};
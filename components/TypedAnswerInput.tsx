@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { useI18n } from '../utils/i18n';
+import { PlayIcon } from './IconComponents';
+
+interface TypedAnswerInputProps {
+    onSend: (text: string) => void;
+    onDraftChange?: (text: string) => void; // Follows the unsent text, e.g. for coaching hints
+}
+
+// A text box for answering by typing. Enter sends; Shift+Enter adds a new line.
+export const TypedAnswerInput = ({ onSend, onDraftChange }: TypedAnswerInputProps) => {
+    const [text, setText] = useState('');
+    const { t } = useI18n();
+
+    const updateText = (value: string) => {
+        setText(value);
+        onDraftChange?.(value);
+    };
+
+    const send = () => {
+        if (!text.trim()) return;
+        onSend(text.trim());
+        updateText('');
+    };
+
+    return (
+        <div className="flex gap-2 items-end">
+            <textarea
+                rows={2}
+                value={text}
+                onChange={(e) => updateText(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        send();
+                    }
+                }}
+                placeholder={t('typedAnswer.placeholder')}
+                aria-label={t('typedAnswer.label')}
+                dir="auto"
+                autoFocus
+                className="flex-1 p-3 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all"
+            />
+            <button
+                type="button"
+                onClick={send}
+                disabled={!text.trim()}
+                className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-bold py-3 px-4 rounded-lg flex items-center transition-colors"
+            >
+                <PlayIcon className="h-5 w-5 me-1" /> {t('typedAnswer.send')}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { calibrateFromLevels, DEFAULT_VAD_CALIBRATION, speechThreshold, VadCalibration } from '../utils/audio';
+import { openMicrophone } from '../utils/audioDevices';
+import { MicrophoneCapture } from '../utils/micCapture';
+import { TurnTakingMode } from '../types';
+import { useI18n } from '../utils/i18n';
+import { MicIcon } from './IconComponents';
+import { turnTakingOptions } from './TurnControls';
+
+const SILENT_PHASE_MS = 3000;
+const SPEECH_PHASE_MS = 5000;
+
+const MIN_PATIENCE_MS = 500;
+const MAX_PATIENCE_MS = 4000;
+
+type CalibrationPhase = 'idle' | 'silent' | 'speech';
+
+const toDecibels = (rms: number) => `${Math.round(20 * Math.log10(Math.max(rms, 1e-6)))} dB`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface VoiceSettingsProps {
+    calibration: VadCalibration | null;
+    onCalibrated: (calibration: VadCalibration) => void;
+    patienceMs: number;
+    onPatienceChange: (patienceMs: number) => void;
+    turnTakingMode: TurnTakingMode;
+    onTurnTakingModeChange: (mode: TurnTakingMode) => void;
+    micGain: number;
+    inputDeviceId: string | null; // Calibrate the microphone the interview will use
+    onError: (message: string) => void;
+}
+
+// Measures the room's noise floor and the user's speaking level, and lets them
+// choose how the end of their answer is detected.
+export const VoiceSettings = ({ calibration, onCalibrated, patienceMs, onPatienceChange, turnTakingMode, onTurnTakingModeChange, micGain, inputDeviceId, onError }: VoiceSettingsProps) => {
+    const [phase, setPhase] = useState<CalibrationPhase>('idle');
+    const cleanupRef = useRef<(() => void) | null>(null);
+    const { t } = useI18n();
+
+    useEffect(() => () => cleanupRef.current?.(), []);
+
+    const handleCalibrate = async () => {
+        let levels: number[] = [];
+        try {
+            const stream = await openMicrophone(inputDeviceId);
+            const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+            cleanupRef.current = () => {
+                stream.getTracks().forEach(track => track.stop());
+                ctx.close().catch(console.error);
+                cleanupRef.current = null;
+            };
+            const capture = await MicrophoneCapture.create(ctx, DEFAULT_VAD_CALIBRATION, chunk => levels.push(chunk.rms));
+            // Measure through the same gain the interview will use.
+            const gain = ctx.createGain();
+            gain.gain.value = micGain;
+            ctx.createMediaStreamSource(stream).connect(gain).connect(capture.input);
+
+            setPhase('silent');
+            await wait(SILENT_PHASE_MS);
+            const silentLevels = levels;
+            levels = [];
+            setPhase('speech');
+            await wait(SPEECH_PHASE_MS);
+            onCalibrated(calibrateFromLevels(silentLevels, levels));
+        } catch (err) {
+            console.error('Microphone calibration failed:', err);
+            onError(err instanceof Error && err.name === 'NotAllowedError'
+                ? t('voice.micDenied')
+                : t('voice.calibrationFailed'));
+        } finally {
+            cleanupRef.current?.();
+            setPhase('idle');
+        }
+    };
+
+    const lowSignal = calibration && calibration.speechLevel < calibration.noiseFloor * 2;
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-gray-800 border-2 border-gray-700 rounded-lg p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex-1">
+                        <p className="text-sm font-medium text-gray-300">{t('voice.calibration')}</p>
+                        {phase === 'silent' && <p className="text-sm text-yellow-300">{t('voice.stayQuiet')}</p>}
+                        {phase === 'speech' && <p className="text-sm text-yellow-300">{t('voice.readAloud', { sentence: t('voice.calibrationSentence') })}</p>}
+                        {phase === 'idle' && (calibration ? (
+                            <p className="text-sm text-gray-400">
+                                {t('voice.calibrated', { noiseFloor: toDecibels(calibration.noiseFloor), speechLevel: toDecibels(calibration.speechLevel), threshold: toDecibels(speechThreshold(calibration)) })}
+                            </p>
+                        ) : (
+                            <p className="text-sm text-gray-400">{t('voice.notCalibrated')}</p>
+                        ))}
+                        {phase === 'idle' && lowSignal && (
+                            <p className="text-sm text-orange-300">{t('voice.lowSignal')}</p>
+                        )}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={handleCalibrate}
+                        disabled={phase !== 'idle'}
+                        className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-sm py-2 px-3 rounded-lg flex items-center justify-center transition-colors"
+                    >
+                        <MicIcon className="h-4 w-4 me-1" />
+                        {phase !== 'idle' ? t('voice.calibrating') : calibration ? t('voice.recalibrate') : t('voice.calibrate')}
+                    </button>
+                </div>
+            </div>
+            <div>
+                <label htmlFor="turn-taking-mode" className="block text-sm font-medium text-gray-300 mb-2">{t('voice.turnTaking')}</label>
+                <select
+                    id="turn-taking-mode"
+                    value={turnTakingMode}
+                    onChange={(e) => onTurnTakingModeChange(e.target.value as TurnTakingMode)}
+                    className="w-full p-3 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 transition-all"
+                    aria-describedby="turn-taking-help"
+                >
+                    {turnTakingOptions.map(option => (
+                        <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                    ))}
+                </select>
+                <p id="turn-taking-help" className="text-xs text-gray-400 mt-1">{t(turnTakingOptions.find(option => option.value === turnTakingMode)!.descriptionKey)}</p>
+            </div>
+            {turnTakingMode === 'auto' && (
+                <div>
+                    <label htmlFor="turn-patience" className="block text-sm font-medium text-gray-300 mb-2">
+                        {t('voice.patience', { seconds: (patienceMs / 1000).toFixed(1) })}
+                    </label>
+                    <input
+                        id="turn-patience"
+                        type="range"
+                        min={MIN_PATIENCE_MS}
+                        max={MAX_PATIENCE_MS}
+                        step="250"
+                        value={patienceMs}
+                        onChange={(e) => onPatienceChange(parseInt(e.target.value, 10))}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                        aria-describedby="turn-patience-help"
+                    />
+                    <p id="turn-patience-help" className="text-xs text-gray-400 mt-1">{t('voice.patienceHelp')}</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const ar: LocaleCatalog = {
+    code: 'ar',
+    name: 'العربية',
+    interviewLanguage: 'Arabic',
+    dir: 'rtl',
+    welcome: (name, company) => `مرحبًا بك في مقابلتك${company ? ` مع ${company}` : ''}.${name ? ` اسمي ${name}.` : ''} ستبدأ الجلسة بعد قليل.`,
+    fillerWords: { words: ['يعني', 'اممم', 'طيب', 'بصراحة', 'شو اسمه'], spaced: true },
+    messages: {
+        'common.back': 'رجوع',
+        'common.cancel': 'إلغاء',
+        'common.close': 'إغلاق',
+        'common.loading': 'جارٍ التحميل...',
+        'common.tryAgain': 'إعادة المحاولة',
+        'common.typed': 'مكتوبة',
+        'common.minutes': '{minutes} دقيقة',
+        'common.durationLabel': 'المدة (بالدقائق)',
+        'common.focusAreasLabel': 'مجالات التركيز (مفصولة بفواصل)',
+        'common.unknownError': 'خطأ غير معروف',
+
+        'app.title': 'محاكي المقابلات بالذكاء الاصطناعي',
+        'app.intro': 'صِف المقابلة وأضف السيرة الذاتية للمرشح والوصف الوظيفي. سيُجري الذكاء الاصطناعي مقابلة صوتية مباشرة بناءً على ما تقدمه.',
+        'app.templates': 'القوالب',
+        'app.history': 'السجل',
+        'app.uiLanguage': 'لغة العرض',
+        'app.interviewLanguage': 'لغة المقابلة',
+        'app.answerBy': 'طريقة الإجابة',
+        'app.answerBySpeaking': 'التحدث (الميكروفون)',
+        'app.answerByTyping': 'الكتابة',
+        'app.coachingToggle': 'تلميحات إرشادية أثناء الإجابة',
+        'app.coachingToggleHelp': '(نقاط رئيسية وتنبيهات تظهر لك وحدك)',
+        'app.instructionsLabel': 'تعليمات المقابلة',
+        'app.instructionsPlaceholder': 'مثال: أجرِ مقابلة لوظيفة مهندس برمجيات مبتدئ.',
+        'app.resumeLabel': 'السيرة الذاتية للمرشح',
+        'app.resumePlaceholder': 'الصق السيرة الذاتية أو ارفع ملف PDF أو DOCX أو TXT أو Markdown.',
+        'app.jobDescriptionLabel': 'الوصف الوظيفي',
+        'app.jobDescriptionPlaceholder': 'الصق الوصف الوظيفي أو ارفع ملف PDF أو DOCX أو TXT أو Markdown.',
+        'app.startInterview': 'بدء المقابلة',
+        'app.connecting': 'جارٍ الاتصال...',
+        'app.connectingDetail': 'جارٍ تجهيز جلسة المقابلة.',
+        'app.comparingAttempts': 'جارٍ مقارنة المحاولات...',
+        'app.comparingAttemptsDetail': 'يراجع الذكاء الاصطناعي ما تغيّر في إجابتك.',
+        'app.generatingFeedback': 'جارٍ إعداد الملاحظات...',
+        'app.generatingFeedbackDetail': 'يحلل الذكاء الاصطناعي محادثتك.',
+        'app.interviewComplete': 'انتهت المقابلة',
+        'app.coachingOn': 'الإرشاد مفعّل',
+        'app.performanceSummary': 'ملخص الأداء',
+        'app.noSummary': 'لا يوجد ملخص.',
+        'app.retryFeedback': 'إعادة محاولة إعداد الملاحظات',
+        'app.transcriptKept': 'تم حفظ النص الكامل، لذا لم يضِع شيء.',
+        'app.feedbackCancelled': 'تم إلغاء إنشاء الملاحظات.',
+        'app.delivery': 'طريقة الإلقاء',
+        'app.startNewInterview': 'بدء مقابلة جديدة',
+        'app.typedAnswers': 'إجابات مكتوبة',
+        'app.interviewerWillBegin': 'سيبدأ المحاور بعد قليل...',
+        'app.reconnecting': 'انقطع الاتصال. جارٍ إعادة الاتصال (المحاولة {attempt} من {max})...',
+        'app.micDeniedFallback': 'تم رفض الوصول إلى الميكروفون، لذا ستجيب كتابةً.',
+        'app.micNotFoundFallback': 'لم يُعثر على ميكروفون، لذا ستجيب كتابةً.',
+        'app.paused': 'المقابلة متوقفة مؤقتًا. الميكروفون والمحاور مكتومان حتى تستأنف.',
+        'app.pause': 'إيقاف مؤقت',
+        'app.resume': 'استئناف',
+        'app.endInterview': 'إنهاء المقابلة',
+        'app.endPractice': 'إنهاء التدريب',
+
+        'audio.micSensitivity': 'حساسية الميكروفون',
+        'audio.speakerVolume': 'مستوى صوت السماعة',
+        'audio.hearingYou': 'صوتك مسموع',
+        'audio.silent': 'صامت',
+
+        'devices.microphone': 'الميكروفون',
+        'devices.speakers': 'مكبرات الصوت',
+        'devices.systemDefault': 'الإعداد الافتراضي للنظام',
+        'devices.unnamedInput': 'الميكروفون {number}',
+        'devices.unnamedOutput': 'مكبرات الصوت {number}',
+        'devices.outputUnsupported': 'يشغّل هذا المتصفح الصوت دائمًا عبر المخرج الافتراضي للنظام.',
+        'devices.micLevel': 'مستوى الميكروفون',
+        'devices.micDisconnected': 'انقطع اتصال الميكروفون، لذا يُستخدم الآن الميكروفون الافتراضي للنظام.',
+        'devices.speakersDisconnected': 'انقطع اتصال مكبرات الصوت، لذا يُشغَّل الصوت الآن عبر المخرج الافتراضي للنظام.',
+        'devices.micUnavailable': 'لا يتوفر أي ميكروفون. وصّل ميكروفونًا لمواصلة الإجابة بالصوت.',
+
+        'preflight.title': 'تحقّق من الصوت',
+        'preflight.intro': 'اختر الميكروفون ومكبرات الصوت، ثم سجّل اختبارًا قصيرًا لتسمع كيف يبدو صوتك.',
+        'preflight.test': 'تسجيل اختبار مدته {seconds} ثوانٍ',
+        'preflight.recording': 'جارٍ التسجيل… قل بضع كلمات.',
+        'preflight.playing': 'جارٍ التشغيل…',
+        'preflight.heardYourself': 'هل سمعت صوتك بوضوح؟ إن لم يكن كذلك، فاختر جهازًا آخر أو اضبط أشرطة التمرير ثم أعد الاختبار.',
+        'preflight.testFailed': 'فشل اختبار الصوت. تحقّق من أجهزتك ثم حاول مرة أخرى.',
+
+        'error.missingMaterials': 'يُرجى تقديم تعليمات المقابلة أو سيرة ذاتية أو وصف وظيفي.',
+        'error.apiKeyNotConfigured': 'لم يتم إعداد مفتاح API. هذه مشكلة في الإعداد تتطلب تدخل مطوّر.',
+        'error.micDenied': 'تم رفض الوصول إلى الميكروفون. يُرجى السماح للموقع باستخدام الميكروفون من إعدادات المتصفح ثم المحاولة مرة أخرى.',
+        'error.micNotFound': 'لم يُعثر على ميكروفون في جهازك. يُرجى توصيل ميكروفون ثم المحاولة مرة أخرى.',
+        'error.micNotReadable': 'حدث خطأ في عتاد الميكروفون، أو ربما يستخدمه تطبيق آخر. يُرجى التحقق من الميكروفون ثم المحاولة مرة أخرى.',
+
+        'apiError.invalidKey': 'مفتاح API المقدَّم غير صالح أو غير مفعّل لهذا المشروع. يُرجى التحقق من الإعدادات.',
+        'apiError.permission': 'ليس لديك إذن للوصول إلى هذا المورد. قد يكون السبب مفتاح API أو إعدادات مشروع غير صحيحة.',
+        'apiError.quota': 'تم تجاوز حصة طلبات API. يُرجى الانتظار قليلًا قبل المحاولة مرة أخرى.',
+        'apiError.rateLimited': 'طلبات كثيرة جدًا. يُرجى الانتظار لحظة ثم المحاولة مرة أخرى.',
+        'apiError.safety': 'تم حظر الطلب بسبب سياسة الأمان. يُرجى تعديل النص ثم المحاولة مرة أخرى.',
+        'apiError.server': 'تواجه خدمة الذكاء الاصطناعي مشكلات حاليًا. يُرجى المحاولة لاحقًا.',
+        'apiError.network': 'حدث خطأ في الشبكة. يُرجى التحقق من اتصالك بالإنترنت ثم المحاولة مرة أخرى.',
+        'apiError.unknown': 'حدث خطأ غير معروف.',
+        'apiError.start': 'تعذّر بدء المقابلة: {message}.',
+        'apiError.summary': 'حدث خطأ في API أثناء إنشاء الملخص: {message}',
+
+        'history.title': 'سجل المقابلات',
+        'history.loadFailed': 'تعذّر تحميل سجل مقابلاتك.',
+        'history.deleteFailed': 'تعذّر حذف المقابلة.',
+        'history.confirmDelete': 'حذف مقابلة {date}؟',
+        'history.empty': 'لا توجد مقابلات محفوظة بعد.',
+        'history.turns': '{count} مداخلات',
+        'history.open': 'فتح',
+        'history.openLabel': 'فتح المقابلة',
+        'history.duplicateTitle': 'بدء مقابلة جديدة بهذا النص',
+        'history.duplicateLabel': 'نسخ النص إلى مقابلة جديدة',
+        'history.delete': 'حذف المقابلة',
+
+        'templates.title': 'قوالب المقابلات',
+        'templates.mine': 'قوالبي',
+        'templates.presets': 'قوالب جاهزة',
+        'templates.new': 'قالب جديد',
+        'templates.edit': 'تعديل القالب',
+        'templates.name': 'الاسم',
+        'templates.description': 'الوصف',
+        'templates.language': 'اللغة',
+        'templates.save': 'حفظ القالب',
+        'templates.use': 'استخدام',
+        'templates.editLabel': 'تعديل القالب',
+        'templates.duplicateLabel': 'تكرار القالب',
+        'templates.exportTitle': 'تصدير بصيغة JSON',
+        'templates.exportLabel': 'تصدير القالب بصيغة JSON',
+        'templates.deleteLabel': 'حذف القالب',
+        'templates.import': 'استيراد JSON',
+        'templates.exportMine': 'تصدير قوالبي',
+        'templates.copyName': '{name} (نسخة)',
+        'templates.confirmDelete': 'حذف القالب "{name}"؟',
+        'templates.imported': 'القوالب المستوردة: {count}.',
+        'templates.loadFailed': 'تعذّر تحميل قوالبك.',
+        'templates.saveFailed': 'تعذّر حفظ القالب.',
+        'templates.deleteFailed': 'تعذّر حذف القالب.',
+        'templates.importFailed': 'تعذّر استيراد القوالب: {message}',
+
+        'document.upload': 'رفع',
+        'document.reading': 'جارٍ القراءة...',
+        'document.unsupportedType': 'نوع الملف ".{extension}" غير مدعوم. يُرجى رفع ملف PDF أو DOCX أو TXT أو Markdown.',
+        'document.readFailed': 'تعذّرت قراءة "{fileName}". يُرجى التأكد من أنه ملف PDF أو DOCX أو TXT أو Markdown صالح.',
+
+        'focusAreas.placeholder': 'مثال: تصميم الأنظمة، القيادة',
+
+        'plan.inputTitle': 'خطة الأسئلة (اختيارية)',
+        'plan.inputSummary': '{sections} أقسام، {questions} أسئلة، ~{minutes} دقيقة',
+        'plan.inputHelp': 'ابدأ كل قسم بـ "#" وكل سؤال بـ "-". أضف "(10 min)" إلى قسم أو "(2 follow-ups)" إلى سؤال لتحديد الحدود.',
+        'plan.title': 'خطة الأسئلة',
+        'plan.progressLabel': 'تقدّم خطة الأسئلة',
+        'plan.compactProgress': 'طُرح {asked} من {total} أسئلة',
+        'plan.showPlan': 'إظهار الخطة',
+        'plan.hidePlan': 'إخفاء الخطة',
+        'plan.skipped': 'الأسئلة المتخطّاة',
+        'plan.allAsked': 'طُرحت جميع الأسئلة المخطط لها.',
+
+        'persona.interviewer': 'المحاور',
+        'persona.panelStyle': 'أسلوب اللجنة',
+        'persona.sharedByPanel': 'مشترك بين جميع أعضاء اللجنة',
+        'persona.name': 'الاسم (اختياري)',
+        'persona.namePlaceholder': 'مثال: Alex',
+        'persona.company': 'الشركة (اختياري)',
+        'persona.companyPlaceholder': 'مثال: Acme Corp',
+        'persona.tone': 'الأسلوب',
+        'persona.difficulty': 'مستوى الصعوبة',
+        'persona.voice': 'الصوت',
+        'persona.preview': 'الاستماع إلى {voice}',
+        'persona.previewUnavailable': 'معاينة هذا الصوت غير متاحة حاليًا.',
+
+        'tone.friendly': 'ودّي',
+        'tone.neutral': 'محايد',
+        'tone.high-pressure': 'ضاغط (مقابلة تحت الضغط)',
+
+        'difficulty.junior': 'مبتدئ',
+        'difficulty.mid': 'متوسط',
+        'difficulty.senior': 'خبير',
+        'difficulty.executive': 'تنفيذي',
+
+        'voiceStyle.firm': 'حازم',
+        'voiceStyle.upbeat': 'مرح',
+        'voiceStyle.informative': 'معلوماتي',
+        'voiceStyle.excitable': 'متحمس',
+        'voiceStyle.breezy': 'خفيف',
+        'voiceStyle.youthful': 'شبابي',
+        'voiceStyle.bright': 'مشرق',
+
+        'panel.toggle': 'مقابلة أمام لجنة',
+        'panel.toggleHelp': '({min}–{max} محاورين يتناوبون على الأسئلة)',
+        'panel.namePlaceholder': 'الاسم',
+        'panel.nameLabel': 'اسم عضو اللجنة {number}',
+        'panel.rolePlaceholder': 'الدور، مثل: قائد تقني',
+        'panel.roleLabel': 'دور عضو اللجنة {number}',
+        'panel.voiceLabel': 'صوت عضو اللجنة {number}',
+        'panel.focusPlaceholder': 'محور أسئلته، مثل: تصميم الأنظمة',
+        'panel.focusLabel': 'محور عضو اللجنة {number}',
+        'panel.remove': 'إزالة عضو اللجنة',
+        'panel.removeLabel': 'إزالة عضو اللجنة {number}',
+        'panel.add': 'إضافة عضو إلى اللجنة',
+        'panel.sharedVoices': 'بعض أعضاء اللجنة يتشاركون الصوت نفسه، مما يصعّب التمييز بينهم.',
+
+        'voice.calibration': 'معايرة الميكروفون',
+        'voice.stayQuiet': 'يُرجى التزام الصمت لحظة...',
+        'voice.readAloud': 'اقرأ الآن بصوت عالٍ: «{sentence}»',
+        'voice.calibrationSentence': 'أقوم بمعايرة الميكروفون حتى يعرف المحاور متى أنتهي من الكلام.',
+        'voice.calibrated': 'ضوضاء الخلفية {noiseFloor}، صوتك {speechLevel}، عتبة الكلام {threshold}.',
+        'voice.notCalibrated': 'لم تتم المعايرة. عايِر الميكروفون ليميّز المحاور صوتك عن ضوضاء الخلفية.',
+        'voice.lowSignal': 'كان صوتك بالكاد أعلى من ضوضاء الخلفية. اقترب من الميكروفون أو ارفع حساسيته.',
+        'voice.calibrate': 'معايرة',
+        'voice.recalibrate': 'إعادة المعايرة',
+        'voice.calibrating': 'جارٍ المعايرة...',
+        'voice.micDenied': 'تم رفض الوصول إلى الميكروفون. اسمح باستخدامه لإجراء المعايرة.',
+        'voice.calibrationFailed': 'تعذّرت معايرة الميكروفون. يُرجى التحقق منه ثم المحاولة مرة أخرى.',
+        'voice.turnTaking': 'تبادل الأدوار',
+        'voice.patience': 'مهلة انتهاء الإجابة: {seconds} ث',
+        'voice.patienceHelp': 'المدة التي يمكنك التوقف خلالها قبل اعتبار إجابتك منتهية.',
+
+        'turnTaking.auto': 'تلقائي',
+        'turnTaking.autoDescription': 'تنتهي إجابتك بعد توقف قصير.',
+        'turnTaking.push-to-talk': 'اضغط للتحدث',
+        'turnTaking.push-to-talkDescription': 'اضغط باستمرار على الزر أو مفتاح المسافة أثناء الإجابة.',
+        'turnTaking.tap-to-finish': 'انقر للإنهاء',
+        'turnTaking.tap-to-finishDescription': 'يُفتح الميكروفون عندما ينتهي المحاور؛ انقر على الزر أو مفتاح المسافة عند انتهائك.',
+        'turnTaking.listening': 'جارٍ الاستماع... حرّر المفتاح للإنهاء',
+        'turnTaking.holdToTalk': 'اضغط باستمرار للتحدث (مسافة)',
+        'turnTaking.finishAnswer': 'إنهاء إجابتي (مسافة)',
+        'turnTaking.startAnswer': 'بدء الإجابة (مسافة)',
+
+        'typedAnswer.placeholder': 'اكتب إجابتك واضغط Enter...',
+        'typedAnswer.label': 'إجابتك',
+        'typedAnswer.send': 'إرسال',
+
+        'countdown.label': 'الوقت المتبقي',
+        'countdown.remaining': 'متبقٍ',
+        'countdown.wrappingUp': 'الختام',
+        'countdown.paused': 'متوقف مؤقتًا',
+
+        'coaching.label': 'الإرشاد',
+        'coaching.title': 'الإرشاد',
+        'coaching.runningLong': 'إجابتك تطول. اختمها بالنتيجة.',
+        'coaching.offTopic': 'هذا لا يجيب عن السؤال بعد: «{question}»',
+        'coaching.waitingForHints': 'ستظهر هنا تلميحات هذا السؤال.',
+        'coaching.waitingForQuestion': 'ستظهر التلميحات عند طرح السؤال الأول.',
+        'coaching.privacy': 'هذه التلميحات تظهر لك وحدك ولا تُرسل إلى المحاور أبدًا.',
+        'coaching.showHints': 'إظهار التلميحات',
+        'coaching.hideHints': 'إخفاء التلميحات',
+
+        'summary.overallScore': 'الدرجة الإجمالية',
+        'summary.chartLabel': 'مخطط درجات الكفاءات',
+        'summary.notScored': 'بلا تقييم',
+        'summary.panelFeedback': 'ملاحظات اللجنة',
+        'summary.detailedFeedback': 'ملاحظات تفصيلية',
+
+        'feedback.version': 'الإصدار',
+        'feedback.versionLabel': 'الإصدار {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': 'إعادة الإنشاء بلغة',
+        'feedback.emphasis': 'التركيز',
+        'feedback.regenerate': 'إعادة الإنشاء',
+
+        'emphasis.balanced': 'متوازن',
+        'emphasis.technical': 'العمق التقني',
+        'emphasis.communication': 'التواصل',
+        'emphasis.leadership': 'القيادة',
+
+        'recommendation.STRONG_HIRE': 'توظيف بقوة',
+        'recommendation.HIRE': 'توظيف',
+        'recommendation.LEAN_HIRE': 'ميل إلى التوظيف',
+        'recommendation.LEAN_NO_HIRE': 'ميل إلى عدم التوظيف',
+        'recommendation.NO_HIRE': 'عدم التوظيف',
+
+        'competency.communication': 'التواصل',
+        'competency.problemSolving': 'حل المشكلات',
+        'competency.roleFit': 'الملاءمة للدور',
+        'competency.leadership': 'القيادة',
+        'competency.selfAwareness': 'الوعي الذاتي',
+
+        'delivery.pace': 'سرعة الكلام',
+        'delivery.wordsPerMinute': 'كلمة في الدقيقة',
+        'delivery.charactersPerMinute': 'حرف في الدقيقة',
+        'delivery.fillerWords': 'كلمات الحشو',
+        'delivery.averageResponseTime': 'متوسط زمن الاستجابة',
+        'delivery.silenceBeforeAnswering': 'صمت قبل الإجابة',
+        'delivery.longestAnswer': 'أطول إجابة',
+        'delivery.candidateShare': 'أنت {percent}% · {duration}',
+        'delivery.interviewerShare': 'المحاور {percent}% · {duration}',
+        'delivery.talkTimeLabel': 'توزيع وقت الحديث',
+        'delivery.silenceBeforeEachAnswer': 'الصمت قبل كل إجابة',
+        'delivery.longestAnswerQuote': 'أطول إجابة: «{text}»',
+
+        'transcript.title': 'النص الكامل',
+        'transcript.download': 'تنزيل {format}',
+        'transcript.downloadWav': 'تنزيل WAV',
+        'transcript.converting': 'جارٍ التحويل...',
+
+        'answers.title': 'ملاحظات على الإجابات',
+        'answers.selectHint': 'انقر على سؤال أو إجابة في النص لعرض الملاحظات الخاصة بها.',
+        'answers.noAnswers': 'لا توجد إجابات للتقييم. انقر على سؤال للتدرّب عليه.',
+        'answers.practice': 'التدرّب على هذا السؤال',
+        'answers.reviewing': 'جارٍ مراجعة إجاباتك...',
+        'answers.generate': 'الحصول على ملاحظات حول إجاباتي',
+        'answers.generateHint': 'تُنشأ الملاحظات على جميع الإجابات معًا عندما تطلبها.',
+        'answers.generateFailed': 'تعذّر إنشاء ملاحظات على إجاباتك.',
+        'answers.noCritique': 'لا توجد ملاحظات لهذه الإجابة.',
+        'answers.starLabel': 'بنية STAR',
+        'answers.yourAnswer': 'إجابتك',
+        'answers.strongerAnswer': 'إجابة أقوى',
+
+        'questionKind.behavioral': 'سلوكي',
+        'questionKind.technical': 'تقني',
+        'questionKind.general': 'عام',
+
+        'star.situation': 'الموقف',
+        'star.task': 'المهمة',
+        'star.action': 'الإجراء',
+        'star.result': 'النتيجة',
+
+        'practice.title': 'جولة تدريبية',
+        'practice.originalAnswer': 'الإجابة الأصلية',
+        'practice.attempt': 'المحاولة {number}',
+        'practice.attemptsLabel': 'محاولات التدريب',
+        'practice.noAnswer': 'لم تُسجَّل أي إجابة.',
+        'practice.whatChanged': 'ما الذي تغيّر',
+        'practice.comparisonFailed': 'تعذّر إنشاء المقارنة لهذه المحاولة.',
+        'practice.backToResults': 'العودة إلى النتائج',
+
+        'export.label': 'تصدير:',
+        'export.reportTitle': 'تقرير المقابلة',
+        'export.date': 'التاريخ',
+        'export.duration': 'المدة',
+        'export.language': 'اللغة',
+        'export.panel': 'اللجنة',
+        'export.coaching': 'تلميحات التدريب',
+        'export.coachingOn': 'مفعّلة',
+        'export.instructions': 'تعليمات المقابلة',
+        'export.focusAreas': 'مجالات التركيز',
+        'export.jobDescription': 'الوصف الوظيفي',
+        'export.resume': 'السيرة الذاتية للمرشح',
+        'export.competency': 'الكفاءة',
+        'export.score': 'الدرجة',
+        'export.rationale': 'المبررات',
+        'export.evidence': 'أدلة {competency}',
+    },
+};
+
+export default ar;
@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const de: LocaleCatalog = {
+    code: 'de',
+    name: 'Deutsch',
+    interviewLanguage: 'German',
+    dir: 'ltr',
+    welcome: (name, company) => `Hallo und herzlich willkommen zu Ihrem Interview${company ? ` bei ${company}` : ''}.${name ? ` Mein Name ist ${name}.` : ''} Die Sitzung beginnt in Kürze.`,
+    fillerWords: { words: ['äh', 'ähm', 'also', 'halt', 'quasi', 'sozusagen', 'eigentlich'], spaced: true },
+    messages: {
+        'common.back': 'Zurück',
+        'common.cancel': 'Abbrechen',
+        'common.close': 'Schließen',
+        'common.loading': 'Wird geladen...',
+        'common.tryAgain': 'Erneut versuchen',
+        'common.typed': 'Getippt',
+        'common.minutes': '{minutes} Min.',
+        'common.durationLabel': 'Dauer (Minuten)',
+        'common.focusAreasLabel': 'Schwerpunkte (durch Kommas getrennt)',
+        'common.unknownError': 'unbekannter Fehler',
+
+        'app.title': 'KI-Interviewsimulator',
+        'app.intro': 'Beschreiben Sie das Interview und fügen Sie den Lebenslauf und die Stellenbeschreibung hinzu. Die KI führt auf dieser Grundlage ein Live-Audio-Interview.',
+        'app.templates': 'Vorlagen',
+        'app.history': 'Verlauf',
+        'app.uiLanguage': 'Anzeigesprache',
+        'app.interviewLanguage': 'Interviewsprache',
+        'app.answerBy': 'Antworten',
+        'app.answerBySpeaking': 'Sprechen (Mikrofon)',
+        'app.answerByTyping': 'Tippen',
+        'app.coachingToggle': 'Coaching-Hinweise während meiner Antwort',
+        'app.coachingToggleHelp': '(Stichpunkte und Hinweise, die nur Sie sehen)',
+        'app.instructionsLabel': 'Anweisungen für das Interview',
+        'app.instructionsPlaceholder': 'z. B. Führe ein Interview für eine Stelle als Junior-Softwareentwickler.',
+        'app.resumeLabel': 'Lebenslauf',
+        'app.resumePlaceholder': 'Lebenslauf einfügen oder eine PDF-, DOCX-, TXT- oder Markdown-Datei hochladen.',
+        'app.jobDescriptionLabel': 'Stellenbeschreibung',
+        'app.jobDescriptionPlaceholder': 'Stellenbeschreibung einfügen oder eine PDF-, DOCX-, TXT- oder Markdown-Datei hochladen.',
+        'app.startInterview': 'Interview starten',
+        'app.connecting': 'Verbindung wird hergestellt...',
+        'app.connectingDetail': 'Die Interviewsitzung wird vorbereitet.',
+        'app.comparingAttempts': 'Versuche werden verglichen...',
+        'app.comparingAttemptsDetail': 'Unsere KI prüft, was sich an Ihrer Antwort geändert hat.',
+        'app.generatingFeedback': 'Feedback wird erstellt...',
+        'app.generatingFeedbackDetail': 'Unsere KI analysiert Ihr Gespräch.',
+        'app.interviewComplete': 'Interview abgeschlossen',
+        'app.coachingOn': 'Coaching aktiv',
+        'app.performanceSummary': 'Leistungsübersicht',
+        'app.noSummary': 'Keine Zusammenfassung verfügbar.',
+        'app.retryFeedback': 'Feedback erneut anfordern',
+        'app.transcriptKept': 'Ihr Transkript ist gespeichert, es geht also nichts verloren.',
+        'app.feedbackCancelled': 'Die Erstellung des Feedbacks wurde abgebrochen.',
+        'app.delivery': 'Sprechweise',
+        'app.startNewInterview': 'Neues Interview starten',
+        'app.typedAnswers': 'Getippte Antworten',
+        'app.interviewerWillBegin': 'Die interviewende Person beginnt gleich...',
+        'app.reconnecting': 'Verbindung unterbrochen. Neuer Verbindungsversuch ({attempt} von {max})...',
+        'app.micDeniedFallback': 'Der Mikrofonzugriff wurde verweigert, daher antworten Sie schriftlich.',
+        'app.micNotFoundFallback': 'Es wurde kein Mikrofon gefunden, daher antworten Sie schriftlich.',
+        'app.paused': 'Interview pausiert. Mikrofon und Interviewer sind stummgeschaltet, bis Sie fortfahren.',
+        'app.pause': 'Pausieren',
+        'app.resume': 'Fortsetzen',
+        'app.endInterview': 'Interview beenden',
+        'app.endPractice': 'Übung beenden',
+
+        'audio.micSensitivity': 'Mikrofonempfindlichkeit',
+        'audio.speakerVolume': 'Lautsprecherlautstärke',
+        'audio.hearingYou': 'Ich höre Sie',
+        'audio.silent': 'Stille',
+
+        'devices.microphone': 'Mikrofon',
+        'devices.speakers': 'Lautsprecher',
+        'devices.systemDefault': 'Systemstandard',
+        'devices.unnamedInput': 'Mikrofon {number}',
+        'devices.unnamedOutput': 'Lautsprecher {number}',
+        'devices.outputUnsupported': 'Dieser Browser gibt Audio immer über die Standardausgabe des Systems wieder.',
+        'devices.micLevel': 'Mikrofonpegel',
+        'devices.micDisconnected': 'Ihr Mikrofon wurde getrennt, daher wird jetzt das Standardmikrofon des Systems verwendet.',
+        'devices.speakersDisconnected': 'Ihre Lautsprecher wurden getrennt, daher wird Audio jetzt über die Standardausgabe des Systems wiedergegeben.',
+        'devices.micUnavailable': 'Kein Mikrofon verfügbar. Schließen Sie eines an, um weiter per Sprache zu antworten.',
+
+        'preflight.title': 'Audio prüfen',
+        'preflight.intro': 'Wählen Sie Mikrofon und Lautsprecher und nehmen Sie einen kurzen Test auf, um zu hören, wie Sie klingen.',
+        'preflight.test': '{seconds}-Sekunden-Test aufnehmen',
+        'preflight.recording': 'Aufnahme läuft… sagen Sie ein paar Worte.',
+        'preflight.playing': 'Wiedergabe…',
+        'preflight.heardYourself': 'Haben Sie sich deutlich gehört? Falls nicht, wählen Sie ein anderes Gerät oder passen Sie die Regler an und testen Sie erneut.',
+        'preflight.testFailed': 'Der Audiotest ist fehlgeschlagen. Prüfen Sie Ihre Geräte und versuchen Sie es erneut.',
+
+        'error.missingMaterials': 'Bitte geben Sie Anweisungen für das Interview, einen Lebenslauf oder eine Stellenbeschreibung an.',
+        'error.apiKeyNotConfigured': 'Der API-Schlüssel ist nicht konfiguriert. Dies ist ein Einrichtungsproblem, um das sich ein Entwickler kümmern muss.',
+        'error.micDenied': 'Der Mikrofonzugriff wurde verweigert. Bitte erlauben Sie das Mikrofon für diese Seite in den Browsereinstellungen und versuchen Sie es erneut.',
+        'error.micNotFound': 'Auf Ihrem Gerät wurde kein Mikrofon gefunden. Bitte schließen Sie ein Mikrofon an und versuchen Sie es erneut.',
+        'error.micNotReadable': 'Am Mikrofon ist ein Hardwarefehler aufgetreten, oder es wird von einer anderen Anwendung verwendet. Bitte prüfen Sie Ihr Mikrofon und versuchen Sie es erneut.',
+
+        'apiError.invalidKey': 'Der angegebene API-Schlüssel ist ungültig oder für dieses Projekt nicht aktiviert. Bitte prüfen Sie Ihre Konfiguration.',
+        'apiError.permission': 'Sie haben keine Berechtigung für diese Ressource. Möglicherweise liegt ein falscher API-Schlüssel oder eine falsche Projekteinstellung vor.',
+        'apiError.quota': 'Das API-Kontingent wurde überschritten. Bitte warten Sie eine Weile, bevor Sie es erneut versuchen.',
+        'apiError.rateLimited': 'Zu viele Anfragen. Bitte warten Sie einen Moment und versuchen Sie es erneut.',
+        'apiError.safety': 'Die Anfrage wurde aufgrund der Sicherheitsrichtlinie blockiert. Bitte passen Sie Ihr Skript an und versuchen Sie es erneut.',
+        'apiError.server': 'Der KI-Dienst hat derzeit Probleme. Bitte versuchen Sie es später erneut.',
+        'apiError.network': 'Es ist ein Netzwerkfehler aufgetreten. Bitte prüfen Sie Ihre Internetverbindung und versuchen Sie es erneut.',
+        'apiError.unknown': 'Es ist ein unbekannter Fehler aufgetreten.',
+        'apiError.start': 'Das Interview konnte nicht gestartet werden: {message}.',
+        'apiError.summary': 'Beim Erstellen der Zusammenfassung ist ein API-Fehler aufgetreten: {message}',
+
+        'history.title': 'Interviewverlauf',
+        'history.loadFailed': 'Ihr Interviewverlauf konnte nicht geladen werden.',
+        'history.deleteFailed': 'Das Interview konnte nicht gelöscht werden.',
+        'history.confirmDelete': 'Das Interview vom {date} löschen?',
+        'history.empty': 'Noch keine gespeicherten Interviews.',
+        'history.turns': '{count} Redebeiträge',
+        'history.open': 'Öffnen',
+        'history.openLabel': 'Interview öffnen',
+        'history.duplicateTitle': 'Mit diesem Skript ein neues Interview starten',
+        'history.duplicateLabel': 'Skript in ein neues Interview übernehmen',
+        'history.delete': 'Interview löschen',
+
+        'templates.title': 'Interviewvorlagen',
+        'templates.mine': 'Meine Vorlagen',
+        'templates.presets': 'Voreinstellungen',
+        'templates.new': 'Neue Vorlage',
+        'templates.edit': 'Vorlage bearbeiten',
+        'templates.name': 'Name',
+        'templates.description': 'Beschreibung',
+        'templates.language': 'Sprache',
+        'templates.save': 'Vorlage speichern',
+        'templates.use': 'Verwenden',
+        'templates.editLabel': 'Vorlage bearbeiten',
+        'templates.duplicateLabel': 'Vorlage duplizieren',
+        'templates.exportTitle': 'Als JSON exportieren',
+        'templates.exportLabel': 'Vorlage als JSON exportieren',
+        'templates.deleteLabel': 'Vorlage löschen',
+        'templates.import': 'JSON importieren',
+        'templates.exportMine': 'Meine Vorlagen exportieren',
+        'templates.copyName': '{name} (Kopie)',
+        'templates.confirmDelete': 'Vorlage „{name}“ löschen?',
+        'templates.imported': 'Importierte Vorlagen: {count}.',
+        'templates.loadFailed': 'Ihre Vorlagen konnten nicht geladen werden.',
+        'templates.saveFailed': 'Die Vorlage konnte nicht gespeichert werden.',
+        'templates.deleteFailed': 'Die Vorlage konnte nicht gelöscht werden.',
+        'templates.importFailed': 'Die Vorlagen konnten nicht importiert werden: {message}',
+
+        'document.upload': 'Hochladen',
+        'document.reading': 'Wird gelesen...',
+        'document.unsupportedType': 'Nicht unterstützter Dateityp „.{extension}“. Bitte laden Sie eine PDF-, DOCX-, TXT- oder Markdown-Datei hoch.',
+        'document.readFailed': '„{fileName}“ konnte nicht gelesen werden. Bitte prüfen Sie, ob es eine gültige PDF-, DOCX-, TXT- oder Markdown-Datei ist.',
+
+        'focusAreas.placeholder': 'z. B. Systemdesign, Führung',
+
+        'plan.inputTitle': 'Fragenplan (optional)',
+        'plan.inputSummary': '{sections} Abschnitte, {questions} Fragen, ~{minutes} Min.',
+        'plan.inputHelp': 'Beginnen Sie jeden Abschnitt mit „#“ und jede Frage mit „-“. Fügen Sie einem Abschnitt „(10 min)“ oder einer Frage „(2 follow-ups)“ hinzu, um Grenzen festzulegen.',
+        'plan.title': 'Fragenplan',
+        'plan.progressLabel': 'Fortschritt des Fragenplans',
+        'plan.compactProgress': '{asked} von {total} Fragen gestellt',
+        'plan.showPlan': 'Plan anzeigen',
+        'plan.hidePlan': 'Plan ausblenden',
+        'plan.skipped': 'Übersprungene Fragen',
+        'plan.allAsked': 'Alle geplanten Fragen wurden gestellt.',
+
+        'persona.interviewer': 'Interviewer',
+        'persona.panelStyle': 'Stil des Gremiums',
+        'persona.sharedByPanel': 'Gilt für alle Gremiumsmitglieder',
+        'persona.name': 'Name (optional)',
+        'persona.namePlaceholder': 'z. B. Alex',
+        'persona.company': 'Unternehmen (optional)',
+        'persona.companyPlaceholder': 'z. B. Acme Corp',
+        'persona.tone': 'Ton',
+        'persona.difficulty': 'Schwierigkeit',
+        'persona.voice': 'Stimme',
+        'persona.preview': '{voice} anhören',
+        'persona.previewUnavailable': 'Die Hörprobe für diese Stimme ist derzeit nicht verfügbar.',
+
+        'tone.friendly': 'Freundlich',
+        'tone.neutral': 'Neutral',
+        'tone.high-pressure': 'Unter Druck (Stressinterview)',
+
+        'difficulty.junior': 'Junior',
+        'difficulty.mid': 'Mittleres Level',
+        'difficulty.senior': 'Senior',
+        'difficulty.executive': 'Führungsebene',
+
+        'voiceStyle.firm': 'Bestimmt',
+        'voiceStyle.upbeat': 'Beschwingt',
+        'voiceStyle.informative': 'Sachlich',
+        'voiceStyle.excitable': 'Lebhaft',
+        'voiceStyle.breezy': 'Locker',
+        'voiceStyle.youthful': 'Jugendlich',
+        'voiceStyle.bright': 'Hell',
+
+        'panel.toggle': 'Gremiumsinterview',
+        'panel.toggleHelp': '({min}–{max} Interviewer, die sich abwechseln)',
+        'panel.namePlaceholder': 'Name',
+        'panel.nameLabel': 'Name von Gremiumsmitglied {number}',
+        'panel.rolePlaceholder': 'Rolle, z. B. Tech Lead',
+        'panel.roleLabel': 'Rolle von Gremiumsmitglied {number}',
+        'panel.voiceLabel': 'Stimme von Gremiumsmitglied {number}',
+        'panel.focusPlaceholder': 'Wonach gefragt wird, z. B. Systemdesign',
+        'panel.focusLabel': 'Schwerpunkt von Gremiumsmitglied {number}',
+        'panel.remove': 'Gremiumsmitglied entfernen',
+        'panel.removeLabel': 'Gremiumsmitglied {number} entfernen',
+        'panel.add': 'Gremiumsmitglied hinzufügen',
+        'panel.sharedVoices': 'Einige Gremiumsmitglieder haben dieselbe Stimme und sind dadurch schwerer zu unterscheiden.',
+
+        'voice.calibration': 'Mikrofonkalibrierung',
+        'voice.stayQuiet': 'Bitte einen Moment still sein...',
+        'voice.readAloud': 'Lesen Sie jetzt laut vor: „{sentence}“',
+        'voice.calibrationSentence': 'Ich kalibriere mein Mikrofon, damit der Interviewer weiß, wann ich fertig gesprochen habe.',
+        'voice.calibrated': 'Hintergrundgeräusch {noiseFloor}, Ihre Stimme {speechLevel}, Sprachschwelle {threshold}.',
+        'voice.notCalibrated': 'Nicht kalibriert. Kalibrieren Sie, damit der Interviewer Ihre Stimme von Hintergrundgeräuschen unterscheiden kann.',
+        'voice.lowSignal': 'Ihre Stimme war kaum lauter als das Hintergrundgeräusch. Gehen Sie näher an das Mikrofon oder erhöhen Sie die Empfindlichkeit.',
+        'voice.calibrate': 'Kalibrieren',
+        'voice.recalibrate': 'Neu kalibrieren',
+        'voice.calibrating': 'Wird kalibriert...',
+        'voice.micDenied': 'Der Mikrofonzugriff wurde verweigert. Erlauben Sie das Mikrofon, um es zu kalibrieren.',
+        'voice.calibrationFailed': 'Das Mikrofon konnte nicht kalibriert werden. Bitte prüfen Sie es und versuchen Sie es erneut.',
+        'voice.turnTaking': 'Sprecherwechsel',
+        'voice.patience': 'Wartezeit bis Antwortende: {seconds} s',
+        'voice.patienceHelp': 'Wie lange Sie pausieren können, bevor Ihre Antwort als beendet gilt.',
+
+        'turnTaking.auto': 'Automatisch',
+        'turnTaking.autoDescription': 'Ihre Antwort endet nach einer Pause.',
+        'turnTaking.push-to-talk': 'Zum Sprechen drücken',
+        'turnTaking.push-to-talkDescription': 'Halten Sie die Taste oder die Leertaste gedrückt, während Sie antworten.',
+        'turnTaking.tap-to-finish': 'Zum Beenden tippen',
+        'turnTaking.tap-to-finishDescription': 'Ihr Mikrofon öffnet sich, wenn der Interviewer fertig ist; tippen Sie auf die Taste oder die Leertaste, wenn Sie fertig sind.',
+        'turnTaking.listening': 'Hört zu... zum Beenden loslassen',
+        'turnTaking.holdToTalk': 'Zum Sprechen gedrückt halten (Leertaste)',
+        'turnTaking.finishAnswer': 'Antwort beenden (Leertaste)',
+        'turnTaking.startAnswer': 'Antwort beginnen (Leertaste)',
+
+        'typedAnswer.placeholder': 'Antwort eingeben und Enter drücken...',
+        'typedAnswer.label': 'Ihre Antwort',
+        'typedAnswer.send': 'Senden',
+
+        'countdown.label': 'Verbleibende Zeit',
+        'countdown.remaining': 'verbleibend',
+        'countdown.wrappingUp': 'Abschluss',
+        'countdown.paused': 'pausiert',
+
+        'coaching.label': 'Coaching',
+        'coaching.title': 'Coaching',
+        'coaching.runningLong': 'Ihre Antwort wird lang. Kommen Sie zum Ergebnis.',
+        'coaching.offTopic': 'Das beantwortet die Frage noch nicht: „{question}“',
+        'coaching.waitingForHints': 'Hinweise zu dieser Frage erscheinen hier.',
+        'coaching.waitingForQuestion': 'Hinweise erscheinen, sobald die erste Frage gestellt wird.',
+        'coaching.privacy': 'Nur Sie sehen diese Hinweise. Sie werden nie an den Interviewer gesendet.',
+        'coaching.showHints': 'Hinweise anzeigen',
+        'coaching.hideHints': 'Hinweise ausblenden',
+
+        'summary.overallScore': 'Gesamtbewertung',
+        'summary.chartLabel': 'Diagramm der Kompetenzbewertungen',
+        'summary.notScored': 'Nicht bewertet',
+        'summary.panelFeedback': 'Feedback des Gremiums',
+        'summary.detailedFeedback': 'Ausführliches Feedback',
+
+        'feedback.version': 'Version',
+        'feedback.versionLabel': 'Version {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': 'Neu erstellen auf',
+        'feedback.emphasis': 'Schwerpunkt',
+        'feedback.regenerate': 'Neu erstellen',
+
+        'emphasis.balanced': 'Ausgewogen',
+        'emphasis.technical': 'Technische Tiefe',
+        'emphasis.communication': 'Kommunikation',
+        'emphasis.leadership': 'Führung',
+
+        'recommendation.STRONG_HIRE': 'Unbedingt einstellen',
+        'recommendation.HIRE': 'Einstellen',
+        'recommendation.LEAN_HIRE': 'Eher einstellen',
+        'recommendation.LEAN_NO_HIRE': 'Eher nicht einstellen',
+        'recommendation.NO_HIRE': 'Nicht einstellen',
+
+        'competency.communication': 'Kommunikation',
+        'competency.problemSolving': 'Problemlösung',
+        'competency.roleFit': 'Passung zur Stelle',
+        'competency.leadership': 'Führung',
+        'competency.selfAwareness': 'Selbstreflexion',
+
+        'delivery.pace': 'Sprechtempo',
+        'delivery.wordsPerMinute': 'Wörter pro Minute',
+        'delivery.charactersPerMinute': 'Zeichen pro Minute',
+        'delivery.fillerWords': 'Füllwörter',
+        'delivery.averageResponseTime': 'Durchschnittliche Antwortzeit',
+        'delivery.silenceBeforeAnswering': 'Stille vor der Antwort',
+        'delivery.longestAnswer': 'Längste Antwort',
+        'delivery.candidateShare': 'Sie {percent} % · {duration}',
+        'delivery.interviewerShare': 'Interviewer {percent} % · {duration}',
+        'delivery.talkTimeLabel': 'Verteilung der Redezeit',
+        'delivery.silenceBeforeEachAnswer': 'Stille vor jeder Antwort',
+        'delivery.longestAnswerQuote': 'Längste Antwort: „{text}“',
+
+        'transcript.title': 'Vollständiges Transkript',
+        'transcript.download': '{format} herunterladen',
+        'transcript.downloadWav': 'WAV herunterladen',
+        'transcript.converting': 'Wird konvertiert...',
+
+        'answers.title': 'Feedback zu den Antworten',
+        'answers.selectHint': 'Klicken Sie im Transkript auf eine Frage oder Antwort, um das Feedback dazu zu sehen.',
+        'answers.noAnswers': 'Es gibt keine Antworten zu bewerten. Klicken Sie auf eine Frage, um sie zu üben.',
+        'answers.practice': 'Diese Frage üben',
+        'answers.reviewing': 'Ihre Antworten werden geprüft...',
+        'answers.generate': 'Feedback zu meinen Antworten erhalten',
+        'answers.generateHint': 'Das Feedback zu allen Antworten wird gemeinsam erstellt, wenn Sie es anfordern.',
+        'answers.generateFailed': 'Zu Ihren Antworten konnte kein Feedback erstellt werden.',
+        'answers.noCritique': 'Für diese Antwort ist kein Feedback verfügbar.',
+        'answers.starLabel': 'STAR-Struktur',
+        'answers.yourAnswer': 'Ihre Antwort',
+        'answers.strongerAnswer': 'Eine stärkere Antwort',
+
+        'questionKind.behavioral': 'Verhaltensbezogen',
+        'questionKind.technical': 'Fachlich',
+        'questionKind.general': 'Allgemein',
+
+        'star.situation': 'Situation',
+        'star.task': 'Aufgabe',
+        'star.action': 'Handlung',
+        'star.result': 'Ergebnis',
+
+        'practice.title': 'Übungsrunde',
+        'practice.originalAnswer': 'Ursprüngliche Antwort',
+        'practice.attempt': 'Versuch {number}',
+        'practice.attemptsLabel': 'Übungsversuche',
+        'practice.noAnswer': 'Es wurde keine Antwort aufgezeichnet.',
+        'practice.whatChanged': 'Was sich geändert hat',
+        'practice.comparisonFailed': 'Der Vergleich für diesen Versuch konnte nicht erstellt werden.',
+        'practice.backToResults': 'Zurück zu den Ergebnissen',
+
+        'export.label': 'Exportieren:',
+        'export.reportTitle': 'Interviewbericht',
+        'export.date': 'Datum',
+        'export.duration': 'Dauer',
+        'export.language': 'Sprache',
+        'export.panel': 'Gremium',
+        'export.coaching': 'Coaching-Hinweise',
+        'export.coachingOn': 'An',
+        'export.instructions': 'Interviewanweisungen',
+        'export.focusAreas': 'Schwerpunkte',
+        'export.jobDescription': 'Stellenbeschreibung',
+        'export.resume': 'Lebenslauf',
+        'export.competency': 'Kompetenz',
+        'export.score': 'Bewertung',
+        'export.rationale': 'Begründung',
+        'export.evidence': 'Belege für {competency}',
+    },
+};
+
+export default de;
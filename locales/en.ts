@@ -0,0 +1,354 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+// The reference catalog: every other locale must translate exactly these keys.
+const messages = {
+    'common.back': 'Back',
+    'common.cancel': 'Cancel',
+    'common.close': 'Close',
+    'common.loading': 'Loading...',
+    'common.tryAgain': 'Try Again',
+    'common.typed': 'Typed',
+    'common.minutes': '{minutes} min',
+    'common.durationLabel': 'Duration (minutes)',
+    'common.focusAreasLabel': 'Focus Areas (comma-separated)',
+    'common.unknownError': 'unknown error',
+
+    'app.title': 'AI Interview Simulator',
+    'app.intro': "Describe the interview, and add the candidate's resume and the job description. The AI will conduct a live audio interview based on your input.",
+    'app.templates': 'Templates',
+    'app.history': 'History',
+    'app.uiLanguage': 'Display language',
+    'app.interviewLanguage': 'Interview Language',
+    'app.answerBy': 'Answer By',
+    'app.answerBySpeaking': 'Speaking (microphone)',
+    'app.answerByTyping': 'Typing',
+    'app.coachingToggle': 'Coaching hints while I answer',
+    'app.coachingToggleHelp': '(talking points and warnings that only you see)',
+    'app.instructionsLabel': 'Interview Instructions',
+    'app.instructionsPlaceholder': 'e.g., Conduct an interview for a junior software engineer.',
+    'app.resumeLabel': 'Candidate Resume',
+    'app.resumePlaceholder': 'Paste the resume or upload a PDF, DOCX, TXT or Markdown file.',
+    'app.jobDescriptionLabel': 'Job Description',
+    'app.jobDescriptionPlaceholder': 'Paste the job description or upload a PDF, DOCX, TXT or Markdown file.',
+    'app.startInterview': 'Start Interview',
+    'app.connecting': 'Connecting...',
+    'app.connectingDetail': 'Preparing the interview session.',
+    'app.comparingAttempts': 'Comparing Attempts...',
+    'app.comparingAttemptsDetail': 'Our AI is looking at what changed in your answer.',
+    'app.generatingFeedback': 'Generating Feedback...',
+    'app.generatingFeedbackDetail': 'Our AI is analyzing your conversation.',
+    'app.interviewComplete': 'Interview Complete',
+    'app.coachingOn': 'Coaching hints on',
+    'app.performanceSummary': 'Performance Summary',
+    'app.noSummary': 'No summary available.',
+    'app.retryFeedback': 'Retry feedback',
+    'app.transcriptKept': 'Your transcript has been saved, so nothing is lost.',
+    'app.feedbackCancelled': 'Feedback generation was cancelled.',
+    'app.delivery': 'Delivery',
+    'app.startNewInterview': 'Start New Interview',
+    'app.typedAnswers': 'Typed answers',
+    'app.interviewerWillBegin': 'The interviewer will begin shortly...',
+    'app.reconnecting': 'Connection lost. Reconnecting (attempt {attempt} of {max})...',
+    'app.micDeniedFallback': 'Microphone access was denied, so you are answering by typing.',
+    'app.micNotFoundFallback': 'No microphone was found, so you are answering by typing.',
+    'app.paused': 'Interview paused. The microphone and interviewer are muted until you resume.',
+    'app.pause': 'Pause',
+    'app.resume': 'Resume',
+    'app.endInterview': 'End Interview',
+    'app.endPractice': 'End Practice',
+
+    'audio.micSensitivity': 'Microphone Sensitivity',
+    'audio.speakerVolume': 'Speaker Volume',
+    'audio.hearingYou': 'Hearing you',
+    'audio.silent': 'Silent',
+
+    'devices.microphone': 'Microphone',
+    'devices.speakers': 'Speakers',
+    'devices.systemDefault': 'System default',
+    'devices.unnamedInput': 'Microphone {number}',
+    'devices.unnamedOutput': 'Speakers {number}',
+    'devices.outputUnsupported': 'This browser always plays audio through the system default output.',
+    'devices.micLevel': 'Microphone level',
+    'devices.micDisconnected': 'Your microphone was disconnected, so the system default microphone is now in use.',
+    'devices.speakersDisconnected': 'Your speakers were disconnected, so audio now plays through the system default output.',
+    'devices.micUnavailable': 'No microphone is available. Connect one to keep answering by voice.',
+
+    'preflight.title': 'Check your audio',
+    'preflight.intro': 'Pick your microphone and speakers, then record a short test to hear how you will sound.',
+    'preflight.test': 'Record a {seconds}-second test',
+    'preflight.recording': 'Recording… say a few words.',
+    'preflight.playing': 'Playing back…',
+    'preflight.heardYourself': 'Did you hear yourself clearly? If not, pick another device or adjust the sliders and test again.',
+    'preflight.testFailed': 'The audio test failed. Check your devices and try again.',
+
+    'error.missingMaterials': 'Please provide interview instructions, a resume or a job description.',
+    'error.apiKeyNotConfigured': 'The API key is not configured. This is a setup issue and requires developer attention.',
+    'error.micDenied': 'Microphone access was denied. Please enable microphone permissions for this site in your browser settings and try again.',
+    'error.micNotFound': 'No microphone was found on your device. Please connect a microphone and try again.',
+    'error.micNotReadable': 'There was a hardware error with your microphone, or it might be in use by another application. Please check your microphone and try again.',
+
+    'apiError.invalidKey': 'The provided API key is invalid or not activated for this project. Please check your configuration.',
+    'apiError.permission': 'You do not have permission to access this resource. This could be due to an incorrect API key or project settings.',
+    'apiError.quota': 'The API request quota has been exceeded. Please wait a while before trying again.',
+    'apiError.rateLimited': 'Too many requests. Please wait a moment and try again.',
+    'apiError.safety': 'The request was blocked due to the safety policy. Please modify your script and try again.',
+    'apiError.server': 'The AI service is currently experiencing issues. Please try again later.',
+    'apiError.network': 'A network error occurred. Please check your internet connection and try again.',
+    'apiError.unknown': 'An unknown error occurred.',
+    'apiError.start': 'Could not start the interview: {message}.',
+    'apiError.summary': 'An API error occurred while generating the summary: {message}',
+
+    'history.title': 'Interview History',
+    'history.loadFailed': 'Could not load your interview history.',
+    'history.deleteFailed': 'Could not delete the interview.',
+    'history.confirmDelete': 'Delete the interview from {date}?',
+    'history.empty': 'No saved interviews yet.',
+    'history.turns': '{count} turns',
+    'history.open': 'Open',
+    'history.openLabel': 'Open interview',
+    'history.duplicateTitle': 'Start a new interview with this script',
+    'history.duplicateLabel': 'Duplicate script into a new interview',
+    'history.delete': 'Delete interview',
+
+    'templates.title': 'Interview Templates',
+    'templates.mine': 'My Templates',
+    'templates.presets': 'Presets',
+    'templates.new': 'New Template',
+    'templates.edit': 'Edit Template',
+    'templates.name': 'Name',
+    'templates.description': 'Description',
+    'templates.language': 'Language',
+    'templates.save': 'Save Template',
+    'templates.use': 'Use',
+    'templates.editLabel': 'Edit template',
+    'templates.duplicateLabel': 'Duplicate template',
+    'templates.exportTitle': 'Export as JSON',
+    'templates.exportLabel': 'Export template as JSON',
+    'templates.deleteLabel': 'Delete template',
+    'templates.import': 'Import JSON',
+    'templates.exportMine': 'Export My Templates',
+    'templates.copyName': '{name} (Copy)',
+    'templates.confirmDelete': 'Delete the template "{name}"?',
+    'templates.imported': 'Templates imported: {count}.',
+    'templates.loadFailed': 'Could not load your templates.',
+    'templates.saveFailed': 'Could not save the template.',
+    'templates.deleteFailed': 'Could not delete the template.',
+    'templates.importFailed': 'Could not import templates: {message}',
+
+    'document.upload': 'Upload',
+    'document.reading': 'Reading...',
+    'document.unsupportedType': 'Unsupported file type ".{extension}". Please upload a PDF, DOCX, TXT or Markdown file.',
+    'document.readFailed': 'Failed to read "{fileName}". Please ensure it is a valid PDF, DOCX, TXT or Markdown file.',
+
+    'focusAreas.placeholder': 'e.g., System design, Leadership',
+
+    'plan.inputTitle': 'Question Plan (optional)',
+    'plan.inputSummary': '{sections} sections, {questions} questions, ~{minutes} min',
+    'plan.inputHelp': 'Start each section with "#" and each question with "-". Add "(10 min)" to a section or "(2 follow-ups)" to a question to set limits.',
+    'plan.title': 'Question Plan',
+    'plan.progressLabel': 'Question plan progress',
+    'plan.compactProgress': '{asked} of {total} questions asked',
+    'plan.showPlan': 'Show plan',
+    'plan.hidePlan': 'Hide plan',
+    'plan.skipped': 'Skipped Questions',
+    'plan.allAsked': 'Every question in the plan was asked.',
+
+    'persona.interviewer': 'Interviewer',
+    'persona.panelStyle': 'Panel Style',
+    'persona.sharedByPanel': 'Shared by all panelists',
+    'persona.name': 'Name (optional)',
+    'persona.namePlaceholder': 'e.g., Alex',
+    'persona.company': 'Company (optional)',
+    'persona.companyPlaceholder': 'e.g., Acme Corp',
+    'persona.tone': 'Tone',
+    'persona.difficulty': 'Difficulty',
+    'persona.voice': 'Voice',
+    'persona.preview': 'Preview {voice}',
+    'persona.previewUnavailable': 'A preview of this voice is not available right now.',
+
+    'tone.friendly': 'Friendly',
+    'tone.neutral': 'Neutral',
+    'tone.high-pressure': 'High-pressure (stress interview)',
+
+    'difficulty.junior': 'Junior',
+    'difficulty.mid': 'Mid-level',
+    'difficulty.senior': 'Senior',
+    'difficulty.executive': 'Executive',
+
+    'voiceStyle.firm': 'Firm',
+    'voiceStyle.upbeat': 'Upbeat',
+    'voiceStyle.informative': 'Informative',
+    'voiceStyle.excitable': 'Excitable',
+    'voiceStyle.breezy': 'Breezy',
+    'voiceStyle.youthful': 'Youthful',
+    'voiceStyle.bright': 'Bright',
+
+    'panel.toggle': 'Panel interview',
+    'panel.toggleHelp': '({min}–{max} interviewers who take turns)',
+    'panel.namePlaceholder': 'Name',
+    'panel.nameLabel': 'Panelist {number} name',
+    'panel.rolePlaceholder': 'Role, e.g. Tech Lead',
+    'panel.roleLabel': 'Panelist {number} role',
+    'panel.voiceLabel': 'Panelist {number} voice',
+    'panel.focusPlaceholder': 'What they ask about, e.g. system design',
+    'panel.focusLabel': 'Panelist {number} focus',
+    'panel.remove': 'Remove panelist',
+    'panel.removeLabel': 'Remove panelist {number}',
+    'panel.add': 'Add Panelist',
+    'panel.sharedVoices': 'Some panelists share a voice, which makes them harder to tell apart.',
+
+    'voice.calibration': 'Microphone Calibration',
+    'voice.stayQuiet': 'Stay quiet for a moment...',
+    'voice.readAloud': 'Now read aloud: “{sentence}”',
+    'voice.calibrationSentence': 'I am calibrating my microphone so the interviewer knows when I have finished speaking.',
+    'voice.calibrated': 'Noise floor {noiseFloor}, your voice {speechLevel}, speech threshold {threshold}.',
+    'voice.notCalibrated': 'Not calibrated. Calibrate so the interviewer can tell your voice from background noise.',
+    'voice.lowSignal': 'Your voice was barely louder than the background. Move closer to the microphone or raise its sensitivity.',
+    'voice.calibrate': 'Calibrate',
+    'voice.recalibrate': 'Recalibrate',
+    'voice.calibrating': 'Calibrating...',
+    'voice.micDenied': 'Microphone access was denied. Please enable microphone permissions to calibrate.',
+    'voice.calibrationFailed': 'Microphone calibration failed. Please check your microphone and try again.',
+    'voice.turnTaking': 'Turn-Taking',
+    'voice.patience': 'End-of-turn patience: {seconds} s',
+    'voice.patienceHelp': 'How long you can pause before your answer is treated as finished.',
+
+    'turnTaking.auto': 'Automatic',
+    'turnTaking.autoDescription': 'Your answer ends after a pause.',
+    'turnTaking.push-to-talk': 'Push to talk',
+    'turnTaking.push-to-talkDescription': 'Hold the button or the Space bar while you answer.',
+    'turnTaking.tap-to-finish': 'Tap to finish',
+    'turnTaking.tap-to-finishDescription': 'Your mic opens when the interviewer finishes; press the button or Space when you are done.',
+    'turnTaking.listening': 'Listening... release to finish',
+    'turnTaking.holdToTalk': 'Hold to Talk (Space)',
+    'turnTaking.finishAnswer': 'Finish My Answer (Space)',
+    'turnTaking.startAnswer': 'Start Answering (Space)',
+
+    'typedAnswer.placeholder': 'Type your answer and press Enter...',
+    'typedAnswer.label': 'Your answer',
+    'typedAnswer.send': 'Send',
+
+    'countdown.label': 'Time remaining',
+    'countdown.remaining': 'remaining',
+    'countdown.wrappingUp': 'Wrapping up',
+    'countdown.paused': 'paused',
+
+    'coaching.label': 'Coaching hints',
+    'coaching.title': 'Coaching',
+    'coaching.runningLong': 'Your answer is running long. Wrap up with the result.',
+    'coaching.offTopic': "This doesn't answer the question yet: “{question}”",
+    'coaching.waitingForHints': 'Hints for this question will appear here.',
+    'coaching.waitingForQuestion': 'Hints appear once the first question is asked.',
+    'coaching.privacy': 'Only you can see these hints. They are never sent to the interviewer.',
+    'coaching.showHints': 'Show hints',
+    'coaching.hideHints': 'Hide hints',
+
+    'summary.overallScore': 'Overall Score',
+    'summary.chartLabel': 'Competency scores chart',
+    'summary.notScored': 'Not scored',
+    'summary.panelFeedback': 'Panel Feedback',
+    'summary.detailedFeedback': 'Detailed Feedback',
+
+    'feedback.version': 'Version',
+    'feedback.versionLabel': 'Version {number} · {language} · {emphasis}',
+    'feedback.regenerateIn': 'Regenerate in',
+    'feedback.emphasis': 'Emphasis',
+    'feedback.regenerate': 'Regenerate',
+
+    'emphasis.balanced': 'Balanced',
+    'emphasis.technical': 'Technical depth',
+    'emphasis.communication': 'Communication',
+    'emphasis.leadership': 'Leadership',
+
+    'recommendation.STRONG_HIRE': 'Strong Hire',
+    'recommendation.HIRE': 'Hire',
+    'recommendation.LEAN_HIRE': 'Lean Hire',
+    'recommendation.LEAN_NO_HIRE': 'Lean No Hire',
+    'recommendation.NO_HIRE': 'No Hire',
+
+    'competency.communication': 'Communication',
+    'competency.problemSolving': 'Problem Solving',
+    'competency.roleFit': 'Role Fit',
+    'competency.leadership': 'Leadership',
+    'competency.selfAwareness': 'Self-Awareness',
+
+    'delivery.pace': 'Pace',
+    'delivery.wordsPerMinute': 'words per minute',
+    'delivery.charactersPerMinute': 'characters per minute',
+    'delivery.fillerWords': 'Filler Words',
+    'delivery.averageResponseTime': 'Avg. Response Time',
+    'delivery.silenceBeforeAnswering': 'silence before answering',
+    'delivery.longestAnswer': 'Longest Answer',
+    'delivery.candidateShare': 'You {percent}% · {duration}',
+    'delivery.interviewerShare': 'Interviewer {percent}% · {duration}',
+    'delivery.talkTimeLabel': 'Talk time ratio',
+    'delivery.silenceBeforeEachAnswer': 'Silence Before Each Answer',
+    'delivery.longestAnswerQuote': 'Longest answer: “{text}”',
+
+    'transcript.title': 'Full Transcript',
+    'transcript.download': 'Download {format}',
+    'transcript.downloadWav': 'Download WAV',
+    'transcript.converting': 'Converting...',
+
+    'answers.title': 'Answer Feedback',
+    'answers.selectHint': 'Click a question or answer in the transcript to see feedback on it.',
+    'answers.noAnswers': 'There are no answers to give feedback on. Click a question to practise it.',
+    'answers.practice': 'Practice This Question',
+    'answers.reviewing': 'Reviewing your answers...',
+    'answers.generate': 'Get Feedback on My Answers',
+    'answers.generateHint': 'Feedback on every answer is generated together when you ask for it.',
+    'answers.generateFailed': 'Could not generate feedback on your answers.',
+    'answers.noCritique': 'No critique is available for this answer.',
+    'answers.starLabel': 'STAR structure',
+    'answers.yourAnswer': 'Your Answer',
+    'answers.strongerAnswer': 'Stronger Answer',
+
+    'questionKind.behavioral': 'Behavioral',
+    'questionKind.technical': 'Technical',
+    'questionKind.general': 'General',
+
+    'star.situation': 'Situation',
+    'star.task': 'Task',
+    'star.action': 'Action',
+    'star.result': 'Result',
+
+    'practice.title': 'Practice Round',
+    'practice.originalAnswer': 'Original Answer',
+    'practice.attempt': 'Attempt {number}',
+    'practice.attemptsLabel': 'Practice attempts',
+    'practice.noAnswer': 'No answer was recorded.',
+    'practice.whatChanged': 'What Changed',
+    'practice.comparisonFailed': 'The comparison for this attempt could not be generated.',
+    'practice.backToResults': 'Back to Results',
+
+    'export.label': 'Export:',
+    'export.reportTitle': 'Interview Report',
+    'export.date': 'Date',
+    'export.duration': 'Duration',
+    'export.language': 'Language',
+    'export.panel': 'Panel',
+    'export.coaching': 'Coaching hints',
+    'export.coachingOn': 'On',
+    'export.instructions': 'Interview Instructions',
+    'export.focusAreas': 'Focus Areas',
+    'export.jobDescription': 'Job Description',
+    'export.resume': 'Candidate Resume',
+    'export.competency': 'Competency',
+    'export.score': 'Score',
+    'export.rationale': 'Rationale',
+    'export.evidence': '{competency} evidence',
+};
+
+export type MessageKey = keyof typeof messages;
+
+const en: LocaleCatalog = {
+    code: 'en',
+    name: 'English',
+    interviewLanguage: 'English',
+    dir: 'ltr',
+    welcome: (name, company) => `Hello and welcome to your interview${company ? ` with ${company}` : ''}.${name ? ` My name is ${name}.` : ''} The session will begin shortly.`,
+    fillerWords: { words: ['um', 'uh', 'erm', 'like', 'you know', 'basically', 'actually', 'i mean', 'sort of', 'kind of'], spaced: true },
+    messages,
+};
+
+export default en;
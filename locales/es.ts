@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const es: LocaleCatalog = {
+    code: 'es',
+    name: 'Español',
+    interviewLanguage: 'Spanish',
+    dir: 'ltr',
+    welcome: (name, company) => `Hola y bienvenido a tu entrevista${company ? ` con ${company}` : ''}.${name ? ` Me llamo ${name}.` : ''} La sesión comenzará en breve.`,
+    fillerWords: { words: ['eh', 'este', 'pues', 'o sea', 'bueno', 'digamos', 'en plan'], spaced: true },
+    messages: {
+        'common.back': 'Volver',
+        'common.cancel': 'Cancelar',
+        'common.close': 'Cerrar',
+        'common.loading': 'Cargando...',
+        'common.tryAgain': 'Intentar de nuevo',
+        'common.typed': 'Escrita',
+        'common.minutes': '{minutes} min',
+        'common.durationLabel': 'Duración (minutos)',
+        'common.focusAreasLabel': 'Áreas de enfoque (separadas por comas)',
+        'common.unknownError': 'error desconocido',
+
+        'app.title': 'Simulador de entrevistas con IA',
+        'app.intro': 'Describe la entrevista y añade el currículum del candidato y la descripción del puesto. La IA realizará una entrevista de audio en directo a partir de tus datos.',
+        'app.templates': 'Plantillas',
+        'app.history': 'Historial',
+        'app.uiLanguage': 'Idioma de la interfaz',
+        'app.interviewLanguage': 'Idioma de la entrevista',
+        'app.answerBy': 'Responder',
+        'app.answerBySpeaking': 'Hablando (micrófono)',
+        'app.answerByTyping': 'Escribiendo',
+        'app.coachingToggle': 'Consejos mientras respondo',
+        'app.coachingToggleHelp': '(ideas clave y avisos que solo ves tú)',
+        'app.instructionsLabel': 'Instrucciones de la entrevista',
+        'app.instructionsPlaceholder': 'p. ej., Realiza una entrevista para un ingeniero de software junior.',
+        'app.resumeLabel': 'Currículum del candidato',
+        'app.resumePlaceholder': 'Pega el currículum o sube un archivo PDF, DOCX, TXT o Markdown.',
+        'app.jobDescriptionLabel': 'Descripción del puesto',
+        'app.jobDescriptionPlaceholder': 'Pega la descripción del puesto o sube un archivo PDF, DOCX, TXT o Markdown.',
+        'app.startInterview': 'Comenzar entrevista',
+        'app.connecting': 'Conectando...',
+        'app.connectingDetail': 'Preparando la sesión de entrevista.',
+        'app.comparingAttempts': 'Comparando intentos...',
+        'app.comparingAttemptsDetail': 'Nuestra IA está analizando qué ha cambiado en tu respuesta.',
+        'app.generatingFeedback': 'Generando comentarios...',
+        'app.generatingFeedbackDetail': 'Nuestra IA está analizando tu conversación.',
+        'app.interviewComplete': 'Entrevista completada',
+        'app.coachingOn': 'Consejos activados',
+        'app.performanceSummary': 'Resumen del desempeño',
+        'app.noSummary': 'No hay resumen disponible.',
+        'app.retryFeedback': 'Reintentar comentarios',
+        'app.transcriptKept': 'Tu transcripción está guardada, así que no se ha perdido nada.',
+        'app.feedbackCancelled': 'Se canceló la generación de la valoración.',
+        'app.delivery': 'Expresión oral',
+        'app.startNewInterview': 'Comenzar una nueva entrevista',
+        'app.typedAnswers': 'Respuestas escritas',
+        'app.interviewerWillBegin': 'El entrevistador empezará en breve...',
+        'app.reconnecting': 'Se perdió la conexión. Reconectando (intento {attempt} de {max})...',
+        'app.micDeniedFallback': 'Se denegó el acceso al micrófono, así que respondes por escrito.',
+        'app.micNotFoundFallback': 'No se encontró ningún micrófono, así que respondes por escrito.',
+        'app.paused': 'Entrevista en pausa. El micrófono y el entrevistador están silenciados hasta que la reanudes.',
+        'app.pause': 'Pausar',
+        'app.resume': 'Reanudar',
+        'app.endInterview': 'Terminar entrevista',
+        'app.endPractice': 'Terminar práctica',
+
+        'audio.micSensitivity': 'Sensibilidad del micrófono',
+        'audio.speakerVolume': 'Volumen del altavoz',
+        'audio.hearingYou': 'Te escucho',
+        'audio.silent': 'Silencio',
+
+        'devices.microphone': 'Micrófono',
+        'devices.speakers': 'Altavoces',
+        'devices.systemDefault': 'Predeterminado del sistema',
+        'devices.unnamedInput': 'Micrófono {number}',
+        'devices.unnamedOutput': 'Altavoces {number}',
+        'devices.outputUnsupported': 'Este navegador siempre reproduce el audio por la salida predeterminada del sistema.',
+        'devices.micLevel': 'Nivel del micrófono',
+        'devices.micDisconnected': 'Tu micrófono se desconectó, así que ahora se usa el micrófono predeterminado del sistema.',
+        'devices.speakersDisconnected': 'Tus altavoces se desconectaron, así que el audio ahora suena por la salida predeterminada del sistema.',
+        'devices.micUnavailable': 'No hay ningún micrófono disponible. Conecta uno para seguir respondiendo por voz.',
+
+        'preflight.title': 'Comprueba tu audio',
+        'preflight.intro': 'Elige el micrófono y los altavoces, y graba una prueba corta para oír cómo sonarás.',
+        'preflight.test': 'Grabar una prueba de {seconds} segundos',
+        'preflight.recording': 'Grabando… di unas palabras.',
+        'preflight.playing': 'Reproduciendo…',
+        'preflight.heardYourself': '¿Te has oído con claridad? Si no, elige otro dispositivo o ajusta los controles y vuelve a probar.',
+        'preflight.testFailed': 'La prueba de audio falló. Revisa tus dispositivos e inténtalo de nuevo.',
+
+        'error.missingMaterials': 'Indica las instrucciones de la entrevista, un currículum o una descripción del puesto.',
+        'error.apiKeyNotConfigured': 'La clave de API no está configurada. Es un problema de configuración que requiere la atención de un desarrollador.',
+        'error.micDenied': 'Se denegó el acceso al micrófono. Activa los permisos del micrófono para este sitio en la configuración del navegador y vuelve a intentarlo.',
+        'error.micNotFound': 'No se encontró ningún micrófono en tu dispositivo. Conecta un micrófono y vuelve a intentarlo.',
+        'error.micNotReadable': 'Se produjo un error de hardware en el micrófono, o puede que otra aplicación lo esté usando. Revisa el micrófono y vuelve a intentarlo.',
+
+        'apiError.invalidKey': 'La clave de API no es válida o no está activada para este proyecto. Revisa la configuración.',
+        'apiError.permission': 'No tienes permiso para acceder a este recurso. Puede deberse a una clave de API incorrecta o a la configuración del proyecto.',
+        'apiError.quota': 'Se ha superado la cuota de solicitudes de la API. Espera un rato antes de volver a intentarlo.',
+        'apiError.rateLimited': 'Demasiadas solicitudes. Espera un momento y vuelve a intentarlo.',
+        'apiError.safety': 'La solicitud se bloqueó por la política de seguridad. Modifica tu guion y vuelve a intentarlo.',
+        'apiError.server': 'El servicio de IA tiene problemas en este momento. Inténtalo más tarde.',
+        'apiError.network': 'Se produjo un error de red. Revisa tu conexión a internet y vuelve a intentarlo.',
+        'apiError.unknown': 'Se produjo un error desconocido.',
+        'apiError.start': 'No se pudo comenzar la entrevista: {message}.',
+        'apiError.summary': 'Se produjo un error de la API al generar el resumen: {message}',
+
+        'history.title': 'Historial de entrevistas',
+        'history.loadFailed': 'No se pudo cargar tu historial de entrevistas.',
+        'history.deleteFailed': 'No se pudo eliminar la entrevista.',
+        'history.confirmDelete': '¿Eliminar la entrevista del {date}?',
+        'history.empty': 'Todavía no hay entrevistas guardadas.',
+        'history.turns': '{count} turnos',
+        'history.open': 'Abrir',
+        'history.openLabel': 'Abrir entrevista',
+        'history.duplicateTitle': 'Comenzar una nueva entrevista con este guion',
+        'history.duplicateLabel': 'Duplicar el guion en una nueva entrevista',
+        'history.delete': 'Eliminar entrevista',
+
+        'templates.title': 'Plantillas de entrevista',
+        'templates.mine': 'Mis plantillas',
+        'templates.presets': 'Predefinidas',
+        'templates.new': 'Nueva plantilla',
+        'templates.edit': 'Editar plantilla',
+        'templates.name': 'Nombre',
+        'templates.description': 'Descripción',
+        'templates.language': 'Idioma',
+        'templates.save': 'Guardar plantilla',
+        'templates.use': 'Usar',
+        'templates.editLabel': 'Editar plantilla',
+        'templates.duplicateLabel': 'Duplicar plantilla',
+        'templates.exportTitle': 'Exportar como JSON',
+        'templates.exportLabel': 'Exportar plantilla como JSON',
+        'templates.deleteLabel': 'Eliminar plantilla',
+        'templates.import': 'Importar JSON',
+        'templates.exportMine': 'Exportar mis plantillas',
+        'templates.copyName': '{name} (copia)',
+        'templates.confirmDelete': '¿Eliminar la plantilla «{name}»?',
+        'templates.imported': 'Plantillas importadas: {count}.',
+        'templates.loadFailed': 'No se pudieron cargar tus plantillas.',
+        'templates.saveFailed': 'No se pudo guardar la plantilla.',
+        'templates.deleteFailed': 'No se pudo eliminar la plantilla.',
+        'templates.importFailed': 'No se pudieron importar las plantillas: {message}',
+
+        'document.upload': 'Subir',
+        'document.reading': 'Leyendo...',
+        'document.unsupportedType': 'Tipo de archivo no compatible «.{extension}». Sube un archivo PDF, DOCX, TXT o Markdown.',
+        'document.readFailed': 'No se pudo leer «{fileName}». Comprueba que sea un archivo PDF, DOCX, TXT o Markdown válido.',
+
+        'focusAreas.placeholder': 'p. ej., Diseño de sistemas, Liderazgo',
+
+        'plan.inputTitle': 'Plan de preguntas (opcional)',
+        'plan.inputSummary': '{sections} secciones, {questions} preguntas, ~{minutes} min',
+        'plan.inputHelp': 'Empieza cada sección con "#" y cada pregunta con "-". Añade "(10 min)" a una sección o "(2 follow-ups)" a una pregunta para fijar límites.',
+        'plan.title': 'Plan de preguntas',
+        'plan.progressLabel': 'Progreso del plan de preguntas',
+        'plan.compactProgress': '{asked} de {total} preguntas formuladas',
+        'plan.showPlan': 'Mostrar plan',
+        'plan.hidePlan': 'Ocultar plan',
+        'plan.skipped': 'Preguntas omitidas',
+        'plan.allAsked': 'Se hicieron todas las preguntas del plan.',
+
+        'persona.interviewer': 'Entrevistador',
+        'persona.panelStyle': 'Estilo del panel',
+        'persona.sharedByPanel': 'Común a todos los panelistas',
+        'persona.name': 'Nombre (opcional)',
+        'persona.namePlaceholder': 'p. ej., Alex',
+        'persona.company': 'Empresa (opcional)',
+        'persona.companyPlaceholder': 'p. ej., Acme Corp',
+        'persona.tone': 'Tono',
+        'persona.difficulty': 'Dificultad',
+        'persona.voice': 'Voz',
+        'persona.preview': 'Escuchar a {voice}',
+        'persona.previewUnavailable': 'La vista previa de esta voz no está disponible en este momento.',
+
+        'tone.friendly': 'Amable',
+        'tone.neutral': 'Neutral',
+        'tone.high-pressure': 'Alta presión (entrevista de estrés)',
+
+        'difficulty.junior': 'Junior',
+        'difficulty.mid': 'Intermedio',
+        'difficulty.senior': 'Sénior',
+        'difficulty.executive': 'Directivo',
+
+        'voiceStyle.firm': 'Firme',
+        'voiceStyle.upbeat': 'Animada',
+        'voiceStyle.informative': 'Informativa',
+        'voiceStyle.excitable': 'Entusiasta',
+        'voiceStyle.breezy': 'Desenfadada',
+        'voiceStyle.youthful': 'Juvenil',
+        'voiceStyle.bright': 'Luminosa',
+
+        'panel.toggle': 'Entrevista en panel',
+        'panel.toggleHelp': '({min}–{max} entrevistadores que se turnan)',
+        'panel.namePlaceholder': 'Nombre',
+        'panel.nameLabel': 'Nombre del panelista {number}',
+        'panel.rolePlaceholder': 'Cargo, p. ej. Líder técnico',
+        'panel.roleLabel': 'Cargo del panelista {number}',
+        'panel.voiceLabel': 'Voz del panelista {number}',
+        'panel.focusPlaceholder': 'Sobre qué pregunta, p. ej. diseño de sistemas',
+        'panel.focusLabel': 'Enfoque del panelista {number}',
+        'panel.remove': 'Quitar panelista',
+        'panel.removeLabel': 'Quitar al panelista {number}',
+        'panel.add': 'Añadir panelista',
+        'panel.sharedVoices': 'Algunos panelistas comparten voz, lo que dificulta distinguirlos.',
+
+        'voice.calibration': 'Calibración del micrófono',
+        'voice.stayQuiet': 'Guarda silencio un momento...',
+        'voice.readAloud': 'Ahora lee en voz alta: «{sentence}»',
+        'voice.calibrationSentence': 'Estoy calibrando mi micrófono para que el entrevistador sepa cuándo he terminado de hablar.',
+        'voice.calibrated': 'Ruido de fondo {noiseFloor}, tu voz {speechLevel}, umbral de voz {threshold}.',
+        'voice.notCalibrated': 'Sin calibrar. Calibra para que el entrevistador distinga tu voz del ruido de fondo.',
+        'voice.lowSignal': 'Tu voz apenas superaba el ruido de fondo. Acércate al micrófono o sube su sensibilidad.',
+        'voice.calibrate': 'Calibrar',
+        'voice.recalibrate': 'Volver a calibrar',
+        'voice.calibrating': 'Calibrando...',
+        'voice.micDenied': 'Se denegó el acceso al micrófono. Activa los permisos del micrófono para calibrar.',
+        'voice.calibrationFailed': 'No se pudo calibrar el micrófono. Revísalo y vuelve a intentarlo.',
+        'voice.turnTaking': 'Turnos de palabra',
+        'voice.patience': 'Espera al final del turno: {seconds} s',
+        'voice.patienceHelp': 'Cuánto puedes pausar antes de que tu respuesta se dé por terminada.',
+
+        'turnTaking.auto': 'Automático',
+        'turnTaking.autoDescription': 'Tu respuesta termina tras una pausa.',
+        'turnTaking.push-to-talk': 'Pulsar para hablar',
+        'turnTaking.push-to-talkDescription': 'Mantén pulsado el botón o la barra espaciadora mientras respondes.',
+        'turnTaking.tap-to-finish': 'Pulsar para terminar',
+        'turnTaking.tap-to-finishDescription': 'Tu micrófono se abre cuando el entrevistador termina; pulsa el botón o Espacio cuando acabes.',
+        'turnTaking.listening': 'Escuchando... suelta para terminar',
+        'turnTaking.holdToTalk': 'Mantén pulsado para hablar (Espacio)',
+        'turnTaking.finishAnswer': 'Terminar mi respuesta (Espacio)',
+        'turnTaking.startAnswer': 'Empezar a responder (Espacio)',
+
+        'typedAnswer.placeholder': 'Escribe tu respuesta y pulsa Intro...',
+        'typedAnswer.label': 'Tu respuesta',
+        'typedAnswer.send': 'Enviar',
+
+        'countdown.label': 'Tiempo restante',
+        'countdown.remaining': 'restante',
+        'countdown.wrappingUp': 'Cerrando',
+        'countdown.paused': 'en pausa',
+
+        'coaching.label': 'Consejos',
+        'coaching.title': 'Consejos',
+        'coaching.runningLong': 'Tu respuesta se está alargando. Cierra con el resultado.',
+        'coaching.offTopic': 'Esto aún no responde a la pregunta: «{question}»',
+        'coaching.waitingForHints': 'Aquí aparecerán consejos para esta pregunta.',
+        'coaching.waitingForQuestion': 'Los consejos aparecerán cuando se haga la primera pregunta.',
+        'coaching.privacy': 'Solo tú ves estos consejos. Nunca se envían al entrevistador.',
+        'coaching.showHints': 'Mostrar consejos',
+        'coaching.hideHints': 'Ocultar consejos',
+
+        'summary.overallScore': 'Puntuación global',
+        'summary.chartLabel': 'Gráfico de puntuaciones por competencia',
+        'summary.notScored': 'Sin puntuar',
+        'summary.panelFeedback': 'Valoración del panel',
+        'summary.detailedFeedback': 'Comentarios detallados',
+
+        'feedback.version': 'Versión',
+        'feedback.versionLabel': 'Versión {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': 'Regenerar en',
+        'feedback.emphasis': 'Enfoque',
+        'feedback.regenerate': 'Regenerar',
+
+        'emphasis.balanced': 'Equilibrado',
+        'emphasis.technical': 'Profundidad técnica',
+        'emphasis.communication': 'Comunicación',
+        'emphasis.leadership': 'Liderazgo',
+
+        'recommendation.STRONG_HIRE': 'Contratar sin duda',
+        'recommendation.HIRE': 'Contratar',
+        'recommendation.LEAN_HIRE': 'Inclinado a contratar',
+        'recommendation.LEAN_NO_HIRE': 'Inclinado a no contratar',
+        'recommendation.NO_HIRE': 'No contratar',
+
+        'competency.communication': 'Comunicación',
+        'competency.problemSolving': 'Resolución de problemas',
+        'competency.roleFit': 'Encaje con el puesto',
+        'competency.leadership': 'Liderazgo',
+        'competency.selfAwareness': 'Autoconocimiento',
+
+        'delivery.pace': 'Ritmo',
+        'delivery.wordsPerMinute': 'palabras por minuto',
+        'delivery.charactersPerMinute': 'caracteres por minuto',
+        'delivery.fillerWords': 'Muletillas',
+        'delivery.averageResponseTime': 'Tiempo medio de respuesta',
+        'delivery.silenceBeforeAnswering': 'silencio antes de responder',
+        'delivery.longestAnswer': 'Respuesta más larga',
+        'delivery.candidateShare': 'Tú {percent} % · {duration}',
+        'delivery.interviewerShare': 'Entrevistador {percent} % · {duration}',
+        'delivery.talkTimeLabel': 'Reparto del tiempo de habla',
+        'delivery.silenceBeforeEachAnswer': 'Silencio antes de cada respuesta',
+        'delivery.longestAnswerQuote': 'Respuesta más larga: «{text}»',
+
+        'transcript.title': 'Transcripción completa',
+        'transcript.download': 'Descargar {format}',
+        'transcript.downloadWav': 'Descargar WAV',
+        'transcript.converting': 'Convirtiendo...',
+
+        'answers.title': 'Comentarios sobre las respuestas',
+        'answers.selectHint': 'Haz clic en una pregunta o respuesta de la transcripción para ver comentarios sobre ella.',
+        'answers.noAnswers': 'No hay respuestas que comentar. Haz clic en una pregunta para practicarla.',
+        'answers.practice': 'Practicar esta pregunta',
+        'answers.reviewing': 'Revisando tus respuestas...',
+        'answers.generate': 'Obtener comentarios sobre mis respuestas',
+        'answers.generateHint': 'Los comentarios sobre todas las respuestas se generan juntos cuando los pides.',
+        'answers.generateFailed': 'No se pudieron generar comentarios sobre tus respuestas.',
+        'answers.noCritique': 'No hay comentarios disponibles para esta respuesta.',
+        'answers.starLabel': 'Estructura STAR',
+        'answers.yourAnswer': 'Tu respuesta',
+        'answers.strongerAnswer': 'Una respuesta mejor',
+
+        'questionKind.behavioral': 'Conductual',
+        'questionKind.technical': 'Técnica',
+        'questionKind.general': 'General',
+
+        'star.situation': 'Situación',
+        'star.task': 'Tarea',
+        'star.action': 'Acción',
+        'star.result': 'Resultado',
+
+        'practice.title': 'Ronda de práctica',
+        'practice.originalAnswer': 'Respuesta original',
+        'practice.attempt': 'Intento {number}',
+        'practice.attemptsLabel': 'Intentos de práctica',
+        'practice.noAnswer': 'No se registró ninguna respuesta.',
+        'practice.whatChanged': 'Qué ha cambiado',
+        'practice.comparisonFailed': 'No se pudo generar la comparación para este intento.',
+        'practice.backToResults': 'Volver a los resultados',
+
+        'export.label': 'Exportar:',
+        'export.reportTitle': 'Informe de la entrevista',
+        'export.date': 'Fecha',
+        'export.duration': 'Duración',
+        'export.language': 'Idioma',
+        'export.panel': 'Panel',
+        'export.coaching': 'Sugerencias de apoyo',
+        'export.coachingOn': 'Activadas',
+        'export.instructions': 'Instrucciones de la entrevista',
+        'export.focusAreas': 'Áreas de enfoque',
+        'export.jobDescription': 'Descripción del puesto',
+        'export.resume': 'Currículum del candidato',
+        'export.competency': 'Competencia',
+        'export.score': 'Puntuación',
+        'export.rationale': 'Justificación',
+        'export.evidence': 'Evidencia de {competency}',
+    },
+};
+
+export default es;
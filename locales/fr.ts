@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const fr: LocaleCatalog = {
+    code: 'fr',
+    name: 'Français',
+    interviewLanguage: 'French',
+    dir: 'ltr',
+    welcome: (name, company) => `Bonjour et bienvenue à votre entretien${company ? ` avec ${company}` : ''}.${name ? ` Je m'appelle ${name}.` : ''} La session va bientôt commencer.`,
+    fillerWords: { words: ['euh', 'ben', 'bah', 'genre', 'du coup', 'en fait', 'voilà', 'quoi'], spaced: true },
+    messages: {
+        'common.back': 'Retour',
+        'common.cancel': 'Annuler',
+        'common.close': 'Fermer',
+        'common.loading': 'Chargement...',
+        'common.tryAgain': 'Réessayer',
+        'common.typed': 'Écrite',
+        'common.minutes': '{minutes} min',
+        'common.durationLabel': 'Durée (minutes)',
+        'common.focusAreasLabel': 'Thèmes prioritaires (séparés par des virgules)',
+        'common.unknownError': 'erreur inconnue',
+
+        'app.title': "Simulateur d'entretien IA",
+        'app.intro': "Décrivez l'entretien, puis ajoutez le CV du candidat et la description du poste. L'IA mènera un entretien audio en direct à partir de ces éléments.",
+        'app.templates': 'Modèles',
+        'app.history': 'Historique',
+        'app.uiLanguage': "Langue de l'interface",
+        'app.interviewLanguage': "Langue de l'entretien",
+        'app.answerBy': 'Répondre',
+        'app.answerBySpeaking': 'À voix haute (micro)',
+        'app.answerByTyping': 'Par écrit',
+        'app.coachingToggle': 'Conseils pendant que je réponds',
+        'app.coachingToggleHelp': '(points clés et alertes visibles par vous seul)',
+        'app.instructionsLabel': "Consignes de l'entretien",
+        'app.instructionsPlaceholder': 'ex. : Menez un entretien pour un poste de développeur junior.',
+        'app.resumeLabel': 'CV du candidat',
+        'app.resumePlaceholder': 'Collez le CV ou importez un fichier PDF, DOCX, TXT ou Markdown.',
+        'app.jobDescriptionLabel': 'Description du poste',
+        'app.jobDescriptionPlaceholder': 'Collez la description du poste ou importez un fichier PDF, DOCX, TXT ou Markdown.',
+        'app.startInterview': "Commencer l'entretien",
+        'app.connecting': 'Connexion...',
+        'app.connectingDetail': "Préparation de la session d'entretien.",
+        'app.comparingAttempts': 'Comparaison des essais...',
+        'app.comparingAttemptsDetail': 'Notre IA examine ce qui a changé dans votre réponse.',
+        'app.generatingFeedback': 'Génération du bilan...',
+        'app.generatingFeedbackDetail': 'Notre IA analyse votre conversation.',
+        'app.interviewComplete': 'Entretien terminé',
+        'app.coachingOn': 'Conseils activés',
+        'app.performanceSummary': 'Bilan de performance',
+        'app.noSummary': 'Aucun bilan disponible.',
+        'app.retryFeedback': 'Relancer le bilan',
+        'app.transcriptKept': "Votre transcription est enregistrée : rien n'est perdu.",
+        'app.feedbackCancelled': 'La génération du retour a été annulée.',
+        'app.delivery': 'Expression orale',
+        'app.startNewInterview': 'Commencer un nouvel entretien',
+        'app.typedAnswers': 'Réponses écrites',
+        'app.interviewerWillBegin': "L'intervieweur va bientôt commencer...",
+        'app.reconnecting': 'Connexion perdue. Reconnexion (tentative {attempt} sur {max})...',
+        'app.micDeniedFallback': "L'accès au micro a été refusé : vous répondez donc par écrit.",
+        'app.micNotFoundFallback': "Aucun micro n'a été trouvé : vous répondez donc par écrit.",
+        'app.paused': "Entretien en pause. Le micro et l'intervieweur sont coupés jusqu'à la reprise.",
+        'app.pause': 'Pause',
+        'app.resume': 'Reprendre',
+        'app.endInterview': "Terminer l'entretien",
+        'app.endPractice': "Terminer l'exercice",
+
+        'audio.micSensitivity': 'Sensibilité du micro',
+        'audio.speakerVolume': 'Volume du haut-parleur',
+        'audio.hearingYou': 'Je vous entends',
+        'audio.silent': 'Silence',
+
+        'devices.microphone': 'Microphone',
+        'devices.speakers': 'Haut-parleurs',
+        'devices.systemDefault': 'Valeur par défaut du système',
+        'devices.unnamedInput': 'Microphone {number}',
+        'devices.unnamedOutput': 'Haut-parleurs {number}',
+        'devices.outputUnsupported': "Ce navigateur lit toujours l'audio sur la sortie par défaut du système.",
+        'devices.micLevel': 'Niveau du microphone',
+        'devices.micDisconnected': 'Votre microphone a été déconnecté : le microphone par défaut du système est maintenant utilisé.',
+        'devices.speakersDisconnected': "Vos haut-parleurs ont été déconnectés : l'audio est maintenant lu sur la sortie par défaut du système.",
+        'devices.micUnavailable': "Aucun microphone n'est disponible. Branchez-en un pour continuer à répondre à l'oral.",
+
+        'preflight.title': 'Vérifiez votre audio',
+        'preflight.intro': 'Choisissez votre microphone et vos haut-parleurs, puis enregistrez un court test pour entendre comment vous sonnez.',
+        'preflight.test': 'Enregistrer un test de {seconds} secondes',
+        'preflight.recording': 'Enregistrement… dites quelques mots.',
+        'preflight.playing': 'Lecture…',
+        'preflight.heardYourself': 'Votre voix était-elle claire ? Sinon, choisissez un autre appareil ou ajustez les curseurs, puis refaites le test.',
+        'preflight.testFailed': 'Le test audio a échoué. Vérifiez vos appareils et réessayez.',
+
+        'error.missingMaterials': "Indiquez des consignes d'entretien, un CV ou une description de poste.",
+        'error.apiKeyNotConfigured': "La clé API n'est pas configurée. Il s'agit d'un problème d'installation qui nécessite l'intervention d'un développeur.",
+        'error.micDenied': "L'accès au micro a été refusé. Autorisez le micro pour ce site dans les paramètres du navigateur, puis réessayez.",
+        'error.micNotFound': "Aucun micro n'a été trouvé sur votre appareil. Branchez un micro, puis réessayez.",
+        'error.micNotReadable': 'Votre micro a rencontré une erreur matérielle, ou il est peut-être utilisé par une autre application. Vérifiez votre micro, puis réessayez.',
+
+        'apiError.invalidKey': "La clé API fournie n'est pas valide ou n'est pas activée pour ce projet. Vérifiez votre configuration.",
+        'apiError.permission': "Vous n'avez pas l'autorisation d'accéder à cette ressource. La clé API ou les paramètres du projet sont peut-être incorrects.",
+        'apiError.quota': 'Le quota de requêtes API est dépassé. Patientez un moment avant de réessayer.',
+        'apiError.rateLimited': 'Trop de requêtes. Patientez un instant avant de réessayer.',
+        'apiError.safety': 'La requête a été bloquée par la politique de sécurité. Modifiez votre script, puis réessayez.',
+        'apiError.server': "Le service d'IA rencontre actuellement des problèmes. Réessayez plus tard.",
+        'apiError.network': 'Une erreur réseau est survenue. Vérifiez votre connexion Internet, puis réessayez.',
+        'apiError.unknown': 'Une erreur inconnue est survenue.',
+        'apiError.start': "Impossible de commencer l'entretien : {message}.",
+        'apiError.summary': "Une erreur d'API est survenue lors de la génération du bilan : {message}",
+
+        'history.title': 'Historique des entretiens',
+        'history.loadFailed': "Impossible de charger l'historique de vos entretiens.",
+        'history.deleteFailed': "Impossible de supprimer l'entretien.",
+        'history.confirmDelete': "Supprimer l'entretien du {date} ?",
+        'history.empty': 'Aucun entretien enregistré pour le moment.',
+        'history.turns': '{count} tours de parole',
+        'history.open': 'Ouvrir',
+        'history.openLabel': "Ouvrir l'entretien",
+        'history.duplicateTitle': 'Commencer un nouvel entretien avec ce script',
+        'history.duplicateLabel': 'Reprendre le script dans un nouvel entretien',
+        'history.delete': "Supprimer l'entretien",
+
+        'templates.title': "Modèles d'entretien",
+        'templates.mine': 'Mes modèles',
+        'templates.presets': 'Modèles prédéfinis',
+        'templates.new': 'Nouveau modèle',
+        'templates.edit': 'Modifier le modèle',
+        'templates.name': 'Nom',
+        'templates.description': 'Description',
+        'templates.language': 'Langue',
+        'templates.save': 'Enregistrer le modèle',
+        'templates.use': 'Utiliser',
+        'templates.editLabel': 'Modifier le modèle',
+        'templates.duplicateLabel': 'Dupliquer le modèle',
+        'templates.exportTitle': 'Exporter en JSON',
+        'templates.exportLabel': 'Exporter le modèle en JSON',
+        'templates.deleteLabel': 'Supprimer le modèle',
+        'templates.import': 'Importer un JSON',
+        'templates.exportMine': 'Exporter mes modèles',
+        'templates.copyName': '{name} (copie)',
+        'templates.confirmDelete': 'Supprimer le modèle « {name} » ?',
+        'templates.imported': 'Modèles importés : {count}.',
+        'templates.loadFailed': 'Impossible de charger vos modèles.',
+        'templates.saveFailed': "Impossible d'enregistrer le modèle.",
+        'templates.deleteFailed': 'Impossible de supprimer le modèle.',
+        'templates.importFailed': "Impossible d'importer les modèles : {message}",
+
+        'document.upload': 'Importer',
+        'document.reading': 'Lecture...',
+        'document.unsupportedType': "Type de fichier « .{extension} » non pris en charge. Importez un fichier PDF, DOCX, TXT ou Markdown.",
+        'document.readFailed': "Impossible de lire « {fileName} ». Vérifiez qu'il s'agit d'un fichier PDF, DOCX, TXT ou Markdown valide.",
+
+        'focusAreas.placeholder': 'ex. : Conception de systèmes, Leadership',
+
+        'plan.inputTitle': 'Plan de questions (facultatif)',
+        'plan.inputSummary': '{sections} sections, {questions} questions, ~{minutes} min',
+        'plan.inputHelp': 'Commencez chaque section par « # » et chaque question par « - ». Ajoutez « (10 min) » à une section ou « (2 follow-ups) » à une question pour fixer des limites.',
+        'plan.title': 'Plan de questions',
+        'plan.progressLabel': 'Avancement du plan de questions',
+        'plan.compactProgress': '{asked} questions posées sur {total}',
+        'plan.showPlan': 'Afficher le plan',
+        'plan.hidePlan': 'Masquer le plan',
+        'plan.skipped': 'Questions non posées',
+        'plan.allAsked': 'Toutes les questions du plan ont été posées.',
+
+        'persona.interviewer': 'Intervieweur',
+        'persona.panelStyle': 'Style du jury',
+        'persona.sharedByPanel': 'Commun à tous les membres du jury',
+        'persona.name': 'Nom (facultatif)',
+        'persona.namePlaceholder': 'ex. : Alex',
+        'persona.company': 'Entreprise (facultatif)',
+        'persona.companyPlaceholder': 'ex. : Acme Corp',
+        'persona.tone': 'Ton',
+        'persona.difficulty': 'Difficulté',
+        'persona.voice': 'Voix',
+        'persona.preview': 'Écouter {voice}',
+        'persona.previewUnavailable': "L'aperçu de cette voix n'est pas disponible pour le moment.",
+
+        'tone.friendly': 'Bienveillant',
+        'tone.neutral': 'Neutre',
+        'tone.high-pressure': 'Sous pression (entretien de stress)',
+
+        'difficulty.junior': 'Junior',
+        'difficulty.mid': 'Confirmé',
+        'difficulty.senior': 'Senior',
+        'difficulty.executive': 'Dirigeant',
+
+        'voiceStyle.firm': 'Ferme',
+        'voiceStyle.upbeat': 'Enjouée',
+        'voiceStyle.informative': 'Informative',
+        'voiceStyle.excitable': 'Enthousiaste',
+        'voiceStyle.breezy': 'Décontractée',
+        'voiceStyle.youthful': 'Jeune',
+        'voiceStyle.bright': 'Lumineuse',
+
+        'panel.toggle': 'Entretien avec un jury',
+        'panel.toggleHelp': '({min} à {max} intervieweurs qui se relaient)',
+        'panel.namePlaceholder': 'Nom',
+        'panel.nameLabel': 'Nom du membre du jury {number}',
+        'panel.rolePlaceholder': 'Rôle, ex. Tech Lead',
+        'panel.roleLabel': 'Rôle du membre du jury {number}',
+        'panel.voiceLabel': 'Voix du membre du jury {number}',
+        'panel.focusPlaceholder': 'Ses sujets de questions, ex. conception de systèmes',
+        'panel.focusLabel': 'Sujets du membre du jury {number}',
+        'panel.remove': 'Retirer ce membre du jury',
+        'panel.removeLabel': 'Retirer le membre du jury {number}',
+        'panel.add': 'Ajouter un membre du jury',
+        'panel.sharedVoices': 'Certains membres du jury ont la même voix, ce qui les rend plus difficiles à distinguer.',
+
+        'voice.calibration': 'Calibrage du micro',
+        'voice.stayQuiet': 'Restez silencieux un instant...',
+        'voice.readAloud': 'Lisez maintenant à voix haute : « {sentence} »',
+        'voice.calibrationSentence': "Je calibre mon micro pour que l'intervieweur sache quand j'ai fini de parler.",
+        'voice.calibrated': 'Bruit de fond {noiseFloor}, votre voix {speechLevel}, seuil de parole {threshold}.',
+        'voice.notCalibrated': "Non calibré. Calibrez le micro pour que l'intervieweur distingue votre voix du bruit de fond.",
+        'voice.lowSignal': 'Votre voix dépassait à peine le bruit de fond. Rapprochez-vous du micro ou augmentez sa sensibilité.',
+        'voice.calibrate': 'Calibrer',
+        'voice.recalibrate': 'Recalibrer',
+        'voice.calibrating': 'Calibrage...',
+        'voice.micDenied': "L'accès au micro a été refusé. Autorisez le micro pour pouvoir le calibrer.",
+        'voice.calibrationFailed': 'Le calibrage du micro a échoué. Vérifiez votre micro, puis réessayez.',
+        'voice.turnTaking': 'Prise de parole',
+        'voice.patience': 'Délai de fin de réponse : {seconds} s',
+        'voice.patienceHelp': 'Durée de pause possible avant que votre réponse soit considérée comme terminée.',
+
+        'turnTaking.auto': 'Automatique',
+        'turnTaking.autoDescription': 'Votre réponse se termine après une pause.',
+        'turnTaking.push-to-talk': 'Appuyer pour parler',
+        'turnTaking.push-to-talkDescription': "Maintenez le bouton ou la barre d'espace enfoncé pendant que vous répondez.",
+        'turnTaking.tap-to-finish': 'Appuyer pour terminer',
+        'turnTaking.tap-to-finishDescription': "Votre micro s'ouvre quand l'intervieweur a fini ; appuyez sur le bouton ou sur Espace quand vous avez terminé.",
+        'turnTaking.listening': 'Écoute... relâchez pour terminer',
+        'turnTaking.holdToTalk': 'Maintenir pour parler (Espace)',
+        'turnTaking.finishAnswer': 'Terminer ma réponse (Espace)',
+        'turnTaking.startAnswer': 'Commencer à répondre (Espace)',
+
+        'typedAnswer.placeholder': 'Tapez votre réponse et appuyez sur Entrée...',
+        'typedAnswer.label': 'Votre réponse',
+        'typedAnswer.send': 'Envoyer',
+
+        'countdown.label': 'Temps restant',
+        'countdown.remaining': 'restant',
+        'countdown.wrappingUp': 'Conclusion',
+        'countdown.paused': 'en pause',
+
+        'coaching.label': 'Conseils',
+        'coaching.title': 'Conseils',
+        'coaching.runningLong': 'Votre réponse s’éternise. Concluez avec le résultat.',
+        'coaching.offTopic': 'Cela ne répond pas encore à la question : « {question} »',
+        'coaching.waitingForHints': 'Les conseils pour cette question apparaîtront ici.',
+        'coaching.waitingForQuestion': 'Les conseils apparaîtront dès la première question.',
+        'coaching.privacy': "Vous seul voyez ces conseils. Ils ne sont jamais transmis à l'intervieweur.",
+        'coaching.showHints': 'Afficher les conseils',
+        'coaching.hideHints': 'Masquer les conseils',
+
+        'summary.overallScore': 'Note globale',
+        'summary.chartLabel': 'Graphique des notes par compétence',
+        'summary.notScored': 'Non noté',
+        'summary.panelFeedback': 'Avis du jury',
+        'summary.detailedFeedback': 'Bilan détaillé',
+
+        'feedback.version': 'Version',
+        'feedback.versionLabel': 'Version {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': 'Régénérer en',
+        'feedback.emphasis': 'Accent',
+        'feedback.regenerate': 'Régénérer',
+
+        'emphasis.balanced': 'Équilibré',
+        'emphasis.technical': 'Profondeur technique',
+        'emphasis.communication': 'Communication',
+        'emphasis.leadership': 'Leadership',
+
+        'recommendation.STRONG_HIRE': 'Recruter sans hésiter',
+        'recommendation.HIRE': 'Recruter',
+        'recommendation.LEAN_HIRE': 'Plutôt recruter',
+        'recommendation.LEAN_NO_HIRE': 'Plutôt ne pas recruter',
+        'recommendation.NO_HIRE': 'Ne pas recruter',
+
+        'competency.communication': 'Communication',
+        'competency.problemSolving': 'Résolution de problèmes',
+        'competency.roleFit': 'Adéquation au poste',
+        'competency.leadership': 'Leadership',
+        'competency.selfAwareness': 'Connaissance de soi',
+
+        'delivery.pace': 'Débit',
+        'delivery.wordsPerMinute': 'mots par minute',
+        'delivery.charactersPerMinute': 'caractères par minute',
+        'delivery.fillerWords': 'Mots de remplissage',
+        'delivery.averageResponseTime': 'Temps de réponse moyen',
+        'delivery.silenceBeforeAnswering': 'silence avant de répondre',
+        'delivery.longestAnswer': 'Réponse la plus longue',
+        'delivery.candidateShare': 'Vous {percent} % · {duration}',
+        'delivery.interviewerShare': 'Intervieweur {percent} % · {duration}',
+        'delivery.talkTimeLabel': 'Répartition du temps de parole',
+        'delivery.silenceBeforeEachAnswer': 'Silence avant chaque réponse',
+        'delivery.longestAnswerQuote': 'Réponse la plus longue : « {text} »',
+
+        'transcript.title': 'Transcription complète',
+        'transcript.download': 'Télécharger en {format}',
+        'transcript.downloadWav': 'Télécharger en WAV',
+        'transcript.converting': 'Conversion...',
+
+        'answers.title': 'Retours sur les réponses',
+        'answers.selectHint': 'Cliquez sur une question ou une réponse de la transcription pour voir le retour correspondant.',
+        'answers.noAnswers': "Il n'y a aucune réponse à commenter. Cliquez sur une question pour vous y exercer.",
+        'answers.practice': "S'exercer sur cette question",
+        'answers.reviewing': 'Analyse de vos réponses...',
+        'answers.generate': 'Obtenir un retour sur mes réponses',
+        'answers.generateHint': 'Le retour sur toutes les réponses est généré en une fois, à votre demande.',
+        'answers.generateFailed': 'Impossible de générer des retours sur vos réponses.',
+        'answers.noCritique': "Aucun retour n'est disponible pour cette réponse.",
+        'answers.starLabel': 'Structure STAR',
+        'answers.yourAnswer': 'Votre réponse',
+        'answers.strongerAnswer': 'Une meilleure réponse',
+
+        'questionKind.behavioral': 'Comportementale',
+        'questionKind.technical': 'Technique',
+        'questionKind.general': 'Générale',
+
+        'star.situation': 'Situation',
+        'star.task': 'Tâche',
+        'star.action': 'Action',
+        'star.result': 'Résultat',
+
+        'practice.title': "Séance d'entraînement",
+        'practice.originalAnswer': "Réponse d'origine",
+        'practice.attempt': 'Essai {number}',
+        'practice.attemptsLabel': "Essais d'entraînement",
+        'practice.noAnswer': "Aucune réponse n'a été enregistrée.",
+        'practice.whatChanged': 'Ce qui a changé',
+        'practice.comparisonFailed': "La comparaison pour cet essai n'a pas pu être générée.",
+        'practice.backToResults': 'Retour aux résultats',
+
+        'export.label': 'Exporter :',
+        'export.reportTitle': "Rapport d'entretien",
+        'export.date': 'Date',
+        'export.duration': 'Durée',
+        'export.language': 'Langue',
+        'export.panel': 'Jury',
+        'export.coaching': 'Conseils de coaching',
+        'export.coachingOn': 'Activés',
+        'export.instructions': "Instructions de l'entretien",
+        'export.focusAreas': 'Axes prioritaires',
+        'export.jobDescription': 'Description du poste',
+        'export.resume': 'CV du candidat',
+        'export.competency': 'Compétence',
+        'export.score': 'Note',
+        'export.rationale': 'Justification',
+        'export.evidence': 'Éléments pour {competency}',
+    },
+};
+
+export default fr;
@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const he: LocaleCatalog = {
+    code: 'he',
+    name: 'עברית',
+    interviewLanguage: 'Hebrew',
+    dir: 'rtl',
+    welcome: (name, company) => `שלום וברוכים הבאים לראיון${company ? ` ב-${company}` : ''}.${name ? ` שמי ${name}.` : ''} הראיון יתחיל בעוד רגע.`,
+    fillerWords: { words: ['כאילו', 'אממ', 'בעצם', 'נגיד', 'כזה'], spaced: true },
+    messages: {
+        'common.back': 'חזרה',
+        'common.cancel': 'ביטול',
+        'common.close': 'סגירה',
+        'common.loading': 'בטעינה...',
+        'common.tryAgain': 'ניסיון נוסף',
+        'common.typed': 'בהקלדה',
+        'common.minutes': '{minutes} דק׳',
+        'common.durationLabel': 'משך (דקות)',
+        'common.focusAreasLabel': 'תחומי מיקוד (מופרדים בפסיקים)',
+        'common.unknownError': 'שגיאה לא ידועה',
+
+        'app.title': 'סימולטור ראיונות AI',
+        'app.intro': 'יש לתאר את הראיון ולהוסיף את קורות החיים של המועמד ואת תיאור המשרה. ה-AI ינהל ראיון קולי חי על סמך הפרטים.',
+        'app.templates': 'תבניות',
+        'app.history': 'היסטוריה',
+        'app.uiLanguage': 'שפת התצוגה',
+        'app.interviewLanguage': 'שפת הראיון',
+        'app.answerBy': 'אופן המענה',
+        'app.answerBySpeaking': 'בדיבור (מיקרופון)',
+        'app.answerByTyping': 'בהקלדה',
+        'app.coachingToggle': 'רמזי אימון בזמן המענה',
+        'app.coachingToggleHelp': '(נקודות מפתח והתראות שרק לך מוצגות)',
+        'app.instructionsLabel': 'הנחיות לראיון',
+        'app.instructionsPlaceholder': 'לדוגמה: נהל ראיון למשרת מהנדס תוכנה זוטר.',
+        'app.resumeLabel': 'קורות החיים של המועמד',
+        'app.resumePlaceholder': 'אפשר להדביק את קורות החיים או להעלות קובץ PDF,‏ DOCX,‏ TXT או Markdown.',
+        'app.jobDescriptionLabel': 'תיאור המשרה',
+        'app.jobDescriptionPlaceholder': 'אפשר להדביק את תיאור המשרה או להעלות קובץ PDF,‏ DOCX,‏ TXT או Markdown.',
+        'app.startInterview': 'התחלת הראיון',
+        'app.connecting': 'מתחבר...',
+        'app.connectingDetail': 'מכינים את הראיון.',
+        'app.comparingAttempts': 'משווים בין הניסיונות...',
+        'app.comparingAttemptsDetail': 'ה-AI בודק מה השתנה בתשובה.',
+        'app.generatingFeedback': 'מכינים משוב...',
+        'app.generatingFeedbackDetail': 'ה-AI מנתח את השיחה.',
+        'app.interviewComplete': 'הראיון הסתיים',
+        'app.coachingOn': 'האימון פעיל',
+        'app.performanceSummary': 'סיכום הביצועים',
+        'app.noSummary': 'אין סיכום זמין.',
+        'app.retryFeedback': 'ניסיון חוזר ליצירת משוב',
+        'app.transcriptKept': 'התמליל נשמר, כך ששום דבר לא אבד.',
+        'app.feedbackCancelled': 'יצירת המשוב בוטלה.',
+        'app.delivery': 'אופן הדיבור',
+        'app.startNewInterview': 'התחלת ראיון חדש',
+        'app.typedAnswers': 'תשובות בהקלדה',
+        'app.interviewerWillBegin': 'הראיון יתחיל בעוד רגע...',
+        'app.reconnecting': 'החיבור נותק. מתחברים מחדש (ניסיון {attempt} מתוך {max})...',
+        'app.micDeniedFallback': 'הגישה למיקרופון נדחתה, ולכן המענה הוא בהקלדה.',
+        'app.micNotFoundFallback': 'לא נמצא מיקרופון, ולכן המענה הוא בהקלדה.',
+        'app.paused': 'הראיון מושהה. המיקרופון והמראיין מושתקים עד לחידוש.',
+        'app.pause': 'השהיה',
+        'app.resume': 'חידוש',
+        'app.endInterview': 'סיום הראיון',
+        'app.endPractice': 'סיום התרגול',
+
+        'audio.micSensitivity': 'רגישות המיקרופון',
+        'audio.speakerVolume': 'עוצמת הרמקול',
+        'audio.hearingYou': 'הקול נקלט',
+        'audio.silent': 'שקט',
+
+        'devices.microphone': 'מיקרופון',
+        'devices.speakers': 'רמקולים',
+        'devices.systemDefault': 'ברירת המחדל של המערכת',
+        'devices.unnamedInput': 'מיקרופון {number}',
+        'devices.unnamedOutput': 'רמקולים {number}',
+        'devices.outputUnsupported': 'הדפדפן הזה תמיד מנגן שמע דרך פלט ברירת המחדל של המערכת.',
+        'devices.micLevel': 'עוצמת המיקרופון',
+        'devices.micDisconnected': 'המיקרופון התנתק, ולכן נעשה עכשיו שימוש במיקרופון ברירת המחדל של המערכת.',
+        'devices.speakersDisconnected': 'הרמקולים התנתקו, ולכן השמע מתנגן עכשיו דרך פלט ברירת המחדל של המערכת.',
+        'devices.micUnavailable': 'אין מיקרופון זמין. יש לחבר מיקרופון כדי להמשיך לענות בקול.',
+
+        'preflight.title': 'בדיקת שמע',
+        'preflight.intro': 'יש לבחור מיקרופון ורמקולים ולהקליט בדיקה קצרה כדי לשמוע איך הקול נשמע.',
+        'preflight.test': 'הקלטת בדיקה של {seconds} שניות',
+        'preflight.recording': 'ההקלטה פועלת… אפשר לומר כמה מילים.',
+        'preflight.playing': 'ההשמעה פועלת…',
+        'preflight.heardYourself': 'האם הקול נשמע בבירור? אם לא, אפשר לבחור התקן אחר או לכוונן את המחוונים ולבדוק שוב.',
+        'preflight.testFailed': 'בדיקת השמע נכשלה. יש לבדוק את ההתקנים ולנסות שוב.',
+
+        'error.missingMaterials': 'יש לספק הנחיות לראיון, קורות חיים או תיאור משרה.',
+        'error.apiKeyNotConfigured': 'מפתח ה-API לא הוגדר. זו בעיית הגדרה שדורשת טיפול של מפתח.',
+        'error.micDenied': 'הגישה למיקרופון נדחתה. יש לאפשר את המיקרופון לאתר זה בהגדרות הדפדפן ולנסות שוב.',
+        'error.micNotFound': 'לא נמצא מיקרופון במכשיר. יש לחבר מיקרופון ולנסות שוב.',
+        'error.micNotReadable': 'אירעה שגיאת חומרה במיקרופון, או שאפליקציה אחרת משתמשת בו. יש לבדוק את המיקרופון ולנסות שוב.',
+
+        'apiError.invalidKey': 'מפתח ה-API אינו תקין או אינו מופעל בפרויקט זה. יש לבדוק את ההגדרות.',
+        'apiError.permission': 'אין הרשאה לגשת למשאב זה. ייתכן שמפתח ה-API או הגדרות הפרויקט שגויים.',
+        'apiError.quota': 'חריגה ממכסת הבקשות ל-API. יש להמתין מעט ולנסות שוב.',
+        'apiError.rateLimited': 'יותר מדי בקשות. יש להמתין רגע ולנסות שוב.',
+        'apiError.safety': 'הבקשה נחסמה בשל מדיניות הבטיחות. יש לשנות את התסריט ולנסות שוב.',
+        'apiError.server': 'שירות ה-AI נתקל כרגע בבעיות. יש לנסות שוב מאוחר יותר.',
+        'apiError.network': 'אירעה שגיאת רשת. יש לבדוק את החיבור לאינטרנט ולנסות שוב.',
+        'apiError.unknown': 'אירעה שגיאה לא ידועה.',
+        'apiError.start': 'לא ניתן היה להתחיל את הראיון: {message}.',
+        'apiError.summary': 'אירעה שגיאת API ביצירת הסיכום: {message}',
+
+        'history.title': 'היסטוריית ראיונות',
+        'history.loadFailed': 'לא ניתן היה לטעון את היסטוריית הראיונות.',
+        'history.deleteFailed': 'לא ניתן היה למחוק את הראיון.',
+        'history.confirmDelete': 'למחוק את הראיון מ-{date}?',
+        'history.empty': 'עדיין אין ראיונות שמורים.',
+        'history.turns': '{count} תורות',
+        'history.open': 'פתיחה',
+        'history.openLabel': 'פתיחת הראיון',
+        'history.duplicateTitle': 'התחלת ראיון חדש עם התסריט הזה',
+        'history.duplicateLabel': 'שכפול התסריט לראיון חדש',
+        'history.delete': 'מחיקת הראיון',
+
+        'templates.title': 'תבניות ראיון',
+        'templates.mine': 'התבניות שלי',
+        'templates.presets': 'תבניות מוכנות',
+        'templates.new': 'תבנית חדשה',
+        'templates.edit': 'עריכת תבנית',
+        'templates.name': 'שם',
+        'templates.description': 'תיאור',
+        'templates.language': 'שפה',
+        'templates.save': 'שמירת התבנית',
+        'templates.use': 'שימוש',
+        'templates.editLabel': 'עריכת התבנית',
+        'templates.duplicateLabel': 'שכפול התבנית',
+        'templates.exportTitle': 'ייצוא כ-JSON',
+        'templates.exportLabel': 'ייצוא התבנית כ-JSON',
+        'templates.deleteLabel': 'מחיקת התבנית',
+        'templates.import': 'ייבוא JSON',
+        'templates.exportMine': 'ייצוא התבניות שלי',
+        'templates.copyName': '{name} (עותק)',
+        'templates.confirmDelete': 'למחוק את התבנית "{name}"?',
+        'templates.imported': 'תבניות שיובאו: {count}.',
+        'templates.loadFailed': 'לא ניתן היה לטעון את התבניות.',
+        'templates.saveFailed': 'לא ניתן היה לשמור את התבנית.',
+        'templates.deleteFailed': 'לא ניתן היה למחוק את התבנית.',
+        'templates.importFailed': 'לא ניתן היה לייבא את התבניות: {message}',
+
+        'document.upload': 'העלאה',
+        'document.reading': 'בקריאה...',
+        'document.unsupportedType': 'סוג הקובץ ".{extension}" אינו נתמך. יש להעלות קובץ PDF,‏ DOCX,‏ TXT או Markdown.',
+        'document.readFailed': 'לא ניתן היה לקרוא את "{fileName}". יש לוודא שזה קובץ PDF,‏ DOCX,‏ TXT או Markdown תקין.',
+
+        'focusAreas.placeholder': 'לדוגמה: תכנון מערכות, מנהיגות',
+
+        'plan.inputTitle': 'תוכנית שאלות (לא חובה)',
+        'plan.inputSummary': '{sections} חלקים, {questions} שאלות, כ-{minutes} דק׳',
+        'plan.inputHelp': 'כל חלק מתחיל ב-"#" וכל שאלה ב-"-". אפשר להוסיף "(10 min)" לחלק או "(2 follow-ups)" לשאלה כדי לקבוע מגבלות.',
+        'plan.title': 'תוכנית שאלות',
+        'plan.progressLabel': 'ההתקדמות בתוכנית השאלות',
+        'plan.compactProgress': 'נשאלו {asked} מתוך {total} שאלות',
+        'plan.showPlan': 'הצגת התוכנית',
+        'plan.hidePlan': 'הסתרת התוכנית',
+        'plan.skipped': 'שאלות שדולגו',
+        'plan.allAsked': 'כל השאלות בתוכנית נשאלו.',
+
+        'persona.interviewer': 'מראיין',
+        'persona.panelStyle': 'סגנון הפאנל',
+        'persona.sharedByPanel': 'משותף לכל חברי הפאנל',
+        'persona.name': 'שם (לא חובה)',
+        'persona.namePlaceholder': 'לדוגמה: Alex',
+        'persona.company': 'חברה (לא חובה)',
+        'persona.companyPlaceholder': 'לדוגמה: Acme Corp',
+        'persona.tone': 'טון',
+        'persona.difficulty': 'רמת קושי',
+        'persona.voice': 'קול',
+        'persona.preview': 'האזנה ל-{voice}',
+        'persona.previewUnavailable': 'תצוגה מקדימה של הקול הזה אינה זמינה כרגע.',
+
+        'tone.friendly': 'ידידותי',
+        'tone.neutral': 'ניטרלי',
+        'tone.high-pressure': 'בלחץ (ראיון לחץ)',
+
+        'difficulty.junior': 'ג׳וניור',
+        'difficulty.mid': 'ביניים',
+        'difficulty.senior': 'סניור',
+        'difficulty.executive': 'הנהלה בכירה',
+
+        'voiceStyle.firm': 'תקיף',
+        'voiceStyle.upbeat': 'עליז',
+        'voiceStyle.informative': 'אינפורמטיבי',
+        'voiceStyle.excitable': 'נלהב',
+        'voiceStyle.breezy': 'קליל',
+        'voiceStyle.youthful': 'צעיר',
+        'voiceStyle.bright': 'בהיר',
+
+        'panel.toggle': 'ראיון פאנל',
+        'panel.toggleHelp': '({min}–{max} מראיינים שמתחלפים ביניהם)',
+        'panel.namePlaceholder': 'שם',
+        'panel.nameLabel': 'שם חבר/ת פאנל {number}',
+        'panel.rolePlaceholder': 'תפקיד, לדוגמה: ראש צוות טכני',
+        'panel.roleLabel': 'תפקיד חבר/ת פאנל {number}',
+        'panel.voiceLabel': 'קול חבר/ת פאנל {number}',
+        'panel.focusPlaceholder': 'על מה שואלים, לדוגמה: תכנון מערכות',
+        'panel.focusLabel': 'תחום המיקוד של חבר/ת פאנל {number}',
+        'panel.remove': 'הסרה מהפאנל',
+        'panel.removeLabel': 'הסרת חבר/ת פאנל {number}',
+        'panel.add': 'הוספה לפאנל',
+        'panel.sharedVoices': 'לחלק מחברי הפאנל יש אותו קול, ולכן קשה יותר להבחין ביניהם.',
+
+        'voice.calibration': 'כיול המיקרופון',
+        'voice.stayQuiet': 'רגע של שקט, בבקשה...',
+        'voice.readAloud': 'עכשיו יש להקריא בקול: "{sentence}"',
+        'voice.calibrationSentence': 'המשפט הזה מכייל את המיקרופון כדי שהמראיין יידע מתי סיימתי לדבר.',
+        'voice.calibrated': 'רעש רקע {noiseFloor}, הקול שלך {speechLevel}, סף דיבור {threshold}.',
+        'voice.notCalibrated': 'לא בוצע כיול. הכיול עוזר למראיין להבחין בין הקול שלך לבין רעשי הרקע.',
+        'voice.lowSignal': 'הקול שלך היה בקושי חזק יותר מרעש הרקע. כדאי להתקרב למיקרופון או להגביר את הרגישות.',
+        'voice.calibrate': 'כיול',
+        'voice.recalibrate': 'כיול מחדש',
+        'voice.calibrating': 'מכיילים...',
+        'voice.micDenied': 'הגישה למיקרופון נדחתה. יש לאפשר את המיקרופון כדי לכייל אותו.',
+        'voice.calibrationFailed': 'לא ניתן היה לכייל את המיקרופון. יש לבדוק אותו ולנסות שוב.',
+        'voice.turnTaking': 'חילופי תורות',
+        'voice.patience': 'המתנה לסוף התשובה: {seconds} שנ׳',
+        'voice.patienceHelp': 'כמה זמן אפשר לעצור לפני שהתשובה נחשבת כמסתיימת.',
+
+        'turnTaking.auto': 'אוטומטי',
+        'turnTaking.autoDescription': 'התשובה מסתיימת אחרי הפסקה.',
+        'turnTaking.push-to-talk': 'לחיצה לדיבור',
+        'turnTaking.push-to-talkDescription': 'יש להחזיק את הכפתור או את מקש הרווח לחוץ בזמן המענה.',
+        'turnTaking.tap-to-finish': 'הקשה לסיום',
+        'turnTaking.tap-to-finishDescription': 'המיקרופון נפתח כשהמראיין מסיים; בסיום המענה יש להקיש על הכפתור או על רווח.',
+        'turnTaking.listening': 'מקשיבים... שחרור המקש מסיים',
+        'turnTaking.holdToTalk': 'החזקה לדיבור (רווח)',
+        'turnTaking.finishAnswer': 'סיום התשובה (רווח)',
+        'turnTaking.startAnswer': 'התחלת המענה (רווח)',
+
+        'typedAnswer.placeholder': 'יש להקליד תשובה וללחוץ Enter...',
+        'typedAnswer.label': 'התשובה שלך',
+        'typedAnswer.send': 'שליחה',
+
+        'countdown.label': 'הזמן שנותר',
+        'countdown.remaining': 'נותרו',
+        'countdown.wrappingUp': 'לקראת סיום',
+        'countdown.paused': 'מושהה',
+
+        'coaching.label': 'אימון',
+        'coaching.title': 'אימון',
+        'coaching.runningLong': 'התשובה מתארכת. כדאי לסיים בתוצאה.',
+        'coaching.offTopic': 'זה עדיין לא עונה על השאלה: "{question}"',
+        'coaching.waitingForHints': 'רמזים לשאלה הזו יופיעו כאן.',
+        'coaching.waitingForQuestion': 'רמזים יופיעו כשתישאל השאלה הראשונה.',
+        'coaching.privacy': 'הרמזים האלה מוצגים רק לך. הם אף פעם לא נשלחים למראיין.',
+        'coaching.showHints': 'הצגת רמזים',
+        'coaching.hideHints': 'הסתרת רמזים',
+
+        'summary.overallScore': 'ציון כולל',
+        'summary.chartLabel': 'תרשים ציוני המיומנויות',
+        'summary.notScored': 'ללא ציון',
+        'summary.panelFeedback': 'משוב הפאנל',
+        'summary.detailedFeedback': 'משוב מפורט',
+
+        'feedback.version': 'גרסה',
+        'feedback.versionLabel': 'גרסה {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': 'יצירה מחדש בשפה',
+        'feedback.emphasis': 'דגש',
+        'feedback.regenerate': 'יצירה מחדש',
+
+        'emphasis.balanced': 'מאוזן',
+        'emphasis.technical': 'עומק טכני',
+        'emphasis.communication': 'תקשורת',
+        'emphasis.leadership': 'מנהיגות',
+
+        'recommendation.STRONG_HIRE': 'לגייס בהחלט',
+        'recommendation.HIRE': 'לגייס',
+        'recommendation.LEAN_HIRE': 'נטייה לגייס',
+        'recommendation.LEAN_NO_HIRE': 'נטייה לא לגייס',
+        'recommendation.NO_HIRE': 'לא לגייס',
+
+        'competency.communication': 'תקשורת',
+        'competency.problemSolving': 'פתרון בעיות',
+        'competency.roleFit': 'התאמה לתפקיד',
+        'competency.leadership': 'מנהיגות',
+        'competency.selfAwareness': 'מודעות עצמית',
+
+        'delivery.pace': 'קצב',
+        'delivery.wordsPerMinute': 'מילים לדקה',
+        'delivery.charactersPerMinute': 'תווים לדקה',
+        'delivery.fillerWords': 'מילות מילוי',
+        'delivery.averageResponseTime': 'זמן תגובה ממוצע',
+        'delivery.silenceBeforeAnswering': 'שקט לפני המענה',
+        'delivery.longestAnswer': 'התשובה הארוכה ביותר',
+        'delivery.candidateShare': 'את/ה {percent}% · {duration}',
+        'delivery.interviewerShare': 'המראיין {percent}% · {duration}',
+        'delivery.talkTimeLabel': 'חלוקת זמן הדיבור',
+        'delivery.silenceBeforeEachAnswer': 'שקט לפני כל תשובה',
+        'delivery.longestAnswerQuote': 'התשובה הארוכה ביותר: "{text}"',
+
+        'transcript.title': 'תמליל מלא',
+        'transcript.download': 'הורדת {format}',
+        'transcript.downloadWav': 'הורדת WAV',
+        'transcript.converting': 'ממירים...',
+
+        'answers.title': 'משוב על התשובות',
+        'answers.selectHint': 'לחיצה על שאלה או תשובה בתמליל מציגה את המשוב עליה.',
+        'answers.noAnswers': 'אין תשובות לבדיקה. לחיצה על שאלה פותחת תרגול שלה.',
+        'answers.practice': 'תרגול השאלה הזו',
+        'answers.reviewing': 'בודקים את התשובות...',
+        'answers.generate': 'קבלת משוב על התשובות שלי',
+        'answers.generateHint': 'המשוב על כל התשובות נוצר יחד כשמבקשים אותו.',
+        'answers.generateFailed': 'לא ניתן היה ליצור משוב על התשובות.',
+        'answers.noCritique': 'אין משוב זמין לתשובה הזו.',
+        'answers.starLabel': 'מבנה STAR',
+        'answers.yourAnswer': 'התשובה שלך',
+        'answers.strongerAnswer': 'תשובה חזקה יותר',
+
+        'questionKind.behavioral': 'התנהגותית',
+        'questionKind.technical': 'טכנית',
+        'questionKind.general': 'כללית',
+
+        'star.situation': 'מצב',
+        'star.task': 'משימה',
+        'star.action': 'פעולה',
+        'star.result': 'תוצאה',
+
+        'practice.title': 'סבב תרגול',
+        'practice.originalAnswer': 'התשובה המקורית',
+        'practice.attempt': 'ניסיון {number}',
+        'practice.attemptsLabel': 'ניסיונות תרגול',
+        'practice.noAnswer': 'לא נקלטה תשובה.',
+        'practice.whatChanged': 'מה השתנה',
+        'practice.comparisonFailed': 'לא ניתן היה ליצור השוואה לניסיון הזה.',
+        'practice.backToResults': 'חזרה לתוצאות',
+
+        'export.label': 'ייצוא:',
+        'export.reportTitle': 'דוח ראיון',
+        'export.date': 'תאריך',
+        'export.duration': 'משך',
+        'export.language': 'שפה',
+        'export.panel': 'פאנל',
+        'export.coaching': 'רמזי אימון',
+        'export.coachingOn': 'מופעלים',
+        'export.instructions': 'הנחיות הראיון',
+        'export.focusAreas': 'תחומי מיקוד',
+        'export.jobDescription': 'תיאור המשרה',
+        'export.resume': 'קורות החיים של המועמד',
+        'export.competency': 'מיומנות',
+        'export.score': 'ציון',
+        'export.rationale': 'נימוק',
+        'export.evidence': 'ראיות ל{competency}',
+    },
+};
+
+export default he;
@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const hi: LocaleCatalog = {
+    code: 'hi',
+    name: 'हिन्दी',
+    interviewLanguage: 'Hindi',
+    dir: 'ltr',
+    welcome: (name, company) => `नमस्ते और ${company ? `${company} के साथ ` : ''}आपके साक्षात्कार में आपका स्वागत है।${name ? ` मेरा नाम ${name} है।` : ''} सत्र शीघ्र ही शुरू होगा।`,
+    fillerWords: { words: ['मतलब', 'अच्छा', 'यानी', 'हम्म'], spaced: true },
+    messages: {
+        'common.back': 'वापस',
+        'common.cancel': 'रद्द करें',
+        'common.close': 'बंद करें',
+        'common.loading': 'लोड हो रहा है...',
+        'common.tryAgain': 'फिर से कोशिश करें',
+        'common.typed': 'टाइप किया गया',
+        'common.minutes': '{minutes} मिनट',
+        'common.durationLabel': 'अवधि (मिनट)',
+        'common.focusAreasLabel': 'मुख्य क्षेत्र (अल्पविराम से अलग करें)',
+        'common.unknownError': 'अज्ञात त्रुटि',
+
+        'app.title': 'AI साक्षात्कार सिम्युलेटर',
+        'app.intro': 'साक्षात्कार का विवरण दें और उम्मीदवार का बायोडाटा व नौकरी का विवरण जोड़ें। AI इन्हीं के आधार पर लाइव ऑडियो साक्षात्कार लेगा।',
+        'app.templates': 'टेम्पलेट',
+        'app.history': 'इतिहास',
+        'app.uiLanguage': 'प्रदर्शन भाषा',
+        'app.interviewLanguage': 'साक्षात्कार की भाषा',
+        'app.answerBy': 'उत्तर देने का तरीका',
+        'app.answerBySpeaking': 'बोलकर (माइक्रोफ़ोन)',
+        'app.answerByTyping': 'टाइप करके',
+        'app.coachingToggle': 'उत्तर देते समय कोचिंग संकेत',
+        'app.coachingToggleHelp': '(मुख्य बिंदु और चेतावनियाँ जो केवल आपको दिखेंगी)',
+        'app.instructionsLabel': 'साक्षात्कार के निर्देश',
+        'app.instructionsPlaceholder': 'उदा., जूनियर सॉफ़्टवेयर इंजीनियर के लिए साक्षात्कार लें।',
+        'app.resumeLabel': 'उम्मीदवार का बायोडाटा',
+        'app.resumePlaceholder': 'बायोडाटा चिपकाएँ या PDF, DOCX, TXT या Markdown फ़ाइल अपलोड करें।',
+        'app.jobDescriptionLabel': 'नौकरी का विवरण',
+        'app.jobDescriptionPlaceholder': 'नौकरी का विवरण चिपकाएँ या PDF, DOCX, TXT या Markdown फ़ाइल अपलोड करें।',
+        'app.startInterview': 'साक्षात्कार शुरू करें',
+        'app.connecting': 'कनेक्ट हो रहा है...',
+        'app.connectingDetail': 'साक्षात्कार सत्र तैयार किया जा रहा है।',
+        'app.comparingAttempts': 'प्रयासों की तुलना हो रही है...',
+        'app.comparingAttemptsDetail': 'हमारा AI देख रहा है कि आपके उत्तर में क्या बदला।',
+        'app.generatingFeedback': 'फ़ीडबैक तैयार हो रहा है...',
+        'app.generatingFeedbackDetail': 'हमारा AI आपकी बातचीत का विश्लेषण कर रहा है।',
+        'app.interviewComplete': 'साक्षात्कार पूरा हुआ',
+        'app.coachingOn': 'कोचिंग चालू',
+        'app.performanceSummary': 'प्रदर्शन सारांश',
+        'app.noSummary': 'कोई सारांश उपलब्ध नहीं है।',
+        'app.retryFeedback': 'फ़ीडबैक फिर से पाएँ',
+        'app.transcriptKept': 'आपका ट्रांसक्रिप्ट सहेजा गया है, इसलिए कुछ भी नहीं खोया।',
+        'app.feedbackCancelled': 'फ़ीडबैक बनाना रद्द कर दिया गया।',
+        'app.delivery': 'बोलने का ढंग',
+        'app.startNewInterview': 'नया साक्षात्कार शुरू करें',
+        'app.typedAnswers': 'टाइप किए गए उत्तर',
+        'app.interviewerWillBegin': 'साक्षात्कारकर्ता जल्द ही शुरू करेंगे...',
+        'app.reconnecting': 'कनेक्शन टूट गया। फिर से कनेक्ट हो रहा है ({max} में से प्रयास {attempt})...',
+        'app.micDeniedFallback': 'माइक्रोफ़ोन की अनुमति नहीं मिली, इसलिए आप टाइप करके उत्तर दे रहे हैं।',
+        'app.micNotFoundFallback': 'कोई माइक्रोफ़ोन नहीं मिला, इसलिए आप टाइप करके उत्तर दे रहे हैं।',
+        'app.paused': 'साक्षात्कार रुका हुआ है। फिर से शुरू करने तक माइक्रोफ़ोन और साक्षात्कारकर्ता म्यूट रहेंगे।',
+        'app.pause': 'रोकें',
+        'app.resume': 'फिर से शुरू करें',
+        'app.endInterview': 'साक्षात्कार समाप्त करें',
+        'app.endPractice': 'अभ्यास समाप्त करें',
+
+        'audio.micSensitivity': 'माइक्रोफ़ोन संवेदनशीलता',
+        'audio.speakerVolume': 'स्पीकर वॉल्यूम',
+        'audio.hearingYou': 'आपकी आवाज़ आ रही है',
+        'audio.silent': 'शांत',
+
+        'devices.microphone': 'माइक्रोफ़ोन',
+        'devices.speakers': 'स्पीकर',
+        'devices.systemDefault': 'सिस्टम डिफ़ॉल्ट',
+        'devices.unnamedInput': 'माइक्रोफ़ोन {number}',
+        'devices.unnamedOutput': 'स्पीकर {number}',
+        'devices.outputUnsupported': 'यह ब्राउज़र ऑडियो हमेशा सिस्टम के डिफ़ॉल्ट आउटपुट से चलाता है।',
+        'devices.micLevel': 'माइक्रोफ़ोन का स्तर',
+        'devices.micDisconnected': 'आपका माइक्रोफ़ोन डिस्कनेक्ट हो गया, इसलिए अब सिस्टम का डिफ़ॉल्ट माइक्रोफ़ोन इस्तेमाल हो रहा है।',
+        'devices.speakersDisconnected': 'आपके स्पीकर डिस्कनेक्ट हो गए, इसलिए ऑडियो अब सिस्टम के डिफ़ॉल्ट आउटपुट से चल रहा है।',
+        'devices.micUnavailable': 'कोई माइक्रोफ़ोन उपलब्ध नहीं है। बोलकर जवाब देते रहने के लिए एक माइक्रोफ़ोन जोड़ें।',
+
+        'preflight.title': 'अपना ऑडियो जाँचें',
+        'preflight.intro': 'अपना माइक्रोफ़ोन और स्पीकर चुनें, फिर एक छोटा टेस्ट रिकॉर्ड करके सुनें कि आपकी आवाज़ कैसी आती है।',
+        'preflight.test': '{seconds} सेकंड का टेस्ट रिकॉर्ड करें',
+        'preflight.recording': 'रिकॉर्डिंग हो रही है… कुछ शब्द बोलें।',
+        'preflight.playing': 'वापस चलाया जा रहा है…',
+        'preflight.heardYourself': 'क्या आपको अपनी आवाज़ साफ़ सुनाई दी? अगर नहीं, तो कोई दूसरा डिवाइस चुनें या स्लाइडर बदलकर फिर से टेस्ट करें।',
+        'preflight.testFailed': 'ऑडियो टेस्ट विफल रहा। अपने डिवाइस जाँचें और फिर से कोशिश करें।',
+
+        'error.missingMaterials': 'कृपया साक्षात्कार के निर्देश, बायोडाटा या नौकरी का विवरण दें।',
+        'error.apiKeyNotConfigured': 'API कुंजी कॉन्फ़िगर नहीं है। यह सेटअप की समस्या है जिसे किसी डेवलपर को ठीक करना होगा।',
+        'error.micDenied': 'माइक्रोफ़ोन की अनुमति नहीं दी गई। कृपया ब्राउज़र सेटिंग में इस साइट के लिए माइक्रोफ़ोन की अनुमति दें और फिर से कोशिश करें।',
+        'error.micNotFound': 'आपके डिवाइस पर कोई माइक्रोफ़ोन नहीं मिला। कृपया माइक्रोफ़ोन जोड़ें और फिर से कोशिश करें।',
+        'error.micNotReadable': 'माइक्रोफ़ोन में हार्डवेयर त्रुटि हुई, या कोई दूसरा ऐप उसका उपयोग कर रहा है। कृपया माइक्रोफ़ोन जाँचें और फिर से कोशिश करें।',
+
+        'apiError.invalidKey': 'दी गई API कुंजी अमान्य है या इस प्रोजेक्ट के लिए सक्षम नहीं है। कृपया अपना कॉन्फ़िगरेशन जाँचें।',
+        'apiError.permission': 'आपको इस संसाधन तक पहुँचने की अनुमति नहीं है। API कुंजी या प्रोजेक्ट सेटिंग गलत हो सकती है।',
+        'apiError.quota': 'API अनुरोध कोटा पार हो गया है। कृपया थोड़ी देर बाद फिर से कोशिश करें।',
+        'apiError.rateLimited': 'बहुत अधिक अनुरोध। कृपया एक क्षण रुककर फिर से कोशिश करें।',
+        'apiError.safety': 'सुरक्षा नीति के कारण अनुरोध रोक दिया गया। कृपया अपनी स्क्रिप्ट बदलें और फिर से कोशिश करें।',
+        'apiError.server': 'AI सेवा में अभी समस्या है। कृपया बाद में फिर से कोशिश करें।',
+        'apiError.network': 'नेटवर्क त्रुटि हुई। कृपया अपना इंटरनेट कनेक्शन जाँचें और फिर से कोशिश करें।',
+        'apiError.unknown': 'एक अज्ञात त्रुटि हुई।',
+        'apiError.start': 'साक्षात्कार शुरू नहीं हो सका: {message}।',
+        'apiError.summary': 'सारांश तैयार करते समय API त्रुटि हुई: {message}',
+
+        'history.title': 'साक्षात्कार इतिहास',
+        'history.loadFailed': 'आपका साक्षात्कार इतिहास लोड नहीं हो सका।',
+        'history.deleteFailed': 'साक्षात्कार हटाया नहीं जा सका।',
+        'history.confirmDelete': '{date} का साक्षात्कार हटाएँ?',
+        'history.empty': 'अभी तक कोई साक्षात्कार सहेजा नहीं गया है।',
+        'history.turns': '{count} बारी',
+        'history.open': 'खोलें',
+        'history.openLabel': 'साक्षात्कार खोलें',
+        'history.duplicateTitle': 'इस स्क्रिप्ट से नया साक्षात्कार शुरू करें',
+        'history.duplicateLabel': 'स्क्रिप्ट को नए साक्षात्कार में कॉपी करें',
+        'history.delete': 'साक्षात्कार हटाएँ',
+
+        'templates.title': 'साक्षात्कार टेम्पलेट',
+        'templates.mine': 'मेरे टेम्पलेट',
+        'templates.presets': 'प्रीसेट',
+        'templates.new': 'नया टेम्पलेट',
+        'templates.edit': 'टेम्पलेट संपादित करें',
+        'templates.name': 'नाम',
+        'templates.description': 'विवरण',
+        'templates.language': 'भाषा',
+        'templates.save': 'टेम्पलेट सहेजें',
+        'templates.use': 'उपयोग करें',
+        'templates.editLabel': 'टेम्पलेट संपादित करें',
+        'templates.duplicateLabel': 'टेम्पलेट की प्रति बनाएँ',
+        'templates.exportTitle': 'JSON के रूप में निर्यात करें',
+        'templates.exportLabel': 'टेम्पलेट को JSON के रूप में निर्यात करें',
+        'templates.deleteLabel': 'टेम्पलेट हटाएँ',
+        'templates.import': 'JSON आयात करें',
+        'templates.exportMine': 'मेरे टेम्पलेट निर्यात करें',
+        'templates.copyName': '{name} (प्रति)',
+        'templates.confirmDelete': 'टेम्पलेट "{name}" हटाएँ?',
+        'templates.imported': 'आयात किए गए टेम्पलेट: {count}।',
+        'templates.loadFailed': 'आपके टेम्पलेट लोड नहीं हो सके।',
+        'templates.saveFailed': 'टेम्पलेट सहेजा नहीं जा सका।',
+        'templates.deleteFailed': 'टेम्पलेट हटाया नहीं जा सका।',
+        'templates.importFailed': 'टेम्पलेट आयात नहीं हो सके: {message}',
+
+        'document.upload': 'अपलोड करें',
+        'document.reading': 'पढ़ा जा रहा है...',
+        'document.unsupportedType': '".{extension}" फ़ाइल प्रकार समर्थित नहीं है। कृपया PDF, DOCX, TXT या Markdown फ़ाइल अपलोड करें।',
+        'document.readFailed': '"{fileName}" पढ़ी नहीं जा सकी। कृपया जाँचें कि यह मान्य PDF, DOCX, TXT या Markdown फ़ाइल है।',
+
+        'focusAreas.placeholder': 'उदा., सिस्टम डिज़ाइन, नेतृत्व',
+
+        'plan.inputTitle': 'प्रश्न योजना (वैकल्पिक)',
+        'plan.inputSummary': '{sections} खंड, {questions} प्रश्न, ~{minutes} मिनट',
+        'plan.inputHelp': 'हर खंड को "#" से और हर प्रश्न को "-" से शुरू करें। सीमा तय करने के लिए खंड में "(10 min)" या प्रश्न में "(2 follow-ups)" जोड़ें।',
+        'plan.title': 'प्रश्न योजना',
+        'plan.progressLabel': 'प्रश्न योजना की प्रगति',
+        'plan.compactProgress': '{total} में से {asked} प्रश्न पूछे गए',
+        'plan.showPlan': 'योजना दिखाएँ',
+        'plan.hidePlan': 'योजना छिपाएँ',
+        'plan.skipped': 'छोड़े गए प्रश्न',
+        'plan.allAsked': 'योजना के सभी प्रश्न पूछे जा चुके हैं।',
+
+        'persona.interviewer': 'साक्षात्कारकर्ता',
+        'persona.panelStyle': 'पैनल की शैली',
+        'persona.sharedByPanel': 'सभी पैनल सदस्यों के लिए समान',
+        'persona.name': 'नाम (वैकल्पिक)',
+        'persona.namePlaceholder': 'उदा., Alex',
+        'persona.company': 'कंपनी (वैकल्पिक)',
+        'persona.companyPlaceholder': 'उदा., Acme Corp',
+        'persona.tone': 'लहजा',
+        'persona.difficulty': 'कठिनाई',
+        'persona.voice': 'आवाज़',
+        'persona.preview': '{voice} सुनें',
+        'persona.previewUnavailable': 'इस आवाज़ का पूर्वावलोकन अभी उपलब्ध नहीं है।',
+
+        'tone.friendly': 'दोस्ताना',
+        'tone.neutral': 'तटस्थ',
+        'tone.high-pressure': 'दबाव वाला (स्ट्रेस इंटरव्यू)',
+
+        'difficulty.junior': 'जूनियर',
+        'difficulty.mid': 'मध्य स्तर',
+        'difficulty.senior': 'सीनियर',
+        'difficulty.executive': 'कार्यकारी',
+
+        'voiceStyle.firm': 'दृढ़',
+        'voiceStyle.upbeat': 'उत्साहित',
+        'voiceStyle.informative': 'जानकारीपूर्ण',
+        'voiceStyle.excitable': 'जोशीली',
+        'voiceStyle.breezy': 'सहज',
+        'voiceStyle.youthful': 'युवा',
+        'voiceStyle.bright': 'खनकती',
+
+        'panel.toggle': 'पैनल साक्षात्कार',
+        'panel.toggleHelp': '({min}–{max} साक्षात्कारकर्ता जो बारी-बारी से प्रश्न पूछते हैं)',
+        'panel.namePlaceholder': 'नाम',
+        'panel.nameLabel': 'पैनल सदस्य {number} का नाम',
+        'panel.rolePlaceholder': 'भूमिका, उदा. टेक लीड',
+        'panel.roleLabel': 'पैनल सदस्य {number} की भूमिका',
+        'panel.voiceLabel': 'पैनल सदस्य {number} की आवाज़',
+        'panel.focusPlaceholder': 'किस बारे में पूछेंगे, उदा. सिस्टम डिज़ाइन',
+        'panel.focusLabel': 'पैनल सदस्य {number} का विषय',
+        'panel.remove': 'पैनल सदस्य हटाएँ',
+        'panel.removeLabel': 'पैनल सदस्य {number} को हटाएँ',
+        'panel.add': 'पैनल सदस्य जोड़ें',
+        'panel.sharedVoices': 'कुछ पैनल सदस्यों की आवाज़ एक जैसी है, जिससे उन्हें पहचानना कठिन होगा।',
+
+        'voice.calibration': 'माइक्रोफ़ोन कैलिब्रेशन',
+        'voice.stayQuiet': 'कृपया एक पल शांत रहें...',
+        'voice.readAloud': 'अब ज़ोर से पढ़ें: “{sentence}”',
+        'voice.calibrationSentence': 'यह वाक्य माइक्रोफ़ोन को कैलिब्रेट करने के लिए है, ताकि साक्षात्कारकर्ता जान सकें कि मेरी बात कब पूरी हुई।',
+        'voice.calibrated': 'पृष्ठभूमि शोर {noiseFloor}, आपकी आवाज़ {speechLevel}, वाणी सीमा {threshold}।',
+        'voice.notCalibrated': 'कैलिब्रेट नहीं है। कैलिब्रेट करें ताकि साक्षात्कारकर्ता आपकी आवाज़ को पृष्ठभूमि शोर से अलग पहचान सके।',
+        'voice.lowSignal': 'आपकी आवाज़ पृष्ठभूमि शोर से मुश्किल से ऊपर थी। माइक्रोफ़ोन के पास आएँ या उसकी संवेदनशीलता बढ़ाएँ।',
+        'voice.calibrate': 'कैलिब्रेट करें',
+        'voice.recalibrate': 'फिर से कैलिब्रेट करें',
+        'voice.calibrating': 'कैलिब्रेट हो रहा है...',
+        'voice.micDenied': 'माइक्रोफ़ोन की अनुमति नहीं दी गई। कैलिब्रेट करने के लिए माइक्रोफ़ोन की अनुमति दें।',
+        'voice.calibrationFailed': 'माइक्रोफ़ोन कैलिब्रेट नहीं हो सका। कृपया उसे जाँचें और फिर से कोशिश करें।',
+        'voice.turnTaking': 'बारी लेना',
+        'voice.patience': 'उत्तर खत्म मानने से पहले प्रतीक्षा: {seconds} सेकंड',
+        'voice.patienceHelp': 'आप कितनी देर रुक सकते हैं, उसके बाद आपका उत्तर पूरा माना जाएगा।',
+
+        'turnTaking.auto': 'स्वचालित',
+        'turnTaking.autoDescription': 'रुकने पर आपका उत्तर समाप्त हो जाता है।',
+        'turnTaking.push-to-talk': 'दबाकर बोलें',
+        'turnTaking.push-to-talkDescription': 'उत्तर देते समय बटन या स्पेसबार दबाए रखें।',
+        'turnTaking.tap-to-finish': 'टैप करके समाप्त करें',
+        'turnTaking.tap-to-finishDescription': 'साक्षात्कारकर्ता के बोल लेने पर आपका माइक्रोफ़ोन खुल जाता है; उत्तर पूरा होने पर बटन या स्पेस टैप करें।',
+        'turnTaking.listening': 'सुन रहे हैं... समाप्त करने के लिए छोड़ें',
+        'turnTaking.holdToTalk': 'बोलने के लिए दबाए रखें (स्पेस)',
+        'turnTaking.finishAnswer': 'मेरा उत्तर समाप्त करें (स्पेस)',
+        'turnTaking.startAnswer': 'उत्तर देना शुरू करें (स्पेस)',
+
+        'typedAnswer.placeholder': 'अपना उत्तर टाइप करें और Enter दबाएँ...',
+        'typedAnswer.label': 'आपका उत्तर',
+        'typedAnswer.send': 'भेजें',
+
+        'countdown.label': 'शेष समय',
+        'countdown.remaining': 'शेष',
+        'countdown.wrappingUp': 'समापन',
+        'countdown.paused': 'रुका हुआ',
+
+        'coaching.label': 'कोचिंग',
+        'coaching.title': 'कोचिंग',
+        'coaching.runningLong': 'आपका उत्तर लंबा हो रहा है। परिणाम बताकर समाप्त करें।',
+        'coaching.offTopic': 'यह अभी प्रश्न का उत्तर नहीं देता: “{question}”',
+        'coaching.waitingForHints': 'इस प्रश्न के संकेत यहाँ दिखेंगे।',
+        'coaching.waitingForQuestion': 'पहला प्रश्न पूछे जाने पर संकेत दिखेंगे।',
+        'coaching.privacy': 'ये संकेत केवल आपको दिखते हैं। इन्हें कभी साक्षात्कारकर्ता को नहीं भेजा जाता।',
+        'coaching.showHints': 'संकेत दिखाएँ',
+        'coaching.hideHints': 'संकेत छिपाएँ',
+
+        'summary.overallScore': 'कुल स्कोर',
+        'summary.chartLabel': 'दक्षता स्कोर चार्ट',
+        'summary.notScored': 'स्कोर नहीं दिया गया',
+        'summary.panelFeedback': 'पैनल का फ़ीडबैक',
+        'summary.detailedFeedback': 'विस्तृत फ़ीडबैक',
+
+        'feedback.version': 'संस्करण',
+        'feedback.versionLabel': 'संस्करण {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': 'इस भाषा में दोबारा बनाएँ',
+        'feedback.emphasis': 'ज़ोर',
+        'feedback.regenerate': 'दोबारा बनाएँ',
+
+        'emphasis.balanced': 'संतुलित',
+        'emphasis.technical': 'तकनीकी गहराई',
+        'emphasis.communication': 'संवाद',
+        'emphasis.leadership': 'नेतृत्व',
+
+        'recommendation.STRONG_HIRE': 'ज़रूर नियुक्त करें',
+        'recommendation.HIRE': 'नियुक्त करें',
+        'recommendation.LEAN_HIRE': 'नियुक्ति की ओर झुकाव',
+        'recommendation.LEAN_NO_HIRE': 'नियुक्ति न करने की ओर झुकाव',
+        'recommendation.NO_HIRE': 'नियुक्त न करें',
+
+        'competency.communication': 'संवाद',
+        'competency.problemSolving': 'समस्या समाधान',
+        'competency.roleFit': 'भूमिका के लिए उपयुक्तता',
+        'competency.leadership': 'नेतृत्व',
+        'competency.selfAwareness': 'आत्म-जागरूकता',
+
+        'delivery.pace': 'गति',
+        'delivery.wordsPerMinute': 'शब्द प्रति मिनट',
+        'delivery.charactersPerMinute': 'अक्षर प्रति मिनट',
+        'delivery.fillerWords': 'भराव शब्द',
+        'delivery.averageResponseTime': 'औसत प्रतिक्रिया समय',
+        'delivery.silenceBeforeAnswering': 'उत्तर से पहले चुप्पी',
+        'delivery.longestAnswer': 'सबसे लंबा उत्तर',
+        'delivery.candidateShare': 'आप {percent}% · {duration}',
+        'delivery.interviewerShare': 'साक्षात्कारकर्ता {percent}% · {duration}',
+        'delivery.talkTimeLabel': 'बोलने के समय का बँटवारा',
+        'delivery.silenceBeforeEachAnswer': 'हर उत्तर से पहले चुप्पी',
+        'delivery.longestAnswerQuote': 'सबसे लंबा उत्तर: “{text}”',
+
+        'transcript.title': 'पूरा ट्रांसक्रिप्ट',
+        'transcript.download': '{format} डाउनलोड करें',
+        'transcript.downloadWav': 'WAV डाउनलोड करें',
+        'transcript.converting': 'रूपांतरित हो रहा है...',
+
+        'answers.title': 'उत्तरों पर फ़ीडबैक',
+        'answers.selectHint': 'फ़ीडबैक देखने के लिए ट्रांसक्रिप्ट में किसी प्रश्न या उत्तर पर क्लिक करें।',
+        'answers.noAnswers': 'समीक्षा के लिए कोई उत्तर नहीं है। अभ्यास करने के लिए किसी प्रश्न पर क्लिक करें।',
+        'answers.practice': 'इस प्रश्न का अभ्यास करें',
+        'answers.reviewing': 'आपके उत्तरों की समीक्षा हो रही है...',
+        'answers.generate': 'मेरे उत्तरों पर प्रतिक्रिया पाएँ',
+        'answers.generateHint': 'सभी उत्तरों पर प्रतिक्रिया एक साथ तब बनाई जाती है जब आप इसके लिए कहते हैं।',
+        'answers.generateFailed': 'आपके उत्तरों पर फ़ीडबैक तैयार नहीं हो सका।',
+        'answers.noCritique': 'इस उत्तर के लिए कोई फ़ीडबैक उपलब्ध नहीं है।',
+        'answers.starLabel': 'STAR संरचना',
+        'answers.yourAnswer': 'आपका उत्तर',
+        'answers.strongerAnswer': 'एक बेहतर उत्तर',
+
+        'questionKind.behavioral': 'व्यवहार संबंधी',
+        'questionKind.technical': 'तकनीकी',
+        'questionKind.general': 'सामान्य',
+
+        'star.situation': 'स्थिति',
+        'star.task': 'कार्य',
+        'star.action': 'क़दम',
+        'star.result': 'परिणाम',
+
+        'practice.title': 'अभ्यास दौर',
+        'practice.originalAnswer': 'मूल उत्तर',
+        'practice.attempt': 'प्रयास {number}',
+        'practice.attemptsLabel': 'अभ्यास प्रयास',
+        'practice.noAnswer': 'कोई उत्तर दर्ज नहीं हुआ।',
+        'practice.whatChanged': 'क्या बदला',
+        'practice.comparisonFailed': 'इस प्रयास की तुलना तैयार नहीं हो सकी।',
+        'practice.backToResults': 'परिणामों पर वापस जाएँ',
+
+        'export.label': 'निर्यात:',
+        'export.reportTitle': 'इंटरव्यू रिपोर्ट',
+        'export.date': 'तारीख',
+        'export.duration': 'अवधि',
+        'export.language': 'भाषा',
+        'export.panel': 'पैनल',
+        'export.coaching': 'कोचिंग संकेत',
+        'export.coachingOn': 'चालू',
+        'export.instructions': 'इंटरव्यू निर्देश',
+        'export.focusAreas': 'फ़ोकस क्षेत्र',
+        'export.jobDescription': 'नौकरी का विवरण',
+        'export.resume': 'उम्मीदवार का बायोडाटा',
+        'export.competency': 'योग्यता',
+        'export.score': 'स्कोर',
+        'export.rationale': 'कारण',
+        'export.evidence': '{competency} के प्रमाण',
+    },
+};
+
+export default hi;
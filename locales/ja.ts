@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const ja: LocaleCatalog = {
+    code: 'ja',
+    name: '日本語',
+    interviewLanguage: 'Japanese',
+    dir: 'ltr',
+    welcome: (name, company) => `こんにちは、${company ? `${company}の` : ''}面接へようこそ。${name ? `面接官の${name}です。` : ''}セッションは間もなく開始されます。`,
+    fillerWords: { words: ['えーと', 'えっと', 'あの', 'まあ', 'なんか'], spaced: false },
+    messages: {
+        'common.back': '戻る',
+        'common.cancel': 'キャンセル',
+        'common.close': '閉じる',
+        'common.loading': '読み込み中...',
+        'common.tryAgain': 'もう一度試す',
+        'common.typed': '入力',
+        'common.minutes': '{minutes}分',
+        'common.durationLabel': '所要時間（分）',
+        'common.focusAreasLabel': '重点分野（カンマ区切り）',
+        'common.unknownError': '不明なエラー',
+
+        'app.title': 'AI面接シミュレーター',
+        'app.intro': '面接の内容を説明し、候補者の履歴書と求人票を追加してください。AIがその内容をもとにリアルタイムの音声面接を行います。',
+        'app.templates': 'テンプレート',
+        'app.history': '履歴',
+        'app.uiLanguage': '表示言語',
+        'app.interviewLanguage': '面接の言語',
+        'app.answerBy': '回答方法',
+        'app.answerBySpeaking': '話す（マイク）',
+        'app.answerByTyping': '入力する',
+        'app.coachingToggle': '回答中にコーチングのヒントを表示',
+        'app.coachingToggleHelp': '（あなただけに見える要点と注意）',
+        'app.instructionsLabel': '面接の指示',
+        'app.instructionsPlaceholder': '例：ジュニアソフトウェアエンジニアの面接を行ってください。',
+        'app.resumeLabel': '候補者の履歴書',
+        'app.resumePlaceholder': '履歴書を貼り付けるか、PDF・DOCX・TXT・Markdownファイルをアップロードしてください。',
+        'app.jobDescriptionLabel': '求人票',
+        'app.jobDescriptionPlaceholder': '求人票を貼り付けるか、PDF・DOCX・TXT・Markdownファイルをアップロードしてください。',
+        'app.startInterview': '面接を開始',
+        'app.connecting': '接続中...',
+        'app.connectingDetail': '面接セッションを準備しています。',
+        'app.comparingAttempts': '回答を比較中...',
+        'app.comparingAttemptsDetail': 'AIが回答の変化を確認しています。',
+        'app.generatingFeedback': 'フィードバックを作成中...',
+        'app.generatingFeedbackDetail': 'AIが会話を分析しています。',
+        'app.interviewComplete': '面接終了',
+        'app.coachingOn': 'コーチングあり',
+        'app.performanceSummary': '評価のまとめ',
+        'app.noSummary': 'まとめはありません。',
+        'app.retryFeedback': 'フィードバックを再試行',
+        'app.transcriptKept': '書き起こしは保存されているため、失われたものはありません。',
+        'app.feedbackCancelled': 'フィードバックの生成をキャンセルしました。',
+        'app.delivery': '話し方',
+        'app.startNewInterview': '新しい面接を開始',
+        'app.typedAnswers': '入力による回答',
+        'app.interviewerWillBegin': '面接官がまもなく話し始めます...',
+        'app.reconnecting': '接続が切れました。再接続しています（{max}回中{attempt}回目）...',
+        'app.micDeniedFallback': 'マイクへのアクセスが拒否されたため、入力で回答します。',
+        'app.micNotFoundFallback': 'マイクが見つからなかったため、入力で回答します。',
+        'app.paused': '面接を一時停止中です。再開するまでマイクと面接官はミュートされます。',
+        'app.pause': '一時停止',
+        'app.resume': '再開',
+        'app.endInterview': '面接を終了',
+        'app.endPractice': '練習を終了',
+
+        'audio.micSensitivity': 'マイク感度',
+        'audio.speakerVolume': 'スピーカー音量',
+        'audio.hearingYou': '音声を検出中',
+        'audio.silent': '無音',
+
+        'devices.microphone': 'マイク',
+        'devices.speakers': 'スピーカー',
+        'devices.systemDefault': 'システムの既定',
+        'devices.unnamedInput': 'マイク {number}',
+        'devices.unnamedOutput': 'スピーカー {number}',
+        'devices.outputUnsupported': 'このブラウザーでは、音声は常にシステムの既定の出力から再生されます。',
+        'devices.micLevel': 'マイクの音量レベル',
+        'devices.micDisconnected': 'マイクが切断されたため、システムの既定のマイクを使用しています。',
+        'devices.speakersDisconnected': 'スピーカーが切断されたため、音声はシステムの既定の出力から再生されます。',
+        'devices.micUnavailable': '使用できるマイクがありません。音声で回答を続けるにはマイクを接続してください。',
+
+        'preflight.title': 'オーディオを確認',
+        'preflight.intro': 'マイクとスピーカーを選び、短いテストを録音して聞こえ方を確認してください。',
+        'preflight.test': '{seconds}秒のテストを録音',
+        'preflight.recording': '録音中… 何か話してください。',
+        'preflight.playing': '再生中…',
+        'preflight.heardYourself': '自分の声がはっきり聞こえましたか？聞こえない場合は、別のデバイスを選ぶかスライダーを調整して、もう一度テストしてください。',
+        'preflight.testFailed': 'オーディオテストに失敗しました。デバイスを確認して、もう一度お試しください。',
+
+        'error.missingMaterials': '面接の指示、履歴書、求人票のいずれかを入力してください。',
+        'error.apiKeyNotConfigured': 'APIキーが設定されていません。開発者による対応が必要な設定の問題です。',
+        'error.micDenied': 'マイクへのアクセスが拒否されました。ブラウザの設定でこのサイトのマイクを許可してから、もう一度お試しください。',
+        'error.micNotFound': 'デバイスにマイクが見つかりません。マイクを接続してから、もう一度お試しください。',
+        'error.micNotReadable': 'マイクでハードウェアエラーが発生したか、別のアプリが使用している可能性があります。マイクを確認してから、もう一度お試しください。',
+
+        'apiError.invalidKey': '指定されたAPIキーが無効か、このプロジェクトで有効になっていません。設定を確認してください。',
+        'apiError.permission': 'このリソースにアクセスする権限がありません。APIキーまたはプロジェクトの設定が正しくない可能性があります。',
+        'apiError.quota': 'APIのリクエスト上限を超えました。しばらく待ってから、もう一度お試しください。',
+        'apiError.rateLimited': 'リクエストが多すぎます。少し待ってから、もう一度お試しください。',
+        'apiError.safety': '安全ポリシーによりリクエストがブロックされました。スクリプトを修正して、もう一度お試しください。',
+        'apiError.server': 'AIサービスで問題が発生しています。後でもう一度お試しください。',
+        'apiError.network': 'ネットワークエラーが発生しました。インターネット接続を確認して、もう一度お試しください。',
+        'apiError.unknown': '不明なエラーが発生しました。',
+        'apiError.start': '面接を開始できませんでした：{message}。',
+        'apiError.summary': 'まとめの作成中にAPIエラーが発生しました：{message}',
+
+        'history.title': '面接履歴',
+        'history.loadFailed': '面接履歴を読み込めませんでした。',
+        'history.deleteFailed': '面接を削除できませんでした。',
+        'history.confirmDelete': '{date}の面接を削除しますか？',
+        'history.empty': '保存された面接はまだありません。',
+        'history.turns': '{count}回の発言',
+        'history.open': '開く',
+        'history.openLabel': '面接を開く',
+        'history.duplicateTitle': 'このスクリプトで新しい面接を開始',
+        'history.duplicateLabel': 'スクリプトを新しい面接に複製',
+        'history.delete': '面接を削除',
+
+        'templates.title': '面接テンプレート',
+        'templates.mine': 'マイテンプレート',
+        'templates.presets': 'プリセット',
+        'templates.new': '新しいテンプレート',
+        'templates.edit': 'テンプレートを編集',
+        'templates.name': '名前',
+        'templates.description': '説明',
+        'templates.language': '言語',
+        'templates.save': 'テンプレートを保存',
+        'templates.use': '使用',
+        'templates.editLabel': 'テンプレートを編集',
+        'templates.duplicateLabel': 'テンプレートを複製',
+        'templates.exportTitle': 'JSONとしてエクスポート',
+        'templates.exportLabel': 'テンプレートをJSONとしてエクスポート',
+        'templates.deleteLabel': 'テンプレートを削除',
+        'templates.import': 'JSONをインポート',
+        'templates.exportMine': 'マイテンプレートをエクスポート',
+        'templates.copyName': '{name}（コピー）',
+        'templates.confirmDelete': 'テンプレート「{name}」を削除しますか？',
+        'templates.imported': 'インポートしたテンプレート：{count}件',
+        'templates.loadFailed': 'テンプレートを読み込めませんでした。',
+        'templates.saveFailed': 'テンプレートを保存できませんでした。',
+        'templates.deleteFailed': 'テンプレートを削除できませんでした。',
+        'templates.importFailed': 'テンプレートをインポートできませんでした：{message}',
+
+        'document.upload': 'アップロード',
+        'document.reading': '読み込み中...',
+        'document.unsupportedType': '「.{extension}」形式のファイルには対応していません。PDF・DOCX・TXT・Markdownファイルをアップロードしてください。',
+        'document.readFailed': '「{fileName}」を読み込めませんでした。有効なPDF・DOCX・TXT・Markdownファイルか確認してください。',
+
+        'focusAreas.placeholder': '例：システム設計、リーダーシップ',
+
+        'plan.inputTitle': '質問プラン（任意）',
+        'plan.inputSummary': '{sections}セクション、{questions}問、約{minutes}分',
+        'plan.inputHelp': '各セクションは「#」、各質問は「-」で始めてください。セクションに「(10 min)」、質問に「(2 follow-ups)」を付けると上限を設定できます。',
+        'plan.title': '質問プラン',
+        'plan.progressLabel': '質問プランの進捗',
+        'plan.compactProgress': '{total} 問中 {asked} 問を質問済み',
+        'plan.showPlan': 'プランを表示',
+        'plan.hidePlan': 'プランを隠す',
+        'plan.skipped': 'スキップされた質問',
+        'plan.allAsked': 'プランの質問はすべて出題されました。',
+
+        'persona.interviewer': '面接官',
+        'persona.panelStyle': 'パネルのスタイル',
+        'persona.sharedByPanel': 'すべてのパネリストに共通',
+        'persona.name': '名前（任意）',
+        'persona.namePlaceholder': '例：Alex',
+        'persona.company': '会社名（任意）',
+        'persona.companyPlaceholder': '例：Acme Corp',
+        'persona.tone': 'トーン',
+        'persona.difficulty': '難易度',
+        'persona.voice': '声',
+        'persona.preview': '{voice}を試聴',
+        'persona.previewUnavailable': 'この声の試聴は現在利用できません。',
+
+        'tone.friendly': 'フレンドリー',
+        'tone.neutral': '中立',
+        'tone.high-pressure': '高圧的（圧迫面接）',
+
+        'difficulty.junior': 'ジュニア',
+        'difficulty.mid': 'ミドル',
+        'difficulty.senior': 'シニア',
+        'difficulty.executive': 'エグゼクティブ',
+
+        'voiceStyle.firm': '毅然',
+        'voiceStyle.upbeat': '明るい',
+        'voiceStyle.informative': '知的',
+        'voiceStyle.excitable': '元気',
+        'voiceStyle.breezy': '軽やか',
+        'voiceStyle.youthful': '若々しい',
+        'voiceStyle.bright': '爽やか',
+
+        'panel.toggle': 'パネル面接',
+        'panel.toggleHelp': '（{min}〜{max}人の面接官が交代で質問）',
+        'panel.namePlaceholder': '名前',
+        'panel.nameLabel': 'パネリスト{number}の名前',
+        'panel.rolePlaceholder': '役職（例：テックリード）',
+        'panel.roleLabel': 'パネリスト{number}の役職',
+        'panel.voiceLabel': 'パネリスト{number}の声',
+        'panel.focusPlaceholder': '質問するテーマ（例：システム設計）',
+        'panel.focusLabel': 'パネリスト{number}の担当テーマ',
+        'panel.remove': 'パネリストを削除',
+        'panel.removeLabel': 'パネリスト{number}を削除',
+        'panel.add': 'パネリストを追加',
+        'panel.sharedVoices': '同じ声のパネリストがいるため、聞き分けにくくなります。',
+
+        'voice.calibration': 'マイクの調整',
+        'voice.stayQuiet': 'しばらく静かにしてください...',
+        'voice.readAloud': '次の文を声に出して読んでください：「{sentence}」',
+        'voice.calibrationSentence': '面接官が私の話し終わりを判断できるように、マイクを調整しています。',
+        'voice.calibrated': '周囲の雑音 {noiseFloor}、あなたの声 {speechLevel}、発話のしきい値 {threshold}。',
+        'voice.notCalibrated': '未調整です。面接官があなたの声と周囲の雑音を区別できるよう調整してください。',
+        'voice.lowSignal': '声が周囲の雑音とほとんど変わりませんでした。マイクに近づくか、感度を上げてください。',
+        'voice.calibrate': '調整する',
+        'voice.recalibrate': '再調整',
+        'voice.calibrating': '調整中...',
+        'voice.micDenied': 'マイクへのアクセスが拒否されました。調整するにはマイクを許可してください。',
+        'voice.calibrationFailed': 'マイクを調整できませんでした。マイクを確認して、もう一度お試しください。',
+        'voice.turnTaking': '発言の交代',
+        'voice.patience': '回答終了までの待ち時間：{seconds}秒',
+        'voice.patienceHelp': '回答が終わったと判断されるまでに、どれくらい間を空けられるかを設定します。',
+
+        'turnTaking.auto': '自動',
+        'turnTaking.autoDescription': '間が空くと回答が終了します。',
+        'turnTaking.push-to-talk': '押して話す',
+        'turnTaking.push-to-talkDescription': '回答中はボタンまたはスペースキーを押し続けてください。',
+        'turnTaking.tap-to-finish': 'タップで終了',
+        'turnTaking.tap-to-finishDescription': '面接官が話し終えるとマイクがオンになります。回答が終わったらボタンかスペースキーを押してください。',
+        'turnTaking.listening': '聞いています...離すと終了',
+        'turnTaking.holdToTalk': '押し続けて話す（スペース）',
+        'turnTaking.finishAnswer': '回答を終える（スペース）',
+        'turnTaking.startAnswer': '回答を始める（スペース）',
+
+        'typedAnswer.placeholder': '回答を入力してEnterを押してください...',
+        'typedAnswer.label': 'あなたの回答',
+        'typedAnswer.send': '送信',
+
+        'countdown.label': '残り時間',
+        'countdown.remaining': '残り',
+        'countdown.wrappingUp': 'まとめ',
+        'countdown.paused': '一時停止中',
+
+        'coaching.label': 'コーチング',
+        'coaching.title': 'コーチング',
+        'coaching.runningLong': '回答が長くなっています。結果で締めくくりましょう。',
+        'coaching.offTopic': 'まだ質問に答えていません：「{question}」',
+        'coaching.waitingForHints': 'この質問のヒントがここに表示されます。',
+        'coaching.waitingForQuestion': '最初の質問が出されるとヒントが表示されます。',
+        'coaching.privacy': 'これらのヒントはあなたにしか見えません。面接官に送られることはありません。',
+        'coaching.showHints': 'ヒントを表示',
+        'coaching.hideHints': 'ヒントを隠す',
+
+        'summary.overallScore': '総合スコア',
+        'summary.chartLabel': 'コンピテンシー別スコアのグラフ',
+        'summary.notScored': '未評価',
+        'summary.panelFeedback': 'パネルからのフィードバック',
+        'summary.detailedFeedback': '詳細なフィードバック',
+
+        'feedback.version': 'バージョン',
+        'feedback.versionLabel': 'バージョン {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': '再生成する言語',
+        'feedback.emphasis': '重点',
+        'feedback.regenerate': '再生成',
+
+        'emphasis.balanced': 'バランス',
+        'emphasis.technical': '技術的な深さ',
+        'emphasis.communication': 'コミュニケーション',
+        'emphasis.leadership': 'リーダーシップ',
+
+        'recommendation.STRONG_HIRE': 'ぜひ採用',
+        'recommendation.HIRE': '採用',
+        'recommendation.LEAN_HIRE': 'やや採用寄り',
+        'recommendation.LEAN_NO_HIRE': 'やや不採用寄り',
+        'recommendation.NO_HIRE': '不採用',
+
+        'competency.communication': 'コミュニケーション',
+        'competency.problemSolving': '問題解決',
+        'competency.roleFit': '職務との適合',
+        'competency.leadership': 'リーダーシップ',
+        'competency.selfAwareness': '自己認識',
+
+        'delivery.pace': '話す速さ',
+        'delivery.wordsPerMinute': '語/分',
+        'delivery.charactersPerMinute': '文字/分',
+        'delivery.fillerWords': 'つなぎ言葉',
+        'delivery.averageResponseTime': '平均応答時間',
+        'delivery.silenceBeforeAnswering': '回答前の沈黙',
+        'delivery.longestAnswer': '最も長い回答',
+        'delivery.candidateShare': 'あなた {percent}% · {duration}',
+        'delivery.interviewerShare': '面接官 {percent}% · {duration}',
+        'delivery.talkTimeLabel': '発話時間の割合',
+        'delivery.silenceBeforeEachAnswer': '各回答前の沈黙',
+        'delivery.longestAnswerQuote': '最も長い回答：「{text}」',
+
+        'transcript.title': '全文の書き起こし',
+        'transcript.download': '{format}をダウンロード',
+        'transcript.downloadWav': 'WAVをダウンロード',
+        'transcript.converting': '変換中...',
+
+        'answers.title': '回答へのフィードバック',
+        'answers.selectHint': '書き起こしの質問または回答をクリックすると、そのフィードバックが表示されます。',
+        'answers.noAnswers': '評価する回答がありません。質問をクリックすると練習できます。',
+        'answers.practice': 'この質問を練習する',
+        'answers.reviewing': '回答を確認しています...',
+        'answers.generate': '回答へのフィードバックを取得',
+        'answers.generateHint': 'すべての回答へのフィードバックは、リクエストしたときにまとめて生成されます。',
+        'answers.generateFailed': '回答へのフィードバックを作成できませんでした。',
+        'answers.noCritique': 'この回答へのフィードバックはありません。',
+        'answers.starLabel': 'STARの構成',
+        'answers.yourAnswer': 'あなたの回答',
+        'answers.strongerAnswer': 'より良い回答例',
+
+        'questionKind.behavioral': '行動面',
+        'questionKind.technical': '技術面',
+        'questionKind.general': '一般',
+
+        'star.situation': '状況',
+        'star.task': '課題',
+        'star.action': '行動',
+        'star.result': '結果',
+
+        'practice.title': '練習ラウンド',
+        'practice.originalAnswer': '元の回答',
+        'practice.attempt': '{number}回目',
+        'practice.attemptsLabel': '練習の回答',
+        'practice.noAnswer': '回答は記録されていません。',
+        'practice.whatChanged': '変化した点',
+        'practice.comparisonFailed': 'この回答の比較を作成できませんでした。',
+        'practice.backToResults': '結果に戻る',
+
+        'export.label': 'エクスポート：',
+        'export.reportTitle': '面接レポート',
+        'export.date': '日時',
+        'export.duration': '時間',
+        'export.language': '言語',
+        'export.panel': '面接官パネル',
+        'export.coaching': 'コーチングのヒント',
+        'export.coachingOn': 'オン',
+        'export.instructions': '面接の指示',
+        'export.focusAreas': '重点分野',
+        'export.jobDescription': '職務内容',
+        'export.resume': '応募者の履歴書',
+        'export.competency': '能力',
+        'export.score': 'スコア',
+        'export.rationale': '根拠',
+        'export.evidence': '{competency}の根拠となる発言',
+    },
+};
+
+export default ja;
@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const pt: LocaleCatalog = {
+    code: 'pt',
+    name: 'Português',
+    interviewLanguage: 'Portuguese',
+    dir: 'ltr',
+    welcome: (name, company) => `Olá e bem-vindo à sua entrevista${company ? ` com ${company}` : ''}.${name ? ` Meu nome é ${name}.` : ''} A sessão começará em breve.`,
+    fillerWords: { words: ['tipo', 'então', 'né', 'assim', 'quer dizer'], spaced: true },
+    messages: {
+        'common.back': 'Voltar',
+        'common.cancel': 'Cancelar',
+        'common.close': 'Fechar',
+        'common.loading': 'Carregando...',
+        'common.tryAgain': 'Tentar novamente',
+        'common.typed': 'Digitada',
+        'common.minutes': '{minutes} min',
+        'common.durationLabel': 'Duração (minutos)',
+        'common.focusAreasLabel': 'Áreas de foco (separadas por vírgulas)',
+        'common.unknownError': 'erro desconhecido',
+
+        'app.title': 'Simulador de entrevistas com IA',
+        'app.intro': 'Descreva a entrevista e adicione o currículo do candidato e a descrição da vaga. A IA conduzirá uma entrevista em áudio ao vivo com base nessas informações.',
+        'app.templates': 'Modelos',
+        'app.history': 'Histórico',
+        'app.uiLanguage': 'Idioma da interface',
+        'app.interviewLanguage': 'Idioma da entrevista',
+        'app.answerBy': 'Responder',
+        'app.answerBySpeaking': 'Falando (microfone)',
+        'app.answerByTyping': 'Digitando',
+        'app.coachingToggle': 'Dicas enquanto respondo',
+        'app.coachingToggleHelp': '(pontos-chave e alertas que só você vê)',
+        'app.instructionsLabel': 'Instruções da entrevista',
+        'app.instructionsPlaceholder': 'ex.: Conduza uma entrevista para um engenheiro de software júnior.',
+        'app.resumeLabel': 'Currículo do candidato',
+        'app.resumePlaceholder': 'Cole o currículo ou envie um arquivo PDF, DOCX, TXT ou Markdown.',
+        'app.jobDescriptionLabel': 'Descrição da vaga',
+        'app.jobDescriptionPlaceholder': 'Cole a descrição da vaga ou envie um arquivo PDF, DOCX, TXT ou Markdown.',
+        'app.startInterview': 'Iniciar entrevista',
+        'app.connecting': 'Conectando...',
+        'app.connectingDetail': 'Preparando a sessão de entrevista.',
+        'app.comparingAttempts': 'Comparando tentativas...',
+        'app.comparingAttemptsDetail': 'Nossa IA está analisando o que mudou na sua resposta.',
+        'app.generatingFeedback': 'Gerando feedback...',
+        'app.generatingFeedbackDetail': 'Nossa IA está analisando sua conversa.',
+        'app.interviewComplete': 'Entrevista concluída',
+        'app.coachingOn': 'Dicas ativadas',
+        'app.performanceSummary': 'Resumo do desempenho',
+        'app.noSummary': 'Nenhum resumo disponível.',
+        'app.retryFeedback': 'Tentar gerar o feedback novamente',
+        'app.transcriptKept': 'Sua transcrição foi salva, então nada foi perdido.',
+        'app.feedbackCancelled': 'A geração do feedback foi cancelada.',
+        'app.delivery': 'Expressão oral',
+        'app.startNewInterview': 'Iniciar nova entrevista',
+        'app.typedAnswers': 'Respostas digitadas',
+        'app.interviewerWillBegin': 'O entrevistador vai começar em instantes...',
+        'app.reconnecting': 'Conexão perdida. Reconectando (tentativa {attempt} de {max})...',
+        'app.micDeniedFallback': 'O acesso ao microfone foi negado, então você está respondendo por escrito.',
+        'app.micNotFoundFallback': 'Nenhum microfone foi encontrado, então você está respondendo por escrito.',
+        'app.paused': 'Entrevista pausada. O microfone e o entrevistador ficam mudos até você retomar.',
+        'app.pause': 'Pausar',
+        'app.resume': 'Retomar',
+        'app.endInterview': 'Encerrar entrevista',
+        'app.endPractice': 'Encerrar prática',
+
+        'audio.micSensitivity': 'Sensibilidade do microfone',
+        'audio.speakerVolume': 'Volume do alto-falante',
+        'audio.hearingYou': 'Ouvindo você',
+        'audio.silent': 'Silêncio',
+
+        'devices.microphone': 'Microfone',
+        'devices.speakers': 'Alto-falantes',
+        'devices.systemDefault': 'Padrão do sistema',
+        'devices.unnamedInput': 'Microfone {number}',
+        'devices.unnamedOutput': 'Alto-falantes {number}',
+        'devices.outputUnsupported': 'Este navegador sempre reproduz o áudio pela saída padrão do sistema.',
+        'devices.micLevel': 'Nível do microfone',
+        'devices.micDisconnected': 'Seu microfone foi desconectado, então o microfone padrão do sistema está em uso.',
+        'devices.speakersDisconnected': 'Seus alto-falantes foram desconectados, então o áudio agora toca pela saída padrão do sistema.',
+        'devices.micUnavailable': 'Nenhum microfone disponível. Conecte um para continuar respondendo por voz.',
+
+        'preflight.title': 'Verifique seu áudio',
+        'preflight.intro': 'Escolha o microfone e os alto-falantes e grave um teste curto para ouvir como você soa.',
+        'preflight.test': 'Gravar um teste de {seconds} segundos',
+        'preflight.recording': 'Gravando… diga algumas palavras.',
+        'preflight.playing': 'Reproduzindo…',
+        'preflight.heardYourself': 'Você se ouviu com clareza? Se não, escolha outro dispositivo ou ajuste os controles e teste novamente.',
+        'preflight.testFailed': 'O teste de áudio falhou. Verifique seus dispositivos e tente novamente.',
+
+        'error.missingMaterials': 'Informe instruções para a entrevista, um currículo ou uma descrição da vaga.',
+        'error.apiKeyNotConfigured': 'A chave de API não está configurada. É um problema de configuração que precisa ser resolvido por um desenvolvedor.',
+        'error.micDenied': 'O acesso ao microfone foi negado. Ative a permissão do microfone para este site nas configurações do navegador e tente novamente.',
+        'error.micNotFound': 'Nenhum microfone foi encontrado no seu dispositivo. Conecte um microfone e tente novamente.',
+        'error.micNotReadable': 'O microfone apresentou um erro de hardware ou está sendo usado por outro aplicativo. Verifique o microfone e tente novamente.',
+
+        'apiError.invalidKey': 'A chave de API informada é inválida ou não está ativada para este projeto. Verifique sua configuração.',
+        'apiError.permission': 'Você não tem permissão para acessar este recurso. A chave de API ou as configurações do projeto podem estar incorretas.',
+        'apiError.quota': 'A cota de requisições da API foi excedida. Aguarde um pouco antes de tentar novamente.',
+        'apiError.rateLimited': 'Muitas requisições. Aguarde um momento e tente novamente.',
+        'apiError.safety': 'A solicitação foi bloqueada pela política de segurança. Ajuste seu roteiro e tente novamente.',
+        'apiError.server': 'O serviço de IA está com problemas no momento. Tente novamente mais tarde.',
+        'apiError.network': 'Ocorreu um erro de rede. Verifique sua conexão com a internet e tente novamente.',
+        'apiError.unknown': 'Ocorreu um erro desconhecido.',
+        'apiError.start': 'Não foi possível iniciar a entrevista: {message}.',
+        'apiError.summary': 'Ocorreu um erro da API ao gerar o resumo: {message}',
+
+        'history.title': 'Histórico de entrevistas',
+        'history.loadFailed': 'Não foi possível carregar seu histórico de entrevistas.',
+        'history.deleteFailed': 'Não foi possível excluir a entrevista.',
+        'history.confirmDelete': 'Excluir a entrevista de {date}?',
+        'history.empty': 'Nenhuma entrevista salva ainda.',
+        'history.turns': '{count} falas',
+        'history.open': 'Abrir',
+        'history.openLabel': 'Abrir entrevista',
+        'history.duplicateTitle': 'Iniciar uma nova entrevista com este roteiro',
+        'history.duplicateLabel': 'Duplicar o roteiro em uma nova entrevista',
+        'history.delete': 'Excluir entrevista',
+
+        'templates.title': 'Modelos de entrevista',
+        'templates.mine': 'Meus modelos',
+        'templates.presets': 'Predefinidos',
+        'templates.new': 'Novo modelo',
+        'templates.edit': 'Editar modelo',
+        'templates.name': 'Nome',
+        'templates.description': 'Descrição',
+        'templates.language': 'Idioma',
+        'templates.save': 'Salvar modelo',
+        'templates.use': 'Usar',
+        'templates.editLabel': 'Editar modelo',
+        'templates.duplicateLabel': 'Duplicar modelo',
+        'templates.exportTitle': 'Exportar como JSON',
+        'templates.exportLabel': 'Exportar modelo como JSON',
+        'templates.deleteLabel': 'Excluir modelo',
+        'templates.import': 'Importar JSON',
+        'templates.exportMine': 'Exportar meus modelos',
+        'templates.copyName': '{name} (cópia)',
+        'templates.confirmDelete': 'Excluir o modelo "{name}"?',
+        'templates.imported': 'Modelos importados: {count}.',
+        'templates.loadFailed': 'Não foi possível carregar seus modelos.',
+        'templates.saveFailed': 'Não foi possível salvar o modelo.',
+        'templates.deleteFailed': 'Não foi possível excluir o modelo.',
+        'templates.importFailed': 'Não foi possível importar os modelos: {message}',
+
+        'document.upload': 'Enviar',
+        'document.reading': 'Lendo...',
+        'document.unsupportedType': 'Tipo de arquivo ".{extension}" não suportado. Envie um arquivo PDF, DOCX, TXT ou Markdown.',
+        'document.readFailed': 'Não foi possível ler "{fileName}". Verifique se é um arquivo PDF, DOCX, TXT ou Markdown válido.',
+
+        'focusAreas.placeholder': 'ex.: Design de sistemas, Liderança',
+
+        'plan.inputTitle': 'Plano de perguntas (opcional)',
+        'plan.inputSummary': '{sections} seções, {questions} perguntas, ~{minutes} min',
+        'plan.inputHelp': 'Comece cada seção com "#" e cada pergunta com "-". Adicione "(10 min)" a uma seção ou "(2 follow-ups)" a uma pergunta para definir limites.',
+        'plan.title': 'Plano de perguntas',
+        'plan.progressLabel': 'Progresso do plano de perguntas',
+        'plan.compactProgress': '{asked} de {total} perguntas feitas',
+        'plan.showPlan': 'Mostrar plano',
+        'plan.hidePlan': 'Ocultar plano',
+        'plan.skipped': 'Perguntas puladas',
+        'plan.allAsked': 'Todas as perguntas do plano foram feitas.',
+
+        'persona.interviewer': 'Entrevistador',
+        'persona.panelStyle': 'Estilo da banca',
+        'persona.sharedByPanel': 'Comum a todos os membros da banca',
+        'persona.name': 'Nome (opcional)',
+        'persona.namePlaceholder': 'ex.: Alex',
+        'persona.company': 'Empresa (opcional)',
+        'persona.companyPlaceholder': 'ex.: Acme Corp',
+        'persona.tone': 'Tom',
+        'persona.difficulty': 'Dificuldade',
+        'persona.voice': 'Voz',
+        'persona.preview': 'Ouvir {voice}',
+        'persona.previewUnavailable': 'A prévia desta voz não está disponível no momento.',
+
+        'tone.friendly': 'Amigável',
+        'tone.neutral': 'Neutro',
+        'tone.high-pressure': 'Sob pressão (entrevista de estresse)',
+
+        'difficulty.junior': 'Júnior',
+        'difficulty.mid': 'Pleno',
+        'difficulty.senior': 'Sênior',
+        'difficulty.executive': 'Executivo',
+
+        'voiceStyle.firm': 'Firme',
+        'voiceStyle.upbeat': 'Animada',
+        'voiceStyle.informative': 'Informativa',
+        'voiceStyle.excitable': 'Entusiasmada',
+        'voiceStyle.breezy': 'Descontraída',
+        'voiceStyle.youthful': 'Jovem',
+        'voiceStyle.bright': 'Vibrante',
+
+        'panel.toggle': 'Entrevista com banca',
+        'panel.toggleHelp': '({min}–{max} entrevistadores que se revezam)',
+        'panel.namePlaceholder': 'Nome',
+        'panel.nameLabel': 'Nome do membro da banca {number}',
+        'panel.rolePlaceholder': 'Cargo, ex.: Tech Lead',
+        'panel.roleLabel': 'Cargo do membro da banca {number}',
+        'panel.voiceLabel': 'Voz do membro da banca {number}',
+        'panel.focusPlaceholder': 'O que pergunta, ex.: design de sistemas',
+        'panel.focusLabel': 'Foco do membro da banca {number}',
+        'panel.remove': 'Remover membro da banca',
+        'panel.removeLabel': 'Remover o membro da banca {number}',
+        'panel.add': 'Adicionar membro da banca',
+        'panel.sharedVoices': 'Alguns membros da banca têm a mesma voz, o que dificulta distingui-los.',
+
+        'voice.calibration': 'Calibração do microfone',
+        'voice.stayQuiet': 'Fique em silêncio por um momento...',
+        'voice.readAloud': 'Agora leia em voz alta: “{sentence}”',
+        'voice.calibrationSentence': 'Estou calibrando meu microfone para que o entrevistador saiba quando terminei de falar.',
+        'voice.calibrated': 'Ruído de fundo {noiseFloor}, sua voz {speechLevel}, limiar de fala {threshold}.',
+        'voice.notCalibrated': 'Não calibrado. Calibre para que o entrevistador distinga sua voz do ruído de fundo.',
+        'voice.lowSignal': 'Sua voz ficou pouco acima do ruído de fundo. Aproxime-se do microfone ou aumente a sensibilidade.',
+        'voice.calibrate': 'Calibrar',
+        'voice.recalibrate': 'Recalibrar',
+        'voice.calibrating': 'Calibrando...',
+        'voice.micDenied': 'O acesso ao microfone foi negado. Permita o microfone para calibrá-lo.',
+        'voice.calibrationFailed': 'Não foi possível calibrar o microfone. Verifique-o e tente novamente.',
+        'voice.turnTaking': 'Troca de turnos',
+        'voice.patience': 'Espera pelo fim da resposta: {seconds} s',
+        'voice.patienceHelp': 'Quanto tempo você pode pausar antes que sua resposta seja considerada encerrada.',
+
+        'turnTaking.auto': 'Automático',
+        'turnTaking.autoDescription': 'Sua resposta termina após uma pausa.',
+        'turnTaking.push-to-talk': 'Pressionar para falar',
+        'turnTaking.push-to-talkDescription': 'Mantenha o botão ou a barra de espaço pressionados enquanto responde.',
+        'turnTaking.tap-to-finish': 'Tocar para terminar',
+        'turnTaking.tap-to-finishDescription': 'Seu microfone abre quando o entrevistador termina; toque no botão ou em Espaço quando acabar.',
+        'turnTaking.listening': 'Ouvindo... solte para terminar',
+        'turnTaking.holdToTalk': 'Segure para falar (Espaço)',
+        'turnTaking.finishAnswer': 'Terminar minha resposta (Espaço)',
+        'turnTaking.startAnswer': 'Começar a responder (Espaço)',
+
+        'typedAnswer.placeholder': 'Digite sua resposta e pressione Enter...',
+        'typedAnswer.label': 'Sua resposta',
+        'typedAnswer.send': 'Enviar',
+
+        'countdown.label': 'Tempo restante',
+        'countdown.remaining': 'restante',
+        'countdown.wrappingUp': 'Encerrando',
+        'countdown.paused': 'pausado',
+
+        'coaching.label': 'Dicas',
+        'coaching.title': 'Dicas',
+        'coaching.runningLong': 'Sua resposta está ficando longa. Conclua com o resultado.',
+        'coaching.offTopic': 'Isso ainda não responde à pergunta: “{question}”',
+        'coaching.waitingForHints': 'As dicas para esta pergunta aparecerão aqui.',
+        'coaching.waitingForQuestion': 'As dicas aparecerão quando a primeira pergunta for feita.',
+        'coaching.privacy': 'Só você vê estas dicas. Elas nunca são enviadas ao entrevistador.',
+        'coaching.showHints': 'Mostrar dicas',
+        'coaching.hideHints': 'Ocultar dicas',
+
+        'summary.overallScore': 'Nota geral',
+        'summary.chartLabel': 'Gráfico de notas por competência',
+        'summary.notScored': 'Sem nota',
+        'summary.panelFeedback': 'Feedback da banca',
+        'summary.detailedFeedback': 'Feedback detalhado',
+
+        'feedback.version': 'Versão',
+        'feedback.versionLabel': 'Versão {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': 'Gerar novamente em',
+        'feedback.emphasis': 'Ênfase',
+        'feedback.regenerate': 'Gerar novamente',
+
+        'emphasis.balanced': 'Equilibrada',
+        'emphasis.technical': 'Profundidade técnica',
+        'emphasis.communication': 'Comunicação',
+        'emphasis.leadership': 'Liderança',
+
+        'recommendation.STRONG_HIRE': 'Contratar com certeza',
+        'recommendation.HIRE': 'Contratar',
+        'recommendation.LEAN_HIRE': 'Tendência a contratar',
+        'recommendation.LEAN_NO_HIRE': 'Tendência a não contratar',
+        'recommendation.NO_HIRE': 'Não contratar',
+
+        'competency.communication': 'Comunicação',
+        'competency.problemSolving': 'Resolução de problemas',
+        'competency.roleFit': 'Adequação à vaga',
+        'competency.leadership': 'Liderança',
+        'competency.selfAwareness': 'Autoconhecimento',
+
+        'delivery.pace': 'Ritmo',
+        'delivery.wordsPerMinute': 'palavras por minuto',
+        'delivery.charactersPerMinute': 'caracteres por minuto',
+        'delivery.fillerWords': 'Vícios de linguagem',
+        'delivery.averageResponseTime': 'Tempo médio de resposta',
+        'delivery.silenceBeforeAnswering': 'silêncio antes de responder',
+        'delivery.longestAnswer': 'Resposta mais longa',
+        'delivery.candidateShare': 'Você {percent}% · {duration}',
+        'delivery.interviewerShare': 'Entrevistador {percent}% · {duration}',
+        'delivery.talkTimeLabel': 'Divisão do tempo de fala',
+        'delivery.silenceBeforeEachAnswer': 'Silêncio antes de cada resposta',
+        'delivery.longestAnswerQuote': 'Resposta mais longa: “{text}”',
+
+        'transcript.title': 'Transcrição completa',
+        'transcript.download': 'Baixar {format}',
+        'transcript.downloadWav': 'Baixar WAV',
+        'transcript.converting': 'Convertendo...',
+
+        'answers.title': 'Feedback das respostas',
+        'answers.selectHint': 'Clique em uma pergunta ou resposta na transcrição para ver o feedback correspondente.',
+        'answers.noAnswers': 'Não há respostas para avaliar. Clique em uma pergunta para praticá-la.',
+        'answers.practice': 'Praticar esta pergunta',
+        'answers.reviewing': 'Analisando suas respostas...',
+        'answers.generate': 'Obter feedback sobre minhas respostas',
+        'answers.generateHint': 'O feedback sobre todas as respostas é gerado de uma vez quando você pede.',
+        'answers.generateFailed': 'Não foi possível gerar feedback sobre suas respostas.',
+        'answers.noCritique': 'Não há feedback disponível para esta resposta.',
+        'answers.starLabel': 'Estrutura STAR',
+        'answers.yourAnswer': 'Sua resposta',
+        'answers.strongerAnswer': 'Uma resposta melhor',
+
+        'questionKind.behavioral': 'Comportamental',
+        'questionKind.technical': 'Técnica',
+        'questionKind.general': 'Geral',
+
+        'star.situation': 'Situação',
+        'star.task': 'Tarefa',
+        'star.action': 'Ação',
+        'star.result': 'Resultado',
+
+        'practice.title': 'Rodada de prática',
+        'practice.originalAnswer': 'Resposta original',
+        'practice.attempt': 'Tentativa {number}',
+        'practice.attemptsLabel': 'Tentativas de prática',
+        'practice.noAnswer': 'Nenhuma resposta foi registrada.',
+        'practice.whatChanged': 'O que mudou',
+        'practice.comparisonFailed': 'Não foi possível gerar a comparação para esta tentativa.',
+        'practice.backToResults': 'Voltar aos resultados',
+
+        'export.label': 'Exportar:',
+        'export.reportTitle': 'Relatório da entrevista',
+        'export.date': 'Data',
+        'export.duration': 'Duração',
+        'export.language': 'Idioma',
+        'export.panel': 'Painel',
+        'export.coaching': 'Dicas de orientação',
+        'export.coachingOn': 'Ativadas',
+        'export.instructions': 'Instruções da entrevista',
+        'export.focusAreas': 'Áreas de foco',
+        'export.jobDescription': 'Descrição da vaga',
+        'export.resume': 'Currículo da pessoa candidata',
+        'export.competency': 'Competência',
+        'export.score': 'Pontuação',
+        'export.rationale': 'Justificativa',
+        'export.evidence': 'Evidências de {competency}',
+    },
+};
+
+export default pt;
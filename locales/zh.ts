@@ -0,0 +1,349 @@
+import type { LocaleCatalog } from '../utils/i18n';
+
+const zh: LocaleCatalog = {
+    code: 'zh',
+    name: '中文',
+    interviewLanguage: 'Mandarin Chinese',
+    dir: 'ltr',
+    welcome: (name, company) => `您好，欢迎参加${company ? `${company}的` : ''}面试。${name ? `我是${name}。` : ''}面试很快就会开始。`,
+    fillerWords: { words: ['那个', '这个', '就是', '然后', '嗯'], spaced: false },
+    messages: {
+        'common.back': '返回',
+        'common.cancel': '取消',
+        'common.close': '关闭',
+        'common.loading': '加载中...',
+        'common.tryAgain': '重试',
+        'common.typed': '文字',
+        'common.minutes': '{minutes} 分钟',
+        'common.durationLabel': '时长（分钟）',
+        'common.focusAreasLabel': '重点领域（用逗号分隔）',
+        'common.unknownError': '未知错误',
+
+        'app.title': 'AI 面试模拟器',
+        'app.intro': '描述这场面试，并添加候选人的简历和职位描述。AI 将根据这些内容进行实时语音面试。',
+        'app.templates': '模板',
+        'app.history': '历史记录',
+        'app.uiLanguage': '界面语言',
+        'app.interviewLanguage': '面试语言',
+        'app.answerBy': '回答方式',
+        'app.answerBySpeaking': '语音（麦克风）',
+        'app.answerByTyping': '打字',
+        'app.coachingToggle': '回答时显示辅导提示',
+        'app.coachingToggleHelp': '（只有您能看到的要点和提醒）',
+        'app.instructionsLabel': '面试说明',
+        'app.instructionsPlaceholder': '例如：为初级软件工程师岗位进行面试。',
+        'app.resumeLabel': '候选人简历',
+        'app.resumePlaceholder': '粘贴简历，或上传 PDF、DOCX、TXT 或 Markdown 文件。',
+        'app.jobDescriptionLabel': '职位描述',
+        'app.jobDescriptionPlaceholder': '粘贴职位描述，或上传 PDF、DOCX、TXT 或 Markdown 文件。',
+        'app.startInterview': '开始面试',
+        'app.connecting': '正在连接...',
+        'app.connectingDetail': '正在准备面试。',
+        'app.comparingAttempts': '正在比较回答...',
+        'app.comparingAttemptsDetail': 'AI 正在分析您的回答有哪些变化。',
+        'app.generatingFeedback': '正在生成反馈...',
+        'app.generatingFeedbackDetail': 'AI 正在分析您的对话。',
+        'app.interviewComplete': '面试已结束',
+        'app.coachingOn': '已开启辅导',
+        'app.performanceSummary': '表现总结',
+        'app.noSummary': '暂无总结。',
+        'app.retryFeedback': '重新生成反馈',
+        'app.transcriptKept': '您的文字记录已保存，不会丢失任何内容。',
+        'app.feedbackCancelled': '已取消生成反馈。',
+        'app.delivery': '表达',
+        'app.startNewInterview': '开始新的面试',
+        'app.typedAnswers': '文字回答',
+        'app.interviewerWillBegin': '面试官即将开始...',
+        'app.reconnecting': '连接已断开。正在重新连接（第 {attempt} 次，共 {max} 次）...',
+        'app.micDeniedFallback': '麦克风访问被拒绝，因此改为文字回答。',
+        'app.micNotFoundFallback': '未找到麦克风，因此改为文字回答。',
+        'app.paused': '面试已暂停。继续之前，麦克风和面试官都处于静音状态。',
+        'app.pause': '暂停',
+        'app.resume': '继续',
+        'app.endInterview': '结束面试',
+        'app.endPractice': '结束练习',
+
+        'audio.micSensitivity': '麦克风灵敏度',
+        'audio.speakerVolume': '扬声器音量',
+        'audio.hearingYou': '正在收音',
+        'audio.silent': '无声',
+
+        'devices.microphone': '麦克风',
+        'devices.speakers': '扬声器',
+        'devices.systemDefault': '系统默认',
+        'devices.unnamedInput': '麦克风 {number}',
+        'devices.unnamedOutput': '扬声器 {number}',
+        'devices.outputUnsupported': '此浏览器始终通过系统默认输出播放音频。',
+        'devices.micLevel': '麦克风音量',
+        'devices.micDisconnected': '您的麦克风已断开，现在使用系统默认麦克风。',
+        'devices.speakersDisconnected': '您的扬声器已断开，现在通过系统默认输出播放音频。',
+        'devices.micUnavailable': '没有可用的麦克风。请连接一个麦克风以继续语音回答。',
+
+        'preflight.title': '检查音频',
+        'preflight.intro': '选择麦克风和扬声器，然后录制一段简短测试，听听您的声音效果。',
+        'preflight.test': '录制 {seconds} 秒测试',
+        'preflight.recording': '正在录音… 请说几句话。',
+        'preflight.playing': '正在回放…',
+        'preflight.heardYourself': '您听清自己的声音了吗？如果没有，请选择其他设备或调整滑块后再测试一次。',
+        'preflight.testFailed': '音频测试失败。请检查您的设备后重试。',
+
+        'error.missingMaterials': '请提供面试说明、简历或职位描述。',
+        'error.apiKeyNotConfigured': 'API 密钥尚未配置。这是需要开发者处理的配置问题。',
+        'error.micDenied': '麦克风访问被拒绝。请在浏览器设置中允许此网站使用麦克风，然后重试。',
+        'error.micNotFound': '您的设备上未找到麦克风。请连接麦克风后重试。',
+        'error.micNotReadable': '麦克风出现硬件错误，或正被其他应用占用。请检查麦克风后重试。',
+
+        'apiError.invalidKey': '提供的 API 密钥无效，或未在此项目中启用。请检查您的配置。',
+        'apiError.permission': '您没有访问此资源的权限。可能是 API 密钥或项目设置有误。',
+        'apiError.quota': '已超出 API 请求配额。请稍等片刻再试。',
+        'apiError.rateLimited': '请求过于频繁。请稍等片刻再试。',
+        'apiError.safety': '请求因安全政策被拦截。请修改脚本后重试。',
+        'apiError.server': 'AI 服务目前出现问题。请稍后再试。',
+        'apiError.network': '发生网络错误。请检查网络连接后重试。',
+        'apiError.unknown': '发生未知错误。',
+        'apiError.start': '无法开始面试：{message}。',
+        'apiError.summary': '生成总结时发生 API 错误：{message}',
+
+        'history.title': '面试历史',
+        'history.loadFailed': '无法加载您的面试历史。',
+        'history.deleteFailed': '无法删除该面试。',
+        'history.confirmDelete': '删除 {date} 的面试？',
+        'history.empty': '还没有保存的面试。',
+        'history.turns': '{count} 轮发言',
+        'history.open': '打开',
+        'history.openLabel': '打开面试',
+        'history.duplicateTitle': '用此脚本开始新的面试',
+        'history.duplicateLabel': '将脚本复制到新的面试',
+        'history.delete': '删除面试',
+
+        'templates.title': '面试模板',
+        'templates.mine': '我的模板',
+        'templates.presets': '预设模板',
+        'templates.new': '新建模板',
+        'templates.edit': '编辑模板',
+        'templates.name': '名称',
+        'templates.description': '描述',
+        'templates.language': '语言',
+        'templates.save': '保存模板',
+        'templates.use': '使用',
+        'templates.editLabel': '编辑模板',
+        'templates.duplicateLabel': '复制模板',
+        'templates.exportTitle': '导出为 JSON',
+        'templates.exportLabel': '将模板导出为 JSON',
+        'templates.deleteLabel': '删除模板',
+        'templates.import': '导入 JSON',
+        'templates.exportMine': '导出我的模板',
+        'templates.copyName': '{name}（副本）',
+        'templates.confirmDelete': '删除模板“{name}”？',
+        'templates.imported': '已导入模板：{count} 个。',
+        'templates.loadFailed': '无法加载您的模板。',
+        'templates.saveFailed': '无法保存模板。',
+        'templates.deleteFailed': '无法删除模板。',
+        'templates.importFailed': '无法导入模板：{message}',
+
+        'document.upload': '上传',
+        'document.reading': '正在读取...',
+        'document.unsupportedType': '不支持“.{extension}”类型的文件。请上传 PDF、DOCX、TXT 或 Markdown 文件。',
+        'document.readFailed': '无法读取“{fileName}”。请确认它是有效的 PDF、DOCX、TXT 或 Markdown 文件。',
+
+        'focusAreas.placeholder': '例如：系统设计、领导力',
+
+        'plan.inputTitle': '问题计划（可选）',
+        'plan.inputSummary': '{sections} 个部分，{questions} 个问题，约 {minutes} 分钟',
+        'plan.inputHelp': '每个部分以“#”开头，每个问题以“-”开头。在部分后加“(10 min)”或在问题后加“(2 follow-ups)”可设置限制。',
+        'plan.title': '问题计划',
+        'plan.progressLabel': '问题计划进度',
+        'plan.compactProgress': '已提问 {asked}/{total} 个问题',
+        'plan.showPlan': '显示计划',
+        'plan.hidePlan': '隐藏计划',
+        'plan.skipped': '已跳过的问题',
+        'plan.allAsked': '计划中的问题已全部提出。',
+
+        'persona.interviewer': '面试官',
+        'persona.panelStyle': '小组风格',
+        'persona.sharedByPanel': '所有小组成员通用',
+        'persona.name': '姓名（可选）',
+        'persona.namePlaceholder': '例如：Alex',
+        'persona.company': '公司（可选）',
+        'persona.companyPlaceholder': '例如：Acme Corp',
+        'persona.tone': '语气',
+        'persona.difficulty': '难度',
+        'persona.voice': '声音',
+        'persona.preview': '试听 {voice}',
+        'persona.previewUnavailable': '此声音暂时无法试听。',
+
+        'tone.friendly': '友好',
+        'tone.neutral': '中立',
+        'tone.high-pressure': '高压（压力面试）',
+
+        'difficulty.junior': '初级',
+        'difficulty.mid': '中级',
+        'difficulty.senior': '高级',
+        'difficulty.executive': '高管',
+
+        'voiceStyle.firm': '坚定',
+        'voiceStyle.upbeat': '欢快',
+        'voiceStyle.informative': '知性',
+        'voiceStyle.excitable': '活泼',
+        'voiceStyle.breezy': '轻松',
+        'voiceStyle.youthful': '年轻',
+        'voiceStyle.bright': '明亮',
+
+        'panel.toggle': '小组面试',
+        'panel.toggleHelp': '（{min}–{max} 位面试官轮流提问）',
+        'panel.namePlaceholder': '姓名',
+        'panel.nameLabel': '第 {number} 位面试官的姓名',
+        'panel.rolePlaceholder': '职位，例如技术负责人',
+        'panel.roleLabel': '第 {number} 位面试官的职位',
+        'panel.voiceLabel': '第 {number} 位面试官的声音',
+        'panel.focusPlaceholder': '提问方向，例如系统设计',
+        'panel.focusLabel': '第 {number} 位面试官的提问方向',
+        'panel.remove': '移除面试官',
+        'panel.removeLabel': '移除第 {number} 位面试官',
+        'panel.add': '添加面试官',
+        'panel.sharedVoices': '部分面试官使用了相同的声音，会较难分辨。',
+
+        'voice.calibration': '麦克风校准',
+        'voice.stayQuiet': '请保持安静片刻...',
+        'voice.readAloud': '现在请朗读：“{sentence}”',
+        'voice.calibrationSentence': '我正在校准麦克风，让面试官知道我什么时候说完。',
+        'voice.calibrated': '背景噪音 {noiseFloor}，您的声音 {speechLevel}，语音阈值 {threshold}。',
+        'voice.notCalibrated': '尚未校准。校准后，面试官才能区分您的声音和背景噪音。',
+        'voice.lowSignal': '您的声音几乎没有高于背景噪音。请靠近麦克风或调高灵敏度。',
+        'voice.calibrate': '校准',
+        'voice.recalibrate': '重新校准',
+        'voice.calibrating': '正在校准...',
+        'voice.micDenied': '麦克风访问被拒绝。请允许使用麦克风以进行校准。',
+        'voice.calibrationFailed': '无法校准麦克风。请检查麦克风后重试。',
+        'voice.turnTaking': '轮流发言',
+        'voice.patience': '回答结束等待时间：{seconds} 秒',
+        'voice.patienceHelp': '停顿多久后视为您的回答已结束。',
+
+        'turnTaking.auto': '自动',
+        'turnTaking.autoDescription': '停顿后自动结束回答。',
+        'turnTaking.push-to-talk': '按住说话',
+        'turnTaking.push-to-talkDescription': '回答时按住按钮或空格键。',
+        'turnTaking.tap-to-finish': '点按结束',
+        'turnTaking.tap-to-finishDescription': '面试官说完后麦克风会打开；回答完毕时点按按钮或空格键。',
+        'turnTaking.listening': '正在聆听...松开即结束',
+        'turnTaking.holdToTalk': '按住说话（空格键）',
+        'turnTaking.finishAnswer': '结束回答（空格键）',
+        'turnTaking.startAnswer': '开始回答（空格键）',
+
+        'typedAnswer.placeholder': '输入您的回答并按 Enter...',
+        'typedAnswer.label': '您的回答',
+        'typedAnswer.send': '发送',
+
+        'countdown.label': '剩余时间',
+        'countdown.remaining': '剩余',
+        'countdown.wrappingUp': '即将结束',
+        'countdown.paused': '已暂停',
+
+        'coaching.label': '辅导',
+        'coaching.title': '辅导',
+        'coaching.runningLong': '回答有点长了。用结果来收尾吧。',
+        'coaching.offTopic': '还没有回答这个问题：“{question}”',
+        'coaching.waitingForHints': '此问题的提示将显示在这里。',
+        'coaching.waitingForQuestion': '提出第一个问题后将显示提示。',
+        'coaching.privacy': '这些提示只有您能看到，绝不会发送给面试官。',
+        'coaching.showHints': '显示提示',
+        'coaching.hideHints': '隐藏提示',
+
+        'summary.overallScore': '总分',
+        'summary.chartLabel': '各项能力得分图',
+        'summary.notScored': '未评分',
+        'summary.panelFeedback': '小组反馈',
+        'summary.detailedFeedback': '详细反馈',
+
+        'feedback.version': '版本',
+        'feedback.versionLabel': '版本 {number} · {language} · {emphasis}',
+        'feedback.regenerateIn': '重新生成语言',
+        'feedback.emphasis': '侧重点',
+        'feedback.regenerate': '重新生成',
+
+        'emphasis.balanced': '均衡',
+        'emphasis.technical': '技术深度',
+        'emphasis.communication': '沟通',
+        'emphasis.leadership': '领导力',
+
+        'recommendation.STRONG_HIRE': '强烈推荐录用',
+        'recommendation.HIRE': '录用',
+        'recommendation.LEAN_HIRE': '倾向录用',
+        'recommendation.LEAN_NO_HIRE': '倾向不录用',
+        'recommendation.NO_HIRE': '不录用',
+
+        'competency.communication': '沟通',
+        'competency.problemSolving': '解决问题',
+        'competency.roleFit': '岗位匹配度',
+        'competency.leadership': '领导力',
+        'competency.selfAwareness': '自我认知',
+
+        'delivery.pace': '语速',
+        'delivery.wordsPerMinute': '词/分钟',
+        'delivery.charactersPerMinute': '字/分钟',
+        'delivery.fillerWords': '口头禅',
+        'delivery.averageResponseTime': '平均反应时间',
+        'delivery.silenceBeforeAnswering': '回答前的沉默',
+        'delivery.longestAnswer': '最长的回答',
+        'delivery.candidateShare': '您 {percent}% · {duration}',
+        'delivery.interviewerShare': '面试官 {percent}% · {duration}',
+        'delivery.talkTimeLabel': '发言时间占比',
+        'delivery.silenceBeforeEachAnswer': '每次回答前的沉默',
+        'delivery.longestAnswerQuote': '最长的回答：“{text}”',
+
+        'transcript.title': '完整文字记录',
+        'transcript.download': '下载 {format}',
+        'transcript.downloadWav': '下载 WAV',
+        'transcript.converting': '正在转换...',
+
+        'answers.title': '回答反馈',
+        'answers.selectHint': '点击文字记录中的问题或回答即可查看对应反馈。',
+        'answers.noAnswers': '没有可以点评的回答。点击问题即可练习。',
+        'answers.practice': '练习这个问题',
+        'answers.reviewing': '正在点评您的回答...',
+        'answers.generate': '获取回答反馈',
+        'answers.generateHint': '所有回答的反馈会在您请求时一次性生成。',
+        'answers.generateFailed': '无法为您的回答生成反馈。',
+        'answers.noCritique': '此回答暂无反馈。',
+        'answers.starLabel': 'STAR 结构',
+        'answers.yourAnswer': '您的回答',
+        'answers.strongerAnswer': '更好的回答',
+
+        'questionKind.behavioral': '行为类',
+        'questionKind.technical': '技术类',
+        'questionKind.general': '综合类',
+
+        'star.situation': '情境',
+        'star.task': '任务',
+        'star.action': '行动',
+        'star.result': '结果',
+
+        'practice.title': '练习回合',
+        'practice.originalAnswer': '原始回答',
+        'practice.attempt': '第 {number} 次尝试',
+        'practice.attemptsLabel': '练习尝试',
+        'practice.noAnswer': '未记录到回答。',
+        'practice.whatChanged': '变化之处',
+        'practice.comparisonFailed': '无法为此次尝试生成比较。',
+        'practice.backToResults': '返回结果',
+
+        'export.label': '导出：',
+        'export.reportTitle': '面试报告',
+        'export.date': '日期',
+        'export.duration': '时长',
+        'export.language': '语言',
+        'export.panel': '面试小组',
+        'export.coaching': '辅导提示',
+        'export.coachingOn': '开启',
+        'export.instructions': '面试说明',
+        'export.focusAreas': '重点领域',
+        'export.jobDescription': '职位描述',
+        'export.resume': '候选人简历',
+        'export.competency': '能力',
+        'export.score': '得分',
+        'export.rationale': '理由',
+        'export.evidence': '{competency}的依据',
+    },
+};
+
+export default zh;
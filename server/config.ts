@@ -0,0 +1,34 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+// The relay server's settings, read from the environment. The API key and the choice of
+// provider are read by the backends themselves (GEMINI_API_KEY and INTERVIEW_BACKEND).
+export interface ServerConfig {
+    port: number;
+    host: string;
+    requestsPerMinute: number; // Per client, across REST calls and live session starts
+    coachingRequestsPerMinute: number; // Per client, for coaching hints, which have a budget of their own
+    maxLiveSessionsPerClient: number;
+    trustProxy: boolean; // Identify clients by X-Forwarded-For, for running behind a reverse proxy
+    staticDir: string | null; // The built app, served alongside the API when present
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+    const staticDir = path.resolve(env.STATIC_DIR || 'dist');
+    return {
+        port: readNumber(env.RELAY_PORT, DEFAULT_RELAY_PORT),
+        host: env.RELAY_HOST || '0.0.0.0',
+        requestsPerMinute: readNumber(env.RATE_LIMIT_PER_MINUTE, 30),
+        coachingRequestsPerMinute: readNumber(env.RATE_LIMIT_COACHING_PER_MINUTE, 30),
+        maxLiveSessionsPerClient: readNumber(env.MAX_LIVE_SESSIONS_PER_CLIENT, 2),
+        trustProxy: env.TRUST_PROXY === 'true',
+        staticDir: existsSync(path.join(staticDir, 'index.html')) ? staticDir : null,
+    };
+};
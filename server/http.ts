@@ -0,0 +1,60 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { RelayErrorResponse } from '../services/relayProtocol';
+import { ErrorKind, ErrorPayload } from '../utils/error';
+
+export const MAX_REQUEST_BYTES = 2 * 1024 * 1024; // Resumes, plans and transcripts; audio never goes over REST
+
+export const RATE_LIMITED: ErrorPayload = { kind: 'quota', messageKey: 'apiError.rateLimited', message: 'Too many requests' };
+
+// Thrown for requests the server cannot make sense of.
+export class BadRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BadRequestError';
+    }
+}
+
+// Upstream failures are the server's problem unless the client can do something about them.
+const STATUS_BY_KIND: Record<ErrorKind, number> = {
+    auth: 502,
+    quota: 429,
+    network: 502,
+    safety: 422,
+    server: 502,
+    device: 500,
+    unknown: 500,
+};
+
+export const statusForError = ({ kind }: ErrorPayload): number => STATUS_BY_KIND[kind];
+
+// The client's address, which is what rate limits are counted against.
+export const clientIdOf = (req: IncomingMessage, trustProxy: boolean): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress ?? 'unknown';
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, status: number, error: ErrorPayload) => {
+    sendJson(res, status, { error } satisfies RelayErrorResponse);
+};
+
+// Reads the request body as JSON. Its shape is checked by the parsers in validation.ts.
+export const readJson = async (req: IncomingMessage): Promise<unknown> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_REQUEST_BYTES) throw new BadRequestError('Request body too large');
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new BadRequestError('Request body is not valid JSON');
+    }
+};
@@ -0,0 +1,18 @@
+import { existsSync } from 'node:fs';
+import { createInterviewBackend } from '../services/interviewBackend';
+import { loadConfig } from './config';
+import { createRelayServer } from './relayServer';
+
+// Starts the relay server with the settings from the environment.
+
+// The same .env.local the app has always been configured with.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const config = loadConfig();
+const upstream = createInterviewBackend();
+const server = createRelayServer(config, upstream);
+
+server.listen(config.port, config.host, () => {
+    console.log(`Interview relay listening on http://${config.host}:${config.port} (upstream: ${upstream.name})`);
+    if (config.staticDir) console.log(`Serving the app from ${config.staticDir}`);
+});
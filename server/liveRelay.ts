@@ -0,0 +1,93 @@
+import { IncomingMessage } from 'node:http';
+import { Duplex } from 'node:stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { InterviewBackend, LiveInterviewSession } from '../services/interviewBackend';
+import { LiveClientFrame, LiveServerFrame, RELAY_PATHS } from '../services/relayProtocol';
+import { ErrorPayload, toErrorPayload } from '../utils/error';
+import { ServerConfig } from './config';
+import { BadRequestError, clientIdOf, MAX_REQUEST_BYTES, RATE_LIMITED } from './http';
+import { RateLimiter } from './rateLimiter';
+import { parseLiveClientFrame } from './validation';
+
+// Relays one live interview per WebSocket: the app's first frame opens the upstream session,
+// later frames are passed on as session input, and the session's callbacks come back as frames.
+export const createLiveRelay = (upstream: InterviewBackend, limiter: RateLimiter, config: ServerConfig) => {
+    const server = new WebSocketServer({ noServer: true, maxPayload: MAX_REQUEST_BYTES });
+    const openSessions = new Map<string, number>(); // By client
+
+    const relay = (socket: WebSocket, clientId: string) => {
+        const send = (frame: LiveServerFrame) => {
+            if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+        };
+        const fail = (error: ErrorPayload) => {
+            send({ type: 'error', error });
+            socket.close();
+        };
+
+        // A panel hand-over briefly needs two sessions, so the limit is on sessions at once as well as how often they start.
+        const open = openSessions.get(clientId) ?? 0;
+        if (open >= config.maxLiveSessionsPerClient || limiter.take(clientId)) {
+            fail(RATE_LIMITED);
+            return;
+        }
+        openSessions.set(clientId, open + 1);
+
+        let session: Promise<LiveInterviewSession> | null = null;
+        socket.on('message', (data: Buffer) => {
+            let frame: LiveClientFrame;
+            try {
+                frame = parseLiveClientFrame(JSON.parse(data.toString('utf8')));
+            } catch (err) {
+                fail({ kind: 'unknown', messageKey: null, message: err instanceof BadRequestError ? err.message : 'Frame is not valid JSON' });
+                return;
+            }
+            if (frame.type === 'connect') {
+                if (session) return;
+                session = upstream.connectLiveSession({
+                    ...frame.options,
+                    callbacks: {
+                        onopen: () => send({ type: 'open' }),
+                        onmessage: message => send({ type: 'message', message }),
+                        onerror: e => send({ type: 'error', error: toErrorPayload(e) }),
+                        onclose: e => {
+                            send({ type: 'close', code: e.code, reason: e.reason });
+                            socket.close();
+                        },
+                    },
+                });
+                session.then(() => send({ type: 'connected' }), err => {
+                    console.error('Failed to open the upstream live session:', err);
+                    fail(toErrorPayload(err));
+                });
+                return;
+            }
+            session?.then(upstreamSession => {
+                if (frame.type === 'realtimeInput') upstreamSession.sendRealtimeInput(frame.params);
+                else if (frame.type === 'toolResponse') upstreamSession.sendToolResponse(frame.params);
+                else if (frame.type === 'clientContent') upstreamSession.sendClientContent(frame.params);
+            }).catch(() => {
+                // Already reported when the session failed to open
+            });
+        });
+
+        // Oversized or malformed frames end up here. 'close' follows and tears the session down;
+        // without a listener the error would take the whole server down.
+        socket.on('error', err => console.error('Live relay socket failed:', err));
+
+        socket.on('close', () => {
+            const remaining = (openSessions.get(clientId) ?? 1) - 1;
+            if (remaining > 0) openSessions.set(clientId, remaining);
+            else openSessions.delete(clientId);
+            session?.then(upstreamSession => upstreamSession.close()).catch(() => {});
+        });
+    };
+
+    // Takes over upgrade requests for the live session path and turns every other one away.
+    return (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        if (new URL(req.url ?? '/', 'http://localhost').pathname !== RELAY_PATHS.live) {
+            socket.destroy();
+            return;
+        }
+        server.handleUpgrade(req, socket, head, ws => relay(ws, clientIdOf(req, config.trustProxy)));
+    };
+};
@@ -0,0 +1,37 @@
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+// A token bucket per client: a client may make `perMinute` requests in a burst,
+// after which tokens come back evenly over the minute.
+export class RateLimiter {
+    private readonly buckets = new Map<string, Bucket>();
+
+    constructor(private readonly perMinute: number) {}
+
+    // Takes a token for the client. Returns 0 if the request may go ahead, otherwise the seconds until one is free.
+    take(clientId: string, now: number = Date.now()): number {
+        const bucket = this.refill(clientId, now);
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return 0;
+        }
+        return Math.ceil((1 - bucket.tokens) * 60 / this.perMinute);
+    }
+
+    // Forgets clients whose buckets are full again, so the map only holds recent clients.
+    prune(now: number = Date.now()) {
+        for (const clientId of [...this.buckets.keys()]) {
+            if (this.refill(clientId, now).tokens >= this.perMinute) this.buckets.delete(clientId);
+        }
+    }
+
+    private refill(clientId: string, now: number): Bucket {
+        const bucket = this.buckets.get(clientId) ?? { tokens: this.perMinute, updatedAt: now };
+        bucket.tokens = Math.min(this.perMinute, bucket.tokens + (now - bucket.updatedAt) * this.perMinute / 60000);
+        bucket.updatedAt = now;
+        this.buckets.set(clientId, bucket);
+        return bucket;
+    }
+}
@@ -0,0 +1,287 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { localBackend } from '../services/localBackend';
+import { LiveClientFrame, LiveServerFrame, RELAY_PATHS, SummaryStreamEvent } from '../services/relayProtocol';
+import { InterviewMaterials, TranscriptEntry } from '../types';
+import { DEFAULT_PERSONA } from '../utils/persona';
+import { ServerConfig } from './config';
+import { MAX_REQUEST_BYTES } from './http';
+import { createRelayServer } from './relayServer';
+
+const materials: InterviewMaterials = { script: '', resume: '', jobDescription: '', focusAreas: [], questionPlan: null };
+const transcript: TranscriptEntry[] = [
+    { speaker: 'Interviewer', text: 'Tell me about a project you are proud of.' },
+    { speaker: 'You', text: 'I led the migration of our billing system and cut costs by a third.' },
+];
+
+const testConfig = (overrides: Partial<ServerConfig> = {}): ServerConfig => ({
+    port: 0,
+    host: '127.0.0.1',
+    requestsPerMinute: 100,
+    coachingRequestsPerMinute: 100,
+    maxLiveSessionsPerClient: 2,
+    trustProxy: false,
+    staticDir: null,
+    ...overrides,
+});
+
+const start = async (config: ServerConfig): Promise<{ server: Server; url: string }> => {
+    const server = createRelayServer(config, localBackend);
+    await new Promise<void>(resolve => server.listen(0, config.host, resolve));
+    return { server, url: `http://${config.host}:${(server.address() as AddressInfo).port}` };
+};
+
+const stop = (server: Server) => new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+});
+
+const post = (url: string, body: unknown) => fetch(url, { method: 'POST', body: typeof body === 'string' ? body : JSON.stringify(body) });
+
+// Opens a live relay socket and collects the frames the server sends back.
+const openLive = (url: string) => {
+    const socket = new WebSocket(`${url.replace('http', 'ws')}${RELAY_PATHS.live}`);
+    const frames: LiveServerFrame[] = [];
+    const waiters: (() => void)[] = [];
+    socket.on('message', (data: Buffer) => {
+        frames.push(JSON.parse(data.toString('utf8')));
+        waiters.splice(0).forEach(wake => wake());
+    });
+    const closed = new Promise<void>(resolve => socket.on('close', () => resolve()));
+    const opened = new Promise<void>((resolve, reject) => {
+        socket.on('open', () => resolve());
+        socket.on('error', reject);
+    });
+    const send = async (frame: LiveClientFrame | Record<string, unknown> | string) => {
+        await opened;
+        socket.send(typeof frame === 'string' ? frame : JSON.stringify(frame));
+    };
+    const waitFor = async (matches: (frame: LiveServerFrame) => boolean, timeoutMs = 5000): Promise<LiveServerFrame> => {
+        const deadline = Date.now() + timeoutMs;
+        for (;;) {
+            const found = frames.find(matches);
+            if (found) return found;
+            if (Date.now() > deadline) throw new Error(`No matching frame in ${JSON.stringify(frames.map(frame => frame.type))}`);
+            await new Promise<void>(resolve => {
+                waiters.push(resolve);
+                setTimeout(resolve, 100);
+            });
+        }
+    };
+    return { socket, frames, send, waitFor, closed };
+};
+
+const spokenText = (frames: LiveServerFrame[]): string =>
+    frames.map(frame => frame.type === 'message' ? frame.message.serverContent?.outputTranscription?.text ?? '' : '').join('');
+
+describe('relay server', () => {
+    let server: Server;
+    let url: string;
+    let staticDir: string;
+
+    beforeAll(async () => {
+        staticDir = await mkdtemp(path.join(tmpdir(), 'relay-static-'));
+        await writeFile(path.join(staticDir, 'index.html'), '<!doctype html><title>App</title>');
+        await writeFile(path.join(staticDir, 'app.js'), 'console.log("app");');
+        ({ server, url } = await start(testConfig({ staticDir })));
+    });
+
+    afterAll(async () => {
+        await stop(server);
+        await rm(staticDir, { recursive: true, force: true });
+    });
+
+    describe('REST', () => {
+        it('forwards calls upstream and answers with JSON', async () => {
+            const welcome = await post(url + RELAY_PATHS.welcomeAudio, { language: 'English', persona: DEFAULT_PERSONA });
+            expect(welcome.status).toBe(200);
+            expect((await welcome.json()).audio).toEqual(expect.any(String));
+
+            const critiques = await post(url + RELAY_PATHS.critiques, { transcript, language: 'English', materials });
+            expect(critiques.status).toBe(200);
+            expect(await critiques.json()).toHaveLength(1);
+
+            const comparison = await post(url + RELAY_PATHS.practiceComparison, { question: 'Why us?', answers: ['First', 'Second'], language: 'English' });
+            expect(comparison.status).toBe(200);
+            expect((await comparison.json()).comparison).toEqual(expect.any(String));
+        });
+
+        it('answers 400 for bodies that do not match the protocol', async () => {
+            const empty = await post(url + RELAY_PATHS.critiques, {});
+            expect(empty.status).toBe(400);
+            expect((await empty.json()).error.message).toBe('transcript must be an array');
+
+            const incompletePersona = await post(url + RELAY_PATHS.welcomeAudio, { language: 'English', persona: { voice: 'Kore' } });
+            expect(incompletePersona.status).toBe(400);
+
+            const unknownVoice = await post(url + RELAY_PATHS.welcomeAudio, { language: 'English', persona: { ...DEFAULT_PERSONA, voice: 'Nobody' } });
+            expect(unknownVoice.status).toBe(400);
+
+            expect((await post(url + RELAY_PATHS.coachingHints, { question: 'Q', answer: 'A', language: 'English' })).status).toBe(400);
+            expect((await post(url + RELAY_PATHS.critiques, 'null')).status).toBe(400);
+            expect((await post(url + RELAY_PATHS.critiques, '{"transcript":')).status).toBe(400);
+        });
+
+        it('turns away unknown endpoints and methods', async () => {
+            expect((await post(`${url}/api/nothing`, {})).status).toBe(404);
+            expect((await fetch(url + RELAY_PATHS.critiques)).status).toBe(405);
+        });
+    });
+
+    describe('summary', () => {
+        it('streams progress and then the summary, one JSON event per line', async () => {
+            const response = await post(url + RELAY_PATHS.summary, {
+                transcript,
+                language: 'English',
+                materials,
+                context: { panel: [], coachingEnabled: false },
+                emphasis: 'balanced',
+            });
+            expect(response.status).toBe(200);
+            expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+
+            const events: SummaryStreamEvent[] = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+            expect(events.length).toBeGreaterThan(1);
+            expect(events.slice(0, -1).every(event => event.type === 'progress')).toBe(true);
+            const last = events[events.length - 1];
+            expect(last.type).toBe('done');
+            if (last.type === 'done') expect(last.summary.competencies.length).toBeGreaterThan(0);
+        });
+
+        it('answers 400 before streaming when the request is malformed', async () => {
+            const response = await post(url + RELAY_PATHS.summary, { transcript, language: 'English', materials, emphasis: 'loudest' });
+            expect(response.status).toBe(400);
+            expect(response.headers.get('content-type')).toBe('application/json');
+        });
+    });
+
+    describe('live sessions', () => {
+        it('relays frames both ways', async () => {
+            const live = openLive(url);
+            await live.send({
+                type: 'connect',
+                options: { ...materials, language: 'English', durationMinutes: 5, manualTurnTaking: true, practiceQuestion: 'Why this role?', persona: DEFAULT_PERSONA },
+            });
+            await live.waitFor(frame => frame.type === 'open');
+            await live.waitFor(frame => frame.type === 'connected');
+            await live.waitFor(frame => frame.type === 'message' && !!frame.message.serverContent?.turnComplete);
+            expect(spokenText(live.frames)).toBe('Why this role?');
+
+            // A typed answer ends the candidate's turn, after which the interviewer closes.
+            const asked = live.frames.length;
+            await live.send({ type: 'clientContent', params: { turns: [{ role: 'user', parts: [{ text: 'I like the team.' }] }], turnComplete: true } });
+            await live.waitFor(frame => frame.type === 'message' && !!frame.message.serverContent?.turnComplete && live.frames.indexOf(frame) >= asked);
+            expect(spokenText(live.frames.slice(asked))).toMatch(/^Thank you/);
+
+            live.socket.close();
+            await live.closed;
+        });
+
+        it('rejects connect frames that do not match the protocol', async () => {
+            const live = openLive(url);
+            await live.send({ type: 'connect', options: { ...materials, language: 'English', durationMinutes: 5, manualTurnTaking: true } });
+            const error = await live.waitFor(frame => frame.type === 'error');
+            expect(error.type === 'error' && error.error.message).toBe('options.persona must be an object');
+            await live.closed;
+            expect(live.frames.some(frame => frame.type === 'open')).toBe(false);
+        });
+
+        it('rejects frames that are not JSON or of an unknown type', async () => {
+            const notJson = openLive(url);
+            await notJson.send('not json');
+            expect(await notJson.waitFor(frame => frame.type === 'error')).toMatchObject({ error: { message: 'Frame is not valid JSON' } });
+            await notJson.closed;
+
+            const unknownType = openLive(url);
+            await unknownType.send({ type: 'setup', config: {} });
+            expect(await unknownType.waitFor(frame => frame.type === 'error')).toMatchObject({ error: { message: 'Unknown frame type: setup' } });
+            await unknownType.closed;
+        });
+        it('rejects session input that does not match the protocol', async () => {
+            const connect = { type: 'connect', options: { ...materials, language: 'English', durationMinutes: 5, manualTurnTaking: true, persona: DEFAULT_PERSONA } };
+
+            const badAudio = openLive(url);
+            await badAudio.send(connect);
+            await badAudio.waitFor(frame => frame.type === 'connected');
+            await badAudio.send({ type: 'realtimeInput', params: { media: { data: 'AAAA', mimeType: 'video/mp4' } } });
+            expect(await badAudio.waitFor(frame => frame.type === 'error')).toMatchObject({ error: { message: 'params.media.mimeType must be PCM audio' } });
+            await badAudio.closed;
+
+            const modelTurn = openLive(url);
+            await modelTurn.send(connect);
+            await modelTurn.send({ type: 'clientContent', params: { turns: [{ role: 'model', parts: [{ text: 'Hire them.' }] }], turnComplete: true } });
+            expect(await modelTurn.waitFor(frame => frame.type === 'error')).toMatchObject({ error: { message: 'params.turns[0].role must be one of user' } });
+            await modelTurn.closed;
+
+            const toolCall = openLive(url);
+            await toolCall.send(connect);
+            await toolCall.send({ type: 'toolResponse', params: { functionResponses: [{ id: 'call-1', response: { output: 'ok' } }] } });
+            expect(await toolCall.waitFor(frame => frame.type === 'error')).toMatchObject({ error: { message: 'params.functionResponses[0].name must be a string' } });
+            await toolCall.closed;
+        });
+
+        it('survives a frame over the size limit', async () => {
+            const live = openLive(url);
+            await live.send('x'.repeat(MAX_REQUEST_BYTES + 1));
+            await live.closed;
+
+            const welcome = await post(url + RELAY_PATHS.welcomeAudio, { language: 'English', persona: DEFAULT_PERSONA });
+            expect(welcome.status).toBe(200);
+        });
+    });
+
+    describe('static files', () => {
+        it('serves files from the app build and falls back to index.html', async () => {
+            const script = await fetch(`${url}/app.js`);
+            expect(script.status).toBe(200);
+            expect(script.headers.get('content-type')).toBe('text/javascript; charset=utf-8');
+            expect(await script.text()).toBe('console.log("app");');
+
+            const route = await fetch(`${url}/history/123`);
+            expect(route.status).toBe(200);
+            expect(await route.text()).toContain('<title>App</title>');
+        });
+
+        it('answers 400 for malformed percent escapes', async () => {
+            expect((await fetch(`${url}/%E0%A4%A`)).status).toBe(400);
+        });
+    });
+});
+
+describe('rate limiting', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+        ({ server, url } = await start(testConfig({ requestsPerMinute: 2, coachingRequestsPerMinute: 1, maxLiveSessionsPerClient: 1 })));
+    });
+
+    afterAll(() => stop(server));
+
+    it('answers 429 with Retry-After once a client has used its budget', async () => {
+        const critique = () => post(url + RELAY_PATHS.critiques, { transcript, language: 'English', materials });
+        expect((await critique()).status).toBe(200);
+        expect((await critique()).status).toBe(200);
+
+        const limited = await critique();
+        expect(limited.status).toBe(429);
+        expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+        expect((await limited.json()).error).toMatchObject({ kind: 'quota', messageKey: 'apiError.rateLimited' });
+
+        // Live session starts come out of the same budget.
+        const live = openLive(url);
+        expect(await live.waitFor(frame => frame.type === 'error')).toMatchObject({ error: { kind: 'quota' } });
+        await live.closed;
+    });
+
+    it('counts coaching hints against a budget of their own', async () => {
+        const hints = () => post(url + RELAY_PATHS.coachingHints, { question: 'Why us?', answer: 'Because', language: 'English', materials });
+        expect((await hints()).status).toBe(200);
+        expect((await hints()).status).toBe(429);
+    });
+});
@@ -0,0 +1,54 @@
+import { createServer, Server } from 'node:http';
+import { InterviewBackend } from '../services/interviewBackend';
+import { RELAY_PATHS } from '../services/relayProtocol';
+import { ServerConfig } from './config';
+import { clientIdOf, RATE_LIMITED, sendError } from './http';
+import { createLiveRelay } from './liveRelay';
+import { RateLimiter } from './rateLimiter';
+import { handleApiRequest } from './routes';
+import { serveStatic } from './staticFiles';
+
+// The relay server: the only place the API key lives. The app calls it for everything
+// it needs from the AI provider, and it forwards each call upstream.
+
+const RATE_LIMIT_PRUNE_INTERVAL_MS = 60 * 1000;
+
+export const createRelayServer = (config: ServerConfig, upstream: InterviewBackend): Server => {
+    const limiter = new RateLimiter(config.requestsPerMinute);
+    // Coaching hints arrive every few seconds while the candidate answers. Counting them
+    // separately keeps them from using up the budget for summaries and critiques.
+    const coachingLimiter = new RateLimiter(config.coachingRequestsPerMinute);
+    const pruneTimer = setInterval(() => {
+        limiter.prune();
+        coachingLimiter.prune();
+    }, RATE_LIMIT_PRUNE_INTERVAL_MS);
+    pruneTimer.unref();
+
+    const server = createServer((req, res) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+        if (pathname.startsWith('/api/')) {
+            const budget = pathname === RELAY_PATHS.coachingHints ? coachingLimiter : limiter;
+            const retryAfterSeconds = budget.take(clientIdOf(req, config.trustProxy));
+            if (retryAfterSeconds) {
+                res.setHeader('Retry-After', retryAfterSeconds);
+                sendError(res, 429, RATE_LIMITED);
+                return;
+            }
+            handleApiRequest(upstream, req, res, pathname);
+            return;
+        }
+        if (config.staticDir) {
+            serveStatic(config.staticDir, pathname, res).catch(err => {
+                console.error(`Failed to serve ${pathname}:`, err);
+                if (!res.headersSent) res.writeHead(500);
+                res.end();
+            });
+            return;
+        }
+        res.writeHead(404);
+        res.end();
+    });
+    server.on('upgrade', createLiveRelay(upstream, limiter, config));
+    server.on('close', () => clearInterval(pruneTimer));
+    return server;
+};
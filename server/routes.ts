@@ -0,0 +1,80 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { InterviewBackend } from '../services/interviewBackend';
+import { RELAY_PATHS, SummaryStreamEvent } from '../services/relayProtocol';
+import { toErrorPayload } from '../utils/error';
+import { BadRequestError, readJson, sendError, sendJson, statusForError } from './http';
+import { parseCoachingHintsRequest, parseCritiquesRequest, parsePracticeComparisonRequest, parseSummaryRequest, parseWelcomeAudioRequest } from './validation';
+
+// Streams the summary as it is generated, one JSON event per line. The upstream call is
+// cancelled if the app goes away, which is how it cancels generation.
+const streamSummary = async (upstream: InterviewBackend, req: IncomingMessage, res: ServerResponse) => {
+    const { transcript, language, materials, context, emphasis } = parseSummaryRequest(await readJson(req));
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    const send = (event: SummaryStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    try {
+        const summary = await upstream.generateInterviewSummary(transcript, language, materials, context, {
+            emphasis,
+            signal: controller.signal,
+            onProgress: partial => send({ type: 'progress', partial }),
+        });
+        send({ type: 'done', summary });
+    } catch (err) {
+        if (!controller.signal.aborted) send({ type: 'error', error: toErrorPayload(err) });
+    } finally {
+        res.end();
+    }
+};
+
+const answer = async (upstream: InterviewBackend, req: IncomingMessage, res: ServerResponse, pathname: string) => {
+    switch (pathname) {
+        case RELAY_PATHS.welcomeAudio: {
+            const { language, persona } = parseWelcomeAudioRequest(await readJson(req));
+            sendJson(res, 200, { audio: await upstream.generateWelcomeAudio(language, persona) });
+            return;
+        }
+        case RELAY_PATHS.coachingHints: {
+            const { question, answer, language, materials } = parseCoachingHintsRequest(await readJson(req));
+            sendJson(res, 200, await upstream.generateCoachingHints(question, answer, language, materials));
+            return;
+        }
+        case RELAY_PATHS.summary:
+            await streamSummary(upstream, req, res);
+            return;
+        case RELAY_PATHS.critiques: {
+            const { transcript, language, materials } = parseCritiquesRequest(await readJson(req));
+            sendJson(res, 200, await upstream.generateAnswerCritiques(transcript, language, materials));
+            return;
+        }
+        case RELAY_PATHS.practiceComparison: {
+            const { question, answers, language } = parsePracticeComparisonRequest(await readJson(req));
+            sendJson(res, 200, { comparison: await upstream.comparePracticeAttempts(question, answers, language) });
+            return;
+        }
+        default:
+            sendError(res, 404, { kind: 'unknown', messageKey: null, message: `No such endpoint: ${pathname}` });
+    }
+};
+
+// Answers a REST call by forwarding it to the upstream provider. Failures go back as error payloads.
+export const handleApiRequest = async (upstream: InterviewBackend, req: IncomingMessage, res: ServerResponse, pathname: string) => {
+    if (req.method !== 'POST') {
+        sendError(res, 405, { kind: 'unknown', messageKey: null, message: `${req.method} is not supported` });
+        return;
+    }
+    try {
+        await answer(upstream, req, res, pathname);
+    } catch (err) {
+        if (err instanceof BadRequestError) {
+            sendError(res, 400, { kind: 'unknown', messageKey: null, message: err.message });
+            return;
+        }
+        console.error(`Relay request to ${pathname} failed:`, err);
+        const error = toErrorPayload(err);
+        if (res.headersSent) res.end();
+        else sendError(res, statusForError(error), error);
+    }
+};
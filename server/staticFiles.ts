@@ -0,0 +1,41 @@
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { ServerResponse } from 'node:http';
+import path from 'node:path';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.mjs': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+    '.wasm': 'application/wasm',
+};
+
+const isFile = async (filePath: string): Promise<boolean> => {
+    try {
+        return (await stat(filePath)).isFile();
+    } catch {
+        return false;
+    }
+};
+
+// Serves the built app from the same origin as the API. Paths that are not files get index.html.
+export const serveStatic = async (root: string, pathname: string, res: ServerResponse) => {
+    let decoded: string;
+    try {
+        decoded = decodeURIComponent(pathname);
+    } catch {
+        res.writeHead(400); // A malformed percent escape
+        res.end();
+        return;
+    }
+    const requested = path.resolve(root, `.${decoded}`);
+    const insideRoot = requested.startsWith(root + path.sep);
+    const filePath = insideRoot && await isFile(requested) ? requested : path.join(root, 'index.html');
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+    createReadStream(filePath).pipe(res);
+};
@@ -0,0 +1,287 @@
+import { Content, FunctionResponse, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from '@google/genai';
+import { LivePanelOptions, LiveSessionOptions, SummaryContext } from '../services/interviewBackend';
+import { CoachingHintsRequest, CritiquesRequest, LiveClientFrame, PracticeComparisonRequest, SummaryRequest, WelcomeAudioRequest } from '../services/relayProtocol';
+import { InterviewerPersona, InterviewMaterials, Panelist, PlanQuestion, PlanSection, QuestionPlan, TranscriptEntry } from '../types';
+import { difficultyOptions, PREBUILT_VOICES, toneOptions } from '../utils/persona';
+import { emphasisOptions } from '../utils/summary';
+import { BadRequestError } from './http';
+
+// Checks what the app sends against the relay protocol. Each parser copies only the fields
+// the protocol defines, so nothing else a client adds reaches the upstream provider.
+
+type Field<T> = (value: unknown, name: string) => T;
+
+const VOICES = PREBUILT_VOICES.map(voice => voice.name);
+const TONES = toneOptions.map(option => option.value);
+const DIFFICULTIES = difficultyOptions.map(option => option.value);
+const EMPHASES = emphasisOptions.map(option => option.value);
+const SPEAKERS: TranscriptEntry['speaker'][] = ['Interviewer', 'You'];
+
+const record: Field<Record<string, unknown>> = (value, name) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new BadRequestError(`${name} must be an object`);
+    return value as Record<string, unknown>;
+};
+
+const string: Field<string> = (value, name) => {
+    if (typeof value !== 'string') throw new BadRequestError(`${name} must be a string`);
+    return value;
+};
+
+const boolean: Field<boolean> = (value, name) => {
+    if (typeof value !== 'boolean') throw new BadRequestError(`${name} must be true or false`);
+    return value;
+};
+
+const nonNegativeNumber: Field<number> = (value, name) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw new BadRequestError(`${name} must be a number of at least 0`);
+    return value;
+};
+
+const oneOf = <T extends string>(options: readonly T[]): Field<T> => (value, name) => {
+    if (!options.includes(value as T)) throw new BadRequestError(`${name} must be one of ${options.join(', ')}`);
+    return value as T;
+};
+
+const arrayOf = <T>(item: Field<T>): Field<T[]> => (value, name) => {
+    if (!Array.isArray(value)) throw new BadRequestError(`${name} must be an array`);
+    return value.map((entry, i) => item(entry, `${name}[${i}]`));
+};
+
+const optional = <T>(field: Field<T>): Field<T | undefined> => (value, name) => value === undefined ? undefined : field(value, name);
+
+const persona: Field<InterviewerPersona> = (value, name) => {
+    const p = record(value, name);
+    return {
+        voice: oneOf(VOICES)(p.voice, `${name}.voice`),
+        tone: oneOf(TONES)(p.tone, `${name}.tone`),
+        difficulty: oneOf(DIFFICULTIES)(p.difficulty, `${name}.difficulty`),
+        name: string(p.name, `${name}.name`),
+        company: string(p.company, `${name}.company`),
+    };
+};
+
+const panelist: Field<Panelist> = (value, name) => {
+    const p = record(value, name);
+    return {
+        name: string(p.name, `${name}.name`),
+        role: string(p.role, `${name}.role`),
+        voice: oneOf(VOICES)(p.voice, `${name}.voice`),
+        focus: string(p.focus, `${name}.focus`),
+    };
+};
+
+const transcriptEntry: Field<TranscriptEntry> = (value, name) => {
+    const e = record(value, name);
+    const entry: TranscriptEntry = {
+        speaker: oneOf(SPEAKERS)(e.speaker, `${name}.speaker`),
+        text: string(e.text, `${name}.text`),
+    };
+    const startMs = optional(nonNegativeNumber)(e.startMs, `${name}.startMs`);
+    const endMs = optional(nonNegativeNumber)(e.endMs, `${name}.endMs`);
+    const typed = optional(boolean)(e.typed, `${name}.typed`);
+    const panelistName = optional(string)(e.panelist, `${name}.panelist`);
+    if (startMs !== undefined) entry.startMs = startMs;
+    if (endMs !== undefined) entry.endMs = endMs;
+    if (typed !== undefined) entry.typed = typed;
+    if (panelistName !== undefined) entry.panelist = panelistName;
+    return entry;
+};
+
+const planQuestion: Field<PlanQuestion> = (value, name) => {
+    const q = record(value, name);
+    return {
+        id: string(q.id, `${name}.id`),
+        text: string(q.text, `${name}.text`),
+        maxFollowUps: nonNegativeNumber(q.maxFollowUps, `${name}.maxFollowUps`),
+    };
+};
+
+const planSection: Field<PlanSection> = (value, name) => {
+    const s = record(value, name);
+    return {
+        id: string(s.id, `${name}.id`),
+        title: string(s.title, `${name}.title`),
+        timeBudgetMinutes: nonNegativeNumber(s.timeBudgetMinutes, `${name}.timeBudgetMinutes`),
+        questions: arrayOf(planQuestion)(s.questions, `${name}.questions`),
+    };
+};
+
+const questionPlan: Field<QuestionPlan | null> = (value, name) =>
+    value === null ? null : { sections: arrayOf(planSection)(record(value, name).sections, `${name}.sections`) };
+
+const materials: Field<InterviewMaterials> = (value, name) => {
+    const m = record(value, name);
+    return {
+        script: string(m.script, `${name}.script`),
+        resume: string(m.resume, `${name}.resume`),
+        jobDescription: string(m.jobDescription, `${name}.jobDescription`),
+        focusAreas: arrayOf(string)(m.focusAreas, `${name}.focusAreas`),
+        questionPlan: questionPlan(m.questionPlan, `${name}.questionPlan`),
+    };
+};
+
+const livePanel: Field<LivePanelOptions> = (value, name) => {
+    const p = record(value, name);
+    const panel: LivePanelOptions = {
+        panelists: arrayOf(panelist)(p.panelists, `${name}.panelists`),
+        active: panelist(p.active, `${name}.active`),
+    };
+    const handoverFrom = optional(string)(p.handoverFrom, `${name}.handoverFrom`);
+    if (handoverFrom !== undefined) panel.handoverFrom = handoverFrom;
+    return panel;
+};
+
+const summaryContext: Field<SummaryContext> = (value, name) => {
+    const c = record(value, name);
+    return {
+        panel: arrayOf(panelist)(c.panel, `${name}.panel`),
+        coachingEnabled: boolean(c.coachingEnabled, `${name}.coachingEnabled`),
+    };
+};
+
+export const parseWelcomeAudioRequest = (body: unknown): WelcomeAudioRequest => {
+    const b = record(body, 'body');
+    return {
+        language: string(b.language, 'language'),
+        persona: persona(b.persona, 'persona'),
+    };
+};
+
+export const parseCoachingHintsRequest = (body: unknown): CoachingHintsRequest => {
+    const b = record(body, 'body');
+    return {
+        question: string(b.question, 'question'),
+        answer: string(b.answer, 'answer'),
+        language: string(b.language, 'language'),
+        materials: materials(b.materials, 'materials'),
+    };
+};
+
+export const parseSummaryRequest = (body: unknown): SummaryRequest => {
+    const b = record(body, 'body');
+    return {
+        transcript: arrayOf(transcriptEntry)(b.transcript, 'transcript'),
+        language: string(b.language, 'language'),
+        materials: materials(b.materials, 'materials'),
+        context: summaryContext(b.context, 'context'),
+        emphasis: oneOf(EMPHASES)(b.emphasis, 'emphasis'),
+    };
+};
+
+export const parseCritiquesRequest = (body: unknown): CritiquesRequest => {
+    const b = record(body, 'body');
+    return {
+        transcript: arrayOf(transcriptEntry)(b.transcript, 'transcript'),
+        language: string(b.language, 'language'),
+        materials: materials(b.materials, 'materials'),
+    };
+};
+
+export const parsePracticeComparisonRequest = (body: unknown): PracticeComparisonRequest => {
+    const b = record(body, 'body');
+    return {
+        question: string(b.question, 'question'),
+        answers: arrayOf(string)(b.answers, 'answers'),
+        language: string(b.language, 'language'),
+    };
+};
+
+// The live session is configured on the server from these fields alone; the model, tools
+// and generation settings are never the client's to choose.
+const liveSessionOptions: Field<Omit<LiveSessionOptions, 'callbacks'>> = (value, name) => {
+    const o = record(value, name);
+    const options: Omit<LiveSessionOptions, 'callbacks'> = {
+        ...materials(o, name),
+        language: string(o.language, `${name}.language`),
+        durationMinutes: nonNegativeNumber(o.durationMinutes, `${name}.durationMinutes`),
+        manualTurnTaking: boolean(o.manualTurnTaking, `${name}.manualTurnTaking`),
+        persona: persona(o.persona, `${name}.persona`),
+    };
+    const priorTranscript = optional(arrayOf(transcriptEntry))(o.priorTranscript, `${name}.priorTranscript`);
+    const practiceQuestion = optional(string)(o.practiceQuestion, `${name}.practiceQuestion`);
+    const panel = optional(livePanel)(o.panel, `${name}.panel`);
+    if (priorTranscript !== undefined) options.priorTranscript = priorTranscript;
+    if (practiceQuestion !== undefined) options.practiceQuestion = practiceQuestion;
+    if (panel !== undefined) options.panel = panel;
+    return options;
+};
+
+// Microphone audio, as utils/audio.ts encodes it.
+const PCM_MIME_TYPE = /^audio\/pcm;rate=\d+$/;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// One of: a chunk of microphone audio, the start or end of the candidate's turn, or the end of the audio stream.
+const realtimeInput: Field<LiveSendRealtimeInputParameters> = (value, name) => {
+    const p = record(value, name);
+    if (p.media !== undefined) {
+        const media = record(p.media, `${name}.media`);
+        const data = string(media.data, `${name}.media.data`);
+        const mimeType = string(media.mimeType, `${name}.media.mimeType`);
+        if (!BASE64.test(data)) throw new BadRequestError(`${name}.media.data must be base64`);
+        if (!PCM_MIME_TYPE.test(mimeType)) throw new BadRequestError(`${name}.media.mimeType must be PCM audio`);
+        return { media: { data, mimeType } };
+    }
+    if (p.activityStart !== undefined) {
+        record(p.activityStart, `${name}.activityStart`);
+        return { activityStart: {} };
+    }
+    if (p.activityEnd !== undefined) {
+        record(p.activityEnd, `${name}.activityEnd`);
+        return { activityEnd: {} };
+    }
+    if (p.audioStreamEnd === true) return { audioStreamEnd: true };
+    throw new BadRequestError(`${name} must carry media, activityStart, activityEnd or audioStreamEnd`);
+};
+
+// Typed answers and the wrap-up cue: text from the candidate's side only.
+const userTurn: Field<Content> = (value, name) => {
+    const turn = record(value, name);
+    return {
+        role: oneOf(['user'])(turn.role, `${name}.role`),
+        parts: arrayOf((part, partName) => ({ text: string(record(part, partName).text, `${partName}.text`) }))(turn.parts, `${name}.parts`),
+    };
+};
+
+const clientContent: Field<LiveSendClientContentParameters> = (value, name) => {
+    const p = record(value, name);
+    return {
+        turns: arrayOf(userTurn)(p.turns, `${name}.turns`),
+        turnComplete: boolean(p.turnComplete, `${name}.turnComplete`),
+    };
+};
+
+// Answers to the interviewer's tool calls: 'ok' or an error message for the model.
+const functionResponse: Field<FunctionResponse> = (value, name) => {
+    const f = record(value, name);
+    const response = record(f.response, `${name}.response`);
+    const output = optional(string)(response.output, `${name}.response.output`);
+    const error = optional(string)(response.error, `${name}.response.error`);
+    const result: FunctionResponse = {
+        name: string(f.name, `${name}.name`),
+        response: error !== undefined ? { error } : { output: output ?? '' },
+    };
+    const id = optional(string)(f.id, `${name}.id`);
+    if (id !== undefined) result.id = id;
+    return result;
+};
+
+const toolResponse: Field<LiveSendToolResponseParameters> = (value, name) => ({
+    functionResponses: arrayOf(functionResponse)(record(value, name).functionResponses, `${name}.functionResponses`),
+});
+
+// Every frame is checked before anything reaches the upstream session.
+export const parseLiveClientFrame = (data: unknown): LiveClientFrame => {
+    const frame = record(data, 'frame');
+    switch (frame.type) {
+        case 'connect':
+            return { type: 'connect', options: liveSessionOptions(frame.options, 'options') };
+        case 'realtimeInput':
+            return { type: 'realtimeInput', params: realtimeInput(frame.params, 'params') };
+        case 'toolResponse':
+            return { type: 'toolResponse', params: toolResponse(frame.params, 'params') };
+        case 'clientContent':
+            return { type: 'clientContent', params: clientContent(frame.params, 'params') };
+        default:
+            throw new BadRequestError(`Unknown frame type: ${String(frame.type)}`);
+    }
+};
@@ -0,0 +1,51 @@
+// The app's IndexedDB database, shared by the history and template stores.
+
+const DB_NAME = 'ai-interview-simulator';
+const DB_VERSION = 3;
+
+export const SESSION_STORE = 'sessions';
+export const RECORDING_STORE = 'recordings'; // Kept apart so listing sessions doesn't load audio
+export const TEMPLATE_STORE = 'templates';
+
+type StoreName = typeof SESSION_STORE | typeof RECORDING_STORE | typeof TEMPLATE_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                    store.createIndex('startedAt', 'startedAt');
+                }
+                if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+                    db.createObjectStore(RECORDING_STORE);
+                }
+                if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+                    db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Runs a single request in its own transaction and resolves once the transaction commits.
+export const runRequest = async <T>(storeName: StoreName, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
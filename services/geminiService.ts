@@ -1,37 +1,111 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import { TranscriptEntry } from "../types";
-import { getApiErrorMessage } from "../utils/error";
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const generateWelcomeAudio = async (language: string): Promise<string> => {
-    const welcomeMessages: { [key: string]: string } = {
-        'English': 'Hello and welcome to your interview. The session will begin shortly.',
-        'Spanish': 'Hola y bienvenido a tu entrevista. La sesión comenzará en breve.',
-        'French': 'Bonjour et bienvenue à votre entretien. La session va bientôt commencer.',
-        'German': 'Hallo und herzlich willkommen zu Ihrem Interview. Die Sitzung beginnt in Kürze.',
-        'Japanese': 'こんにちは、面接へようこそ。セッションは間もなく開始されます。',
-        'Mandarin Chinese': '您好，欢迎参加面试。面试很快就会开始。',
-        'Hindi': 'नमस्ते और आपके साक्षात्कार में आपका स्वागत है। सत्र शीघ्र ही शुरू होगा।',
-        'Portuguese': 'Olá e bem-vindo à sua entrevista. A sessão começará em breve.',
-    };
-
-    const text = welcomeMessages[language] || welcomeMessages['English'];
-    
+import { FinishReason, FunctionDeclaration, GenerateContentResponse, GoogleGenAI, Modality, Schema, Type } from "@google/genai";
+import { AnswerCritique, CoachingHints, InterviewerPersona, InterviewMaterials, InterviewSummary, TranscriptEntry } from "../types";
+import { MAX_TALKING_POINTS, parseCoachingHints } from "../utils/coaching";
+import { pairQuestionsAndAnswers, parseAnswerCritiques, QUESTION_KINDS } from "../utils/critique";
+import { InterviewError, toInterviewError } from "../utils/error";
+import { t } from "../utils/i18n";
+import { PASS_TO_PANELIST, personaForPanelist } from "../utils/panel";
+import { ADVANCE_SECTION, MARK_QUESTION_ASKED } from "../utils/questionPlan";
+import { HIRING_RECOMMENDATIONS, MAX_SCORE, MIN_SCORE, parseInterviewSummary, parsePartialSummary, SUMMARY_COMPETENCIES } from "../utils/summary";
+import { InterviewBackend, LiveInterviewSession, LiveSessionOptions, SummaryContext, SummaryOptions } from "./interviewBackend";
+import { buildCoachingPrompt, buildCritiquePrompt, buildHandoverPrompt, buildInterviewerInstruction, buildPracticeComparisonPrompt, buildPracticeInstruction, buildSummaryPrompt, buildWelcomeSpeechPrompt, RESUME_INTERVIEW_PROMPT } from "./prompts";
+
+let ai: GoogleGenAI | null = null;
+
+// Creates the client on first use so the relay server can start without an API key.
+const getClient = (): GoogleGenAI => {
+    if (!process.env.GEMINI_API_KEY) {
+        throw new InterviewError('auth', t('error.apiKeyNotConfigured'));
+    }
+    if (!ai) {
+        ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    }
+    return ai;
+};
+
+// Blocked prompts and responses come back without an error, just without text.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blocked = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason === FinishReason.SAFETY;
+    if (blocked) throw new InterviewError('safety', t('apiError.safety'));
+};
+
+// Tools the interviewer uses to report progress through a question plan.
+const questionPlanTools: FunctionDeclaration[] = [
+    {
+        name: MARK_QUESTION_ASKED,
+        description: 'Records that a question from the question plan has been asked.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: { questionId: { type: Type.STRING, description: 'The id of the planned question, e.g. "s1q2".' } },
+            required: ['questionId'],
+        },
+    },
+    {
+        name: ADVANCE_SECTION,
+        description: 'Records that the interview has moved on to another section of the question plan.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: { sectionId: { type: Type.STRING, description: 'The id of the section being started, e.g. "s2".' } },
+            required: ['sectionId'],
+        },
+    },
+];
+
+// Lets the speaking panelist hand the interview to another panelist.
+const panelTools: FunctionDeclaration[] = [
+    {
+        name: PASS_TO_PANELIST,
+        description: 'Hands the interview over to another panelist, who continues with their own questions in their own voice.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: { name: { type: Type.STRING, description: 'The name of the panelist to hand over to.' } },
+            required: ['name'],
+        },
+    },
+];
+
+export const connectLiveSession = ({ language, durationMinutes, manualTurnTaking, priorTranscript, practiceQuestion, persona, panel, callbacks, ...materials }: LiveSessionOptions): Promise<LiveInterviewSession> => {
+    const speaker = panel && !practiceQuestion ? personaForPanelist(persona, panel.active) : persona;
+    const systemInstruction = practiceQuestion
+        ? buildPracticeInstruction(language, practiceQuestion, materials, persona, priorTranscript)
+        : buildInterviewerInstruction(language, durationMinutes, materials, speaker, priorTranscript, panel);
+    const functionDeclarations = practiceQuestion ? [] : [
+        ...(materials.questionPlan ? questionPlanTools : []),
+        ...(panel ? panelTools : []),
+    ];
+    const sessionPromise = getClient().live.connect({
+        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+        callbacks,
+        config: {
+            systemInstruction,
+            tools: functionDeclarations.length ? [{ functionDeclarations }] : undefined,
+            responseModalities: [Modality.AUDIO],
+            realtimeInputConfig: manualTurnTaking ? { automaticActivityDetection: { disabled: true } } : undefined,
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: speaker.voice } },
+            },
+        },
+    });
+    if (!priorTranscript?.length) return sessionPromise;
+    return sessionPromise.then(session => {
+        session.sendClientContent({ turns: panel?.handoverFrom ? buildHandoverPrompt(panel.handoverFrom) : RESUME_INTERVIEW_PROMPT, turnComplete: true });
+        return session;
+    });
+};
+
+export const generateWelcomeAudio = async (language: string, persona: InterviewerPersona): Promise<string> => {
     try {
-        const response = await ai.models.generateContent({
+        const response = await getClient().models.generateContent({
             model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
+            contents: [{ parts: [{ text: buildWelcomeSpeechPrompt(language, persona) }] }],
             config: {
                 responseModalities: [Modality.AUDIO],
                 speechConfig: {
                     voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' }, // Use the same voice for consistency
+                        prebuiltVoiceConfig: { voiceName: persona.voice }, // Use the same voice as the live session
                     },
                 },
             },
@@ -51,36 +125,180 @@ export const generateWelcomeAudio = async (language: string): Promise<string> =>
 };
 
 
-export const generateInterviewSummary = async (transcript: TranscriptEntry[], language: string): Promise<string> => {
-    const formattedTranscript = transcript.map(entry => `${entry.speaker}: ${entry.text}`).join('\n\n');
-
-    const prompt = `You are an expert HR manager providing feedback on a job interview.
-Provide the feedback in ${language}.
+const summarySchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        overallScore: { type: Type.NUMBER, nullable: true, description: `Overall score from ${MIN_SCORE} (poor) to ${MAX_SCORE} (excellent), or null if no competency could be judged.` },
+        recommendation: { type: Type.STRING, enum: HIRING_RECOMMENDATIONS },
+        recommendationRationale: { type: Type.STRING, description: 'One or two sentences justifying the recommendation.' },
+        competencies: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    competency: { type: Type.STRING, enum: SUMMARY_COMPETENCIES },
+                    score: { type: Type.NUMBER, nullable: true, description: `Score from ${MIN_SCORE} (poor) to ${MAX_SCORE} (excellent), or null if the competency could not be judged.` },
+                    rationale: { type: Type.STRING },
+                    evidence: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: "Short verbatim quotes from the candidate's answers that support the score.",
+                    },
+                },
+                required: ['competency', 'score', 'rationale', 'evidence'],
+                propertyOrdering: ['competency', 'score', 'rationale', 'evidence'],
+            },
+        },
+        narrative: { type: Type.STRING, description: 'Markdown feedback narrative.' },
+        panelistFeedback: {
+            type: Type.ARRAY,
+            description: 'One viewpoint per panelist, only for panel interviews.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    panelist: { type: Type.STRING },
+                    recommendation: { type: Type.STRING, enum: HIRING_RECOMMENDATIONS },
+                    viewpoint: { type: Type.STRING, description: "Markdown feedback from this panelist's point of view." },
+                },
+                required: ['panelist', 'recommendation', 'viewpoint'],
+                propertyOrdering: ['panelist', 'viewpoint', 'recommendation'],
+            },
+        },
+    },
+    required: ['overallScore', 'recommendation', 'recommendationRationale', 'competencies', 'narrative'],
+    propertyOrdering: ['competencies', 'overallScore', 'recommendation', 'recommendationRationale', 'narrative', 'panelistFeedback'],
+};
 
-Based on the following interview transcript, please provide a comprehensive summary of the candidate's performance.
+export const generateInterviewSummary = async (transcript: TranscriptEntry[], language: string, materials: InterviewMaterials, context: SummaryContext, { emphasis, signal, onProgress }: SummaryOptions): Promise<InterviewSummary> => {
+    const prompt = buildSummaryPrompt(transcript, language, materials, context, emphasis);
 
-Your feedback should include:
-1.  **Overall Summary:** A brief, high-level overview of the interview.
-2.  **Strengths:** Identify specific examples from the candidate's answers that demonstrate their strengths.
-3.  **Areas for Improvement:** Offer constructive feedback on where the candidate could improve, again, referencing their answers.
-4.  **Final Recommendation:** A concluding thought on the candidate's suitability for a generic role based on this interview.
+    try {
+        const stream = await getClient().models.generateContentStream({
+            model: 'gemini-2.5-pro',
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: summarySchema,
+                abortSignal: signal,
+            },
+        });
+        let text = '';
+        for await (const chunk of stream) {
+            signal?.throwIfAborted();
+            assertNotBlocked(chunk);
+            text += chunk.text ?? '';
+            onProgress?.(parsePartialSummary(text, transcript));
+        }
+        return parseInterviewSummary(text, transcript, context.panel);
+    } catch (error) {
+        // Cancelling is not a failure; the caller knows it asked for it.
+        if (signal?.aborted) throw error;
+        console.error("Error generating summary:", error);
+        throw toInterviewError(error, 'summary');
+    }
+};
 
-Format your response clearly using markdown headings.
+const critiqueSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        critiques: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    questionIndex: { type: Type.INTEGER, description: 'The bracketed number of the question.' },
+                    kind: { type: Type.STRING, enum: QUESTION_KINDS },
+                    star: {
+                        type: Type.OBJECT,
+                        description: 'Which STAR parts a behavioral answer covers.',
+                        properties: {
+                            situation: { type: Type.BOOLEAN },
+                            task: { type: Type.BOOLEAN },
+                            action: { type: Type.BOOLEAN },
+                            result: { type: Type.BOOLEAN },
+                        },
+                    },
+                    critique: { type: Type.STRING, description: 'Markdown critique of the answer.' },
+                    score: { type: Type.NUMBER, description: `Score from ${MIN_SCORE} (poor) to ${MAX_SCORE} (excellent).` },
+                    improvedAnswer: { type: Type.STRING },
+                },
+                required: ['questionIndex', 'kind', 'critique', 'score', 'improvedAnswer'],
+                propertyOrdering: ['questionIndex', 'kind', 'star', 'critique', 'score', 'improvedAnswer'],
+            },
+        },
+    },
+    required: ['critiques'],
+};
 
-**Interview Transcript:**
----
-${formattedTranscript}
----
-`;
+export const generateAnswerCritiques = async (transcript: TranscriptEntry[], language: string, materials: InterviewMaterials): Promise<AnswerCritique[]> => {
+    const pairs = pairQuestionsAndAnswers(transcript);
+    if (!pairs.length) return [];
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await getClient().models.generateContent({
             model: 'gemini-2.5-pro',
-            contents: prompt,
+            contents: buildCritiquePrompt(pairs, language, materials),
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: critiqueSchema,
+            },
         });
-        return response.text;
+        assertNotBlocked(response);
+        return parseAnswerCritiques(response.text ?? '', pairs);
     } catch (error) {
-        console.error("Error generating summary:", error);
-        throw new Error(getApiErrorMessage(error, 'summary'));
+        console.error("Error generating answer critiques:", error);
+        throw toInterviewError(error, 'summary');
     }
-};
\ No newline at end of file
+};
+
+export const comparePracticeAttempts = async (question: string, answers: string[], language: string): Promise<string> => {
+    try {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: buildPracticeComparisonPrompt(question, answers, language),
+        });
+        assertNotBlocked(response);
+        return response.text ?? '';
+    } catch (error) {
+        console.error("Error comparing practice attempts:", error);
+        throw toInterviewError(error, 'summary');
+    }
+};
+
+const coachingSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        talkingPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: `At most ${MAX_TALKING_POINTS} short talking points.` },
+        addressesQuestion: { type: Type.BOOLEAN },
+    },
+    required: ['talkingPoints', 'addressesQuestion'],
+};
+
+// A separate call on a lightweight model, so coaching never touches the live session.
+export const generateCoachingHints = async (question: string, answer: string, language: string, materials: InterviewMaterials): Promise<CoachingHints> => {
+    try {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash-lite',
+            contents: buildCoachingPrompt(question, answer, language, materials),
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: coachingSchema,
+            },
+        });
+        assertNotBlocked(response);
+        return parseCoachingHints(response.text ?? '', answer);
+    } catch (error) {
+        console.error("Error generating coaching hints:", error);
+        throw toInterviewError(error, 'summary');
+    }
+};
+
+export const geminiBackend: InterviewBackend = {
+    name: 'gemini',
+    connectLiveSession,
+    generateWelcomeAudio,
+    generateCoachingHints,
+    generateInterviewSummary,
+    generateAnswerCritiques,
+    comparePracticeAttempts,
+};
@@ -0,0 +1,28 @@
+import { InterviewSession } from "../types";
+import { RECORDING_STORE, runRequest, SESSION_STORE } from "./database";
+
+// Persists finished interviews in IndexedDB so they survive resets and reloads.
+
+// Inserts or replaces a session.
+export const saveSession = async (session: InterviewSession): Promise<void> => {
+    await runRequest(SESSION_STORE, 'readwrite', store => store.put(session));
+};
+
+// Returns all sessions, most recent first.
+export const listSessions = async (): Promise<InterviewSession[]> => {
+    const sessions = await runRequest<InterviewSession[]>(SESSION_STORE, 'readonly', store => store.index('startedAt').getAll());
+    return sessions.reverse();
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await runRequest(SESSION_STORE, 'readwrite', store => store.delete(id));
+    await runRequest(RECORDING_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveRecording = async (sessionId: string, recording: Blob): Promise<void> => {
+    await runRequest(RECORDING_STORE, 'readwrite', store => store.put(recording, sessionId));
+};
+
+export const getRecording = async (sessionId: string): Promise<Blob | undefined> => {
+    return runRequest<Blob | undefined>(RECORDING_STORE, 'readonly', store => store.get(sessionId));
+};
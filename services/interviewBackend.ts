@@ -0,0 +1,67 @@
+import { LiveCallbacks, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from "@google/genai";
+import { AnswerCritique, CoachingHints, FeedbackEmphasis, InterviewerPersona, InterviewMaterials, InterviewSummary, Panelist, TranscriptEntry } from "../types";
+import { PartialInterviewSummary } from "../utils/summary";
+import { geminiBackend } from "./geminiService";
+import { localBackend } from "./localBackend";
+
+// Where a live session sits in a panel interview. Each panelist speaks through their own session and voice.
+export interface LivePanelOptions {
+    panelists: Panelist[];
+    active: Panelist; // The panelist this session speaks as
+    handoverFrom?: string; // Set when another panelist has just handed the interview over
+}
+
+export interface LiveSessionOptions extends InterviewMaterials {
+    language: string;
+    durationMinutes: number;
+    manualTurnTaking: boolean; // The app sends activityStart/activityEnd instead of relying on voice activity detection
+    priorTranscript?: TranscriptEntry[]; // Set when reconnecting, so the interviewer can pick up where it left off
+    practiceQuestion?: string; // Set for a practice round that asks only this question
+    persona: InterviewerPersona;
+    panel?: LivePanelOptions;
+    callbacks: LiveCallbacks;
+}
+
+// How the interview was run, beyond the material it was based on.
+export interface SummaryContext {
+    panel: Panelist[]; // Empty for one-on-one interviews
+    coachingEnabled: boolean;
+}
+
+// How this particular version of the feedback is generated and delivered.
+export interface SummaryOptions {
+    emphasis: FeedbackEmphasis;
+    signal?: AbortSignal; // Cancels generation; the promise then rejects with an AbortError
+    onProgress?: (partial: PartialInterviewSummary) => void; // Called as the summary streams in
+}
+
+// The subset of the Gemini Live session the app drives during an interview.
+export interface LiveInterviewSession {
+    sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+    sendToolResponse(params: LiveSendToolResponseParameters): void;
+    sendClientContent(params: LiveSendClientContentParameters): void;
+    close(): void;
+}
+
+// Everything the app needs from an AI provider: the live interview session,
+// the spoken welcome message, optional coaching hints, the post-interview summary,
+// per-answer critiques and the comparison of practice attempts.
+export interface InterviewBackend {
+    readonly name: string;
+    connectLiveSession(options: LiveSessionOptions): Promise<LiveInterviewSession>;
+    generateWelcomeAudio(language: string, persona: InterviewerPersona): Promise<string>;
+    // Runs outside the live session, so nothing it sees or returns reaches the interviewer.
+    generateCoachingHints(question: string, answer: string, language: string, materials: InterviewMaterials): Promise<CoachingHints>;
+    generateInterviewSummary(transcript: TranscriptEntry[], language: string, materials: InterviewMaterials, context: SummaryContext, options: SummaryOptions): Promise<InterviewSummary>;
+    generateAnswerCritiques(transcript: TranscriptEntry[], language: string, materials: InterviewMaterials): Promise<AnswerCritique[]>;
+    // answers[0] is the original answer, followed by each practice attempt. Returns markdown.
+    comparePracticeAttempts(question: string, answers: string[], language: string): Promise<string>;
+}
+
+// Picks the provider the relay server forwards to from the INTERVIEW_BACKEND setting; 'local' runs fully offline.
+export const createInterviewBackend = (): InterviewBackend => {
+    if (process.env.INTERVIEW_BACKEND === 'local') {
+        return localBackend;
+    }
+    return geminiBackend;
+};
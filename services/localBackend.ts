@@ -0,0 +1,329 @@
+import { FunctionCall, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveServerMessage } from "@google/genai";
+import { AnswerCritique, CoachingHints, FeedbackEmphasis, InterviewSummary, Panelist, QuestionPlan, TranscriptEntry } from "../types";
+import { calculateRMS, decode, encode } from "../utils/audio";
+import { pairQuestionsAndAnswers } from "../utils/critique";
+import { PASS_TO_PANELIST } from "../utils/panel";
+import { ADVANCE_SECTION, MARK_QUESTION_ASKED } from "../utils/questionPlan";
+import { MAX_SCORE, MIN_SCORE, parsePartialSummary, SUMMARY_COMPETENCIES } from "../utils/summary";
+import { InterviewBackend, LiveInterviewSession, LiveSessionOptions, SummaryOptions } from "./interviewBackend";
+import { buildWelcomeMessage } from "./prompts";
+
+// An offline stand-in for the Gemini backend. It replays a scripted interview
+// with synthesized interviewer audio so the full flow can be exercised
+// without network access or an API key.
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const SECONDS_PER_WORD = 0.3;
+const AUDIO_CHUNK_SECONDS = 0.5;
+const CHUNK_INTERVAL_MS = 100; // Chunks arrive faster than real time, as they do from the live API.
+const SPEECH_THRESHOLD = 0.01;
+const END_OF_ANSWER_MS = 1200; // Silence after speech that ends the candidate's answer.
+const ANSWER_TIMEOUT_MS = 30000; // Moves on even if no speech is detected.
+const SUMMARY_CHUNK_LENGTH = 60; // Characters of summary JSON per streamed chunk
+const SUMMARY_CHUNK_INTERVAL_MS = 40;
+
+const SCRIPTED_QUESTIONS = [
+    "Thanks for joining me today. To start, could you walk me through your background and what brings you to this role?",
+    "Tell me about a project you are particularly proud of. What was your contribution?",
+    "Describe a time you disagreed with a teammate. How did you resolve it?",
+    "How do you decide what to prioritize when everything seems urgent?",
+    "Do you have any questions for me about the role or the team?",
+];
+
+const CLOSING_MESSAGE = "Thank you, that concludes our interview. You can end the session whenever you are ready.";
+
+interface ScriptedQuestion {
+    text: string;
+    toolCalls: FunctionCall[]; // Reported before the question is asked, as the live model would
+}
+
+// Walks a question plan in order, announcing each section and question through the plan tools.
+const questionsFromPlan = (plan: QuestionPlan): ScriptedQuestion[] => plan.sections.flatMap(section =>
+    section.questions.map((question, i) => ({
+        text: question.text,
+        toolCalls: [
+            ...(i === 0 ? [{ id: `call-${section.id}`, name: ADVANCE_SECTION, args: { sectionId: section.id } }] : []),
+            { id: `call-${question.id}`, name: MARK_QUESTION_ASKED, args: { questionId: question.id } },
+        ],
+    })));
+
+// After a reconnect, picks up with the question that was cut off, or the next one if it was answered.
+const resumeIndex = (priorTranscript: TranscriptEntry[], questionCount: number): number => {
+    const asked = priorTranscript.filter(entry => entry.speaker === 'Interviewer').length;
+    const unanswered = priorTranscript[priorTranscript.length - 1]?.speaker === 'Interviewer';
+    return Math.min(Math.max(0, asked - (unanswered ? 1 : 0)), questionCount);
+};
+
+// Synthesizes a soft, voice-like hum as 16-bit PCM, sized to how long the text would take to say.
+export function synthesizeSpeechAudio(text: string, sampleRate: number = OUTPUT_SAMPLE_RATE): Uint8Array {
+    const wordCount = text.split(/\s+/).filter(Boolean).length;
+    const frameCount = Math.max(1, Math.round(wordCount * SECONDS_PER_WORD * sampleRate));
+    const pcm = new Int16Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+        const t = i / sampleRate;
+        const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * 3 * t); // Syllable-like rhythm
+        const tone = Math.sin(2 * Math.PI * 180 * t) + 0.3 * Math.sin(2 * Math.PI * 360 * t);
+        pcm[i] = Math.round(tone * envelope * 0.08 * 32767);
+    }
+    return new Uint8Array(pcm.buffer);
+}
+
+// Measures the volume of a base64-encoded 16-bit PCM chunk sent by the app.
+function measurePcmChunk(base64: string): { rms: number } {
+    const bytes = decode(base64);
+    const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    const samples = new Float32Array(int16.length);
+    for (let i = 0; i < int16.length; i++) {
+        samples[i] = int16[i] / 32768;
+    }
+    return { rms: samples.length ? calculateRMS(samples) : 0 };
+}
+
+class ScriptedLiveSession implements LiveInterviewSession {
+    private readonly questions: ScriptedQuestion[];
+    private questionIndex = 0;
+    private askedInSession = 0;
+    private awaitingAnswer = false;
+    private heardSpeech = false;
+    private closed = false;
+    private endOfAnswerTimer: ReturnType<typeof setTimeout> | null = null;
+    private answerTimeoutTimer: ReturnType<typeof setTimeout> | null = null;
+    private pendingTimers = new Set<ReturnType<typeof setTimeout>>();
+
+    constructor(private readonly options: LiveSessionOptions) {
+        if (options.practiceQuestion) {
+            this.questions = [{ text: options.practiceQuestion, toolCalls: [] }];
+        } else {
+            this.questions = options.questionPlan
+                ? questionsFromPlan(options.questionPlan)
+                : SCRIPTED_QUESTIONS.map(text => ({ text, toolCalls: [] }));
+        }
+        this.questionIndex = resumeIndex(options.priorTranscript ?? [], this.questions.length);
+        this.schedule(() => {
+            this.options.callbacks.onopen?.();
+            this.schedule(() => this.askNextQuestion(), 500);
+        }, 0);
+    }
+
+    sendRealtimeInput({ media, activityEnd, audioStreamEnd }: LiveSendRealtimeInputParameters): void {
+        if (this.closed || !this.awaitingAnswer) return;
+        if (activityEnd || (audioStreamEnd && this.heardSpeech)) {
+            this.finishAnswer();
+            return;
+        }
+        if (!media?.data) return;
+        const { rms } = measurePcmChunk(media.data);
+        if (rms > SPEECH_THRESHOLD) {
+            if (!this.heardSpeech) {
+                // The app only starts its end-of-turn timer once it sees a transcription.
+                this.heardSpeech = true;
+                this.transcribeAnswer('[Offline mode: answer recorded, transcription unavailable]');
+            }
+            // With manual turn-taking the app says when the answer is over.
+            if (this.options.manualTurnTaking) return;
+            if (this.endOfAnswerTimer) clearTimeout(this.endOfAnswerTimer);
+            this.endOfAnswerTimer = setTimeout(() => this.finishAnswer(), END_OF_ANSWER_MS);
+        }
+    }
+
+    // Tool responses carry nothing the script needs, so they are accepted and ignored.
+    sendToolResponse(): void {}
+
+    // A completed turn is a typed answer. Anything else is the wrap-up cue, which skips straight to the closing line.
+    sendClientContent({ turnComplete }: LiveSendClientContentParameters): void {
+        if (this.closed) return;
+        if (turnComplete) {
+            this.heardSpeech = true;
+            this.finishAnswer();
+        } else {
+            this.questionIndex = this.questions.length;
+        }
+    }
+
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.clearAnswerTimers();
+        this.pendingTimers.forEach(clearTimeout);
+        this.pendingTimers.clear();
+        // Built by hand, since the relay server runs this on Node, which has no CloseEvent.
+        this.options.callbacks.onclose?.({ type: 'close', code: 1000, reason: '', wasClean: true } as CloseEvent);
+    }
+
+    private schedule(fn: () => void, delayMs: number) {
+        const timer = setTimeout(() => {
+            this.pendingTimers.delete(timer);
+            if (!this.closed) fn();
+        }, delayMs);
+        this.pendingTimers.add(timer);
+    }
+
+    private clearAnswerTimers() {
+        if (this.endOfAnswerTimer) clearTimeout(this.endOfAnswerTimer);
+        if (this.answerTimeoutTimer) clearTimeout(this.answerTimeoutTimer);
+        this.endOfAnswerTimer = null;
+        this.answerTimeoutTimer = null;
+    }
+
+    private finishAnswer() {
+        if (this.closed || !this.awaitingAnswer) return;
+        this.clearAnswerTimers();
+        this.awaitingAnswer = false;
+        if (!this.heardSpeech) {
+            this.transcribeAnswer('[Offline mode: no answer detected]');
+        }
+        this.schedule(() => this.askNextQuestion(), 400);
+    }
+
+    private askNextQuestion() {
+        const isLast = this.questionIndex >= this.questions.length;
+        // On a panel, each panelist asks one question and then hands over to the next.
+        const { panel } = this.options;
+        if (panel && !isLast && this.askedInSession > 0) {
+            const activeIndex = panel.panelists.findIndex(p => p.name === panel.active.name);
+            const next = panel.panelists[(activeIndex + 1) % panel.panelists.length];
+            const handover: FunctionCall = { id: `call-handover-${this.questionIndex}`, name: PASS_TO_PANELIST, args: { name: next.name } };
+            this.options.callbacks.onmessage({ toolCall: { functionCalls: [handover] } } as LiveServerMessage);
+            return;
+        }
+        this.askedInSession++;
+        const question = isLast ? { text: CLOSING_MESSAGE, toolCalls: [] } : this.questions[this.questionIndex++];
+        if (question.toolCalls.length) {
+            this.options.callbacks.onmessage({ toolCall: { functionCalls: question.toolCalls } } as LiveServerMessage);
+        }
+        const chunkCount = this.speak(question.text);
+        this.schedule(() => {
+            this.options.callbacks.onmessage({ serverContent: { turnComplete: true } } as LiveServerMessage);
+            if (isLast) return;
+
+            this.awaitingAnswer = true;
+            this.heardSpeech = false;
+            if (!this.options.manualTurnTaking) {
+                this.answerTimeoutTimer = setTimeout(() => this.finishAnswer(), ANSWER_TIMEOUT_MS);
+            }
+        }, (chunkCount + 1) * CHUNK_INTERVAL_MS);
+    }
+
+    private transcribeAnswer(text: string) {
+        this.options.callbacks.onmessage({
+            serverContent: { inputTranscription: { text } },
+        } as LiveServerMessage);
+    }
+
+    // Streams the interviewer's line the way the live API does: audio chunks with interleaved transcription.
+    // Returns the number of chunks scheduled.
+    private speak(text: string): number {
+        const audio = synthesizeSpeechAudio(text);
+        const bytesPerChunk = AUDIO_CHUNK_SECONDS * OUTPUT_SAMPLE_RATE * 2;
+        const words = text.split(' ');
+        const chunkCount = Math.ceil(audio.byteLength / bytesPerChunk);
+        const wordsPerChunk = Math.ceil(words.length / chunkCount);
+
+        for (let i = 0; i < chunkCount; i++) {
+            const chunk = audio.slice(i * bytesPerChunk, (i + 1) * bytesPerChunk);
+            const transcription = words.slice(i * wordsPerChunk, (i + 1) * wordsPerChunk).join(' ');
+            this.schedule(() => this.options.callbacks.onmessage({
+                serverContent: {
+                    modelTurn: { parts: [{ inlineData: { data: encode(chunk), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }] },
+                    outputTranscription: transcription ? { text: (i === 0 ? '' : ' ') + transcription } : undefined,
+                },
+            } as LiveServerMessage), i * CHUNK_INTERVAL_MS);
+        }
+        return chunkCount;
+    }
+}
+
+const buildOfflineSummary = (transcript: TranscriptEntry[], language: string, panel: Panelist[], emphasis: FeedbackEmphasis): InterviewSummary => {
+    const questions = transcript.filter(entry => entry.speaker === 'Interviewer').length;
+    const answers = transcript.filter(entry => entry.speaker === 'You');
+    const unanswered = answers.filter(entry => entry.text.includes('no answer detected')).length;
+    // Without any real analysis, the only signal is how many questions got an answer.
+    const answeredRatio = questions ? (answers.length - unanswered) / questions : 0;
+    const score = Math.round((MIN_SCORE + answeredRatio * (MAX_SCORE - MIN_SCORE)) * 10) / 10;
+
+    return {
+        overallScore: score,
+        recommendation: 'LEAN_NO_HIRE',
+        recommendationRationale: 'Placeholder recommendation from the offline backend.',
+        competencies: SUMMARY_COMPETENCIES.map(competency => ({
+            competency,
+            score,
+            rationale: 'Scored offline from the share of questions answered.',
+            evidence: [],
+        })),
+        narrative: `## Overall Summary
+This summary was generated offline by the local interview backend (requested language: ${language}, emphasis: ${emphasis}). No AI analysis was performed.
+
+## Session Statistics
+- **Interviewer turns:** ${questions}
+- **Candidate answers:** ${answers.length}
+- **Questions without an answer:** ${unanswered}
+
+## Final Recommendation
+Connect a live backend to receive real feedback on your answers.
+`,
+        ...(panel.length ? {
+            panelistFeedback: panel.map(panelist => ({
+                panelist: panelist.name,
+                recommendation: 'LEAN_NO_HIRE' as const,
+                viewpoint: `${panelist.name} spoke ${transcript.filter(entry => entry.panelist === panelist.name).length} times in the interview. No AI analysis was performed.`,
+            })),
+        } : {}),
+    };
+};
+
+// Streams the summary as JSON in small chunks, the way the model's response arrives.
+const streamOfflineSummary = async (summary: InterviewSummary, transcript: TranscriptEntry[], { signal, onProgress }: SummaryOptions): Promise<InterviewSummary> => {
+    const json = JSON.stringify(summary);
+    for (let end = SUMMARY_CHUNK_LENGTH; end < json.length; end += SUMMARY_CHUNK_LENGTH) {
+        await new Promise(resolve => setTimeout(resolve, SUMMARY_CHUNK_INTERVAL_MS));
+        signal?.throwIfAborted();
+        onProgress?.(parsePartialSummary(json.slice(0, end), transcript));
+    }
+    signal?.throwIfAborted();
+    return summary;
+};
+
+// Without a model, every answer gets the same structural placeholder feedback.
+const buildOfflineCritiques = (transcript: TranscriptEntry[]): AnswerCritique[] =>
+    pairQuestionsAndAnswers(transcript).map(pair => {
+        const wordCount = pair.answer.split(/\s+/).filter(Boolean).length;
+        return {
+            questionIndex: pair.questionIndex,
+            kind: 'general',
+            score: pair.answer.includes('no answer detected') ? MIN_SCORE : Math.round((MIN_SCORE + MAX_SCORE) / 2),
+            critique: `Critique generated offline by the local interview backend. The answer is ${wordCount} words long. No AI analysis was performed.`,
+            star: null,
+            improvedAnswer: pair.answer,
+        };
+    });
+
+// Generic reminders, since there is no model to read the question.
+const buildOfflineCoachingHints = (question: string): CoachingHints => ({
+    talkingPoints: /tell me about a time|describe a time|give an example/i.test(question)
+        ? ['Set the scene briefly', 'Focus on what you did', 'Finish with the result']
+        : ['Give a concrete example', 'Quantify the impact'],
+    offTopic: false,
+});
+
+const buildOfflineComparison = (answers: string[]): string => {
+    const wordCount = (answer: string) => answer.split(/\s+/).filter(Boolean).length;
+    const [original, ...attempts] = answers;
+    return `## Offline Comparison
+This comparison was generated offline by the local interview backend. No AI analysis was performed.
+
+- **Original answer:** ${wordCount(original ?? '')} words
+${attempts.map((answer, i) => `- **Attempt ${i + 1}:** ${wordCount(answer)} words`).join('\n')}
+`;
+};
+
+export const localBackend: InterviewBackend = {
+    name: 'local',
+    connectLiveSession: async (options) => new ScriptedLiveSession(options),
+    generateWelcomeAudio: async (language, persona) => encode(synthesizeSpeechAudio(buildWelcomeMessage(language, persona))),
+    generateCoachingHints: async (question) => buildOfflineCoachingHints(question),
+    generateInterviewSummary: (transcript, language, _materials, { panel }, options) =>
+        streamOfflineSummary(buildOfflineSummary(transcript, language, panel, options.emphasis), transcript, options),
+    generateAnswerCritiques: async (transcript) => buildOfflineCritiques(transcript),
+    comparePracticeAttempts: async (_question, answers) => buildOfflineComparison(answers),
+};
@@ -0,0 +1,223 @@
+import { DifficultyLevel, FeedbackEmphasis, InterviewerPersona, InterviewMaterials, InterviewTone, Panelist, QuestionPlan, TranscriptEntry } from "../types";
+import { QuestionAnswerPair } from "../utils/critique";
+import { MAX_TALKING_POINTS } from "../utils/coaching";
+import { computeDeliveryMetrics, formatDeliveryMetrics } from "../utils/delivery";
+import { localeForInterviewLanguage } from "../utils/i18n";
+import { PASS_TO_PANELIST } from "../utils/panel";
+import { ADVANCE_SECTION, MARK_QUESTION_ASKED } from "../utils/questionPlan";
+import { MAX_SCORE, MIN_SCORE, SUMMARY_COMPETENCIES } from "../utils/summary";
+import { LivePanelOptions, SummaryContext } from "./interviewBackend";
+
+const PRACTICE_MAX_FOLLOW_UPS = 2;
+
+// Balanced feedback needs no extra instruction.
+const EMPHASIS_INSTRUCTIONS: Record<FeedbackEmphasis, string> = {
+    balanced: '',
+    technical: "Focus the feedback on technical depth: the correctness, rigor and depth of the candidate's technical answers. Make the rationales and the narrative dwell on this, and suggest concrete topics to study. Score every competency as usual.",
+    communication: 'Focus the feedback on communication: clarity, structure, conciseness and how well the candidate listened and answered the question asked. Make the rationales and the narrative dwell on this, with concrete examples of phrasing that would work better. Score every competency as usual.',
+    leadership: 'Focus the feedback on leadership: ownership, influence, decision-making and how the candidate handled people and conflict. Make the rationales and the narrative dwell on this, and point out where stories could show more leadership. Score every competency as usual.',
+};
+
+const TONE_INSTRUCTIONS: Record<InterviewTone, string> = {
+    'friendly': 'Be warm and encouraging, and put the candidate at ease.',
+    'neutral': 'Keep a professional, neutral tone.',
+    'high-pressure': 'Run a stress interview: be brisk and skeptical, press immediately on vague answers and cut rambling short, while staying respectful.',
+};
+
+const DIFFICULTY_INSTRUCTIONS: Record<DifficultyLevel, string> = {
+    junior: 'Pitch the questions at a junior candidate: focus on fundamentals and potential, and offer a hint if they get stuck.',
+    mid: 'Pitch the questions at a mid-level candidate who is expected to work independently.',
+    senior: 'Pitch the questions at a senior candidate: expect depth, trade-offs and ownership of outcomes.',
+    executive: 'Pitch the questions at an executive candidate: focus on strategy, organizational leadership and business impact.',
+};
+
+// How the text-to-speech model is asked to deliver the welcome message in each tone.
+const TONE_SPEECH_DIRECTIONS: Record<InterviewTone, string> = {
+    'friendly': 'Say warmly: ',
+    'neutral': '',
+    'high-pressure': 'Say briskly, in a serious tone: ',
+};
+
+export const buildWelcomeMessage = (language: string, { name, company }: InterviewerPersona): string =>
+    localeForInterviewLanguage(language).welcome(name.trim(), company.trim());
+
+// The welcome message with a delivery direction for the text-to-speech model.
+export const buildWelcomeSpeechPrompt = (language: string, persona: InterviewerPersona): string =>
+    `${TONE_SPEECH_DIRECTIONS[persona.tone]}${buildWelcomeMessage(language, persona)}`;
+
+const describePersona = ({ name, company, tone, difficulty }: InterviewerPersona): string =>
+    `You are ${name.trim() ? `${name.trim()}, ` : ''}a professional interviewer${company.trim() ? ` at ${company.trim()}` : ''}. Your voice should be clear and engaging. ${TONE_INSTRUCTIONS[tone]} ${DIFFICULTY_INSTRUCTIONS[difficulty]}`;
+
+const formatQuestionPlan = (plan: QuestionPlan): string => plan.sections.map(section => [
+    `Section ${section.id}: ${section.title} (about ${section.timeBudgetMinutes} minutes)`,
+    ...section.questions.map(q => `  - [${q.id}] ${q.text} (at most ${q.maxFollowUps} follow-up questions)`),
+].join('\n')).join('\n');
+
+// Renders whichever interview materials were provided as labelled prompt sections.
+const formatMaterials = ({ script, resume, jobDescription, focusAreas, questionPlan }: InterviewMaterials): string => {
+    const sections: string[] = [];
+    if (script.trim()) sections.push(`**Interviewer Instructions:**\n---\n${script.trim()}\n---`);
+    if (focusAreas.length) sections.push(`**Focus Areas:** ${focusAreas.join(', ')}`);
+    if (questionPlan) sections.push(`**Question Plan:**\n---\n${formatQuestionPlan(questionPlan)}\n---`);
+    if (resume.trim()) sections.push(`**Candidate Resume:**\n---\n${resume.trim()}\n---`);
+    if (jobDescription.trim()) sections.push(`**Job Description:**\n---\n${jobDescription.trim()}\n---`);
+    return sections.join('\n\n');
+};
+
+// In panel interviews, interviewer lines are labelled with the panelist who spoke.
+const formatTranscript = (transcript: TranscriptEntry[]): string =>
+    transcript.map(entry => `${entry.panelist ? `${entry.speaker} (${entry.panelist})` : entry.speaker}: ${entry.text}`).join('\n\n');
+
+// Lets a reconnected interviewer, or a panelist taking over, pick up where the conversation left off.
+const formatResumeContext = (priorTranscript: TranscriptEntry[], handoverFrom?: string): string => {
+    if (!priorTranscript.length) return '';
+    const situation = handoverFrom
+        ? `${handoverFrom} has just handed the interview over to you.`
+        : 'The connection dropped and has been restored.';
+    return `\n\n**Interview So Far:**\n${situation} Continue from where the conversation left off. Do not greet the candidate again or repeat questions that were already answered.\n---\n${formatTranscript(priorTranscript)}\n---`;
+};
+
+const formatPanelists = (panelists: Panelist[]): string =>
+    panelists.map(p => `- ${p.name}, ${p.role}${p.focus ? `: asks about ${p.focus}` : ''}`).join('\n');
+
+const describePanel = ({ panelists, active }: LivePanelOptions): string => `
+
+**Interview Panel:**
+This is a panel interview with these panelists:
+${formatPanelists(panelists)}
+
+You are ${active.name}, the ${active.role}. Speak only as ${active.name}, never for the other panelists, and keep your questions to your own focus. ${panelists[0].name} opens the interview by introducing the panel in one sentence. Share the time roughly evenly across the panel: when you have covered your area for now, or the conversation moves into another panelist's area, say in one sentence that you are handing over to them, then call ${PASS_TO_PANELIST} with their name and stop speaking. Once the time is nearly up, whoever is speaking closes the interview for the whole panel.`;
+
+export const buildInterviewerInstruction = (language: string, durationMinutes: number, materials: InterviewMaterials, persona: InterviewerPersona, priorTranscript: TranscriptEntry[] = [], panel?: LivePanelOptions): string => {
+    const { resume, jobDescription, questionPlan } = materials;
+    let focus = '';
+    if (resume.trim() && jobDescription.trim()) {
+        focus = "Probe the experience claimed in the candidate's resume against the requirements of the job description, and dig into gaps between them.";
+    } else if (resume.trim()) {
+        focus = "Ask about specific experience from the candidate's resume.";
+    } else if (jobDescription.trim()) {
+        focus = 'Ask questions that test the requirements of the job description.';
+    }
+    const planRules = questionPlan
+        ? ` Work through the question plan in order, keeping to each section's time budget and follow-up limit. Call ${MARK_QUESTION_ASKED} with the question's id whenever you ask a planned question, and call ${ADVANCE_SECTION} with the section's id when you move on to a new section. You may skip questions if time runs short.`
+        : '';
+
+    return `${describePersona(persona)} Conduct an interview in ${language} based on the material below, planned to last about ${durationMinutes} minutes. ${focus}${planRules} Do not mention that you are an AI. Begin the interview directly without any introduction or welcome message.
+
+${formatMaterials(materials)}${panel ? describePanel(panel) : ''}${formatResumeContext(priorTranscript, panel?.handoverFrom)}`;
+};
+
+// A short practice round in which the candidate re-answers a single question from an earlier interview.
+export const buildPracticeInstruction = (language: string, question: string, materials: InterviewMaterials, persona: InterviewerPersona, priorTranscript: TranscriptEntry[] = []): string =>
+    `${describePersona(persona)} You are running a short practice round in ${language}. Ask only the question below, phrased as closely to the original as possible, without any introduction. You may ask at most ${PRACTICE_MAX_FOLLOW_UPS} short follow-up questions about the candidate's answer. Do not give feedback, and do not move on to other topics. When you are done, thank the candidate and tell them they can end the round. Do not mention that you are an AI.
+
+**Practice Question:**
+${question}
+
+${formatMaterials({ ...materials, questionPlan: null })}${formatResumeContext(priorTranscript)}`;
+
+export const buildPracticeComparisonPrompt = (question: string, answers: string[], language: string): string => {
+    const [original, ...attempts] = answers;
+    const formattedAttempts = attempts.map((answer, i) => `**Attempt ${i + 1}${i === attempts.length - 1 ? ' (latest)' : ''}:**\n${answer || '(no answer)'}`).join('\n\n');
+
+    return `You are an experienced interview coach. A candidate is practising their answer to a single interview question.
+Write your feedback in ${language}, as short markdown with these headings: What Improved, Still Missing, Next Tip.
+
+Compare the latest attempt with the original answer and any earlier attempts. Be specific and reference what the candidate actually said.
+
+**Question:** ${question}
+
+**Original Answer:**
+${original || '(no answer)'}
+
+${formattedAttempts}
+`;
+};
+
+// Sent once a dropped session is re-established, so the interviewer speaks first instead of waiting.
+export const RESUME_INTERVIEW_PROMPT = '[Connection restored] Briefly acknowledge the interruption and continue the interview.';
+
+// Sent once a panelist's session opens after a hand-over, so they speak first instead of waiting.
+export const buildHandoverPrompt = (handoverFrom: string): string =>
+    `[Hand-over from ${handoverFrom}] If you have not spoken yet, introduce yourself in one short sentence. Then continue the interview with a question from your own area.`;
+
+// Injected into the live session shortly before a time-boxed interview runs out.
+export const buildWrapUpInstruction = (language: string, remainingMinutes: number): string =>
+    `[Time check] About ${remainingMinutes} minute${remainingMinutes === 1 ? '' : 's'} of the interview remain. Do not start any new topics. Once the candidate finishes their current answer, ask if they have a final question, then thank them and close the interview politely in ${language}.`;
+
+// Asks a lightweight model for hints on the answer in progress. Kept short so the hints arrive while they are still useful.
+export const buildCoachingPrompt = (question: string, answer: string, language: string, materials: InterviewMaterials): string => {
+    const context = formatMaterials({ ...materials, script: '', questionPlan: null });
+
+    return `You are coaching a candidate live, during a job interview. They glance at your hints while they talk, so keep every hint to a few words.
+Write the hints in ${language}.
+
+1.  **Talking Points:** Up to ${MAX_TALKING_POINTS} points the candidate could still make in their answer to the current question, drawing on their resume where relevant. Skip anything the answer already covers.
+2.  **Addresses Question:** Whether the answer so far addresses the question that was asked. If the answer has not started, say true.
+${context ? `\n**Interview Context:**\n\n${context}\n` : ''}
+**Current Question:**
+${question}
+
+**Answer So Far:**
+${answer.trim() || '(not started)'}
+`;
+};
+
+export const buildSummaryPrompt = (transcript: TranscriptEntry[], language: string, materials: InterviewMaterials, { panel, coachingEnabled }: SummaryContext = { panel: [], coachingEnabled: false }, emphasis: FeedbackEmphasis = 'balanced'): string => {
+    const formattedTranscript = formatTranscript(transcript);
+    const roleDescription = materials.jobDescription.trim()
+        ? "the role in the job description below. Judge Role Fit against the job description's requirements"
+        : 'a generic role based on this interview';
+    const context = formatMaterials(materials);
+    const delivery = formatDeliveryMetrics(computeDeliveryMetrics(transcript, language));
+    const panelFeedback = panel.length
+        ? `\n4.  **Panelist Viewpoints:** This was a panel interview. For each panelist, write their viewpoint in a few sentences of markdown: how the candidate did on that panelist's focus, judged mainly from the questions they asked (interviewer lines are labelled with the panelist's name), and the hiring recommendation they would give. Use the panelist's name exactly as listed.`
+        : '';
+    const panelContext = panel.length ? `\n**Interview Panel:**\n${formatPanelists(panel)}\n` : '';
+    const coachingNote = coachingEnabled
+        ? '\nThe candidate had real-time coaching hints (suggested talking points and warnings) on while answering. Say so briefly in the narrative, and bear in mind that the answers were assisted.'
+        : '';
+    const emphasisNote = EMPHASIS_INSTRUCTIONS[emphasis] ? `\n${EMPHASIS_INSTRUCTIONS[emphasis]}` : '';
+
+    return `You are an expert HR manager providing feedback on a job interview.
+Provide the feedback in ${language}.${emphasisNote}
+
+Based on the following interview transcript, evaluate the candidate's performance.
+
+1.  **Competencies:** Score each of these competencies from ${MIN_SCORE} (poor) to ${MAX_SCORE} (excellent): ${SUMMARY_COMPETENCIES.join(', ')}. Justify every score with a short rationale and back it with verbatim quotes copied exactly from the candidate's ("You") lines. If the interview gave no chance to judge a competency, leave its score null and give no quotes; a low score means the candidate showed it poorly, not that it never came up.
+2.  **Overall Score and Recommendation:** An overall score (null only if no competency could be scored) and a hiring recommendation for ${roleDescription}.
+3.  **Narrative:** A markdown narrative with an overall summary, strengths and areas for improvement, referencing the candidate's answers. Use markdown headings. Include a short section on delivery that interprets the measured delivery metrics below.${panelFeedback}
+
+Keep the competency names and recommendation values exactly as specified; write all other text in ${language}.${coachingNote}
+${context ? `\n**Interview Context:**\n\n${context}\n` : ''}${panelContext}
+**Delivery Metrics (measured from turn timings and the transcript):**
+${delivery}
+
+**Interview Transcript:**
+---
+${formattedTranscript}
+---
+`;
+};
+
+export const buildCritiquePrompt = (pairs: QuestionAnswerPair[], language: string, materials: InterviewMaterials): string => {
+    const context = formatMaterials(materials);
+    const formattedPairs = pairs.map(pair => `[${pair.questionIndex}] Interviewer: ${pair.question}\nCandidate: ${pair.answer}`).join('\n\n');
+
+    return `You are an experienced interview coach reviewing a candidate's answers one at a time.
+Write all feedback in ${language}.
+
+For every question below, identified by the number in brackets:
+1.  **Kind:** Classify the question as behavioral (past experience, "tell me about a time"), technical (knowledge, design or problem solving) or general.
+2.  **Evaluation:** For behavioral questions, check which parts of the STAR structure (Situation, Task, Action, Result) the answer covers and critique its structure. For technical questions, judge correctness and depth. For general questions, judge clarity and relevance. Keep the critique to a few sentences of markdown.
+3.  **Score:** From ${MIN_SCORE} (poor) to ${MAX_SCORE} (excellent).
+4.  **Improved Answer:** Rewrite the answer into a stronger one, spoken in the first person. Build it only from facts the candidate actually mentioned; where something important is missing, use a clearly marked placeholder such as [add the measurable result] instead of inventing details.
+
+Return one entry per question, using the bracketed number as questionIndex.
+${context ? `\n**Interview Context:**\n\n${context}\n` : ''}
+**Questions and Answers:**
+---
+${formattedPairs}
+---
+`;
+};
@@ -0,0 +1,169 @@
+import { LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from "@google/genai";
+import { AnswerCritique, CoachingHints, InterviewerPersona, InterviewMaterials, InterviewSummary, TranscriptEntry } from "../types";
+import { fromErrorPayload, InterviewError, toInterviewError } from "../utils/error";
+import { t } from "../utils/i18n";
+import { InterviewBackend, LiveInterviewSession, LiveSessionOptions, SummaryContext, SummaryOptions } from "./interviewBackend";
+import { CoachingHintsRequest, CritiquesRequest, LiveClientFrame, LiveServerFrame, PracticeComparisonRequest, RELAY_PATHS, RelayErrorResponse, SummaryRequest, SummaryStreamEvent, WelcomeAudioRequest } from "./relayProtocol";
+
+// The app's only way to an AI provider: every call goes through the relay server in server/,
+// which holds the API key and picks the provider.
+
+type ErrorContext = 'start' | 'summary';
+
+const liveSocketUrl = (): string => {
+    const url = new URL(RELAY_PATHS.live, window.location.href);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return url.toString();
+};
+
+const responseError = async (response: Response, context: ErrorContext): Promise<InterviewError> => {
+    try {
+        const { error } = await response.json() as RelayErrorResponse;
+        return fromErrorPayload(error, context);
+    } catch {
+        // Not an answer from the relay itself, e.g. from a proxy in front of it, so the status is all there is.
+        return toInterviewError(Object.assign(new Error(response.statusText), { status: response.status }), context);
+    }
+};
+
+const post = async (path: string, body: unknown, context: ErrorContext, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) throw await responseError(response, context);
+    return response;
+};
+
+// Reads a response body one line at a time.
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const lines = (buffered + value).split('\n');
+        buffered = lines.pop() ?? '';
+        yield* lines;
+    }
+    if (buffered) yield buffered;
+}
+
+class RelayLiveSession implements LiveInterviewSession {
+    constructor(private readonly socket: WebSocket) {}
+
+    sendRealtimeInput(params: LiveSendRealtimeInputParameters): void {
+        this.send({ type: 'realtimeInput', params });
+    }
+
+    sendToolResponse(params: LiveSendToolResponseParameters): void {
+        this.send({ type: 'toolResponse', params });
+    }
+
+    sendClientContent(params: LiveSendClientContentParameters): void {
+        this.send({ type: 'clientContent', params });
+    }
+
+    close(): void {
+        this.socket.close();
+    }
+
+    // Input sent after the connection dropped is lost, as it would be on the provider's own socket.
+    private send(frame: LiveClientFrame) {
+        if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(frame));
+    }
+}
+
+// Resolves once the server has its upstream session ready, and replays the server's frames as the session's callbacks.
+export const connectLiveSession = ({ callbacks, ...options }: LiveSessionOptions): Promise<LiveInterviewSession> => new Promise((resolve, reject) => {
+    const socket = new WebSocket(liveSocketUrl());
+    let connected = false;
+    let closeFrame: { code: number; reason: string } | null = null;
+
+    socket.onopen = () => socket.send(JSON.stringify({ type: 'connect', options } satisfies LiveClientFrame));
+    socket.onmessage = (event: MessageEvent<string>) => {
+        const frame = JSON.parse(event.data) as LiveServerFrame;
+        switch (frame.type) {
+            case 'open':
+                callbacks.onopen?.();
+                break;
+            case 'connected':
+                connected = true;
+                resolve(new RelayLiveSession(socket));
+                break;
+            case 'message':
+                callbacks.onmessage(frame.message);
+                break;
+            case 'error': {
+                const error = fromErrorPayload(frame.error, 'start');
+                if (connected) callbacks.onerror?.(new ErrorEvent('error', { error, message: error.message }));
+                else reject(error);
+                break;
+            }
+            case 'close':
+                closeFrame = { code: frame.code, reason: frame.reason };
+                break;
+        }
+    };
+    socket.onclose = (event) => {
+        // Rejecting again is harmless if the server already said why it failed.
+        if (!connected) {
+            reject(new InterviewError('network', t('apiError.network')));
+            return;
+        }
+        callbacks.onclose?.(closeFrame ? new CloseEvent('close', closeFrame) : event);
+    };
+});
+
+export const generateWelcomeAudio = async (language: string, persona: InterviewerPersona): Promise<string> => {
+    try {
+        const response = await post(RELAY_PATHS.welcomeAudio, { language, persona } satisfies WelcomeAudioRequest, 'start');
+        const { audio } = await response.json() as { audio: string };
+        return audio;
+    } catch (error) {
+        console.error("Error generating welcome audio:", error);
+        // Fail gracefully so interview can still start
+        return '';
+    }
+};
+
+export const generateCoachingHints = async (question: string, answer: string, language: string, materials: InterviewMaterials): Promise<CoachingHints> => {
+    const response = await post(RELAY_PATHS.coachingHints, { question, answer, language, materials } satisfies CoachingHintsRequest, 'summary');
+    return response.json();
+};
+
+export const generateInterviewSummary = async (transcript: TranscriptEntry[], language: string, materials: InterviewMaterials, context: SummaryContext, { emphasis, signal, onProgress }: SummaryOptions): Promise<InterviewSummary> => {
+    const response = await post(RELAY_PATHS.summary, { transcript, language, materials, context, emphasis } satisfies SummaryRequest, 'summary', signal);
+    for await (const line of readLines(response.body!)) {
+        if (!line) continue;
+        const event = JSON.parse(line) as SummaryStreamEvent;
+        if (event.type === 'progress') onProgress?.(event.partial);
+        else if (event.type === 'done') return event.summary;
+        else throw fromErrorPayload(event.error, 'summary');
+    }
+    // The server went away mid-stream.
+    throw new InterviewError('server', t('apiError.server'));
+};
+
+export const generateAnswerCritiques = async (transcript: TranscriptEntry[], language: string, materials: InterviewMaterials): Promise<AnswerCritique[]> => {
+    const response = await post(RELAY_PATHS.critiques, { transcript, language, materials } satisfies CritiquesRequest, 'summary');
+    return response.json();
+};
+
+export const comparePracticeAttempts = async (question: string, answers: string[], language: string): Promise<string> => {
+    const response = await post(RELAY_PATHS.practiceComparison, { question, answers, language } satisfies PracticeComparisonRequest, 'summary');
+    const { comparison } = await response.json() as { comparison: string };
+    return comparison;
+};
+
+export const relayBackend: InterviewBackend = {
+    name: 'relay',
+    connectLiveSession,
+    generateWelcomeAudio,
+    generateCoachingHints,
+    generateInterviewSummary,
+    generateAnswerCritiques,
+    comparePracticeAttempts,
+};
@@ -0,0 +1,75 @@
+import { LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage } from "@google/genai";
+import { FeedbackEmphasis, InterviewerPersona, InterviewMaterials, InterviewSummary, TranscriptEntry } from "../types";
+import { ErrorPayload } from "../utils/error";
+import { PartialInterviewSummary } from "../utils/summary";
+import { LiveSessionOptions, SummaryContext } from "./interviewBackend";
+
+// What the app and the relay server say to each other. The server holds the API key and
+// forwards each call to the AI provider; the app never talks to the provider directly.
+
+export const RELAY_PATHS = {
+    live: '/api/live',
+    welcomeAudio: '/api/welcome-audio',
+    coachingHints: '/api/coaching-hints',
+    summary: '/api/summary',
+    critiques: '/api/critiques',
+    practiceComparison: '/api/practice-comparison',
+} as const;
+
+export interface WelcomeAudioRequest {
+    language: string;
+    persona: InterviewerPersona;
+}
+
+export interface CoachingHintsRequest {
+    question: string;
+    answer: string;
+    language: string;
+    materials: InterviewMaterials;
+}
+
+export interface SummaryRequest {
+    transcript: TranscriptEntry[];
+    language: string;
+    materials: InterviewMaterials;
+    context: SummaryContext;
+    emphasis: FeedbackEmphasis;
+}
+
+export interface CritiquesRequest {
+    transcript: TranscriptEntry[];
+    language: string;
+    materials: InterviewMaterials;
+}
+
+export interface PracticeComparisonRequest {
+    question: string;
+    answers: string[];
+    language: string;
+}
+
+// The summary streams back as one JSON event per line, ending with either the summary or an error.
+export type SummaryStreamEvent =
+    | { type: 'progress'; partial: PartialInterviewSummary }
+    | { type: 'done'; summary: InterviewSummary }
+    | { type: 'error'; error: ErrorPayload };
+
+// Failed REST calls answer with this body.
+export interface RelayErrorResponse {
+    error: ErrorPayload;
+}
+
+// Frames the app sends over the live session WebSocket. The first one must be 'connect'.
+export type LiveClientFrame =
+    | { type: 'connect'; options: Omit<LiveSessionOptions, 'callbacks'> }
+    | { type: 'realtimeInput'; params: LiveSendRealtimeInputParameters }
+    | { type: 'toolResponse'; params: LiveSendToolResponseParameters }
+    | { type: 'clientContent'; params: LiveSendClientContentParameters };
+
+// Frames the server sends back, mirroring the live session's callbacks.
+export type LiveServerFrame =
+    | { type: 'open' }
+    | { type: 'connected' } // The upstream session is ready to receive input
+    | { type: 'message'; message: LiveServerMessage }
+    | { type: 'error'; error: ErrorPayload }
+    | { type: 'close'; code: number; reason: string }; // Sent just before the server closes the socket
@@ -0,0 +1,19 @@
+import { InterviewTemplate } from "../types";
+import { runRequest, TEMPLATE_STORE } from "./database";
+
+// Persists user-created interview templates in IndexedDB. Built-in presets live in utils/templates.
+
+// Returns all user templates, most recently updated first.
+export const listTemplates = async (): Promise<InterviewTemplate[]> => {
+    const templates = await runRequest<InterviewTemplate[]>(TEMPLATE_STORE, 'readonly', store => store.getAll());
+    return templates.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Inserts or replaces a template.
+export const saveTemplate = async (template: InterviewTemplate): Promise<void> => {
+    await runRequest(TEMPLATE_STORE, 'readwrite', store => store.put(template));
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+    await runRequest(TEMPLATE_STORE, 'readwrite', store => store.delete(id));
+};
@@ -1,13 +1,187 @@
 export enum InterviewState {
   IDLE = 'IDLE',
+  PREFLIGHT = 'PREFLIGHT',
   CONNECTING = 'CONNECTING',
   IN_CONVERSATION = 'IN_CONVERSATION',
   SUMMARIZING = 'SUMMARIZING',
   FINISHED = 'FINISHED',
-  ERROR = 'ERROR'
+  SUMMARY_FAILED = 'SUMMARY_FAILED',
+  ERROR = 'ERROR',
+  HISTORY = 'HISTORY',
+  TEMPLATES = 'TEMPLATES',
+  PRACTICE_REVIEW = 'PRACTICE_REVIEW'
 }
 
 export interface TranscriptEntry {
     speaker: 'Interviewer' | 'You';
     text: string;
+    startMs?: number; // Offset from the start of the recording
+    endMs?: number;
+    typed?: boolean; // The candidate typed this answer instead of speaking it
+    panelist?: string; // In panel interviews, the name of the panelist who spoke
+}
+
+// Whether the candidate answers out loud or by typing.
+export type AnswerMode = 'voice' | 'typed';
+
+// How the end of the candidate's answer is detected: from silence, while a key is held, or when they say they are done.
+export type TurnTakingMode = 'auto' | 'push-to-talk' | 'tap-to-finish';
+
+export type InterviewTone = 'friendly' | 'neutral' | 'high-pressure';
+
+export type DifficultyLevel = 'junior' | 'mid' | 'senior' | 'executive';
+
+// Who the interviewer is and how they come across.
+export interface InterviewerPersona {
+    voice: string; // A prebuilt voice name
+    tone: InterviewTone;
+    difficulty: DifficultyLevel;
+    name: string; // Optional
+    company: string; // Optional
+}
+
+// One member of an interview panel. Tone, difficulty and company come from the persona.
+export interface Panelist {
+    name: string;
+    role: string; // e.g. "Hiring Manager"
+    voice: string; // A prebuilt voice name
+    focus: string; // What this panelist asks about
+}
+
+// The material an interview is based on. Any of the fields may be empty.
+export interface InterviewMaterials {
+    script: string; // Free-text instructions for the interviewer
+    resume: string;
+    jobDescription: string;
+    focusAreas: string[];
+    questionPlan: QuestionPlan | null; // Optional structured plan that replaces improvising from the script
+}
+
+export interface InterviewTemplate {
+    id: string;
+    name: string;
+    description: string;
+    script: string;
+    language: string;
+    durationMinutes: number;
+    focusAreas: string[];
+    builtIn?: boolean; // Presets shipped with the app; these cannot be edited or deleted
+    updatedAt: number; // Epoch milliseconds
+}
+
+export type HiringRecommendation = 'STRONG_HIRE' | 'HIRE' | 'LEAN_HIRE' | 'LEAN_NO_HIRE' | 'NO_HIRE';
+
+export interface CompetencyScore {
+    competency: string;
+    score: number | null; // 1 (poor) to 5 (excellent), or null when the model left the competency unscored
+    rationale: string;
+    evidence: string[]; // Verbatim quotes from the transcript
+}
+
+// How one panelist saw the candidate.
+export interface PanelistFeedback {
+    panelist: string;
+    recommendation: HiringRecommendation;
+    viewpoint: string; // Markdown
+}
+
+export interface InterviewSummary {
+    overallScore: number | null; // 1 (poor) to 5 (excellent); null when no competency could be scored
+    recommendation: HiringRecommendation;
+    recommendationRationale: string;
+    competencies: CompetencyScore[];
+    narrative: string; // Markdown
+    panelistFeedback?: PanelistFeedback[]; // Only for panel interviews
+}
+
+// What the feedback should weigh most heavily. 'balanced' covers all competencies evenly.
+export type FeedbackEmphasis = 'balanced' | 'technical' | 'communication' | 'leadership';
+
+// One generated version of the feedback. Regenerating adds a version rather than replacing one.
+export interface SummaryVersion {
+    id: string;
+    summary: InterviewSummary;
+    language: string; // The language the feedback is written in
+    emphasis: FeedbackEmphasis;
+    createdAt: number; // Epoch milliseconds
+}
+
+export type QuestionKind = 'behavioral' | 'technical' | 'general';
+
+// Which parts of the STAR structure (Situation, Task, Action, Result) an answer covered.
+export interface StarCoverage {
+    situation: boolean;
+    task: boolean;
+    action: boolean;
+    result: boolean;
+}
+
+// Feedback on a single answer, keyed by the transcript index of the question it answers.
+export interface AnswerCritique {
+    questionIndex: number;
+    kind: QuestionKind;
+    score: number; // 1 (poor) to 5 (excellent)
+    critique: string; // Markdown
+    star: StarCoverage | null; // Only for behavioral questions
+    improvedAnswer: string; // A stronger version built from what the candidate actually said
+}
+
+// Live suggestions shown beside the interview in coaching mode. They never reach the interviewer.
+export interface CoachingHints {
+    talkingPoints: string[];
+    offTopic: boolean; // The answer so far does not address the question
+}
+
+// One try at re-answering a single question in a practice round.
+export interface PracticeAttempt {
+    transcript: TranscriptEntry[];
+    answer: string; // Everything the candidate said in the round
+    comparison: string | null; // Markdown, null if it could not be generated
+}
+
+export interface InterviewSession {
+    id: string;
+    script: string;
+    resume?: string; // Missing on sessions saved before resumes were supported
+    jobDescription?: string;
+    focusAreas?: string[];
+    questionPlan?: QuestionPlan | null;
+    planProgress?: PlanProgress;
+    plannedDurationMinutes?: number; // The time box the interview was started with
+    persona?: InterviewerPersona;
+    panel?: Panelist[]; // Empty or missing for one-on-one interviews
+    coachingEnabled?: boolean; // Coaching hints were shown while the candidate answered
+    language: string;
+    transcript: TranscriptEntry[];
+    summary: InterviewSummary | null; // The selected version
+    summaryVersions?: SummaryVersion[]; // Missing on sessions saved before feedback could be regenerated
+    summaryVersionId?: string; // The selected version
+    critiques?: AnswerCritique[]; // Generated on demand after the interview
+    startedAt: number; // Epoch milliseconds
+    endedAt: number; // Epoch milliseconds
+    durationMs: number;
+}
+
+export interface PlanQuestion {
+    id: string;
+    text: string;
+    maxFollowUps: number;
+}
+
+export interface PlanSection {
+    id: string;
+    title: string;
+    timeBudgetMinutes: number;
+    questions: PlanQuestion[];
+}
+
+// An ordered list of sections and questions the interviewer should work through.
+export interface QuestionPlan {
+    sections: PlanSection[];
+}
+
+// How far the interviewer has got through a question plan, as reported by its tool calls.
+export interface PlanProgress {
+    currentSectionId: string | null;
+    askedQuestionIds: string[];
 }
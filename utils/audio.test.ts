@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VAD_CALIBRATION, floatTo16BitPCM, speechThreshold, StreamingResampler, VoiceActivityDetector } from './audio';
+
+const CHUNK_MS = 100;
+
+const sine = (length: number, sampleRate: number, frequency = 440): Float32Array =>
+    Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+const concat = (chunks: Float32Array[]): Float32Array => {
+    const result = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+};
+
+describe('StreamingResampler', () => {
+    it('produces output at the ratio of the sample rates', () => {
+        expect(new StreamingResampler(48000, 16000).process(new Float32Array(4800)).length).toBe(1600);
+        expect(new StreamingResampler(16000, 24000).process(new Float32Array(1600)).length).toBe(2399);
+    });
+
+    it('keeps the ratio over many chunks without drifting', () => {
+        const resampler = new StreamingResampler(44100, 16000);
+        let total = 0;
+        for (let i = 0; i < 100; i++) total += resampler.process(new Float32Array(4410)).length; // 10 seconds
+        expect(Math.abs(total - 160000)).toBeLessThanOrEqual(1);
+    });
+
+    it('gives the same output whether the input arrives whole or in chunks', () => {
+        const input = sine(44100, 44100);
+        const whole = new StreamingResampler(44100, 16000).process(input);
+
+        const resampler = new StreamingResampler(44100, 16000);
+        const chunkSizes = [128, 441, 1000, 37, 4096];
+        const chunks: Float32Array[] = [];
+        for (let offset = 0, i = 0; offset < input.length; i++) {
+            const size = chunkSizes[i % chunkSizes.length];
+            chunks.push(resampler.process(input.subarray(offset, offset + size)));
+            offset += size;
+        }
+        const chunked = concat(chunks);
+
+        expect(chunked.length).toBe(whole.length);
+        for (let i = 0; i < whole.length; i++) expect(chunked[i]).toBeCloseTo(whole[i], 5);
+    });
+
+    it('interpolates across chunk boundaries', () => {
+        const resampler = new StreamingResampler(16000, 32000);
+        const first = resampler.process(Float32Array.from([0, 1]));
+        const second = resampler.process(Float32Array.from([2, 3]));
+        expect([...first, ...second]).toEqual([0, 0.5, 1, 1.5, 2, 2.5, 3]);
+    });
+
+    it('passes audio through unchanged when the rates match', () => {
+        const input = Float32Array.from([0.1, -0.2, 0.3]);
+        const output = new StreamingResampler(16000, 16000).process(input);
+        expect(output).toEqual(input);
+        expect(output).not.toBe(input);
+    });
+});
+
+describe('floatTo16BitPCM', () => {
+    it('scales samples to the 16-bit range', () => {
+        expect([...floatTo16BitPCM(Float32Array.from([-1, -0.5, 0, 0.5, 1]))]).toEqual([-32768, -16384, 0, 16383, 32767]);
+    });
+
+    it('clips samples outside [-1, 1] instead of wrapping around', () => {
+        expect([...floatTo16BitPCM(Float32Array.from([-3, -1.0001, 1.0001, 3]))]).toEqual([-32768, -32768, 32767, 32767]);
+    });
+});
+
+describe('VoiceActivityDetector', () => {
+    it('starts from the calibrated threshold', () => {
+        const detector = new VoiceActivityDetector(DEFAULT_VAD_CALIBRATION);
+        expect(detector.threshold).toBeCloseTo(speechThreshold(DEFAULT_VAD_CALIBRATION));
+        expect(detector.process(0.05, CHUNK_MS).speech).toBe(true);
+        expect(detector.process(0.001, CHUNK_MS).speech).toBe(false);
+    });
+
+    it('counts silence and resets it on speech', () => {
+        const detector = new VoiceActivityDetector(DEFAULT_VAD_CALIBRATION);
+        detector.process(0.001, CHUNK_MS);
+        expect(detector.process(0.001, CHUNK_MS).silenceMs).toBe(2 * CHUNK_MS);
+        expect(detector.process(0.05, CHUNK_MS).silenceMs).toBe(0);
+    });
+
+    it('raises the threshold above steady background noise', () => {
+        const detector = new VoiceActivityDetector(DEFAULT_VAD_CALIBRATION);
+        const noise = 0.02;
+        expect(detector.process(noise, CHUNK_MS).speech).toBe(true); // Louder than the calibrated quiet room
+        for (let i = 0; i < 600; i++) detector.process(noise, CHUNK_MS); // A minute of noise
+        expect(detector.threshold).toBeGreaterThan(noise);
+        expect(detector.process(noise, CHUNK_MS).speech).toBe(false);
+    });
+
+    it('lowers the threshold for a quieter speaker', () => {
+        const detector = new VoiceActivityDetector({ noiseFloor: 0.002, speechLevel: 0.2 });
+        const initialThreshold = detector.threshold;
+        expect(detector.process(0.012, CHUNK_MS).speech).toBe(false);
+        for (let i = 0; i < 100; i++) detector.process(i % 2 ? 0.03 : 0.002, CHUNK_MS); // Speech with pauses
+        expect(detector.threshold).toBeLessThan(initialThreshold);
+        expect(detector.process(0.012, CHUNK_MS).speech).toBe(true);
+    });
+
+    it('starts over from a new calibration', () => {
+        const detector = new VoiceActivityDetector(DEFAULT_VAD_CALIBRATION);
+        for (let i = 0; i < 600; i++) detector.process(0.02, CHUNK_MS);
+        detector.recalibrate(DEFAULT_VAD_CALIBRATION);
+        expect(detector.threshold).toBeCloseTo(speechThreshold(DEFAULT_VAD_CALIBRATION));
+    });
+});
@@ -1,5 +1,8 @@
 
-import { Blob } from "@google/genai";
+import type { Blob } from "@google/genai";
+
+// The sample rate the Live API expects for microphone input.
+export const INPUT_SAMPLE_RATE = 16000;
 
 // Decodes a base64 string into a Uint8Array.
 export function decode(base64: string): Uint8Array {
@@ -43,18 +46,137 @@ export async function decodeAudioData(
 }
 
 
-// Creates a Blob object for sending audio data to the Gemini Live API.
+// Converts float samples in [-1, 1] to 16-bit PCM, clipping anything out of range.
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return int16;
+}
+
+// Wraps 16-bit PCM in a Blob object for sending to the Gemini Live API.
+export function createPcmBlob(pcm: Int16Array, sampleRate: number = INPUT_SAMPLE_RATE): Blob {
+  return {
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+// Creates a Blob object for sending 16 kHz float audio data to the Gemini Live API.
 export function createBlob(data: Float32Array): Blob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      int16[i] = data[i] * 32768;
+  return createPcmBlob(floatTo16BitPCM(data));
+}
+
+// Converts a stream of audio chunks from one sample rate to another using
+// linear interpolation. State carries over between chunks, so chunk
+// boundaries do not introduce clicks or drift.
+export class StreamingResampler {
+  private readonly step: number; // Input samples per output sample
+  private position = 0; // Position of the next output sample; -1 refers to the last sample of the previous chunk
+  private previousSample = 0;
+
+  constructor(readonly inputRate: number, readonly outputRate: number) {
+    this.step = inputRate / outputRate;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (input.length === 0) return new Float32Array(0);
+    if (this.step === 1) return input.slice();
+
+    const output = new Float32Array(Math.ceil((input.length - this.position) / this.step) + 1);
+    let count = 0;
+    while (this.position <= input.length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index < 0 ? this.previousSample : input[index];
+      const b = index + 1 < input.length ? input[index + 1] : a;
+      output[count++] = a + (b - a) * fraction;
+      this.position += this.step;
+    }
+    this.position -= input.length;
+    this.previousSample = input[input.length - 1];
+    return output.subarray(0, count);
+  }
+}
+
+// Microphone levels (RMS) measured before an interview, used to seed voice activity detection.
+export interface VadCalibration {
+  noiseFloor: number;
+  speechLevel: number;
+}
+
+// Typical levels for a quiet room, giving the same 0.01 threshold the app used before calibration existed.
+export const DEFAULT_VAD_CALIBRATION: VadCalibration = { noiseFloor: 0.002, speechLevel: 0.05 };
+
+const MIN_SPEECH_THRESHOLD = 0.002;
+const NOISE_WINDOW_MS = 3000; // The quietest moment in this window is taken as the current noise floor
+const LEVEL_ADAPT_RATE = 0.05; // Per chunk; roughly a two second time constant at 100 ms chunks
+const MIN_SPEECH_TO_NOISE = 4; // Speech is assumed to be at least 12 dB above the noise floor
+
+// Halfway between the noise floor and the speaking level, on a logarithmic (decibel) scale.
+export function speechThreshold({ noiseFloor, speechLevel }: VadCalibration): number {
+  return Math.max(MIN_SPEECH_THRESHOLD, Math.sqrt(noiseFloor * Math.max(noiseFloor, speechLevel)));
+}
+
+const percentile = (values: number[], fraction: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] ?? 0;
+};
+
+// Derives calibration from chunk levels recorded while the user stayed quiet and while they spoke.
+export function calibrateFromLevels(silentLevels: number[], speechLevels: number[]): VadCalibration {
+  const noiseFloor = Math.max(MIN_SPEECH_THRESHOLD / 4, percentile(silentLevels, 0.5));
+  // Pauses between words are part of the speech recording, so use its louder chunks.
+  const speechLevel = Math.max(noiseFloor, percentile(speechLevels, 0.75));
+  return { noiseFloor, speechLevel };
+}
+
+// Classifies audio chunks as speech or silence by volume, and tracks how
+// long the input has been silent. The noise floor follows the quietest
+// recent chunks and the speaking level follows recent speech, so the
+// threshold adapts when the room gets noisier or the speaker quieter.
+export class VoiceActivityDetector {
+  private silenceMs = 0;
+  private noiseFloor: number;
+  private speechLevel: number;
+  private recentLevels: number[] = [];
+
+  constructor(calibration: VadCalibration) {
+    this.noiseFloor = calibration.noiseFloor;
+    this.speechLevel = calibration.speechLevel;
+  }
+
+  get threshold(): number {
+    return speechThreshold({ noiseFloor: this.noiseFloor, speechLevel: this.speechLevel });
+  }
+
+  recalibrate(calibration: VadCalibration) {
+    this.noiseFloor = calibration.noiseFloor;
+    this.speechLevel = calibration.speechLevel;
+    this.recentLevels = [];
+  }
+
+  process(rms: number, durationMs: number): { speech: boolean; silenceMs: number; threshold: number } {
+    const threshold = this.threshold;
+    const speech = rms > threshold;
+    this.silenceMs = speech ? 0 : this.silenceMs + durationMs;
+
+    this.recentLevels.push(rms);
+    const windowSize = Math.max(1, Math.round(NOISE_WINDOW_MS / durationMs));
+    if (this.recentLevels.length > windowSize) this.recentLevels.shift();
+    if (this.recentLevels.length === windowSize) {
+      this.noiseFloor += (Math.min(...this.recentLevels) - this.noiseFloor) * LEVEL_ADAPT_RATE;
+    }
+    if (speech) {
+      this.speechLevel += (rms - this.speechLevel) * LEVEL_ADAPT_RATE;
     }
-    return {
-      data: encode(new Uint8Array(int16.buffer)),
-      mimeType: 'audio/pcm;rate=16000',
-    };
+    // Keeps steady background noise from dragging the speaking level, and with it the threshold, down to the noise.
+    this.speechLevel = Math.max(this.speechLevel, this.noiseFloor * MIN_SPEECH_TO_NOISE);
+    return { speech, silenceMs: this.silenceMs, threshold };
   }
+}
 
 // Calculates the Root Mean Square of an audio buffer to measure its volume.
 export function calculateRMS(data: Float32Array): number {
@@ -64,3 +186,39 @@ export function calculateRMS(data: Float32Array): number {
   }
   return Math.sqrt(sum / data.length);
 }
+
+// Mixes channels down to mono and encodes them as a 16-bit PCM WAV file.
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const frameCount = channels.length ? channels[0].length : 0;
+  const buffer = new ArrayBuffer(44 + frameCount * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + frameCount * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, frameCount * 2, true);
+
+  for (let i = 0; i < frameCount; i++) {
+    let sample = 0;
+    for (const channel of channels) {
+      sample += channel[i];
+    }
+    sample = Math.max(-1, Math.min(1, sample / channels.length));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return buffer;
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+// Picks microphones and speakers. A device id of null always means the
+// system default, which is also what the app falls back to when a chosen
+// device is unplugged.
+
+// AudioContext.setSinkId is not in TypeScript's DOM library yet.
+interface SinkSelectableAudioContext extends AudioContext {
+    setSinkId(sinkId: string): Promise<void>;
+}
+
+// The browser's own 'default' and 'communications' entries duplicate our system default option.
+const PSEUDO_DEVICE_IDS = ['default', 'communications'];
+
+export interface AudioDevices {
+    inputs: MediaDeviceInfo[];
+    outputs: MediaDeviceInfo[];
+    refresh: () => void; // Labels and ids only appear once microphone access has been granted
+}
+
+// Safari and older Firefox always play through the default output.
+export const supportsOutputSelection = (): boolean =>
+    typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+const isSelectable = (device: MediaDeviceInfo) => device.deviceId !== '' && !PSEUDO_DEVICE_IDS.includes(device.deviceId);
+
+// Keeps the lists of microphones and speakers current as devices are plugged in and out.
+export const useAudioDevices = (): AudioDevices => {
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+    const refresh = useCallback(() => {
+        navigator.mediaDevices?.enumerateDevices()
+            .then(list => setDevices(list.filter(isSelectable)))
+            .catch(err => console.error('Failed to list audio devices:', err));
+    }, []);
+
+    useEffect(() => {
+        refresh();
+        navigator.mediaDevices?.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    }, [refresh]);
+
+    return useMemo(() => ({
+        inputs: devices.filter(device => device.kind === 'audioinput'),
+        outputs: devices.filter(device => device.kind === 'audiooutput'),
+        refresh,
+    }), [devices, refresh]);
+};
+
+// Opens the chosen microphone, or the default one if the chosen one is no longer connected.
+export const openMicrophone = async (deviceId: string | null): Promise<MediaStream> => {
+    if (deviceId) {
+        try {
+            return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+        } catch (err) {
+            if (!(err instanceof Error) || (err.name !== 'NotFoundError' && err.name !== 'OverconstrainedError')) throw err;
+            console.warn('Selected microphone unavailable, using the default:', err);
+        }
+    }
+    return navigator.mediaDevices.getUserMedia({ audio: true });
+};
+
+// Plays everything from the context through the chosen speakers, or the default output if they are gone.
+export const setOutputDevice = async (ctx: AudioContext, deviceId: string | null): Promise<void> => {
+    if (!('setSinkId' in ctx)) return;
+    const sinkContext = ctx as SinkSelectableAudioContext;
+    try {
+        await sinkContext.setSinkId(deviceId ?? '');
+    } catch (err) {
+        console.warn('Failed to switch audio output, using the default:', err);
+        if (deviceId) await sinkContext.setSinkId('').catch(console.error);
+    }
+};
@@ -0,0 +1,69 @@
+import { calculateRMS, floatTo16BitPCM, StreamingResampler, VadCalibration, VoiceActivityDetector } from './audio';
+
+// Runs on the audio rendering thread. Resamples the microphone to the
+// target rate, measures each chunk's volume and posts ready-to-send 16-bit
+// PCM chunks to the main thread. Loaded through MicrophoneCapture.
+
+// Globals of the AudioWorkletGlobalScope, which TypeScript's DOM library does not describe.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(name: string, processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+export interface CaptureProcessorOptions {
+    targetSampleRate: number;
+    chunkMs: number;
+    calibration: VadCalibration;
+}
+
+class CaptureProcessor extends AudioWorkletProcessor {
+    private readonly resampler: StreamingResampler;
+    private readonly detector: VoiceActivityDetector;
+    private readonly chunk: Float32Array;
+    private readonly chunkMs: number;
+    private filled = 0;
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const { targetSampleRate, chunkMs, calibration } = options.processorOptions as CaptureProcessorOptions;
+        this.resampler = new StreamingResampler(sampleRate, targetSampleRate);
+        this.detector = new VoiceActivityDetector(calibration);
+        this.chunk = new Float32Array(Math.round(targetSampleRate * chunkMs / 1000));
+        this.chunkMs = chunkMs;
+        this.port.onmessage = (event: MessageEvent) => {
+            if (event.data?.calibration) {
+                this.detector.recalibrate(event.data.calibration);
+            }
+        };
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const channel = inputs[0]?.[0];
+        if (!channel) return true;
+
+        const samples = this.resampler.process(channel);
+        let offset = 0;
+        while (offset < samples.length) {
+            const count = Math.min(samples.length - offset, this.chunk.length - this.filled);
+            this.chunk.set(samples.subarray(offset, offset + count), this.filled);
+            this.filled += count;
+            offset += count;
+            if (this.filled === this.chunk.length) {
+                this.postChunk();
+                this.filled = 0;
+            }
+        }
+        return true;
+    }
+
+    private postChunk() {
+        const rms = calculateRMS(this.chunk);
+        const { speech, silenceMs, threshold } = this.detector.process(rms, this.chunkMs);
+        const pcm = floatTo16BitPCM(this.chunk);
+        this.port.postMessage({ pcm, rms, speech, silenceMs, threshold }, [pcm.buffer]);
+    }
+}
+
+registerProcessor('capture-processor', CaptureProcessor);
@@ -0,0 +1,23 @@
+import { CoachingHints } from "../types";
+
+// Coaching hints come from a separate, lightweight model call on the text
+// streamed so far. Nothing from it is ever sent into the interview session.
+
+export const COACHING_DEBOUNCE_MS = 2500; // Waits for a pause in the streamed text before asking for new hints
+export const LONG_ANSWER_MS = 2 * 60 * 1000;
+export const MIN_ANSWER_CHARS_FOR_TOPIC_CHECK = 150; // Too early to judge whether a shorter answer is on topic
+export const MAX_TALKING_POINTS = 3;
+
+export const emptyCoachingHints: CoachingHints = { talkingPoints: [], offTopic: false };
+
+// Validates hints returned by the model. Anything malformed is dropped rather than shown.
+export const parseCoachingHints = (raw: string, answer: string): CoachingHints => {
+    const data = JSON.parse(raw);
+    const talkingPoints = Array.isArray(data?.talkingPoints)
+        ? data.talkingPoints.filter((point: unknown): point is string => typeof point === 'string' && point.trim() !== '').map((point: string) => point.trim())
+        : [];
+    return {
+        talkingPoints: talkingPoints.slice(0, MAX_TALKING_POINTS),
+        offTopic: answer.trim().length >= MIN_ANSWER_CHARS_FOR_TOPIC_CHECK && data?.addressesQuestion === false,
+    };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptEntry } from '../types';
+import { findPairForEntry, pairQuestionsAndAnswers, parseAnswerCritiques } from './critique';
+
+const transcript: TranscriptEntry[] = [
+    { speaker: 'You', text: 'Hello?' }, // Before the first question
+    { speaker: 'Interviewer', text: 'Tell me about a conflict.' },
+    { speaker: 'You', text: 'We disagreed on a deadline.' },
+    { speaker: 'You', text: 'We split the scope.' },
+    { speaker: 'Interviewer', text: 'Any questions?' }, // Never answered
+    { speaker: 'Interviewer', text: 'How do you test code?' },
+    { speaker: 'You', text: 'Unit tests first.' },
+];
+
+describe('pairQuestionsAndAnswers', () => {
+    const pairs = pairQuestionsAndAnswers(transcript);
+
+    it('joins everything the candidate said before the next question', () => {
+        expect(pairs).toEqual([
+            { questionIndex: 1, answerIndices: [2, 3], question: 'Tell me about a conflict.', answer: 'We disagreed on a deadline. We split the scope.' },
+            { questionIndex: 5, answerIndices: [6], question: 'How do you test code?', answer: 'Unit tests first.' },
+        ]);
+    });
+
+    it('finds the pair for a question or any part of its answer', () => {
+        expect(findPairForEntry(pairs, 1)?.questionIndex).toBe(1);
+        expect(findPairForEntry(pairs, 3)?.questionIndex).toBe(1);
+        expect(findPairForEntry(pairs, 4)).toBeUndefined();
+        expect(findPairForEntry(pairs, 0)).toBeUndefined();
+    });
+});
+
+describe('parseAnswerCritiques', () => {
+    const pairs = pairQuestionsAndAnswers(transcript);
+
+    it('keeps one critique per pair, in transcript order', () => {
+        const critiques = parseAnswerCritiques(JSON.stringify({
+            critiques: [
+                { questionIndex: 5, kind: 'technical', score: 4, critique: 'Good.', improvedAnswer: 'Better.' },
+                { questionIndex: 1, kind: 'behavioral', star: { situation: true, task: 'yes', action: true }, score: 9, critique: 'Fine.', improvedAnswer: 'Best.' },
+                { questionIndex: 4, kind: 'general', score: 3, critique: 'No answer was given.', improvedAnswer: '' },
+            ],
+        }), pairs);
+        expect(critiques).toEqual([
+            { questionIndex: 1, kind: 'behavioral', score: 5, critique: 'Fine.', star: { situation: true, task: false, action: true, result: false }, improvedAnswer: 'Best.' },
+            { questionIndex: 5, kind: 'technical', score: 4, critique: 'Good.', star: null, improvedAnswer: 'Better.' },
+        ]);
+    });
+
+    it('fills gaps in what the model returned', () => {
+        const [critique] = parseAnswerCritiques(JSON.stringify({ critiques: [{ questionIndex: '1', kind: 'trick', score: 'n/a' }] }), pairs);
+        expect(critique).toEqual({ questionIndex: 1, kind: 'general', score: 1, critique: '', star: null, improvedAnswer: '' });
+    });
+
+    it('returns nothing when the response has no critiques', () => {
+        expect(parseAnswerCritiques('{}', pairs)).toEqual([]);
+        expect(() => parseAnswerCritiques('not json', pairs)).toThrow();
+    });
+});
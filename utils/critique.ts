@@ -0,0 +1,59 @@
+import { AnswerCritique, QuestionKind, StarCoverage, TranscriptEntry } from "../types";
+import { clampScore } from "./summary";
+
+export const QUESTION_KINDS: QuestionKind[] = ['behavioral', 'technical', 'general'];
+
+export const STAR_PARTS: (keyof StarCoverage)[] = ['situation', 'task', 'action', 'result'];
+
+// An interviewer turn and everything the candidate said in reply, before the interviewer spoke again.
+export interface QuestionAnswerPair {
+    questionIndex: number;
+    answerIndices: number[];
+    question: string;
+    answer: string;
+}
+
+export const pairQuestionsAndAnswers = (transcript: TranscriptEntry[]): QuestionAnswerPair[] => {
+    const pairs: QuestionAnswerPair[] = [];
+    transcript.forEach((entry, i) => {
+        if (entry.speaker === 'Interviewer') {
+            pairs.push({ questionIndex: i, answerIndices: [], question: entry.text, answer: '' });
+            return;
+        }
+        const pair = pairs[pairs.length - 1];
+        if (!pair) return; // The candidate spoke before the first question
+        pair.answerIndices.push(i);
+        pair.answer = pair.answer ? `${pair.answer} ${entry.text}` : entry.text;
+    });
+    return pairs.filter(pair => pair.answerIndices.length > 0);
+};
+
+// Finds the pair a transcript entry belongs to, whether it is the question or part of the answer.
+export const findPairForEntry = (pairs: QuestionAnswerPair[], entryIndex: number): QuestionAnswerPair | undefined =>
+    pairs.find(pair => pair.questionIndex === entryIndex || pair.answerIndices.includes(entryIndex));
+
+const parseStar = (value: any): StarCoverage => ({
+    situation: value?.situation === true,
+    task: value?.task === true,
+    action: value?.action === true,
+    result: value?.result === true,
+});
+
+// Validates critiques returned by the model, keeping one per known pair in transcript order.
+export const parseAnswerCritiques = (raw: string, pairs: QuestionAnswerPair[]): AnswerCritique[] => {
+    const data = JSON.parse(raw);
+    const items: any[] = Array.isArray(data?.critiques) ? data.critiques : [];
+    return pairs.flatMap(pair => {
+        const item = items.find(c => Number(c?.questionIndex) === pair.questionIndex);
+        if (!item) return [];
+        const kind: QuestionKind = QUESTION_KINDS.includes(item.kind) ? item.kind : 'general';
+        return [{
+            questionIndex: pair.questionIndex,
+            kind,
+            score: clampScore(item.score),
+            critique: typeof item.critique === 'string' ? item.critique : '',
+            star: kind === 'behavioral' ? parseStar(item.star) : null,
+            improvedAnswer: typeof item.improvedAnswer === 'string' ? item.improvedAnswer : '',
+        }];
+    });
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptEntry } from '../types';
+import { computeDeliveryMetrics } from './delivery';
+
+const answers = (...texts: string[]): TranscriptEntry[] => texts.map(text => ({ speaker: 'You', text }));
+
+const fillerCounts = (transcript: TranscriptEntry[], language: string) =>
+    Object.fromEntries(computeDeliveryMetrics(transcript, language).fillerWords.map(({ word, count }) => [word, count]));
+
+describe('filler words', () => {
+    it('counts whole words only in spaced languages', () => {
+        expect(fillerCounts(answers('Um, I, like, um, led the team.', 'Likewise, I umpired.'), 'English')).toEqual({ um: 2, like: 1 });
+    });
+
+    it('ignores ordinary uses of Chinese fillers inside sentences', () => {
+        expect(fillerCounts(answers('这个项目然后就上线了，就是这样。'), 'Mandarin Chinese')).toEqual({});
+    });
+
+    it('counts Chinese fillers that stand alone', () => {
+        expect(fillerCounts(answers('嗯，这个，我觉得，然后，我们改了设计。', '那个'), 'Mandarin Chinese')).toEqual({ 嗯: 1, 这个: 1, 然后: 1, 那个: 1 });
+    });
+
+    it('counts Japanese fillers that stand alone', () => {
+        expect(fillerCounts(answers('えーと、あの、その案件では、あの人と協力しました。'), 'Japanese')).toEqual({ えーと: 1, あの: 1 });
+    });
+});
@@ -0,0 +1,110 @@
+import { TranscriptEntry } from "../types";
+import { localeForInterviewLanguage } from "./i18n";
+
+// Delivery metrics are computed locally from the transcript and the turn timings
+// recorded during the interview. Typed answers count towards filler words but
+// not towards anything measured in time. Filler words come from each
+// language's locale catalog.
+
+export interface FillerWordCount {
+    word: string;
+    count: number;
+}
+
+export interface AnswerLatency {
+    question: string;
+    latencyMs: number; // Silence between the end of the question and the start of the answer
+}
+
+export interface Monologue {
+    text: string;
+    durationMs: number;
+}
+
+export interface DeliveryMetrics {
+    pace: number | null; // Per minute of speaking time, null without timed spoken answers
+    paceUnit: 'words' | 'characters';
+    fillerWords: FillerWordCount[]; // Most frequent first
+    fillerWordTotal: number;
+    candidateTalkMs: number;
+    interviewerTalkMs: number;
+    candidateTalkShare: number | null; // 0 to 1
+    answerLatencies: AnswerLatency[];
+    averageLatencyMs: number | null;
+    longestMonologue: Monologue | null;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Without spaces between words, fillers such as 这个 ("this") are also ordinary words, so they
+// only count where they stand alone between punctuation, spaces or the ends of a turn.
+const countOccurrences = (text: string, phrase: string, spaced: boolean): number => {
+    const pattern = spaced
+        ? new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, 'giu')
+        : new RegExp(`(?<=^|[\\s\\p{P}])${escapeRegExp(phrase)}(?=$|[\\s\\p{P}])`, 'gu');
+    return text.match(pattern)?.length ?? 0;
+};
+
+const countUnits = (text: string, spaced: boolean): number =>
+    spaced ? text.split(/\s+/).filter(Boolean).length : text.replace(/[\s\p{P}]/gu, '').length;
+
+const turnDuration = (entry: TranscriptEntry): number =>
+    entry.startMs !== undefined && entry.endMs !== undefined ? Math.max(0, entry.endMs - entry.startMs) : 0;
+
+const isTimedSpeech = (entry: TranscriptEntry): boolean => !entry.typed && turnDuration(entry) > 0;
+
+export const computeDeliveryMetrics = (transcript: TranscriptEntry[], language: string): DeliveryMetrics => {
+    const { words, spaced } = localeForInterviewLanguage(language).fillerWords;
+    const answers = transcript.filter(entry => entry.speaker === 'You');
+    const spokenAnswers = answers.filter(isTimedSpeech);
+    const answerText = answers.map(entry => entry.text).join(' ');
+
+    const fillerWords = words
+        .map(word => ({ word, count: countOccurrences(answerText, word, spaced) }))
+        .filter(filler => filler.count > 0)
+        .sort((a, b) => b.count - a.count);
+
+    const candidateTalkMs = spokenAnswers.reduce((total, entry) => total + turnDuration(entry), 0);
+    const interviewerTalkMs = transcript
+        .filter(entry => entry.speaker === 'Interviewer')
+        .reduce((total, entry) => total + turnDuration(entry), 0);
+    const spokenUnits = spokenAnswers.reduce((total, entry) => total + countUnits(entry.text, spaced), 0);
+
+    const answerLatencies: AnswerLatency[] = [];
+    transcript.forEach((entry, i) => {
+        const previous = transcript[i - 1];
+        if (entry.speaker !== 'You' || entry.typed || entry.startMs === undefined) return;
+        if (previous?.speaker !== 'Interviewer' || previous.endMs === undefined) return;
+        answerLatencies.push({ question: previous.text, latencyMs: Math.max(0, entry.startMs - previous.endMs) });
+    });
+
+    const longest = spokenAnswers.reduce<TranscriptEntry | null>((best, entry) => !best || turnDuration(entry) > turnDuration(best) ? entry : best, null);
+
+    return {
+        pace: candidateTalkMs > 0 ? Math.round(spokenUnits / (candidateTalkMs / 60000)) : null,
+        paceUnit: spaced ? 'words' : 'characters',
+        fillerWords,
+        fillerWordTotal: fillerWords.reduce((total, filler) => total + filler.count, 0),
+        candidateTalkMs,
+        interviewerTalkMs,
+        candidateTalkShare: candidateTalkMs + interviewerTalkMs > 0 ? candidateTalkMs / (candidateTalkMs + interviewerTalkMs) : null,
+        answerLatencies,
+        averageLatencyMs: answerLatencies.length
+            ? answerLatencies.reduce((total, answer) => total + answer.latencyMs, 0) / answerLatencies.length
+            : null,
+        longestMonologue: longest ? { text: longest.text, durationMs: turnDuration(longest) } : null,
+    };
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Plain-text rendering of the metrics for the summary prompt.
+export const formatDeliveryMetrics = (metrics: DeliveryMetrics): string => {
+    const lines: string[] = [];
+    if (metrics.pace !== null) lines.push(`- Speaking pace: ${metrics.pace} ${metrics.paceUnit} per minute`);
+    lines.push(`- Filler words: ${metrics.fillerWordTotal}${metrics.fillerWords.length ? ` (${metrics.fillerWords.map(f => `"${f.word}" x${f.count}`).join(', ')})` : ''}`);
+    if (metrics.candidateTalkShare !== null) lines.push(`- Candidate share of talk time: ${Math.round(metrics.candidateTalkShare * 100)}%`);
+    if (metrics.averageLatencyMs !== null) lines.push(`- Average silence before answering: ${formatSeconds(metrics.averageLatencyMs)}`);
+    if (metrics.longestMonologue) lines.push(`- Longest answer: ${formatSeconds(metrics.longestMonologue.durationMs)}`);
+    return lines.join('\n');
+};
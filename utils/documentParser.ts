@@ -0,0 +1,50 @@
+import * as pdfjsLib from 'pdfjs-dist/build/pdf.min.mjs';
+import mammoth from 'mammoth';
+
+// File types accepted by the resume, job description and instructions inputs.
+export const SUPPORTED_DOCUMENT_TYPES = '.pdf,.docx,.txt,.md,.markdown';
+
+try {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs';
+} catch (e) {
+    console.error("Failed to set PDF.js worker source.", e);
+}
+
+const extractPdfText = async (arrayBuffer: ArrayBuffer): Promise<string> => {
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    let fullText = '';
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        const pageText = textContent.items.map(item => ('str' in item) ? item.str : '').join(' ');
+        fullText += pageText + '\n';
+    }
+    return fullText;
+};
+
+const extractDocxText = async (arrayBuffer: ArrayBuffer): Promise<string> => {
+    const result = await mammoth.extractRawText({ arrayBuffer });
+    return result.value;
+};
+
+// Extracts the plain text of a PDF, DOCX, TXT or Markdown file.
+export const extractDocumentText = async (file: File): Promise<string> => {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    let text: string;
+    switch (extension) {
+        case 'pdf':
+            text = await extractPdfText(await file.arrayBuffer());
+            break;
+        case 'docx':
+            text = await extractDocxText(await file.arrayBuffer());
+            break;
+        case 'txt':
+        case 'md':
+        case 'markdown':
+            text = await file.text();
+            break;
+        default:
+            throw new Error(`Unsupported file type ".${extension}". Please upload a PDF, DOCX, TXT or Markdown file.`);
+    }
+    return text.trim();
+};
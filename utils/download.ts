@@ -0,0 +1,17 @@
+// How long the object URL outlives the click. Browsers fetch it asynchronously, and large
+// files can take a while to start, so this follows FileSaver.js rather than revoking at once.
+const REVOKE_DELAY_MS = 40 * 1000;
+
+// Saves a Blob to the user's machine under the given file name.
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+export const downloadText = (text: string, fileName: string, mimeType: string) => {
+    downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName);
+};
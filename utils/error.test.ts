@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorPayload, fromErrorPayload, getErrorKind, InterviewError, isTransientError, toErrorPayload } from './error';
+import { t } from './i18n';
+
+const httpError = (status: number, message = `Request failed with status ${status}`) => Object.assign(new Error(message), { status });
+
+describe('error classification', () => {
+    it.each([
+        [httpError(401), 'auth'],
+        [httpError(403), 'auth'],
+        [httpError(429), 'quota'],
+        [httpError(503), 'server'],
+        [new Error('{"error":{"code":400,"message":"API key not valid. Please pass a valid API key.","status":"INVALID_ARGUMENT"}}'), 'auth'],
+        [new Error('{"error":{"message":"Overloaded","status":"UNAVAILABLE"}}'), 'server'],
+        [new TypeError('Failed to fetch'), 'network'],
+        [new DOMException('Permission denied', 'NotAllowedError'), 'device'],
+        [new Error('Response blocked for safety reasons'), 'safety'],
+        [new Error('Something odd happened'), 'unknown'],
+    ])('classifies %s', (error, kind) => {
+        expect(getErrorKind(error)).toBe(kind);
+    });
+
+    it('looks inside error events', () => {
+        expect(getErrorKind({ type: 'error', error: httpError(429) })).toBe('quota');
+    });
+
+    it('treats only quota, network and server errors as transient', () => {
+        expect(isTransientError(httpError(429))).toBe(true);
+        expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+        expect(isTransientError(httpError(500))).toBe(true);
+        expect(isTransientError(httpError(401))).toBe(false);
+        expect(isTransientError(new Error('Response blocked for safety reasons'))).toBe(false);
+        expect(isTransientError(new InterviewError('auth', 'No key'))).toBe(false);
+    });
+});
+
+describe('error payloads', () => {
+    const roundTrip = (error: unknown) => fromErrorPayload(JSON.parse(JSON.stringify(toErrorPayload(error))) as ErrorPayload, 'summary');
+
+    it('carries the kind and message key across the relay', () => {
+        const payload = toErrorPayload(httpError(429));
+        expect(payload).toEqual({ kind: 'quota', messageKey: 'apiError.quota', message: 'Request failed with status 429' });
+
+        const error = roundTrip(httpError(429));
+        expect(error).toBeInstanceOf(InterviewError);
+        expect(error.kind).toBe('quota');
+        expect(error.transient).toBe(true);
+        expect(error.message).toBe(t('apiError.quota'));
+    });
+
+    it('keeps the original message when no message key fits', () => {
+        const error = roundTrip(new Error('Model refused'));
+        expect(error.kind).toBe('unknown');
+        expect(error.message).toBe(t('apiError.summary', { message: 'Model refused' }));
+    });
+
+    it('classifies by the cause of a wrapped error', () => {
+        const wrapped = new InterviewError('auth', 'Already worded', { cause: httpError(401) });
+        expect(toErrorPayload(wrapped)).toMatchObject({ kind: 'auth', messageKey: 'apiError.invalidKey' });
+    });
+
+    it('reports the server failing to reach the AI service as a server error', () => {
+        expect(toErrorPayload(new TypeError('fetch failed'))).toEqual({ kind: 'server', messageKey: 'apiError.server', message: '' });
+    });
+
+    it('falls back to a generic message when there is nothing to show', () => {
+        expect(fromErrorPayload({ kind: 'unknown', messageKey: null, message: '' }, 'start').message).toBe(t('apiError.unknown'));
+    });
+});
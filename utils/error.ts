@@ -1,56 +1,145 @@
+import { MessageKey, t } from './i18n';
 
-export const getApiErrorMessage = (error: any, context: 'start' | 'summary'): string => {
-    let errorMessage = 'An unknown error occurred.';
-    let errorToInspect = error;
+// What went wrong, in terms the app can act on. Only transient kinds are worth retrying.
+export type ErrorKind = 'auth' | 'quota' | 'network' | 'safety' | 'server' | 'device' | 'unknown';
 
-    // Handle cases where error is wrapped, e.g. ErrorEvent.error
-    if (error?.error) { 
-        errorToInspect = error.error;
-    }
-    
-    // Extract a string message from different possible error shapes
-    if (errorToInspect instanceof Error) {
-        errorMessage = errorToInspect.message;
-    } else if (typeof errorToInspect === 'string') {
-        errorMessage = errorToInspect;
-    } else if (typeof errorToInspect?.message === 'string') {
-        errorMessage = errorToInspect.message;
-    } else if (typeof error?.message === 'string') { // Fallback to original error object's message
-        errorMessage = error.message;
-    }
+const TRANSIENT_ERROR_KINDS: ErrorKind[] = ['quota', 'network', 'server'];
 
-    const lowerCaseMessage = errorMessage.toLowerCase();
+// An error of a known kind whose message is ready to show to the user.
+export class InterviewError extends Error {
+    readonly kind: ErrorKind;
 
-    if (lowerCaseMessage.includes('api key not valid')) {
-        return 'The provided API key is invalid or not activated for this project. Please check your configuration.';
-    }
-    if (lowerCaseMessage.includes('permission denied') || lowerCaseMessage.includes('403')) {
-        return 'You do not have permission to access this resource. This could be due to an incorrect API key or project settings.';
-    }
-    if (lowerCaseMessage.includes('quota') || lowerCaseMessage.includes('rate limit') || lowerCaseMessage.includes('429')) {
-        return 'The API request quota has been exceeded. Please wait a while before trying again.';
-    }
-    if (lowerCaseMessage.includes('content has been blocked') || lowerCaseMessage.includes('safety policy')) {
-         return 'The request was blocked due to the safety policy. Please modify your script and try again.';
-    }
-    if (lowerCaseMessage.includes('server error') || lowerCaseMessage.includes('500') || lowerCaseMessage.includes('service unavailable')) {
-        return 'The AI service is currently experiencing issues. Please try again later.';
-    }
-    if (lowerCaseMessage.includes('network error') || lowerCaseMessage.includes('failed to fetch')) {
-        return 'A network error occurred. Please check your internet connection and try again.';
+    constructor(kind: ErrorKind, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'InterviewError';
+        this.kind = kind;
     }
 
-    // Context-specific fallbacks using original error message
-    if (context === 'start') {
-        if (errorMessage === 'An unknown error occurred.') return errorMessage;
-        return `Could not start the interview: ${errorMessage}.`;
+    get transient(): boolean {
+        return TRANSIENT_ERROR_KINDS.includes(this.kind);
     }
-    if (context === 'summary') {
-        if (errorMessage === 'An unknown error occurred.') return errorMessage;
-        return `An API error occurred while generating the summary: ${errorMessage}`;
+}
+
+interface ErrorClassification {
+    kind: ErrorKind;
+    messageKey: MessageKey | null; // Null when the original message is all there is to show
+}
+
+// getUserMedia failures, by DOMException name.
+const DEVICE_ERROR_MESSAGES: Record<string, MessageKey> = {
+    NotAllowedError: 'error.micDenied',
+    SecurityError: 'error.micDenied',
+    NotFoundError: 'error.micNotFound',
+    OverconstrainedError: 'error.micNotFound',
+    NotReadableError: 'error.micNotReadable',
+};
+
+// Google API status names, as found in the JSON error bodies.
+const RPC_STATUS_CLASSIFICATIONS: Record<string, ErrorClassification> = {
+    UNAUTHENTICATED: { kind: 'auth', messageKey: 'apiError.invalidKey' },
+    PERMISSION_DENIED: { kind: 'auth', messageKey: 'apiError.permission' },
+    RESOURCE_EXHAUSTED: { kind: 'quota', messageKey: 'apiError.quota' },
+    UNAVAILABLE: { kind: 'server', messageKey: 'apiError.server' },
+    INTERNAL: { kind: 'server', messageKey: 'apiError.server' },
+    DEADLINE_EXCEEDED: { kind: 'server', messageKey: 'apiError.server' },
+};
+
+const classifyHttpStatus = (status: number, message: string): ErrorClassification | null => {
+    if (status === 401 || (status === 400 && /api key not valid/i.test(message))) return { kind: 'auth', messageKey: 'apiError.invalidKey' };
+    if (status === 403) return { kind: 'auth', messageKey: 'apiError.permission' };
+    if (status === 429) return { kind: 'quota', messageKey: 'apiError.quota' };
+    if (status === 408 || status >= 500) return { kind: 'server', messageKey: 'apiError.server' };
+    return null;
+};
+
+// Unwraps events such as ErrorEvent, whose `error` holds the actual failure.
+const unwrap = (error: any): any => (error?.error instanceof Error ? error.error : error);
+
+const messageOf = (error: any): string => {
+    if (typeof error === 'string') return error;
+    return typeof error?.message === 'string' ? error.message : '';
+};
+
+const classify = (error: unknown): ErrorClassification => {
+    const cause = unwrap(error);
+    const message = messageOf(cause) || messageOf(error);
+
+    const deviceMessageKey = typeof cause?.name === 'string' ? DEVICE_ERROR_MESSAGES[cause.name] : undefined;
+    if (deviceMessageKey) return { kind: 'device', messageKey: deviceMessageKey };
+
+    // SDK errors carry the HTTP status; the JSON body in the message has it too.
+    const status = typeof cause?.status === 'number' ? cause.status : Number(/"code"\s*:\s*(\d{3})/.exec(message)?.[1]);
+    const byStatus = status ? classifyHttpStatus(status, message) : null;
+    if (byStatus) return byStatus;
+    const rpcStatus = /"status"\s*:\s*"([A-Z_]+)"/.exec(message)?.[1];
+    if (rpcStatus && RPC_STATUS_CLASSIFICATIONS[rpcStatus]) return RPC_STATUS_CLASSIFICATIONS[rpcStatus];
+
+    // fetch rejects with a TypeError when the request never got a response.
+    if (cause instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+        return { kind: 'network', messageKey: 'apiError.network' };
     }
 
-    // Generic fallback
-    if (errorMessage === 'An unknown error occurred.') return errorMessage;
-    return `An API error occurred: ${errorMessage}`;
+    // Live session errors arrive as bare messages.
+    const lowerCaseMessage = message.toLowerCase();
+    if (lowerCaseMessage.includes('api key not valid')) return { kind: 'auth', messageKey: 'apiError.invalidKey' };
+    if (lowerCaseMessage.includes('quota')) return { kind: 'quota', messageKey: 'apiError.quota' };
+    if (lowerCaseMessage.includes('safety')) return { kind: 'safety', messageKey: 'apiError.safety' };
+    return { kind: 'unknown', messageKey: null };
+};
+
+export const getErrorKind = (error: unknown): ErrorKind => {
+    const cause = unwrap(error);
+    return cause instanceof InterviewError ? cause.kind : classify(error).kind;
+};
+
+// Quota, network and server errors may clear up on their own.
+export const isTransientError = (error: unknown): boolean => TRANSIENT_ERROR_KINDS.includes(getErrorKind(error));
+
+export const getApiErrorMessage = (error: unknown, context: 'start' | 'summary'): string => {
+    const cause = unwrap(error);
+    if (cause instanceof InterviewError) return cause.message;
+
+    const { messageKey } = classify(error);
+    if (messageKey) return t(messageKey);
+
+    const errorMessage = messageOf(unwrap(error)) || messageOf(error);
+    if (!errorMessage) return t('apiError.unknown');
+    return context === 'start' ? t('apiError.start', { message: errorMessage }) : t('apiError.summary', { message: errorMessage });
+};
+
+// Wraps any failure in an InterviewError, keeping the original as its cause.
+export const toInterviewError = (error: unknown, context: 'start' | 'summary'): InterviewError =>
+    error instanceof InterviewError ? error : new InterviewError(getErrorKind(error), getApiErrorMessage(error, context), { cause: error });
+
+// An error as it travels from the relay server to the app, which words it in the user's own language.
+export interface ErrorPayload {
+    kind: ErrorKind;
+    messageKey: MessageKey | null;
+    message: string; // The original wording, shown when no message key fits
+}
+
+// What to show for an error the server raised itself, knowing only its kind.
+const KIND_MESSAGE_KEYS: Record<ErrorKind, MessageKey | null> = {
+    auth: 'error.apiKeyNotConfigured',
+    quota: 'apiError.quota',
+    network: 'apiError.network',
+    safety: 'apiError.safety',
+    server: 'apiError.server',
+    device: null,
+    unknown: null,
+};
+
+export const toErrorPayload = (error: unknown): ErrorPayload => {
+    const original = error instanceof InterviewError && error.cause !== undefined ? error.cause : error;
+    const kind = getErrorKind(error);
+    // A network failure on the server means the AI service is out of reach, not the user.
+    if (kind === 'network') return { kind: 'server', messageKey: 'apiError.server', message: '' };
+    const messageKey = original === error && error instanceof InterviewError ? KIND_MESSAGE_KEYS[kind] : classify(original).messageKey;
+    return { kind, messageKey, message: messageOf(unwrap(original)) || messageOf(original) };
+};
+
+export const fromErrorPayload = ({ kind, messageKey, message }: ErrorPayload, context: 'start' | 'summary'): InterviewError => {
+    if (messageKey) return new InterviewError(kind, t(messageKey));
+    if (!message) return new InterviewError(kind, t('apiError.unknown'));
+    return new InterviewError(kind, context === 'start' ? t('apiError.start', { message }) : t('apiError.summary', { message }));
 };
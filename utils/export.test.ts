@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewSession, TranscriptEntry } from '../types';
+import { buildMarkdownReport, buildSrt, buildWebVtt, resolveTranscriptTiming } from './export';
+import { t, Translate } from './i18n';
+
+// Echoes message keys, so a report built with it shows which text came from the catalog.
+const keysOnly: Translate = (key, params) => (params ? `${key}${JSON.stringify(params)}` : key);
+
+const session = (overrides: Partial<InterviewSession> = {}): InterviewSession => ({
+    id: 'session-1',
+    script: '',
+    language: 'English',
+    transcript: [
+        { speaker: 'Interviewer', text: 'Why this role?', startMs: 0, endMs: 2000 },
+        { speaker: 'You', text: 'I enjoy hard problems.', startMs: 2000, endMs: 5000, typed: true },
+    ],
+    summary: null,
+    startedAt: 0,
+    endedAt: 5000,
+    durationMs: 5000,
+    ...overrides,
+});
+
+describe('resolveTranscriptTiming', () => {
+    it('keeps recorded timings', () => {
+        expect(resolveTranscriptTiming([{ speaker: 'You', text: 'Hello', startMs: 100, endMs: 900 }]))
+            .toEqual([{ speaker: 'You', text: 'Hello', startMs: 100, endMs: 900 }]);
+    });
+
+    it('estimates timings from the word count, starting where the previous entry ended', () => {
+        const timed = resolveTranscriptTiming([
+            { speaker: 'Interviewer', text: 'one two three four five' },
+            { speaker: 'You', text: 'Yes' },
+        ]);
+        expect(timed.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([[0, 2000], [2000, 3000]]);
+    });
+
+    it('replaces an end that does not come after the start', () => {
+        const [entry] = resolveTranscriptTiming([{ speaker: 'You', text: 'Hi', startMs: 5000, endMs: 4000 }]);
+        expect(entry.endMs).toBe(6000);
+    });
+});
+
+describe('buildWebVtt', () => {
+    it('writes one voice-tagged cue per entry', () => {
+        expect(buildWebVtt([{ speaker: 'You', text: 'Hello', startMs: 1500, endMs: 3723004 }]))
+            .toBe('WEBVTT\n\n00:00:01.500 --> 01:02:03.004\n<v You>Hello\n');
+    });
+
+    it('escapes markup and timing arrows in cue text and speaker names', () => {
+        const vtt = buildWebVtt([{ speaker: 'Interviewer', panelist: 'A <b> & C', text: 'x --> y <i>z</i> & more', startMs: 0, endMs: 1000 }]);
+        expect(vtt).toContain('<v A &lt;b&gt; &amp; C>x --&gt; y &lt;i&gt;z&lt;/i&gt; &amp; more');
+        expect(vtt.match(/-->/g)).toHaveLength(1);
+    });
+
+    it('keeps blank lines in an answer from ending the cue', () => {
+        const vtt = buildWebVtt([{ speaker: 'You', text: 'First.\r\n\r\n  \nSecond.', startMs: 0, endMs: 1000 }]);
+        expect(vtt).toContain('<v You>First.\nSecond.\n');
+    });
+});
+
+describe('buildSrt', () => {
+    it('numbers cues and uses commas in timings', () => {
+        const transcript: TranscriptEntry[] = [
+            { speaker: 'Interviewer', text: 'Hi', startMs: 0, endMs: 1000 },
+            { speaker: 'You', text: 'Hello', startMs: 1000, endMs: 2500 },
+        ];
+        expect(buildSrt(transcript)).toBe('1\n00:00:00,000 --> 00:00:01,000\nInterviewer: Hi\n\n2\n00:00:01,000 --> 00:00:02,500\nYou: Hello\n');
+    });
+
+    it('replaces timing arrows and collapses blank lines in cue text', () => {
+        expect(buildSrt([{ speaker: 'You', text: 'a --> b\n\nc', startMs: 0, endMs: 1000 }])).toContain('You: a -> b\nc\n');
+    });
+});
+
+describe('buildMarkdownReport', () => {
+    it('lists the transcript with timestamps and marks typed answers', () => {
+        const report = buildMarkdownReport(session(), t);
+        expect(report).toContain('**[0:00] Interviewer:** Why this role?');
+        expect(report).toContain('**[0:02] You (Typed):** I enjoy hard problems.');
+    });
+
+    it('includes the summary, marking unscored competencies', () => {
+        const report = buildMarkdownReport(session({
+            summary: {
+                overallScore: 4,
+                recommendation: 'HIRE',
+                recommendationRationale: 'Solid answers.',
+                competencies: [
+                    { competency: 'Communication', score: 4, rationale: 'Clear | concise', evidence: ['I enjoy hard problems.'] },
+                    { competency: 'Leadership', score: null, rationale: '', evidence: [] },
+                ],
+                narrative: '',
+            },
+        }), t);
+        expect(report).toContain('**Overall Score:** 4 / 5 — **Hire**');
+        expect(report).toContain('| Communication | 4 / 5 | Clear \\| concise |');
+        expect(report).toContain('| Leadership | Not scored |  |');
+        expect(report).toContain('> I enjoy hard problems.');
+    });
+
+    it('takes every label from the translator', () => {
+        const report = buildMarkdownReport(session({
+            coachingEnabled: true,
+            summary: {
+                overallScore: null,
+                recommendation: 'NO_HIRE',
+                recommendationRationale: '',
+                competencies: [{ competency: 'Communication', score: null, rationale: '', evidence: ['I enjoy hard problems.'] }],
+                narrative: '',
+            },
+            critiques: [{ questionIndex: 0, kind: 'behavioral', score: 3, critique: 'Vague.', star: { situation: true, task: false, action: true, result: false }, improvedAnswer: 'Better.' }],
+        }), keysOnly);
+        expect(report).toContain('# export.reportTitle');
+        expect(report).toContain('- **export.coaching:** export.coachingOn');
+        expect(report).toContain('**summary.overallScore:** summary.notScored — **recommendation.NO_HIRE**');
+        expect(report).toContain('**export.evidence{"competency":"Communication"}:**');
+        expect(report).toContain('**export.score:** 3 / 5 (questionKind.behavioral)');
+        expect(report).toContain('**answers.starLabel:** star.situation ✓ · star.task ✗ · star.action ✓ · star.result ✗');
+        expect(report).toContain('**[0:02] You (common.typed):** I enjoy hard problems.');
+        expect(report).not.toMatch(/\b(Report|Score|Not scored|Typed|No Hire|Behavioral)\b/);
+    });
+});
@@ -0,0 +1,151 @@
+import { InterviewSession, TranscriptEntry } from "../types";
+import { formatDateTime, formatDuration } from "./format";
+import { STAR_PARTS } from "./critique";
+import type { Translate } from "./i18n";
+import { emptyPlanProgress, getSkippedQuestions } from "./questionPlan";
+import { MAX_SCORE } from "./summary";
+
+const EXPORT_FORMAT_VERSION = 1;
+const MS_PER_WORD = 400; // Used to estimate timing for entries recorded without it
+const MIN_CUE_MS = 1000;
+
+export interface TimedTranscriptEntry extends TranscriptEntry {
+    startMs: number;
+    endMs: number;
+}
+
+// Fills in missing or inconsistent timing so every entry can become a caption cue.
+export const resolveTranscriptTiming = (transcript: TranscriptEntry[]): TimedTranscriptEntry[] => {
+    let previousEndMs = 0;
+    return transcript.map(entry => {
+        const wordCount = entry.text.split(/\s+/).filter(Boolean).length;
+        const startMs = entry.startMs ?? previousEndMs;
+        const estimatedEndMs = startMs + Math.max(MIN_CUE_MS, wordCount * MS_PER_WORD);
+        const endMs = entry.endMs !== undefined && entry.endMs > startMs ? entry.endMs : estimatedEndMs;
+        previousEndMs = endMs;
+        return { ...entry, startMs, endMs };
+    });
+};
+
+const formatCueTime = (ms: number, fractionSeparator: '.' | ','): string => {
+    const totalMs = Math.max(0, Math.round(ms));
+    const hours = String(Math.floor(totalMs / 3600000)).padStart(2, '0');
+    const minutes = String(Math.floor((totalMs % 3600000) / 60000)).padStart(2, '0');
+    const seconds = String(Math.floor((totalMs % 60000) / 1000)).padStart(2, '0');
+    const millis = String(totalMs % 1000).padStart(3, '0');
+    return `${hours}:${minutes}:${seconds}${fractionSeparator}${millis}`;
+};
+
+// Panelists are named in place of the generic "Interviewer".
+const speakerName = (entry: TranscriptEntry): string => entry.panelist ?? entry.speaker;
+
+// A blank line ends a cue in both formats, so paragraphs within an answer are joined by single line breaks.
+const collapseBlankLines = (text: string): string => text.replace(/\r\n?/g, '\n').replace(/\n\s*\n/g, '\n').trim();
+
+// Cue text in WebVTT is markup. Escaping ">" also keeps a stray "-->" from being read as a timing line.
+const escapeVttText = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const buildWebVtt = (transcript: TranscriptEntry[]): string => {
+    const cues = resolveTranscriptTiming(transcript).map(entry =>
+        `${formatCueTime(entry.startMs, '.')} --> ${formatCueTime(entry.endMs, '.')}\n<v ${escapeVttText(speakerName(entry))}>${escapeVttText(collapseBlankLines(entry.text))}`
+    );
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+export const buildSrt = (transcript: TranscriptEntry[]): string => {
+    const cues = resolveTranscriptTiming(transcript).map((entry, i) =>
+        `${i + 1}\n${formatCueTime(entry.startMs, ',')} --> ${formatCueTime(entry.endMs, ',')}\n${speakerName(entry)}: ${collapseBlankLines(entry.text).replace(/-->/g, '->')}`
+    );
+    return cues.join('\n\n') + '\n';
+};
+
+export const buildTranscriptJson = (session: InterviewSession): string => JSON.stringify({
+    formatVersion: EXPORT_FORMAT_VERSION,
+    id: session.id,
+    language: session.language,
+    persona: session.persona ?? null,
+    panel: session.panel ?? [],
+    coachingEnabled: session.coachingEnabled ?? false,
+    script: session.script,
+    resume: session.resume ?? '',
+    jobDescription: session.jobDescription ?? '',
+    focusAreas: session.focusAreas ?? [],
+    questionPlan: session.questionPlan ?? null,
+    planProgress: session.planProgress ?? null,
+    startedAt: new Date(session.startedAt).toISOString(),
+    endedAt: new Date(session.endedAt).toISOString(),
+    durationMs: session.durationMs,
+    transcript: session.transcript,
+    summary: session.summary,
+    critiques: session.critiques ?? null,
+}, null, 2);
+
+// The report is written in the display language. Speaker names stay as recorded, matching the captions.
+export const buildMarkdownReport = (session: InterviewSession, t: Translate): string => {
+    const formatScore = (score: number | null) => (score === null ? t('summary.notScored') : `${score} / ${MAX_SCORE}`);
+    const lines: string[] = [
+        `# ${t('export.reportTitle')}`,
+        '',
+        `- **${t('export.date')}:** ${formatDateTime(session.startedAt)}`,
+        `- **${t('export.duration')}:** ${formatDuration(session.durationMs)}`,
+        `- **${t('export.language')}:** ${session.language}`,
+        ...(session.panel?.length ? [`- **${t('export.panel')}:** ${session.panel.map(p => `${p.name} (${p.role})`).join(', ')}`] : []),
+        ...(session.coachingEnabled ? [`- **${t('export.coaching')}:** ${t('export.coachingOn')}`] : []),
+        '',
+    ];
+    if (session.script.trim()) lines.push(`## ${t('export.instructions')}`, '', session.script.trim(), '');
+    if (session.focusAreas?.length) lines.push(`## ${t('export.focusAreas')}`, '', ...session.focusAreas.map(area => `- ${area}`), '');
+    if (session.jobDescription?.trim()) lines.push(`## ${t('export.jobDescription')}`, '', session.jobDescription.trim(), '');
+    if (session.resume?.trim()) lines.push(`## ${t('export.resume')}`, '', session.resume.trim(), '');
+
+    const { summary } = session;
+    if (summary) {
+        lines.push(
+            `## ${t('app.performanceSummary')}`,
+            '',
+            `**${t('summary.overallScore')}:** ${formatScore(summary.overallScore)} — **${t(`recommendation.${summary.recommendation}`)}**`,
+            '',
+        );
+        if (summary.recommendationRationale) lines.push(summary.recommendationRationale, '');
+        lines.push(`| ${t('export.competency')} | ${t('export.score')} | ${t('export.rationale')} |`, '| --- | --- | --- |');
+        summary.competencies.forEach(c => lines.push(`| ${c.competency} | ${formatScore(c.score)} | ${c.rationale.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`));
+        lines.push('');
+        summary.competencies.filter(c => c.evidence.length).forEach(c => {
+            lines.push(`**${t('export.evidence', { competency: c.competency })}:**`, '', ...c.evidence.map(quote => `> ${quote}`), '');
+        });
+        if (summary.panelistFeedback?.length) {
+            lines.push(`## ${t('summary.panelFeedback')}`, '');
+            summary.panelistFeedback.forEach(feedback => {
+                lines.push(`### ${feedback.panelist} — ${t(`recommendation.${feedback.recommendation}`)}`, '', feedback.viewpoint, '');
+            });
+        }
+        if (summary.narrative) lines.push(`## ${t('summary.detailedFeedback')}`, '', summary.narrative, '');
+    }
+
+    if (session.questionPlan) {
+        const skipped = getSkippedQuestions(session.questionPlan, session.planProgress ?? emptyPlanProgress);
+        lines.push(`## ${t('plan.skipped')}`, '');
+        if (skipped.length) lines.push(...skipped.map(({ section, question }) => `- **${section}:** ${question}`), '');
+        else lines.push(t('plan.allAsked'), '');
+    }
+
+    if (session.critiques?.length) {
+        lines.push(`## ${t('answers.title')}`, '');
+        session.critiques.forEach(critique => {
+            const question = session.transcript[critique.questionIndex]?.text ?? '';
+            lines.push(`### ${question}`, '', `**${t('export.score')}:** ${critique.score} / ${MAX_SCORE} (${t(`questionKind.${critique.kind}`)})`, '');
+            if (critique.star) {
+                const covered = STAR_PARTS.map(part => `${t(`star.${part}`)} ${critique.star![part] ? '✓' : '✗'}`);
+                lines.push(`**${t('answers.starLabel')}:** ${covered.join(' · ')}`, '');
+            }
+            lines.push(critique.critique, '', `**${t('answers.strongerAnswer')}:**`, '', `> ${critique.improvedAnswer.replace(/\n/g, '\n> ')}`, '');
+        });
+    }
+
+    lines.push(`## ${t('transcript.title')}`, '');
+    resolveTranscriptTiming(session.transcript).forEach(entry => {
+        lines.push(`**[${formatDuration(entry.startMs)}] ${speakerName(entry)}${entry.typed ? ` (${t('common.typed')})` : ''}:** ${entry.text}`, '');
+    });
+    return lines.join('\n');
+};
@@ -0,0 +1,13 @@
+import { getFormattingLocale } from "./i18n";
+
+// Formats a duration in milliseconds as m:ss, or h:mm:ss for long sessions.
+export const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export const formatDateTime = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString(getFormattingLocale(), { dateStyle: 'medium', timeStyle: 'short' });
@@ -0,0 +1,101 @@
+/// <reference types="vite/client" />
+import { useSyncExternalStore } from 'react';
+import type { MessageKey } from '../locales/en';
+
+export type { MessageKey };
+
+export interface FillerWordList {
+    words: string[];
+    spaced: boolean; // Whether the language separates words with spaces. Pace is measured in characters otherwise.
+}
+
+// One language, for both the UI and the interview. Adding a file to locales/ is all it takes to add a language.
+export interface LocaleCatalog {
+    code: string; // BCP 47 language tag
+    name: string; // The language's name in itself
+    interviewLanguage: string; // The English name passed to the model
+    dir: 'ltr' | 'rtl';
+    welcome: (name: string, company: string) => string; // Spoken before the interview; name and company may be empty
+    fillerWords: FillerWordList;
+    messages: Record<MessageKey, string>;
+}
+
+export const DEFAULT_UI_LANGUAGE = 'en';
+const UI_LANGUAGE_STORAGE_KEY = 'uiLanguage';
+
+// Every catalog in locales/, with the default language first.
+export const locales: LocaleCatalog[] = Object.values(import.meta.glob<LocaleCatalog>('../locales/*.ts', { eager: true, import: 'default' }))
+    .sort((a, b) => Number(b.code === DEFAULT_UI_LANGUAGE) - Number(a.code === DEFAULT_UI_LANGUAGE));
+
+const defaultLocale = locales.find(locale => locale.code === DEFAULT_UI_LANGUAGE)!;
+
+const findLocale = (code: string | null | undefined): LocaleCatalog | undefined =>
+    code ? locales.find(locale => locale.code === code.toLowerCase().split('-')[0]) : undefined;
+
+// The catalog for an interview language, e.g. 'Spanish'. Unknown languages fall back to English.
+export const localeForInterviewLanguage = (language: string): LocaleCatalog =>
+    locales.find(locale => locale.interviewLanguage === language) ?? defaultLocale;
+
+// A saved choice wins, then the browser's preferred languages.
+const detectUiLocale = (): LocaleCatalog => {
+    if (typeof window === 'undefined') return defaultLocale;
+    try {
+        const saved = findLocale(window.localStorage.getItem(UI_LANGUAGE_STORAGE_KEY));
+        if (saved) return saved;
+    } catch (err) {
+        console.warn('Could not read the saved display language:', err);
+    }
+    for (const language of navigator.languages ?? [navigator.language]) {
+        const match = findLocale(language);
+        if (match) return match;
+    }
+    return defaultLocale;
+};
+
+const applyToDocument = (locale: LocaleCatalog) => {
+    if (typeof document === 'undefined') return;
+    document.documentElement.lang = locale.code;
+    document.documentElement.dir = locale.dir;
+};
+
+let uiLocale = detectUiLocale();
+applyToDocument(uiLocale);
+const listeners = new Set<() => void>();
+
+export const getUiLocale = (): LocaleCatalog => uiLocale;
+
+export const setUiLanguage = (code: string) => {
+    const locale = findLocale(code);
+    if (!locale || locale === uiLocale) return;
+    uiLocale = locale;
+    applyToDocument(locale);
+    try {
+        window.localStorage.setItem(UI_LANGUAGE_STORAGE_KEY, locale.code);
+    } catch (err) {
+        console.warn('Could not save the display language:', err);
+    }
+    listeners.forEach(listener => listener());
+};
+
+// Looks up a UI message in the current display language and fills in its {placeholders}.
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+    (uiLocale.messages[key] ?? defaultLocale.messages[key]).replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+
+export type Translate = typeof t;
+
+// The locale to format dates in: the browser's own regional variant when it matches the display language.
+export const getFormattingLocale = (): string =>
+    typeof navigator !== 'undefined' && findLocale(navigator.language) === uiLocale ? navigator.language : uiLocale.code;
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Re-renders the calling component whenever the display language changes.
+export const useI18n = () => {
+    const locale = useSyncExternalStore(subscribe, getUiLocale);
+    return { t, locale };
+};
@@ -0,0 +1,4 @@
+import { locales } from './i18n';
+
+// Languages the interview can be conducted in, one per locale catalog. `value` is the name passed to the model.
+export const languageOptions = locales.map(locale => ({ value: locale.interviewLanguage, label: locale.name }));
@@ -0,0 +1,57 @@
+/// <reference types="vite/client" />
+import captureWorkletUrl from './captureWorklet.ts?worker&url';
+import { INPUT_SAMPLE_RATE, VadCalibration } from './audio';
+import type { CaptureProcessorOptions } from './captureWorklet';
+
+// Captures microphone audio with an AudioWorklet. The context can run at any
+// sample rate: the worklet resamples to 16 kHz and does the voice activity
+// detection, so the main thread only forwards finished chunks.
+
+const CHUNK_MS = 100;
+
+export interface CaptureChunk {
+    pcm: Int16Array; // 16-bit PCM at INPUT_SAMPLE_RATE
+    rms: number;
+    speech: boolean;
+    silenceMs: number; // How long the input has been silent, 0 while speaking
+    threshold: number; // The adaptive speech threshold the chunk was judged against
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export class MicrophoneCapture {
+    private constructor(private readonly node: AudioWorkletNode) {}
+
+    static async create(ctx: AudioContext, calibration: VadCalibration, onChunk: (chunk: CaptureChunk) => void): Promise<MicrophoneCapture> {
+        if (!loadedContexts.has(ctx)) {
+            await ctx.audioWorklet.addModule(captureWorkletUrl);
+            loadedContexts.add(ctx);
+        }
+        const processorOptions: CaptureProcessorOptions = { targetSampleRate: INPUT_SAMPLE_RATE, chunkMs: CHUNK_MS, calibration };
+        const node = new AudioWorkletNode(ctx, 'capture-processor', {
+            numberOfInputs: 1,
+            numberOfOutputs: 1,
+            channelCount: 1,
+            channelCountMode: 'explicit',
+            processorOptions,
+        });
+        node.port.onmessage = (event: MessageEvent<CaptureChunk>) => onChunk(event.data);
+        // Some browsers only run nodes that are connected to the destination; the output is silent.
+        node.connect(ctx.destination);
+        return new MicrophoneCapture(node);
+    }
+
+    // The node to connect the microphone to.
+    get input(): AudioNode {
+        return this.node;
+    }
+
+    recalibrate(calibration: VadCalibration) {
+        this.node.port.postMessage({ calibration });
+    }
+
+    disconnect() {
+        this.node.port.onmessage = null;
+        this.node.disconnect();
+    }
+}
@@ -0,0 +1,39 @@
+import { InterviewerPersona, Panelist } from "../types";
+
+export const MIN_PANEL_SIZE = 2;
+export const MAX_PANEL_SIZE = 3;
+
+export const PASS_TO_PANELIST = 'passToPanelist';
+
+export const DEFAULT_PANEL: Panelist[] = [
+    { name: 'Maya', role: 'Hiring Manager', voice: 'Kore', focus: 'Motivation, collaboration and leadership' },
+    { name: 'Sam', role: 'Tech Lead', voice: 'Puck', focus: 'Technical depth and problem solving' },
+];
+
+// Used when a panelist is added beyond the default panel.
+export const EXTRA_PANELIST: Panelist = { name: 'Priya', role: 'Peer Interviewer', voice: 'Aoede', focus: 'Day-to-day teamwork and communication' };
+
+export const findPanelist = (panel: Panelist[], name: unknown): Panelist | undefined =>
+    typeof name === 'string' ? panel.find(p => p.name.trim().toLowerCase() === name.trim().toLowerCase()) : undefined;
+
+// The persona a panelist speaks with: their own name and voice, with the panel's shared tone, difficulty and company.
+export const personaForPanelist = (persona: InterviewerPersona, panelist: Panelist): InterviewerPersona => ({
+    ...persona,
+    name: panelist.name,
+    voice: panelist.voice,
+});
+
+// Checks a hand-over call from the interviewer. Returns an error message to send back to the model, or null if it is valid.
+export const validateHandover = (panel: Panelist[], active: Panelist, args: Record<string, unknown> | undefined): string | null => {
+    const next = findPanelist(panel, args?.name);
+    if (!next) return `Unknown panelist "${args?.name}". The panel is: ${panel.map(p => p.name).join(', ')}.`;
+    if (next.name === active.name) return `You are already ${active.name}.`;
+    return null;
+};
+
+// Fills in blank names and roles, and makes names unique, so every panelist can be told apart in the transcript.
+export const normalizePanel = (panel: Panelist[]): Panelist[] => panel.reduce<Panelist[]>((result, panelist, i) => {
+    let name = panelist.name.trim() || `Panelist ${i + 1}`;
+    if (findPanelist(result, name)) name = `${name} ${i + 1}`;
+    return [...result, { ...panelist, name, role: panelist.role.trim() || 'Interviewer', focus: panelist.focus.trim() }];
+}, []);
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+    it.each([
+        ['nothing yet', '', undefined],
+        ['an opened object', '{', {}],
+        ['a complete document', '{"a": {"b": [true, null]}}', { a: { b: [true, null] } }],
+        ['a value without its closing brace', '{"a": 1', { a: 1 }],
+        ['a truncated string', '{"a": "hel', { a: 'hel' }],
+        ['a string cut after an escape character', '{"a": "x\\', { a: 'x' }],
+        ['an escaped quote inside a string', '{"a": "say \\"hi', { a: 'say "hi' }],
+        ['brackets and commas inside a string', '{"a": "x, {y', { a: 'x, {y' }],
+        ['nested arrays', '{"a": [1, [2, 3', { a: [1, [2, 3]] }],
+        ['a trailing comma', '{"a": [1, 2,', { a: [1, 2] }],
+        ['an incomplete key', '{"a": 1, "b', { a: 1 }],
+        ['a key without its value', '{"a": 1, "b":', { a: 1 }],
+        ['an incomplete literal', '{"a": 1, "b": nul', { a: 1 }],
+        ['an incomplete number', '{"a": 1, "b": 2.', { a: 1 }],
+        ['an object opened inside an array', '[{"x": 1}, {"y"', [{ x: 1 }, {}]],
+    ])('parses %s', (_name, text, expected) => {
+        expect(parsePartialJson(text)).toEqual(expected);
+    });
+
+    it('gives the same result as JSON.parse for every prefix that is valid JSON', () => {
+        const text = JSON.stringify({ competencies: [{ competency: 'Communication', score: 4, evidence: ['a "quote", here'] }], narrative: '## Strengths\n- Clear' });
+        for (let end = 1; end <= text.length; end++) {
+            const prefix = text.slice(0, end);
+            let complete: unknown;
+            try {
+                complete = JSON.parse(prefix);
+            } catch {
+                continue;
+            }
+            expect(parsePartialJson(prefix)).toEqual(complete);
+        }
+        expect(parsePartialJson(text)).toEqual(JSON.parse(text));
+    });
+
+    it('never throws on any prefix of a document', () => {
+        const text = JSON.stringify({ a: [1, { b: 'c\\"d' }, [[]]], e: null, f: -1.5e3 });
+        for (let end = 0; end <= text.length; end++) expect(() => parsePartialJson(text.slice(0, end))).not.toThrow();
+    });
+});
@@ -0,0 +1,44 @@
+interface CutPoint {
+    end: number; // Where the prefix ends
+    closing: string; // Brackets that close everything open at that point
+}
+
+// Parses a truncated JSON document, such as a response that is still streaming in, by closing
+// whatever is open. An incomplete trailing key or value is dropped. Returns undefined until
+// enough has arrived to parse.
+export const parsePartialJson = (text: string): unknown => {
+    const closers: string[] = [];
+    const cutPoints: CutPoint[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            closers.push(char === '{' ? '}' : ']');
+            cutPoints.push({ end: i + 1, closing: [...closers].reverse().join('') });
+        } else if (char === '}' || char === ']') {
+            closers.pop();
+        } else if (char === ',') {
+            cutPoints.push({ end: i, closing: [...closers].reverse().join('') });
+        }
+    }
+
+    // An open string is closed where it stands, minus a dangling escape character.
+    const whole = inString ? `${escaped ? text.slice(0, -1) : text}"` : text;
+    const candidates = [whole + [...closers].reverse().join(''), ...cutPoints.reverse().map(({ end, closing }) => text.slice(0, end) + closing)];
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // Back off to the previous complete value
+        }
+    }
+    return undefined;
+};
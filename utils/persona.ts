@@ -0,0 +1,35 @@
+import { DifficultyLevel, InterviewerPersona, InterviewTone } from "../types";
+import { MessageKey } from "./i18n";
+
+// The prebuilt voices offered for the interviewer, with the style Gemini describes them by.
+export const PREBUILT_VOICES: { name: string; styleKey: MessageKey }[] = [
+    { name: 'Kore', styleKey: 'voiceStyle.firm' },
+    { name: 'Puck', styleKey: 'voiceStyle.upbeat' },
+    { name: 'Charon', styleKey: 'voiceStyle.informative' },
+    { name: 'Fenrir', styleKey: 'voiceStyle.excitable' },
+    { name: 'Aoede', styleKey: 'voiceStyle.breezy' },
+    { name: 'Leda', styleKey: 'voiceStyle.youthful' },
+    { name: 'Orus', styleKey: 'voiceStyle.firm' },
+    { name: 'Zephyr', styleKey: 'voiceStyle.bright' },
+];
+
+export const DEFAULT_PERSONA: InterviewerPersona = {
+    voice: 'Kore',
+    tone: 'neutral',
+    difficulty: 'mid',
+    name: '',
+    company: '',
+};
+
+export const toneOptions: { value: InterviewTone; labelKey: MessageKey }[] = [
+    { value: 'friendly', labelKey: 'tone.friendly' },
+    { value: 'neutral', labelKey: 'tone.neutral' },
+    { value: 'high-pressure', labelKey: 'tone.high-pressure' },
+];
+
+export const difficultyOptions: { value: DifficultyLevel; labelKey: MessageKey }[] = [
+    { value: 'junior', labelKey: 'difficulty.junior' },
+    { value: 'mid', labelKey: 'difficulty.mid' },
+    { value: 'senior', labelKey: 'difficulty.senior' },
+    { value: 'executive', labelKey: 'difficulty.executive' },
+];
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ADVANCE_SECTION,
+    applyPlanToolCall,
+    DEFAULT_MAX_FOLLOW_UPS,
+    DEFAULT_SECTION_MINUTES,
+    emptyPlanProgress,
+    formatQuestionPlanText,
+    getPlanDurationMinutes,
+    getPlanQuestionCount,
+    getSkippedQuestions,
+    MARK_QUESTION_ASKED,
+    parseQuestionPlan,
+    QUESTION_PLAN_PLACEHOLDER,
+    validatePlanToolCall,
+} from './questionPlan';
+
+const plan = parseQuestionPlan(`# Background (5 min)
+- Walk me through your career so far. (1 follow-up)
+- Why are you looking for a new role?
+# Technical depth (15 min)
+1. Describe a system you built. (3 follow-ups)`)!;
+
+describe('parseQuestionPlan', () => {
+    it('reads sections, questions and their limits', () => {
+        expect(plan).toEqual({
+            sections: [
+                {
+                    id: 's1', title: 'Background', timeBudgetMinutes: 5, questions: [
+                        { id: 's1q1', text: 'Walk me through your career so far.', maxFollowUps: 1 },
+                        { id: 's1q2', text: 'Why are you looking for a new role?', maxFollowUps: DEFAULT_MAX_FOLLOW_UPS },
+                    ],
+                },
+                { id: 's2', title: 'Technical depth', timeBudgetMinutes: 15, questions: [{ id: 's2q1', text: 'Describe a system you built.', maxFollowUps: 3 }] },
+            ],
+        });
+    });
+
+    it('puts questions before any heading into a default section', () => {
+        const parsed = parseQuestionPlan('Tell me about yourself.\n\n- What motivates you?')!;
+        expect(parsed.sections).toHaveLength(1);
+        expect(parsed.sections[0]).toMatchObject({ title: 'Questions', timeBudgetMinutes: DEFAULT_SECTION_MINUTES });
+        expect(parsed.sections[0].questions.map(q => q.text)).toEqual(['Tell me about yourself.', 'What motivates you?']);
+    });
+
+    it('drops sections without questions and returns null when there are none', () => {
+        expect(parseQuestionPlan('# Empty (5 min)\n# Real\n- Question?')!.sections.map(s => s.title)).toEqual(['Real']);
+        expect(parseQuestionPlan('# Only a heading')).toBeNull();
+        expect(parseQuestionPlan('   \n')).toBeNull();
+    });
+
+    it('survives a round trip through the text format', () => {
+        expect(parseQuestionPlan(formatQuestionPlanText(plan))).toEqual(plan);
+        expect(formatQuestionPlanText(parseQuestionPlan(QUESTION_PLAN_PLACEHOLDER))).toBe(QUESTION_PLAN_PLACEHOLDER);
+        expect(formatQuestionPlanText(null)).toBe('');
+    });
+
+    it('totals questions and time', () => {
+        expect(getPlanQuestionCount(plan)).toBe(3);
+        expect(getPlanDurationMinutes(plan)).toBe(20);
+    });
+});
+
+describe('plan tool calls', () => {
+    it('accepts calls for questions and sections in the plan', () => {
+        expect(validatePlanToolCall(plan, MARK_QUESTION_ASKED, { questionId: 's2q1' })).toBeNull();
+        expect(validatePlanToolCall(plan, ADVANCE_SECTION, { sectionId: 's2' })).toBeNull();
+    });
+
+    it('explains what is wrong with other calls', () => {
+        expect(validatePlanToolCall(plan, MARK_QUESTION_ASKED, { questionId: 's9q9' })).toBe('Unknown questionId "s9q9".');
+        expect(validatePlanToolCall(plan, ADVANCE_SECTION, {})).toBe('Unknown sectionId "undefined".');
+        expect(validatePlanToolCall(plan, 'skipAhead', {})).toBe('Unknown function "skipAhead".');
+    });
+
+    it('records asked questions once and moves to their section', () => {
+        let progress = applyPlanToolCall(plan, emptyPlanProgress, MARK_QUESTION_ASKED, { questionId: 's1q1' });
+        progress = applyPlanToolCall(plan, progress, MARK_QUESTION_ASKED, { questionId: 's1q1' });
+        expect(progress).toEqual({ currentSectionId: 's1', askedQuestionIds: ['s1q1'] });
+
+        progress = applyPlanToolCall(plan, progress, MARK_QUESTION_ASKED, { questionId: 's2q1' });
+        expect(progress).toEqual({ currentSectionId: 's2', askedQuestionIds: ['s1q1', 's2q1'] });
+    });
+
+    it('advances sections without marking questions', () => {
+        expect(applyPlanToolCall(plan, emptyPlanProgress, ADVANCE_SECTION, { sectionId: 's2' })).toEqual({ currentSectionId: 's2', askedQuestionIds: [] });
+    });
+
+    it('leaves the progress unchanged for invalid calls', () => {
+        const progress = { currentSectionId: 's1', askedQuestionIds: ['s1q1'] };
+        expect(applyPlanToolCall(plan, progress, MARK_QUESTION_ASKED, { questionId: 'nope' })).toBe(progress);
+        expect(applyPlanToolCall(plan, progress, 'unknown', undefined)).toBe(progress);
+    });
+
+    it('lists the questions that were never asked', () => {
+        expect(getSkippedQuestions(plan, { currentSectionId: 's2', askedQuestionIds: ['s1q1', 's2q1'] }))
+            .toEqual([{ section: 'Background', question: 'Why are you looking for a new role?' }]);
+        expect(getSkippedQuestions(plan, emptyPlanProgress)).toHaveLength(3);
+    });
+});
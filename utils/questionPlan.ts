@@ -0,0 +1,113 @@
+import { PlanProgress, PlanQuestion, PlanSection, QuestionPlan } from "../types";
+
+// Question plans are written as plain text, one line per section or question:
+//
+//   # Background (5 min)
+//   - Walk me through your career so far. (1 follow-up)
+//   - Why are you looking for a new role?
+//
+// Time budgets and follow-up limits are optional.
+
+export const DEFAULT_SECTION_MINUTES = 5;
+export const DEFAULT_MAX_FOLLOW_UPS = 2;
+
+export const MARK_QUESTION_ASKED = 'markQuestionAsked';
+export const ADVANCE_SECTION = 'advanceSection';
+
+export const QUESTION_PLAN_PLACEHOLDER = `# Background (5 min)
+- Walk me through your career so far. (1 follow-up)
+# Technical depth (15 min)
+- Describe the architecture of a system you built. (3 follow-ups)`;
+
+export const emptyPlanProgress: PlanProgress = { currentSectionId: null, askedQuestionIds: [] };
+
+const SECTION_PATTERN = /^#+\s*(.*?)\s*(?:\((\d+)\s*min(?:utes?)?\))?$/i;
+const QUESTION_PATTERN = /^(?:[-*]|\d+[.)])\s*(.*?)\s*(?:\((\d+)\s*follow-?ups?\))?$/i;
+
+// Returns null when the text contains no questions.
+export const parseQuestionPlan = (text: string): QuestionPlan | null => {
+    const sections: PlanSection[] = [];
+    const startSection = (title: string, minutes?: string) => {
+        const id = `s${sections.length + 1}`;
+        sections.push({ id, title: title || `Section ${sections.length + 1}`, timeBudgetMinutes: minutes ? parseInt(minutes, 10) : DEFAULT_SECTION_MINUTES, questions: [] });
+    };
+
+    text.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+        const sectionMatch = line.match(SECTION_PATTERN);
+        if (sectionMatch) {
+            startSection(sectionMatch[1], sectionMatch[2]);
+            return;
+        }
+        const questionMatch = line.match(QUESTION_PATTERN);
+        const questionText = questionMatch ? questionMatch[1] : line;
+        if (!questionText) return;
+        if (sections.length === 0) startSection('Questions');
+        const section = sections[sections.length - 1];
+        section.questions.push({
+            id: `${section.id}q${section.questions.length + 1}`,
+            text: questionText,
+            maxFollowUps: questionMatch?.[2] ? parseInt(questionMatch[2], 10) : DEFAULT_MAX_FOLLOW_UPS,
+        });
+    });
+
+    const nonEmpty = sections.filter(section => section.questions.length > 0);
+    return nonEmpty.length ? { sections: nonEmpty } : null;
+};
+
+// Turns a plan back into the editable text format.
+export const formatQuestionPlanText = (plan: QuestionPlan | null | undefined): string => {
+    if (!plan) return '';
+    return plan.sections.map(section => [
+        `# ${section.title} (${section.timeBudgetMinutes} min)`,
+        ...section.questions.map(q => `- ${q.text} (${q.maxFollowUps} follow-up${q.maxFollowUps === 1 ? '' : 's'})`),
+    ].join('\n')).join('\n');
+};
+
+export const getPlanQuestionCount = (plan: QuestionPlan): number =>
+    plan.sections.reduce((count, section) => count + section.questions.length, 0);
+
+export const getPlanDurationMinutes = (plan: QuestionPlan): number =>
+    plan.sections.reduce((total, section) => total + section.timeBudgetMinutes, 0);
+
+const findQuestion = (plan: QuestionPlan, questionId: string): { section: PlanSection; question: PlanQuestion } | null => {
+    for (const section of plan.sections) {
+        const question = section.questions.find(q => q.id === questionId);
+        if (question) return { section, question };
+    }
+    return null;
+};
+
+// Checks a tool call from the interviewer. Returns an error message to send back to the model, or null if it is valid.
+export const validatePlanToolCall = (plan: QuestionPlan, name: string | undefined, args: Record<string, unknown> | undefined): string | null => {
+    if (name === MARK_QUESTION_ASKED) {
+        return findQuestion(plan, String(args?.questionId)) ? null : `Unknown questionId "${args?.questionId}".`;
+    }
+    if (name === ADVANCE_SECTION) {
+        return plan.sections.some(s => s.id === String(args?.sectionId)) ? null : `Unknown sectionId "${args?.sectionId}".`;
+    }
+    return `Unknown function "${name}".`;
+};
+
+// Applies a tool call to the progress. Invalid calls leave the progress unchanged.
+export const applyPlanToolCall = (plan: QuestionPlan, progress: PlanProgress, name: string | undefined, args: Record<string, unknown> | undefined): PlanProgress => {
+    if (validatePlanToolCall(plan, name, args)) return progress;
+    if (name === ADVANCE_SECTION) {
+        return { ...progress, currentSectionId: String(args?.sectionId) };
+    }
+    const questionId = String(args?.questionId);
+    const { section } = findQuestion(plan, questionId)!;
+    return {
+        currentSectionId: section.id,
+        askedQuestionIds: progress.askedQuestionIds.includes(questionId) ? progress.askedQuestionIds : [...progress.askedQuestionIds, questionId],
+    };
+};
+
+export interface SkippedQuestion {
+    section: string;
+    question: string;
+}
+
+export const getSkippedQuestions = (plan: QuestionPlan, progress: PlanProgress): SkippedQuestion[] =>
+    plan.sections.flatMap(section => section.questions
+        .filter(q => !progress.askedQuestionIds.includes(q.id))
+        .map(q => ({ section: section.title, question: q.text })));
@@ -0,0 +1,48 @@
+// Records everything routed into it (interviewer playback and the candidate's
+// microphone) into a single compressed audio file, and maps AudioContext
+// times onto offsets within that recording.
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export class InterviewRecorder {
+    private readonly destination: MediaStreamAudioDestinationNode;
+    private readonly mediaRecorder: MediaRecorder;
+    private readonly chunks: Blob[] = [];
+    private startTime = 0;
+
+    constructor(private readonly ctx: AudioContext) {
+        this.destination = ctx.createMediaStreamDestination();
+        const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+        this.mediaRecorder = new MediaRecorder(this.destination.stream, mimeType ? { mimeType } : undefined);
+        this.mediaRecorder.ondataavailable = (event) => {
+            if (event.data.size > 0) this.chunks.push(event.data);
+        };
+    }
+
+    // The node to connect sources to in order to have them recorded.
+    get input(): AudioNode {
+        return this.destination;
+    }
+
+    start() {
+        this.startTime = this.ctx.currentTime;
+        this.mediaRecorder.start(1000);
+    }
+
+    // Offset in milliseconds of the given AudioContext time (default: now) from the start of the recording.
+    offsetMs(contextTime: number = this.ctx.currentTime): number {
+        return Math.max(0, Math.round((contextTime - this.startTime) * 1000));
+    }
+
+    stop(): Promise<Blob | null> {
+        if (this.mediaRecorder.state === 'inactive') {
+            return Promise.resolve(this.chunks.length ? new Blob(this.chunks, { type: this.mediaRecorder.mimeType }) : null);
+        }
+        return new Promise(resolve => {
+            this.mediaRecorder.onstop = () => {
+                resolve(this.chunks.length ? new Blob(this.chunks, { type: this.mediaRecorder.mimeType }) : null);
+            };
+            this.mediaRecorder.stop();
+        });
+    }
+}
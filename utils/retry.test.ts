@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { retryWithBackoff } from './retry';
+
+const httpError = (status: number) => Object.assign(new Error(`Request failed with status ${status}`), { status });
+
+// Fails with each error in turn, then succeeds.
+const failingTask = (...errors: unknown[]) => vi.fn(async () => {
+    const error = errors.shift();
+    if (error) throw error;
+    return 'done';
+});
+
+describe('retryWithBackoff', () => {
+    it('retries transient failures until the task succeeds', async () => {
+        const task = failingTask(httpError(503), httpError(429));
+        const onRetry = vi.fn();
+        await expect(retryWithBackoff(task, { attempts: 3, baseDelayMs: 1, onRetry })).resolves.toBe('done');
+        expect(task).toHaveBeenCalledTimes(3);
+        expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+    });
+
+    it('does not retry errors that will not clear up on their own', async () => {
+        const error = httpError(401);
+        const task = failingTask(error);
+        await expect(retryWithBackoff(task, { attempts: 3, baseDelayMs: 1 })).rejects.toBe(error);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after the last attempt', async () => {
+        const last = httpError(503);
+        const task = failingTask(httpError(503), last, httpError(503));
+        await expect(retryWithBackoff(task, { attempts: 2, baseDelayMs: 1 })).rejects.toBe(last);
+        expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops waiting to retry when the signal aborts', async () => {
+        const controller = new AbortController();
+        const task = failingTask(httpError(503));
+        const result = retryWithBackoff(task, { attempts: 3, baseDelayMs: 60000, signal: controller.signal, onRetry: () => controller.abort() });
+        await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not start once the signal has aborted', async () => {
+        const task = failingTask();
+        await expect(retryWithBackoff(task, { attempts: 3, baseDelayMs: 1, signal: AbortSignal.abort() })).rejects.toMatchObject({ name: 'AbortError' });
+        expect(task).not.toHaveBeenCalled();
+    });
+});
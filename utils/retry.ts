@@ -0,0 +1,41 @@
+import { isTransientError } from './error';
+
+export interface RetryOptions {
+    attempts: number; // Including the first
+    baseDelayMs: number; // Doubles with each retry
+    signal?: AbortSignal; // Stops retrying; the promise then rejects with the signal's reason
+    onRetry?: (attempt: number, error: unknown) => void; // Called before waiting for the next attempt
+}
+
+// Waits out the backoff, unless the signal aborts first.
+const wait = (delayMs: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `task`, retrying transient failures with exponential backoff. Anything else is thrown at once.
+export const retryWithBackoff = async <T>(task: () => Promise<T>, { attempts, baseDelayMs, signal, onRetry }: RetryOptions): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return await task();
+        } catch (err) {
+            if (attempt >= attempts || signal?.aborted || !isTransientError(err)) throw err;
+            onRetry?.(attempt, err);
+            // Jitter keeps clients that failed together from retrying together.
+            const delayMs = baseDelayMs * 2 ** (attempt - 1);
+            await wait(delayMs / 2 + Math.random() * delayMs / 2, signal);
+        }
+    }
+};
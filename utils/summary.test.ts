@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptEntry } from '../types';
+import { parseInterviewSummary, parsePartialSummary } from './summary';
+
+const transcript: TranscriptEntry[] = [
+    { speaker: 'Interviewer', text: 'Tell me about a hard problem you solved.' },
+    { speaker: 'You', text: 'I traced a memory leak to a cache that never evicted entries.' },
+];
+
+const parse = (data: unknown) => parseInterviewSummary(JSON.stringify(data), transcript);
+
+describe('parseInterviewSummary', () => {
+    it('leaves competencies without a score unscored', () => {
+        const summary = parse({ competencies: [{ competency: 'Problem Solving', score: 4, rationale: 'Clear', evidence: [] }, { competency: 'Leadership', score: null }] });
+        expect(summary.competencies.find(c => c.competency === 'Problem Solving')?.score).toBe(4);
+        expect(summary.competencies.find(c => c.competency === 'Leadership')?.score).toBeNull();
+        expect(summary.competencies.find(c => c.competency === 'Communication')?.score).toBeNull();
+    });
+
+    it('averages the scored competencies when the overall score is missing', () => {
+        const summary = parse({ competencies: [{ competency: 'Communication', score: 4 }, { competency: 'Role Fit', score: 2 }] });
+        expect(summary.overallScore).toBe(3);
+    });
+
+    it('leaves the overall score unscored when no competency was scored', () => {
+        expect(parse({ competencies: [{ competency: 'Leadership', score: null }] }).overallScore).toBeNull();
+        expect(parse({ overallScore: null, competencies: [] }).overallScore).toBeNull();
+    });
+
+    it('keeps only evidence the candidate actually said', () => {
+        const summary = parse({ competencies: [{ competency: 'Problem Solving', score: 4, evidence: ['a memory leak', 'I rewrote the compiler', '...'] }] });
+        expect(summary.competencies.find(c => c.competency === 'Problem Solving')?.evidence).toEqual(['a memory leak']);
+    });
+});
+
+describe('parsePartialSummary', () => {
+    const response = JSON.stringify({
+        competencies: [
+            { competency: 'Problem Solving', score: 4, rationale: 'Found the leak', evidence: ['a memory leak'] },
+            { competency: 'Leadership', score: null, rationale: 'Did not come up', evidence: [] },
+        ],
+        overallScore: 4,
+        recommendation: 'HIRE',
+        narrative: 'Strong debugging.',
+    });
+    const partial = (fraction: number) => parsePartialSummary(response.slice(0, Math.floor(response.length * fraction)), transcript);
+
+    it('shows nothing before the first competency has a score', () => {
+        expect(parsePartialSummary('{"competencies": [{"competency": "Problem Solving", "sco', transcript).competencies).toEqual([]);
+    });
+
+    it('shows competencies as they arrive, including unscored ones', () => {
+        const cutAfterLeadership = response.indexOf('"rationale":"Did not');
+        const { competencies, overallScore } = parsePartialSummary(response.slice(0, cutAfterLeadership), transcript);
+        expect(competencies.map(c => [c.competency, c.score])).toEqual([['Problem Solving', 4], ['Leadership', null]]);
+        expect(overallScore).toBeUndefined();
+    });
+
+    it('fills in later fields as they stream in and matches the full parse at the end', () => {
+        expect(partial(0.9).recommendation).toBe('HIRE');
+        const complete = partial(1);
+        expect(complete.overallScore).toBe(4);
+        expect(complete.narrative).toBe('Strong debugging.');
+        expect(complete.competencies).toEqual(parseInterviewSummary(response, transcript).competencies.filter(c => c.competency === 'Problem Solving' || c.competency === 'Leadership'));
+    });
+
+    it('does not show a recommendation that is still being written', () => {
+        expect(parsePartialSummary('{"competencies": [], "recommendation": "LEAN_', transcript).recommendation).toBeUndefined();
+    });
+});
@@ -0,0 +1,140 @@
+import { CompetencyScore, FeedbackEmphasis, HiringRecommendation, InterviewSession, InterviewSummary, Panelist, PanelistFeedback, SummaryVersion, TranscriptEntry } from "../types";
+import { MessageKey } from "./i18n";
+import { findPanelist } from "./panel";
+import { parsePartialJson } from "./partialJson";
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+
+// The competencies every summary is scored on, in display order.
+export const SUMMARY_COMPETENCIES = [
+    'Communication',
+    'Problem Solving',
+    'Role Fit',
+    'Leadership',
+    'Self-Awareness',
+];
+
+export const HIRING_RECOMMENDATIONS: HiringRecommendation[] = ['STRONG_HIRE', 'HIRE', 'LEAN_HIRE', 'LEAN_NO_HIRE', 'NO_HIRE'];
+
+export const emphasisOptions: { value: FeedbackEmphasis; labelKey: MessageKey }[] = [
+    { value: 'balanced', labelKey: 'emphasis.balanced' },
+    { value: 'technical', labelKey: 'emphasis.technical' },
+    { value: 'communication', labelKey: 'emphasis.communication' },
+    { value: 'leadership', labelKey: 'emphasis.leadership' },
+];
+
+// Parses a score from the model, rounded to one decimal and kept within range.
+export const clampScore = (value: unknown): number => {
+    const score = typeof value === 'number' ? value : parseFloat(String(value));
+    if (Number.isNaN(score)) return MIN_SCORE;
+    return Math.min(MAX_SCORE, Math.max(MIN_SCORE, Math.round(score * 10) / 10));
+};
+
+// Like clampScore, but a missing or unreadable score stays unscored rather than becoming the lowest score.
+const parseOptionalScore = (value: unknown): number | null => {
+    const score = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isNaN(score) ? null : clampScore(score);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const normalizeText = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Keeps only evidence quotes that actually appear in something the candidate said.
+const filterEvidence = (quotes: unknown, transcript: TranscriptEntry[]): string[] => {
+    if (!Array.isArray(quotes)) return [];
+    const candidateText = normalizeText(transcript.filter(entry => entry.speaker === 'You').map(entry => entry.text).join(' '));
+    return quotes
+        .filter((quote): quote is string => typeof quote === 'string' && quote.trim() !== '')
+        .map(quote => quote.trim())
+        // Quotes of nothing but punctuation would match anything.
+        .filter(quote => normalizeText(quote) !== '' && candidateText.includes(normalizeText(quote)));
+};
+
+const parseRecommendation = (value: unknown): HiringRecommendation =>
+    HIRING_RECOMMENDATIONS.includes(value as HiringRecommendation) ? value as HiringRecommendation : 'LEAN_NO_HIRE';
+
+// Keeps one viewpoint per panelist, in panel order, dropping any for names not on the panel.
+const parsePanelistFeedback = (value: unknown, panel: Panelist[]): PanelistFeedback[] => {
+    const entries: any[] = Array.isArray(value) ? value : [];
+    return panel.flatMap(panelist => {
+        const match = entries.find(entry => findPanelist([panelist], entry?.panelist));
+        if (!match || typeof match.viewpoint !== 'string') return [];
+        return [{ panelist: panelist.name, recommendation: parseRecommendation(match.recommendation), viewpoint: match.viewpoint }];
+    });
+};
+
+// Validates a summary returned by the model, filling gaps so the UI can always render it.
+export const parseInterviewSummary = (raw: string, transcript: TranscriptEntry[], panel: Panelist[] = []): InterviewSummary => {
+    const data = JSON.parse(raw);
+    const rawCompetencies: unknown[] = Array.isArray(data?.competencies) ? data.competencies : [];
+
+    const competencies: CompetencyScore[] = SUMMARY_COMPETENCIES.map(name => {
+        const match = rawCompetencies.find((c): c is Record<string, unknown> =>
+            isRecord(c) && typeof c.competency === 'string' && c.competency.toLowerCase() === name.toLowerCase());
+        return {
+            competency: name,
+            score: parseOptionalScore(match?.score),
+            rationale: typeof match?.rationale === 'string' ? match.rationale : '',
+            evidence: filterEvidence(match?.evidence, transcript),
+        };
+    });
+    const scores = competencies.flatMap(c => (c.score === null ? [] : [c.score]));
+
+    const recommendation = parseRecommendation(data?.recommendation);
+    // Without an overall score from the model, it is the average of the scored competencies, if there are any.
+    const averageScore = scores.length ? clampScore(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+
+    return {
+        overallScore: parseOptionalScore(data?.overallScore) ?? averageScore,
+        recommendation,
+        recommendationRationale: typeof data?.recommendationRationale === 'string' ? data.recommendationRationale : '',
+        competencies,
+        narrative: typeof data?.narrative === 'string' ? data.narrative : '',
+        ...(panel.length ? { panelistFeedback: parsePanelistFeedback(data?.panelistFeedback, panel) } : {}),
+    };
+};
+
+// The part of a summary that has streamed in so far. Fields arrive in schema order.
+export interface PartialInterviewSummary {
+    competencies: CompetencyScore[]; // Only those whose score, or lack of one, has arrived
+    overallScore?: number;
+    recommendation?: HiringRecommendation;
+    recommendationRationale?: string;
+    narrative?: string;
+    panelistFeedback: PanelistFeedback[]; // Only complete viewpoints
+}
+
+// Reads whatever can be shown from a summary response that is still streaming in.
+export const parsePartialSummary = (raw: string, transcript: TranscriptEntry[]): PartialInterviewSummary => {
+    const data: any = parsePartialJson(raw);
+    const rawCompetencies: any[] = Array.isArray(data?.competencies) ? data.competencies : [];
+    const rawPanelistFeedback: any[] = Array.isArray(data?.panelistFeedback) ? data.panelistFeedback : [];
+    const isRecommendation = (value: unknown) => HIRING_RECOMMENDATIONS.includes(value as HiringRecommendation);
+
+    return {
+        competencies: rawCompetencies
+            .filter(c => typeof c?.competency === 'string' && (typeof c.score === 'number' || c.score === null))
+            .map(c => ({
+                competency: c.competency,
+                score: c.score === null ? null : clampScore(c.score),
+                rationale: typeof c.rationale === 'string' ? c.rationale : '',
+                evidence: filterEvidence(c.evidence, transcript),
+            })),
+        overallScore: typeof data?.overallScore === 'number' ? clampScore(data.overallScore) : undefined,
+        recommendation: isRecommendation(data?.recommendation) ? data.recommendation : undefined,
+        recommendationRationale: typeof data?.recommendationRationale === 'string' ? data.recommendationRationale : undefined,
+        narrative: typeof data?.narrative === 'string' ? data.narrative : undefined,
+        panelistFeedback: rawPanelistFeedback
+            .filter(entry => typeof entry?.panelist === 'string' && typeof entry.viewpoint === 'string' && isRecommendation(entry.recommendation))
+            .map(entry => ({ panelist: entry.panelist, recommendation: entry.recommendation, viewpoint: entry.viewpoint })),
+    };
+};
+
+// Sessions saved before feedback could be regenerated hold a single summary, which becomes their only version.
+export const getSummaryVersions = (session: InterviewSession): SummaryVersion[] => {
+    if (session.summaryVersions) return session.summaryVersions;
+    if (!session.summary) return [];
+    return [{ id: `${session.id}-summary`, summary: session.summary, language: session.language, emphasis: 'balanced', createdAt: session.endedAt }];
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewTemplate } from '../types';
+import { clampDurationMinutes, MAX_DURATION_MINUTES, MIN_DURATION_MINUTES, parseTemplatesJson, serializeTemplates } from './templates';
+
+const template: InterviewTemplate = {
+    id: 'user-1',
+    name: 'Backend Engineer',
+    description: 'APIs and databases.',
+    script: 'Ask about API design.',
+    language: 'Spanish',
+    durationMinutes: 40,
+    focusAreas: ['APIs', 'Databases'],
+    updatedAt: 1,
+};
+
+describe('parseTemplatesJson', () => {
+    it('reads back an exported file as new user templates', () => {
+        const [imported] = parseTemplatesJson(serializeTemplates([template]));
+        expect(imported).toMatchObject({ name: 'Backend Engineer', description: 'APIs and databases.', script: 'Ask about API design.', language: 'Spanish', durationMinutes: 40, focusAreas: ['APIs', 'Databases'] });
+        expect(imported.id).not.toBe(template.id);
+        expect(imported.id).toMatch(/^user-/);
+        expect(imported.builtIn).toBeUndefined();
+    });
+
+    it.each([
+        ['a bare array', JSON.stringify([{ name: 'A', script: 'x' }, { name: 'B', script: 'y' }]), ['A', 'B']],
+        ['a single template', JSON.stringify({ name: '  Trimmed  ', script: 'x' }), ['Trimmed']],
+    ])('accepts %s', (_, json, names) => {
+        expect(parseTemplatesJson(json).map(t => t.name)).toEqual(names);
+    });
+
+    it('fills in defaults for missing or invalid optional fields', () => {
+        const [imported] = parseTemplatesJson(JSON.stringify({ name: 'A', script: 'x', description: 3, language: 'Klingon', durationMinutes: '45', focusAreas: ['ok', 1] }));
+        expect(imported).toMatchObject({ description: '', language: 'English', durationMinutes: 30, focusAreas: [] });
+    });
+
+    it('rejects a file that is not JSON', () => {
+        expect(() => parseTemplatesJson('{"name": ')).toThrow('The file is not valid JSON.');
+    });
+
+    it.each([
+        ['no name', { script: 'x' }],
+        ['a blank name', { name: '  ', script: 'x' }],
+        ['no script', { name: 'A' }],
+        ['a blank script', { name: 'A', script: ' \n' }],
+        ['a non-string script', { name: 'A', script: ['x'] }],
+    ])('rejects a template with %s', (_, raw) => {
+        expect(() => parseTemplatesJson(JSON.stringify({ templates: [{ name: 'Fine', script: 'x' }, raw] })))
+            .toThrow('Template 2 is missing a name or script.');
+    });
+
+    it.each([['null', 'null'], ['a number', '42'], ['a string', '"template"']])('rejects %s', (_, json) => {
+        expect(() => parseTemplatesJson(json)).toThrow('Template 1 is missing a name or script.');
+    });
+
+    it('rejects a file without templates', () => {
+        expect(() => parseTemplatesJson('[]')).toThrow('The file does not contain any templates.');
+        expect(() => parseTemplatesJson('{"templates": []}')).toThrow('The file does not contain any templates.');
+    });
+});
+
+describe('clampDurationMinutes', () => {
+    it.each([
+        [45.4, 45],
+        [0, MIN_DURATION_MINUTES],
+        [1000, MAX_DURATION_MINUTES],
+        [NaN, 30],
+        ['20', 30],
+    ])('turns %s into %s', (value, minutes) => {
+        expect(clampDurationMinutes(value)).toBe(minutes);
+    });
+});
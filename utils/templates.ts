@@ -0,0 +1,105 @@
+import { InterviewTemplate } from "../types";
+import { languageOptions } from "./languages";
+
+const TEMPLATE_FILE_FORMAT = 'ai-interview-simulator/templates';
+const TEMPLATE_FILE_VERSION = 1;
+
+export const MIN_DURATION_MINUTES = 1;
+export const MAX_DURATION_MINUTES = 120;
+
+const preset = (id: string, name: string, description: string, durationMinutes: number, focusAreas: string[], script: string): InterviewTemplate => ({
+    id: `builtin-${id}`,
+    name,
+    description,
+    script,
+    language: 'English',
+    durationMinutes,
+    focusAreas,
+    builtIn: true,
+    updatedAt: 0,
+});
+
+export const BUILT_IN_TEMPLATES: InterviewTemplate[] = [
+    preset('software-engineer', 'Software Engineer', 'Mid-level backend or full-stack engineering loop.', 45,
+        ['System design', 'Coding practices', 'Debugging', 'Collaboration'],
+        'Conduct a 45-minute interview for a mid-level software engineer. Start with a brief background question, then discuss a system design problem, ask how the candidate approaches debugging production issues, and cover code review and testing practices. Finish with a question about working with product and design partners.'),
+    preset('product-manager', 'Senior Product Manager', 'Strategy, execution and leadership for senior PMs.', 15,
+        ['Product strategy', 'Execution', 'Leadership', 'Metrics'],
+        'Conduct a 15-minute interview for a senior product manager role. Focus on strategy, execution, and leadership. Start by introducing yourself.'),
+    preset('data-analyst', 'Data Analyst', 'SQL, analytics thinking and stakeholder communication.', 30,
+        ['SQL and data modeling', 'Statistics', 'Metric design', 'Stakeholder communication'],
+        'Conduct a 30-minute interview for a data analyst. Ask how the candidate would investigate a sudden drop in a key metric, probe their SQL and statistics knowledge with verbal scenarios, and ask how they present findings to non-technical stakeholders.'),
+    preset('sales', 'Account Executive (Sales)', 'Pipeline, discovery and closing for B2B sales roles.', 30,
+        ['Prospecting', 'Discovery', 'Objection handling', 'Closing'],
+        'Conduct a 30-minute interview for a B2B account executive. Ask about their track record against quota, how they build pipeline, and how they run a discovery call. Include a short role-play where you act as a skeptical buyer raising price objections.'),
+    preset('behavioral', 'Behavioral Only', 'Classic behavioral questions answered in STAR format.', 20,
+        ['Teamwork', 'Conflict resolution', 'Ownership', 'Learning from failure'],
+        'Conduct a 20-minute behavioral interview. Ask one question at a time about teamwork, conflict, ownership and a failure the candidate learned from. Push for specific situations, actions and measurable results, and ask follow-ups when answers stay vague.'),
+    preset('engineering-manager', 'Engineering Manager', 'People management, delivery and technical leadership.', 45,
+        ['People management', 'Delivery', 'Hiring', 'Technical judgment'],
+        'Conduct a 45-minute interview for an engineering manager. Cover how the candidate grows and gives feedback to engineers, handles an underperformer, balances delivery against technical debt, and builds a hiring pipeline.'),
+    preset('ux-designer', 'UX Designer', 'Design process, research and portfolio discussion.', 30,
+        ['Design process', 'User research', 'Collaboration', 'Portfolio'],
+        'Conduct a 30-minute interview for a UX designer. Ask the candidate to walk through a portfolio project end to end, how they ran user research, how they handled disagreement with engineering or product, and how they measured the impact of their design.'),
+    preset('customer-support', 'Customer Support Specialist', 'Empathy, problem solving and de-escalation.', 20,
+        ['Empathy', 'Problem solving', 'De-escalation', 'Written communication'],
+        'Conduct a 20-minute interview for a customer support specialist. Include a role-play where you play a frustrated customer, ask how they prioritize a busy queue, and how they escalate issues they cannot solve.'),
+    preset('new-graduate', 'New Graduate', 'Entry-level interview focused on potential and learning.', 20,
+        ['Motivation', 'Learning ability', 'Academic projects', 'Teamwork'],
+        'Conduct a 20-minute interview for a new graduate. Ask about their most meaningful academic or personal project, what they learned from a group project, why they are interested in this field, and how they pick up unfamiliar skills.'),
+];
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const clampDurationMinutes = (value: unknown): number => {
+    const minutes = typeof value === 'number' ? Math.round(value) : NaN;
+    if (Number.isNaN(minutes)) return 30;
+    return Math.min(MAX_DURATION_MINUTES, Math.max(MIN_DURATION_MINUTES, minutes));
+};
+
+// Parses focus areas typed as a comma-separated list.
+export const parseFocusAreas = (text: string): string[] =>
+    text.split(',').map(area => area.trim()).filter(Boolean);
+
+export const createTemplateId = () => `user-${crypto.randomUUID()}`;
+
+export const serializeTemplates = (templates: InterviewTemplate[]): string => JSON.stringify({
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    templates: templates.map(({ name, description, script, language, durationMinutes, focusAreas }) => ({
+        name, description, script, language, durationMinutes, focusAreas,
+    })),
+}, null, 2);
+
+// Reads templates from an exported file. Imported templates always become new user templates.
+export const parseTemplatesJson = (json: string): InterviewTemplate[] => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    // Accept a full export file, a bare array, or a single template object.
+    const rawTemplates: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.templates) ? data.templates : [data];
+
+    const templates = rawTemplates.map((raw: any, i): InterviewTemplate => {
+        if (typeof raw?.name !== 'string' || !raw.name.trim() || typeof raw?.script !== 'string' || !raw.script.trim()) {
+            throw new Error(`Template ${i + 1} is missing a name or script.`);
+        }
+        return {
+            id: createTemplateId(),
+            name: raw.name.trim(),
+            description: typeof raw.description === 'string' ? raw.description : '',
+            script: raw.script,
+            // A language the app cannot interview in falls back to English.
+            language: languageOptions.some(option => option.value === raw.language) ? raw.language : 'English',
+            durationMinutes: clampDurationMinutes(raw.durationMinutes),
+            focusAreas: isStringArray(raw.focusAreas) ? raw.focusAreas : [],
+            updatedAt: Date.now(),
+        };
+    });
+    if (templates.length === 0) {
+        throw new Error('The file does not contain any templates.');
+    }
+    return templates;
+};